@@ -12,6 +12,7 @@ dotenv.config();
 
 // Import routes
 import authJwtRoutes from './routes/auth-jwt';
+import artifactRoutes from './routes/artifacts';
 import ciRoutes from './routes/ci';
 import commandRoutes from './routes/commands';
 import editorRoutes from './routes/editor';
@@ -24,6 +25,8 @@ import securityRoutes from './routes/security';
 import snapshotsRoutes from './routes/snapshots';
 import systemRoutes from './routes/system';
 import ideRoutes from './routes/ide';
+import gitRoutes from './routes/git';
+import debugRoutes from './routes/debug';
 
 // Import authentication middleware
 import { authenticateToken, requireDeveloper } from './middleware/auth';
@@ -101,6 +104,7 @@ app.use('/v1', authenticateToken, rateLimiter);
 app.use('/api', authenticateToken, requireDeveloper, rateLimiter);
 
 // API routes (all protected by global middleware above)
+app.use('/v1/artifacts', artifactRoutes);
 app.use('/v1/ci', ciRoutes);
 app.use('/v1/commands', commandRoutes);
 app.use('/v1/editor', editorRoutes);
@@ -112,6 +116,8 @@ app.use('/v1/preview', previewRoutes);
 app.use('/v1/security', securityRoutes);
 app.use('/v1/snapshots', snapshotsRoutes);
 app.use('/v1/system', systemRoutes);
+app.use('/api/git', gitRoutes);
+app.use('/api/debug', debugRoutes);
 app.use('/api', ideRoutes); // IDE routes on /api prefix (protected by developer role)
 
 // 404 handler
@@ -6,6 +6,7 @@
 import { body, param, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { isValidCidr } from '../utils/cidr';
 
 /**
  * Middleware to handle validation results
@@ -294,8 +295,8 @@ export const validateCodeExecution = [
   body('language')
     .exists()
     .withMessage('Language is required')
-    .isIn(['javascript', 'typescript'])
-    .withMessage('Language must be javascript or typescript'),
+    .isIn(['javascript', 'typescript', 'python', 'java', 'cpp', 'c', 'go', 'rust'])
+    .withMessage('Language must be one of javascript, typescript, python, java, cpp, c, go, rust'),
   
   body('timeout')
     .optional()
@@ -307,6 +308,33 @@ export const validateCodeExecution = [
     .isInt({ min: 64, max: 2048 })
     .withMessage('Memory limit must be between 64MB and 2GB'),
   
+  body('input')
+    .optional()
+    .isString()
+    .isLength({ max: 100000 })
+    .withMessage('Input must be a string of at most 100,000 characters'),
+  
+  body('typeCheck')
+    .optional()
+    .isBoolean()
+    .withMessage('typeCheck must be a boolean'),
+  
+  body('workingDirectory')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .custom((value: string) => !value.split(/[\\/]/).includes('..') && !value.includes('~'))
+    .withMessage('workingDirectory must be a workspace-relative directory'),
+  
+  handleValidationErrors,
+];
+
+export const validateExecutionSettings = [
+  body('networkAccess')
+    .optional()
+    .isIn(['off', 'internal-only', 'full'])
+    .withMessage('networkAccess must be one of off, internal-only, full'),
+
   handleValidationErrors,
 ];
 
@@ -378,3 +406,832 @@ export const validateCommandStatus = [
   
   handleValidationErrors,
 ];
+
+/**
+ * System Endpoint Validations
+ */
+const isTimeValue = (value: string) => /^\d+$/.test(value) || !Number.isNaN(Date.parse(value));
+
+export const validateMetricsHistory = [
+  query('from')
+    .optional()
+    .isString()
+    .custom(isTimeValue)
+    .withMessage('from must be an ISO timestamp or epoch milliseconds'),
+
+  query('to')
+    .optional()
+    .isString()
+    .custom(isTimeValue)
+    .withMessage('to must be an ISO timestamp or epoch milliseconds'),
+
+  query('step')
+    .optional()
+    .matches(/^\d+(ms|s|m|h)?$/)
+    .withMessage('step must be a duration such as 10s, 1m or 5m'),
+
+  query('series')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('series must be a comma-separated list'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Network Endpoint Validations
+ */
+export const validateNetworkConnections = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('page must be a positive integer'),
+
+  query('pageSize')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('pageSize must be between 1 and 500'),
+
+  query('state')
+    .optional()
+    .isString()
+    .matches(/^[A-Za-z_0-9]+(,[A-Za-z_0-9]+)*$/)
+    .withMessage('state must be a comma-separated list of socket states'),
+
+  query('port')
+    .optional()
+    .isInt({ min: 0, max: 65535 })
+    .withMessage('port must be between 0 and 65535'),
+
+  query('process')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('process filter too long'),
+
+  query('protocol')
+    .optional()
+    .isIn(['tcp', 'udp', 'TCP', 'UDP'])
+    .withMessage('protocol must be tcp or udp'),
+
+  handleValidationErrors,
+];
+
+export const validateNetworkFlows = [
+  query('state')
+    .optional()
+    .isIn(['active', 'closed', 'all'])
+    .withMessage('state must be active, closed or all'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('limit must be between 1 and 500'),
+
+  handleValidationErrors,
+];
+
+const policyRuleFields = (actionRequired: boolean) => [
+  actionRequired
+    ? body('action').isIn(['allow', 'watch', 'block']).withMessage('action must be allow, watch or block')
+    : body('action').optional().isIn(['allow', 'watch', 'block']).withMessage('action must be allow, watch or block'),
+
+  body('process')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('process must be a glob of at most 100 characters'),
+
+  body('destination')
+    .optional()
+    .isString()
+    .isLength({ max: 255 })
+    .custom((value: string) => {
+      if (value.includes('/') && !isValidCidr(value)) {
+        throw new Error('destination must be a host glob, IP address or valid CIDR block');
+      }
+      return true;
+    }),
+
+  body('port')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 65535 })
+    .withMessage('port must be between 0 and 65535'),
+
+  body('priority')
+    .optional()
+    .isInt({ min: 0, max: 10000 })
+    .withMessage('priority must be between 0 and 10000'),
+
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('enabled must be a boolean'),
+
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('description too long'),
+
+  handleValidationErrors,
+];
+
+export const validatePolicyRule = policyRuleFields(true);
+
+export const validatePolicyRuleUpdate = policyRuleFields(false);
+
+export const validatePolicyHostLists = [
+  body(['allow', 'deny'])
+    .optional()
+    .isArray({ max: 500 })
+    .withMessage('host lists must be arrays of at most 500 entries'),
+
+  body(['allow.*', 'deny.*'])
+    .isString()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('host entries must be non-empty strings'),
+
+  handleValidationErrors,
+];
+
+/**
+ * CI Endpoint Validations
+ */
+export const validateCiRuns = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('limit must be between 1 and 200'),
+
+  handleValidationErrors,
+];
+
+const ciRunRef = () =>
+  param('ref')
+    .matches(/^(run-)?\d+$/)
+    .withMessage('ref must be a run id such as run-12');
+
+export const validateCiRunRef = [ciRunRef(), handleValidationErrors];
+
+export const validateCiLogs = [
+  ciRunRef(),
+
+  query('step')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('step must be a step id such as build/install'),
+
+  handleValidationErrors,
+];
+
+export const validateCiTests = [
+  param('view')
+    .isIn(['slowest', 'failing', 'flaky'])
+    .withMessage('view must be slowest, failing or flaky'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('limit must be between 1 and 200'),
+
+  handleValidationErrors,
+];
+
+export const validateCiCoverage = [
+  query('ref')
+    .optional()
+    .matches(/^(run-)?\d+$/)
+    .withMessage('ref must be a run id such as run-12'),
+
+  query('path')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('path must be a workspace-relative file path'),
+
+  handleValidationErrors,
+];
+
+export const validateCiSettings = [
+  body('ciAutoRetryCount')
+    .optional()
+    .isInt({ min: 0, max: 5 })
+    .withMessage('ciAutoRetryCount must be between 0 and 5'),
+
+  body('ciQuarantineFlaky')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('ciQuarantineFlaky must be a boolean'),
+
+  body('coverageThreshold')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('coverageThreshold must be a percentage between 0 and 100'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Artifact Endpoint Validations
+ */
+export const validateArtifactId = [
+  param('id')
+    .matches(/^art-\d+$/)
+    .withMessage('id must be an artifact id such as art-12'),
+
+  handleValidationErrors,
+];
+
+export const validateArtifactList = [
+  query('runId')
+    .optional()
+    .matches(/^run-\d+$/)
+    .withMessage('runId must be a run id such as run-12'),
+
+  query('step')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('step must be a step id such as build/install'),
+
+  handleValidationErrors,
+];
+
+export const validateArtifactSettings = [
+  body('artifactRetentionDays')
+    .optional()
+    .isInt({ min: 0, max: 3650 })
+    .withMessage('artifactRetentionDays must be between 0 and 3650'),
+
+  body('artifactEncryption')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('artifactEncryption must be a boolean'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Log Endpoint Validations
+ */
+export const validateLogStream = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('limit must be between 1 and 500'),
+
+  query('since')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('since must be a log entry id'),
+
+  handleValidationErrors,
+];
+
+export const validateLogQuery = [
+  query('q')
+    .optional()
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('q must be at most 2000 characters'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('page must be a positive integer'),
+
+  query('pageSize')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('pageSize must be between 1 and 500'),
+
+  query('order')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('order must be asc or desc'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Security Endpoint Validations
+ */
+export const validateRedactionSettings = [
+  body(['logRedactSecrets', 'secretRedaction', 'llmExcludeSecrets'])
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('redaction toggles must be booleans'),
+
+  body('customPatterns')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('customPatterns must be an array of at most 50 patterns'),
+
+  body('customPatterns.*')
+    .isString()
+    .isLength({ min: 1, max: 500 })
+    .custom((value: string) => {
+      new RegExp(value);
+      return true;
+    })
+    .withMessage('customPatterns entries must be valid regular expressions'),
+
+  handleValidationErrors,
+];
+
+export const validateRedactionAudit = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('limit must be between 1 and 500'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Git Endpoint Validations
+ */
+// Ref and remote names are passed to git as arguments, so option-like and traversal forms are rejected
+const isGitRefName = (value: unknown) =>
+  typeof value === 'string' &&
+  /^[\w][\w./-]*$/.test(value) &&
+  !value.includes('..') &&
+  !value.endsWith('.lock') &&
+  !value.endsWith('/') &&
+  value.length <= 255;
+
+const isRepoPath = (value: unknown) =>
+  typeof value === 'string' &&
+  value.length > 0 &&
+  value.length <= 500 &&
+  !/^(-|[\\/]|[A-Za-z]:)/.test(value) &&
+  !value.split(/[\\/]/).includes('..');
+
+const gitPathList = (field: string) => [
+  body(field)
+    .exists()
+    .withMessage(`${field} is required`)
+    .custom((value) => (Array.isArray(value) ? value.length > 0 && value.length <= 500 && value.every(isRepoPath) : isRepoPath(value)))
+    .withMessage(`${field} must be a repository path or a non-empty array of paths`),
+
+  handleValidationErrors,
+];
+
+export const validateGitFiles = gitPathList('files');
+
+export const validateGitCommit = [
+  body('message')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Commit message must be between 1 and 5000 characters'),
+
+  body('author')
+    .optional()
+    .isObject()
+    .withMessage('author must be an object'),
+
+  body('author.name')
+    .if(body('author').exists())
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .matches(/^[^<>\n]+$/)
+    .withMessage('author.name must be a plain name'),
+
+  body('author.email')
+    .if(body('author').exists())
+    .isEmail()
+    .withMessage('author.email must be an email address'),
+
+  handleValidationErrors,
+];
+
+export const validateGitRemoteSync = [
+  body(['remote', 'branch'])
+    .optional()
+    .custom(isGitRefName)
+    .withMessage('remote and branch must be valid ref names'),
+
+  handleValidationErrors,
+];
+
+export const validateGitDiff = [
+  query('staged')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('staged must be true or false'),
+
+  query('file')
+    .optional()
+    .custom(isRepoPath)
+    .withMessage('file must be a repository path'),
+
+  handleValidationErrors,
+];
+
+export const validateGitParsedDiff = [
+  ...validateGitDiff.slice(0, -1),
+
+  query('context')
+    .optional()
+    .isInt({ min: 0, max: 100 })
+    .withMessage('context must be between 0 and 100'),
+
+  handleValidationErrors,
+];
+
+export const validateGitHunks = [
+  body('file')
+    .custom(isRepoPath)
+    .withMessage('file must be a repository path'),
+
+  body('hunks')
+    .isArray({ min: 1, max: 1000 })
+    .withMessage('hunks must be a non-empty array'),
+
+  body('hunks.*.index')
+    .isInt({ min: 0 })
+    .withMessage('Hunk index must be a non-negative integer'),
+
+  body('hunks.*.lines')
+    .optional()
+    .isArray({ min: 1, max: 10000 })
+    .withMessage('Hunk lines must be a non-empty array of line indices'),
+
+  body('hunks.*.lines.*')
+    .isInt({ min: 0 })
+    .withMessage('Hunk line indices must be non-negative integers'),
+
+  body('hunks.*.header')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Hunk header must be a string'),
+
+  handleValidationErrors,
+];
+
+export const validateGitBranchCreate = [
+  body('name')
+    .custom(isGitRefName)
+    .withMessage('Branch name is invalid'),
+
+  body('checkout')
+    .optional()
+    .isBoolean()
+    .withMessage('checkout must be a boolean'),
+
+  handleValidationErrors,
+];
+
+export const validateGitBranchDelete = [
+  param('name')
+    .custom(isGitRefName)
+    .withMessage('Branch name is invalid'),
+
+  query('force')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('force must be true or false'),
+
+  handleValidationErrors,
+];
+
+export const validateGitCheckout = [
+  body('branch')
+    .custom(isGitRefName)
+    .withMessage('Branch name is invalid'),
+
+  body('force')
+    .optional()
+    .isBoolean()
+    .withMessage('force must be a boolean'),
+
+  handleValidationErrors,
+];
+
+export const validateGitLog = [
+  query('maxCount')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('maxCount must be between 1 and 500'),
+
+  query('file')
+    .optional()
+    .custom(isRepoPath)
+    .withMessage('file must be a repository path'),
+
+  handleValidationErrors,
+];
+
+// Revisions additionally allow ancestry suffixes such as HEAD~2 or main^
+const isGitRevision = (value: unknown) =>
+  typeof value === 'string' && /^[\w][\w./~^-]*$/.test(value) && value.length <= 255;
+
+export const validateGitBlame = [
+  query('file')
+    .custom(isRepoPath)
+    .withMessage('file must be a repository path'),
+
+  query(['start', 'end'])
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('start and end must be positive line numbers'),
+
+  query('end')
+    .optional()
+    .custom((end, { req }) => !req.query?.start || parseInt(end, 10) >= parseInt(req.query.start, 10))
+    .withMessage('end must not be before start'),
+
+  query('rev')
+    .optional()
+    .custom(isGitRevision)
+    .withMessage('rev is invalid'),
+
+  handleValidationErrors,
+];
+
+export const validateGitHistory = [
+  query('file')
+    .custom(isRepoPath)
+    .withMessage('file must be a repository path'),
+
+  query('maxCount')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('maxCount must be between 1 and 500'),
+
+  handleValidationErrors,
+];
+
+export const validateGitCommitRef = [
+  param('ref')
+    .custom(isGitRevision)
+    .withMessage('Commit reference is invalid'),
+
+  handleValidationErrors,
+];
+
+export const validateGitGraph = [
+  query('maxCount')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('maxCount must be between 1 and 1000'),
+
+  query('all')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('all must be true or false'),
+
+  query('ref')
+    .optional()
+    .custom(isGitRevision)
+    .withMessage('ref is invalid'),
+
+  handleValidationErrors,
+];
+
+export const validateGitMerge = [
+  body('branch')
+    .custom(isGitRevision)
+    .withMessage('Branch is invalid'),
+
+  body('noFf')
+    .optional()
+    .isBoolean()
+    .withMessage('noFf must be a boolean'),
+
+  handleValidationErrors,
+];
+
+export const validateGitRebase = [
+  body('onto')
+    .custom(isGitRevision)
+    .withMessage('onto is invalid'),
+
+  handleValidationErrors,
+];
+
+export const validateGitConflictFile = [
+  query('file')
+    .custom(isRepoPath)
+    .withMessage('file must be a repository path'),
+
+  handleValidationErrors,
+];
+
+const CONFLICT_CHOICES = ['ours', 'theirs', 'base', 'both'];
+
+export const validateGitConflictResolve = [
+  body('file')
+    .custom(isRepoPath)
+    .withMessage('file must be a repository path'),
+
+  body()
+    .custom((value) => ['content', 'choice', 'choices'].filter(key => value?.[key] !== undefined).length === 1)
+    .withMessage('Provide exactly one of content, choice or choices'),
+
+  body('content')
+    .optional()
+    .isString()
+    .isLength({ max: 5 * 1024 * 1024 })
+    .withMessage('content must be a string up to 5MB'),
+
+  body('choice')
+    .optional()
+    .isIn(CONFLICT_CHOICES)
+    .withMessage('choice must be ours, theirs, base or both'),
+
+  body('choices')
+    .optional()
+    .isArray({ min: 1, max: 10000 })
+    .withMessage('choices must be a non-empty array'),
+
+  body('choices.*')
+    .isIn(CONFLICT_CHOICES)
+    .withMessage('Each choice must be ours, theirs, base or both'),
+
+  handleValidationErrors,
+];
+
+export const validateGitRemoteAdd = [
+  body('name')
+    .custom(isGitRefName)
+    .withMessage('Remote name is invalid'),
+
+  body('url')
+    .isString()
+    .isLength({ min: 1, max: 1000 })
+    .matches(/^(https?:\/\/|ssh:\/\/|git@)[^\s]+$/)
+    .withMessage('url must be an http(s), ssh or git@ URL'),
+
+  handleValidationErrors,
+];
+
+export const validateGitClone = [
+  body('url')
+    .isString()
+    .isLength({ min: 1, max: 1000 })
+    .matches(/^(https?:\/\/|ssh:\/\/|git@)[^\s]+$/)
+    .withMessage('url must be an http(s), ssh or git@ URL'),
+
+  body('directory')
+    .optional()
+    .custom(isRepoPath)
+    .withMessage('directory must be a workspace-relative path'),
+
+  handleValidationErrors,
+];
+
+export const validateGitReset = [
+  body('mode')
+    .optional()
+    .isIn(['soft', 'mixed', 'hard'])
+    .withMessage('mode must be soft, mixed or hard'),
+
+  body('ref')
+    .optional()
+    .matches(/^[\w][\w./~^-]*$/)
+    .isLength({ max: 255 })
+    .withMessage('ref is invalid'),
+
+  handleValidationErrors,
+];
+
+export const validateGitStash = [
+  body('message')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Stash message must be at most 500 characters'),
+
+  handleValidationErrors,
+];
+
+/**
+ * Debug Endpoint Validations
+ */
+export const validateDebugSessionId = [
+  param('sessionId')
+    .matches(/^dbg-\d+$/)
+    .withMessage('Invalid debug session id'),
+
+  handleValidationErrors,
+];
+
+export const validateDebugStart = [
+  body('file')
+    .custom(isRepoPath)
+    .withMessage('file must be a workspace-relative path'),
+
+  body('args')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('args must be an array of at most 50 items'),
+
+  body('args.*')
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Each argument must be a string of at most 1000 characters'),
+
+  handleValidationErrors,
+];
+
+export const validateDebugStep = [
+  param('command')
+    .isIn(['continue', 'stepOver', 'stepInto', 'stepOut', 'pause'])
+    .withMessage('command must be continue, stepOver, stepInto, stepOut or pause'),
+
+  handleValidationErrors,
+];
+
+export const validateDebugBreakpoint = [
+  body('file')
+    .custom(isRepoPath)
+    .withMessage('file must be a workspace-relative path'),
+
+  body('line')
+    .isInt({ min: 1 })
+    .withMessage('line must be a positive line number')
+    .toInt(),
+
+  body('condition')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('condition must be at most 1000 characters'),
+
+  handleValidationErrors,
+];
+
+export const validateDebugBreakpointId = [
+  param('id')
+    .matches(/^bp-\d+$/)
+    .withMessage('Invalid breakpoint id'),
+
+  handleValidationErrors,
+];
+
+export const validateDebugWatch = [
+  body('expression')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('expression must be 1-1000 characters'),
+
+  handleValidationErrors,
+];
+
+export const validateDebugWatchId = [
+  param('id')
+    .matches(/^watch-\d+$/)
+    .withMessage('Invalid watch id'),
+
+  handleValidationErrors,
+];
+
+export const validateDebugEvaluate = [
+  body('expression')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('expression must be 1-1000 characters'),
+
+  body('frame')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('frame must be a call frame index')
+    .toInt(),
+
+  handleValidationErrors,
+];
+
+export const validateDebugFrame = [
+  param('frame')
+    .isInt({ min: 0 })
+    .withMessage('frame must be a call frame index'),
+
+  handleValidationErrors,
+];
+
+export const validateDebugVariables = [
+  query('objectId')
+    .isString()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('objectId is required'),
+
+  query('start')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('start must be a non-negative index'),
+
+  query('count')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('count must be between 1 and 1000'),
+
+  handleValidationErrors,
+];
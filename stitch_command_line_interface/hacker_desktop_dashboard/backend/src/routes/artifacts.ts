@@ -0,0 +1,85 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ArtifactKeyError, ArtifactMeta, artifactService, ArtifactSettings } from '../services/artifactService';
+import { requireDeveloper } from '../middleware/auth';
+import { validateArtifactId, validateArtifactList, validateArtifactSettings } from '../middleware/validation';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * Metadata plus the path to fetch the content from
+ */
+export function withDownloadUrl(artifact: ArtifactMeta): ArtifactMeta & { url: string } {
+  return { ...artifact, url: `/v1/artifacts/${artifact.id}/download` };
+}
+
+router.get('/', validateArtifactList, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const artifacts = await artifactService.list({
+      runId: req.query.runId as string | undefined,
+      stepId: req.query.step as string | undefined,
+    });
+    res.json({ artifacts: artifacts.map(withDownloadUrl) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/settings', (_req, res) => {
+  res.json({ settings: artifactService.getSettings() });
+});
+
+router.put('/settings', requireDeveloper, validateArtifactSettings, (req: Request, res: Response, next: NextFunction) => {
+  const { artifactRetentionDays, artifactEncryption } = req.body;
+  const update: Partial<ArtifactSettings> = {};
+  if (artifactRetentionDays !== undefined) update.retentionDays = Number(artifactRetentionDays);
+  if (artifactEncryption !== undefined) update.encryption = artifactEncryption;
+  try {
+    res.json({ settings: artifactService.updateSettings(update) });
+  } catch (error) {
+    if (error instanceof ArtifactKeyError) {
+      res.status(400).json({ error: { code: 'ARTIFACT_KEY_UNAVAILABLE', message: error.message } });
+      return;
+    }
+    next(error);
+  }
+});
+
+router.get('/:id', validateArtifactId, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const artifact = await artifactService.get(req.params.id);
+    if (!artifact) {
+      res.status(404).json({ error: { code: 'ARTIFACT_NOT_FOUND', message: `Artifact ${req.params.id} not found` } });
+      return;
+    }
+    res.json(withDownloadUrl(artifact));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id/download', validateArtifactId, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const artifact = await artifactService.get(req.params.id);
+    if (!artifact) {
+      res.status(404).json({ error: { code: 'ARTIFACT_NOT_FOUND', message: `Artifact ${req.params.id} not found` } });
+      return;
+    }
+
+    const content = await artifactService.open(artifact);
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Length', artifact.size);
+    res.setHeader('Content-Disposition', `attachment; filename="${artifact.name.split('/').pop()!.replace(/["\\\r\n]/g, '_')}"`);
+    res.setHeader('ETag', `"${artifact.sha256}"`);
+    content.on('error', error => {
+      // Headers are gone by now; cutting the connection short tells the client the body is bad
+      logger.error(`Artifact ${artifact.id} failed to stream:`, error);
+      res.destroy(error);
+    });
+    content.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
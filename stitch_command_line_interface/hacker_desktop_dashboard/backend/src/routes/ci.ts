@@ -1,45 +1,206 @@
-import { Router } from 'express';
-import { logger } from '../utils/logger';
+import { Router, Request, Response, NextFunction } from 'express';
+import { ciService, CiBusyError } from '../services/ciService';
+import { PipelineConfigError } from '../services/pipelineModel';
+import { testResultsService } from '../services/testResultsService';
+import { coverageTotals } from '../services/coverageModel';
+import { artifactService } from '../services/artifactService';
+import { withDownloadUrl } from './artifacts';
+import { requireDeveloper } from '../middleware/auth';
+import { validateCiCoverage, validateCiLogs, validateCiRunRef, validateCiRuns, validateCiSettings, validateCiTests } from '../middleware/validation';
 
 const router = Router();
 
-router.get('/status', (_req, res) => {
-  const statuses = ['pass', 'fail', 'running'] as const;
-  const status = statuses[Math.floor(Math.random() * statuses.length)];
-  const payload = {
-    build: {
-      durationMs: Math.floor(Math.random() * 3000) + 2000,
-      cacheHitPct: Math.floor(Math.random() * 30) + 70,
-      status,
-    },
-    tests: {
-      pass: Math.floor(Math.random() * 50) + 150,
-      fail: Math.floor(Math.random() * 5),
-      skip: Math.floor(Math.random() * 10),
-      flaky: Math.floor(Math.random() * 3),
-      lastRunAt: new Date().toISOString(),
-    },
-    logsRef: `ci/main#${Math.floor(Math.random() * 1000) + 1400}`,
-  };
-  res.json(payload);
-});
-
-router.get('/logs/:ref', (req, res) => {
-  const { ref } = req.params;
-  const logs = [
-    'Initializing pipeline...\n',
-    'Installing dependencies...\n',
-    'Running build scripts...\n',
-    'Build completed successfully.\n',
-  ].join('');
-  res.json({ ref, logs, artifacts: ['https://cdn.example.com/artifacts/bundle.js'] });
-});
-
-router.post('/run', (_req, res) => {
-  const runId = `run_${Date.now()}`;
-  logger.info('CI run triggered', { runId });
-  res.json({ success: true, runId });
+function runNotFound(res: Response, ref: string): void {
+  res.status(404).json({ error: { code: 'RUN_NOT_FOUND', message: `Run ${ref} not found` } });
+}
+
+router.get('/status', async (_req, res, next) => {
+  try {
+    res.json(await ciService.summary());
+  } catch (error) {
+    next(error);
+  }
 });
 
-export default router;
+router.get('/pipeline', async (_req, res, next) => {
+  try {
+    res.json(await ciService.loadPipeline());
+  } catch (error) {
+    if (error instanceof PipelineConfigError) {
+      res.status(400).json({ error: { code: 'INVALID_PIPELINE', message: error.message } });
+      return;
+    }
+    next(error);
+  }
+});
+
+router.get('/runs', validateCiRuns, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = parseInt((req.query.limit as string) || '20', 10);
+    res.json({ runs: await ciService.listRuns(limit) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/runs/:ref', validateCiRunRef, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await ciService.getRun(req.params.ref);
+    if (!run) {
+      runNotFound(res, req.params.ref);
+      return;
+    }
+    res.json(run);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/runs/:ref/cancel', requireDeveloper, validateCiRunRef, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await ciService.cancelRun(req.params.ref);
+    if (!run) {
+      runNotFound(res, req.params.ref);
+      return;
+    }
+    res.json({ success: true, runId: run.id, status: run.status });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/runs/:ref/tests', validateCiRunRef, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await ciService.getRun(req.params.ref);
+    if (!run) {
+      runNotFound(res, req.params.ref);
+      return;
+    }
+    res.json({ runId: run.id, counts: run.tests ?? null, tests: await testResultsService.forRun(run.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/runs/:ref/artifacts', validateCiRunRef, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await ciService.getRun(req.params.ref);
+    if (!run) {
+      runNotFound(res, req.params.ref);
+      return;
+    }
+    res.json({ runId: run.id, artifacts: (await artifactService.list({ runId: run.id })).map(withDownloadUrl) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/tests/:view', validateCiTests, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    switch (req.params.view) {
+      case 'slowest':
+        res.json({ tests: await testResultsService.slowest(limit) });
+        break;
+      case 'failing':
+        res.json({ tests: await testResultsService.failing(limit) });
+        break;
+      default: {
+        // Flaky tests only stop failing steps while quarantine is switched on
+        const { quarantineFlaky } = ciService.getSettings();
+        res.json({ quarantined: quarantineFlaky, tests: await testResultsService.flaky(limit) });
+      }
+    }
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Coverage of the given run (the latest one with coverage by default), per file or for one file's lines
+router.get('/coverage', validateCiCoverage, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const ref = req.query.ref as string | undefined;
+    const run = ref ? await ciService.getRun(ref) : await ciService.latestCoverageRun();
+    const files = run ? await ciService.readCoverage(run) : null;
+    if (!run || !files) {
+      res.status(404).json({ error: { code: 'COVERAGE_NOT_FOUND', message: ref ? `Run ${ref} has no coverage` : 'No run has collected coverage yet' } });
+      return;
+    }
+
+    const filePath = req.query.path as string | undefined;
+    if (filePath === undefined) {
+      res.json({
+        runId: run.id,
+        totals: run.coverage,
+        files: files.map(file => ({ file: file.file, ...coverageTotals([file]) })),
+      });
+      return;
+    }
+
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\.?\//, '');
+    const file = files.find(f => f.file === normalized);
+    if (!file) {
+      res.status(404).json({ error: { code: 'COVERAGE_NOT_FOUND', message: `${normalized} is not covered by ${run.id}` } });
+      return;
+    }
+    const entries = Object.entries(file.lines).map(([line, hits]) => [Number(line), hits] as const);
+    res.json({
+      runId: run.id,
+      file: file.file,
+      lines: coverageTotals([file]).lines,
+      covered: entries.filter(([, hits]) => hits > 0).map(([line]) => line),
+      uncovered: entries.filter(([, hits]) => hits === 0).map(([line]) => line),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/settings', (_req, res) => {
+  res.json({ settings: ciService.getSettings() });
+});
 
+router.put('/settings', requireDeveloper, validateCiSettings, (req: Request, res: Response) => {
+  const { ciAutoRetryCount, ciQuarantineFlaky, coverageThreshold } = req.body;
+  res.json({
+    settings: ciService.updateSettings({
+      ...(ciAutoRetryCount !== undefined ? { autoRetryCount: Number(ciAutoRetryCount) } : {}),
+      ...(ciQuarantineFlaky !== undefined ? { quarantineFlaky: ciQuarantineFlaky } : {}),
+      ...(coverageThreshold !== undefined ? { coverageThreshold: Number(coverageThreshold) } : {}),
+    }),
+  });
+});
+
+router.get('/logs/:ref', validateCiLogs, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const run = await ciService.getRun(req.params.ref);
+    if (!run) {
+      runNotFound(res, req.params.ref);
+      return;
+    }
+    const step = req.query.step as string | undefined;
+    const artifacts = await artifactService.list({ runId: run.id, stepId: step });
+    res.json({ ref: run.id, status: run.status, logs: await ciService.readLogs(run, step), artifacts: artifacts.map(withDownloadUrl) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/run', requireDeveloper, async (req, res, next) => {
+  try {
+    const run = await ciService.startRun(req.user?.username);
+    res.status(202).json({ success: true, runId: run.id, run });
+  } catch (error) {
+    if (error instanceof PipelineConfigError) {
+      res.status(400).json({ error: { code: 'INVALID_PIPELINE', message: error.message } });
+      return;
+    }
+    if (error instanceof CiBusyError) {
+      res.status(409).json({ error: { code: 'RUN_IN_PROGRESS', message: error.message } });
+      return;
+    }
+    next(error);
+  }
+});
+
+export default router;
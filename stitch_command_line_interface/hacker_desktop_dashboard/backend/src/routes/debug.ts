@@ -0,0 +1,310 @@
+/**
+ * Debug Routes
+ * REST API for the debugger (Node.js inspector, or a DAP adapter for other languages):
+ * per-user sessions, execution control, breakpoints, watches, variables and evaluate
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { DebuggerStateError, DebugEvaluationError } from '../services/debuggerService';
+import { DebugAdapterNotFoundError, listAdapters } from '../services/dapAdapters';
+import { DebugBuildError } from '../services/dapSession';
+import {
+  debugSessionManager,
+  DebugSessionLimitError,
+  DebugSessionNotFoundError,
+} from '../services/debugSessionManager';
+import { logger } from '../utils/logger';
+import {
+  validateDebugStart,
+  validateDebugStep,
+  validateDebugBreakpoint,
+  validateDebugBreakpointId,
+  validateDebugWatch,
+  validateDebugWatchId,
+  validateDebugEvaluate,
+  validateDebugFrame,
+  validateDebugVariables,
+  validateDebugSessionId,
+} from '../middleware/validation';
+
+const router = Router();
+// Routes below /sessions/:sessionId, resolved against the caller's own sessions
+const session = Router({ mergeParams: true });
+
+// Note: All routes are already protected by authenticateToken + requireDeveloper from app.ts
+
+type StepCommand = 'continue' | 'stepOver' | 'stepInto' | 'stepOut' | 'pause';
+
+/**
+ * Respond 404 for other users' or closed sessions, 429 over the per-user limit, 409 when the
+ * session is not in a state that allows the operation, 400 when the debuggee threw while evaluating,
+ * 422 when the program did not compile and 501 when no debug adapter for its language is installed
+ */
+const sendDebugError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof DebugSessionNotFoundError) {
+    return res.status(404).json({ success: false, error: error.message });
+  }
+  if (error instanceof DebugSessionLimitError) {
+    return res.status(429).json({ success: false, error: error.message });
+  }
+  if (error instanceof DebuggerStateError) {
+    return res.status(409).json({ success: false, error: error.message });
+  }
+  if (error instanceof DebugEvaluationError) {
+    return res.status(400).json({ success: false, error: error.message });
+  }
+  if (error instanceof DebugBuildError) {
+    return res.status(422).json({ success: false, error: error.message });
+  }
+  if (error instanceof DebugAdapterNotFoundError) {
+    return res.status(501).json({ success: false, error: error.message });
+  }
+  logger.error(`Debug ${fallback} failed:`, error);
+  return res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : `Failed to ${fallback}`,
+  });
+};
+
+/**
+ * Debugger of the caller's session named in the path
+ */
+const debuggerFor = (req: Request) => debugSessionManager.get(req.params.sessionId, req.user!.userId).debugger;
+
+const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  try {
+    debuggerFor(req);
+    next();
+  } catch (error) {
+    sendDebugError(res, error, 'find debug session');
+  }
+};
+
+/**
+ * GET /api/debug/adapters
+ * Languages debugged through DAP adapters and the adapter found on PATH for each (null if none)
+ */
+router.get('/adapters', async (_req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await listAdapters() });
+  } catch (error) {
+    sendDebugError(res, error, 'list debug adapters');
+  }
+});
+
+/**
+ * GET /api/debug/sessions
+ * The caller's sessions
+ */
+router.get('/sessions', (req: Request, res: Response) => {
+  res.json({ success: true, data: debugSessionManager.list(req.user!.userId) });
+});
+
+/**
+ * POST /api/debug/sessions
+ * Open a session; it has no process until /start. Sessions opened over REST close after the idle timeout.
+ */
+router.post('/sessions', (req: Request, res: Response) => {
+  try {
+    const created = debugSessionManager.create({ userId: req.user!.userId, username: req.user!.username });
+    res.status(201).json({ success: true, data: debugSessionManager.summarize(created) });
+  } catch (error) {
+    sendDebugError(res, error, 'open debug session');
+  }
+});
+
+/**
+ * DELETE /api/debug/sessions/:sessionId
+ * Stop the debuggee and close the session
+ */
+router.delete('/sessions/:sessionId', validateDebugSessionId, async (req: Request, res: Response) => {
+  try {
+    await debugSessionManager.close(req.params.sessionId, req.user!.userId);
+    res.json({ success: true, message: 'Debug session closed' });
+  } catch (error) {
+    sendDebugError(res, error, 'close debug session');
+  }
+});
+
+router.use('/sessions/:sessionId', validateDebugSessionId, requireSession, session);
+
+/**
+ * GET /api/debug/sessions/:sessionId/state
+ * Session state with breakpoints and watches
+ */
+session.get('/state', (req, res) => {
+  const debug = debuggerFor(req);
+  res.json({
+    success: true,
+    data: {
+      ...debug.getState(),
+      breakpoints: debug.listBreakpoints(),
+      watches: debug.listWatches(),
+    },
+  });
+});
+
+/**
+ * POST /api/debug/sessions/:sessionId/start
+ * Launch a workspace file under the inspector, or its language's debug adapter; it pauses on entry
+ * Body: { file: string, args?: string[] }
+ */
+session.post('/start', validateDebugStart, async (req: Request, res: Response) => {
+  try {
+    const { file, args } = req.body;
+    const debug = debuggerFor(req);
+    await debug.startDebugging(file, args || []);
+    res.json({ success: true, data: debug.getState() });
+  } catch (error) {
+    sendDebugError(res, error, 'start debugger');
+  }
+});
+
+/**
+ * POST /api/debug/sessions/:sessionId/stop
+ */
+session.post('/stop', async (req, res) => {
+  try {
+    await debuggerFor(req).stopDebugging();
+    res.json({ success: true, message: 'Debugger stopped' });
+  } catch (error) {
+    sendDebugError(res, error, 'stop debugger');
+  }
+});
+
+/**
+ * GET /api/debug/sessions/:sessionId/frames/:frame/scopes
+ * Scope chain of a call frame, innermost first; expand a scope through /variables
+ */
+session.get('/frames/:frame/scopes', validateDebugFrame, (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: debuggerFor(req).getScopes(parseInt(req.params.frame, 10)) });
+  } catch (error) {
+    sendDebugError(res, error, 'get scopes');
+  }
+});
+
+/**
+ * POST /api/debug/sessions/:sessionId/frames/:frame/select
+ * Evaluate variables and watches in another call frame
+ */
+session.post('/frames/:frame/select', validateDebugFrame, async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await debuggerFor(req).selectFrame(parseInt(req.params.frame, 10)) });
+  } catch (error) {
+    sendDebugError(res, error, 'select frame');
+  }
+});
+
+/**
+ * GET /api/debug/sessions/:sessionId/variables
+ * Children of a scope or object while paused
+ * Query: ?objectId=...&start=0&count=100
+ */
+session.get('/variables', validateDebugVariables, async (req: Request, res: Response) => {
+  try {
+    const { objectId, start, count } = req.query;
+    const page = await debuggerFor(req).getVariables(objectId as string, {
+      start: start ? parseInt(start as string, 10) : undefined,
+      count: count ? parseInt(count as string, 10) : undefined,
+    });
+    res.json({ success: true, data: page });
+  } catch (error) {
+    sendDebugError(res, error, 'get variables');
+  }
+});
+
+/**
+ * GET /api/debug/sessions/:sessionId/breakpoints
+ */
+session.get('/breakpoints', (req, res) => {
+  res.json({ success: true, data: debuggerFor(req).listBreakpoints() });
+});
+
+/**
+ * POST /api/debug/sessions/:sessionId/breakpoints
+ * Body: { file: string, line: number (1-based), condition?: string }
+ */
+session.post('/breakpoints', validateDebugBreakpoint, (req: Request, res: Response) => {
+  const { file, line, condition } = req.body;
+  const breakpoint = debuggerFor(req).addBreakpoint(file, line, condition || undefined);
+  res.status(201).json({ success: true, data: breakpoint });
+});
+
+/**
+ * DELETE /api/debug/sessions/:sessionId/breakpoints/:id
+ */
+session.delete('/breakpoints/:id', validateDebugBreakpointId, (req: Request, res: Response) => {
+  if (!debuggerFor(req).removeBreakpoint(req.params.id)) {
+    return res.status(404).json({ success: false, error: 'Breakpoint not found' });
+  }
+  return res.json({ success: true, message: 'Breakpoint removed' });
+});
+
+/**
+ * POST /api/debug/sessions/:sessionId/breakpoints/:id/toggle
+ */
+session.post('/breakpoints/:id/toggle', validateDebugBreakpointId, (req: Request, res: Response) => {
+  const breakpoint = debuggerFor(req).toggleBreakpoint(req.params.id);
+  if (!breakpoint) {
+    return res.status(404).json({ success: false, error: 'Breakpoint not found' });
+  }
+  return res.json({ success: true, data: breakpoint });
+});
+
+/**
+ * GET /api/debug/sessions/:sessionId/watches
+ */
+session.get('/watches', (req, res) => {
+  res.json({ success: true, data: debuggerFor(req).listWatches() });
+});
+
+/**
+ * POST /api/debug/sessions/:sessionId/watches
+ * Body: { expression: string }
+ */
+session.post('/watches', validateDebugWatch, (req: Request, res: Response) => {
+  const watch = debuggerFor(req).addWatch(req.body.expression);
+  res.status(201).json({ success: true, data: watch });
+});
+
+/**
+ * DELETE /api/debug/sessions/:sessionId/watches/:id
+ */
+session.delete('/watches/:id', validateDebugWatchId, (req: Request, res: Response) => {
+  if (!debuggerFor(req).removeWatch(req.params.id)) {
+    return res.status(404).json({ success: false, error: 'Watch not found' });
+  }
+  return res.json({ success: true, message: 'Watch removed' });
+});
+
+/**
+ * POST /api/debug/sessions/:sessionId/evaluate
+ * Evaluate an expression while paused, in the selected call frame unless frame is given
+ * Body: { expression: string, frame?: number }
+ */
+session.post('/evaluate', validateDebugEvaluate, async (req: Request, res: Response) => {
+  try {
+    const value = await debuggerFor(req).evaluate(req.body.expression, req.body.frame);
+    res.json({ success: true, data: { value } });
+  } catch (error) {
+    sendDebugError(res, error, 'evaluate expression');
+  }
+});
+
+/**
+ * POST /api/debug/sessions/:sessionId/:command
+ * continue, stepOver, stepInto, stepOut or pause; the outcome arrives as debug:paused / debug:resumed
+ * Registered last so it does not shadow the fixed paths above
+ */
+session.post('/:command', validateDebugStep, (req: Request, res: Response) => {
+  const command = req.params.command as StepCommand;
+  const debug = debuggerFor(req);
+  if (!debug.getState().running) {
+    return res.status(409).json({ success: false, error: 'The debug session has no running process' });
+  }
+  debug[command]();
+  return res.json({ success: true, data: { command } });
+});
+
+export default router;
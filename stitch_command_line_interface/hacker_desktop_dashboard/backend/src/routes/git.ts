@@ -3,12 +3,54 @@
  * REST API for Git operations
  */
 
-import { Router } from 'express';
-import { gitService } from '../services/gitService';
+import { Router, Request, Response, NextFunction } from 'express';
+import { gitService, GitHunkAction } from '../services/gitService';
+import { DiffSelectionError } from '../services/diffModel';
+import { ConflictResolutionError } from '../services/conflictModel';
 import { logger } from '../utils/logger';
+import { requireAdmin } from '../middleware/auth';
+import {
+  validateGitFiles,
+  validateGitCommit,
+  validateGitRemoteSync,
+  validateGitDiff,
+  validateGitParsedDiff,
+  validateGitHunks,
+  validateGitBranchCreate,
+  validateGitBranchDelete,
+  validateGitCheckout,
+  validateGitLog,
+  validateGitBlame,
+  validateGitHistory,
+  validateGitCommitRef,
+  validateGitGraph,
+  validateGitMerge,
+  validateGitRebase,
+  validateGitConflictFile,
+  validateGitConflictResolve,
+  validateGitRemoteAdd,
+  validateGitClone,
+  validateGitReset,
+  validateGitStash,
+} from '../middleware/validation';
 
 const router = Router();
 
+// Note: All routes are already protected by authenticateToken + requireDeveloper from app.ts
+// Operations that can discard work additionally require admin
+
+/**
+ * Apply requireAdmin only when the request is destructive
+ */
+const requireAdminWhen = (isDestructive: (req: Request) => boolean) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (isDestructive(req)) {
+      requireAdmin(req, res, next);
+      return;
+    }
+    next();
+  };
+
 /**
  * GET /api/git/status
  * Get repository status
@@ -48,7 +90,7 @@ router.post('/init', async (_req, res) => {
  * Add files to staging area
  * Body: { files: string | string[] }
  */
-router.post('/add', async (req, res) => {
+router.post('/add', validateGitFiles, async (req: Request, res: Response) => {
   try {
     const { files } = req.body;
     
@@ -67,12 +109,30 @@ router.post('/add', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/git/unstage
+ * Remove files from the staging area
+ * Body: { files: string | string[] }
+ */
+router.post('/unstage', validateGitFiles, async (req: Request, res: Response) => {
+  try {
+    await gitService.unstage(req.body.files);
+    res.json({ success: true, message: 'Files removed from staging' });
+  } catch (error) {
+    logger.error('Git unstage failed:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to unstage files' 
+    });
+  }
+});
+
 /**
  * POST /api/git/commit
  * Commit changes
  * Body: { message: string, author?: { name: string, email: string } }
  */
-router.post('/commit', async (req, res) => {
+router.post('/commit', validateGitCommit, async (req: Request, res: Response) => {
   try {
     const { message, author } = req.body;
     
@@ -96,7 +156,7 @@ router.post('/commit', async (req, res) => {
  * Push to remote
  * Body: { remote?: string, branch?: string }
  */
-router.post('/push', async (req, res) => {
+router.post('/push', validateGitRemoteSync, async (req: Request, res: Response) => {
   try {
     const { remote, branch } = req.body;
     await gitService.push(remote, branch);
@@ -115,7 +175,7 @@ router.post('/push', async (req, res) => {
  * Pull from remote
  * Body: { remote?: string, branch?: string }
  */
-router.post('/pull', async (req, res) => {
+router.post('/pull', validateGitRemoteSync, async (req: Request, res: Response) => {
   try {
     const { remote, branch } = req.body;
     await gitService.pull(remote, branch);
@@ -134,7 +194,7 @@ router.post('/pull', async (req, res) => {
  * Get diff
  * Query: ?staged=true&file=path/to/file
  */
-router.get('/diff', async (req, res) => {
+router.get('/diff', validateGitDiff, async (req: Request, res: Response) => {
   try {
     const { staged, file } = req.query;
     
@@ -153,6 +213,71 @@ router.get('/diff', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/git/diff/parsed
+ * Get diff as files, hunks and numbered lines
+ * Query: ?staged=true&file=path/to/file&context=3
+ */
+router.get('/diff/parsed', validateGitParsedDiff, async (req: Request, res: Response) => {
+  try {
+    const { staged, file, context } = req.query;
+
+    const diff = await gitService.parsedDiff({
+      staged: staged === 'true',
+      file: typeof file === 'string' ? file : undefined,
+      context: typeof context === 'string' ? parseInt(context, 10) : undefined,
+    });
+
+    res.json({ success: true, data: diff });
+  } catch (error) {
+    logger.error('Git parsed diff failed:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to get diff' 
+    });
+  }
+});
+
+/**
+ * Handler for POST /api/git/hunks/{stage,unstage,discard}
+ * Body: { file: string, hunks: Array<{ index: number, lines?: number[], header?: string }> }
+ */
+const applyHunks = (action: GitHunkAction) => async (req: Request, res: Response) => {
+  try {
+    const { file, hunks } = req.body;
+    await gitService.applyHunks(action, file, hunks);
+    res.json({ success: true, message: `Selected changes ${action === 'stage' ? 'staged' : action === 'unstage' ? 'unstaged' : 'discarded'}` });
+  } catch (error) {
+    if (error instanceof DiffSelectionError) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    logger.error(`Git ${action} hunks failed:`, error);
+    res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : `Failed to ${action} selected changes` 
+    });
+  }
+};
+
+/**
+ * POST /api/git/hunks/stage
+ * Stage hunks or lines of the working tree diff
+ */
+router.post('/hunks/stage', validateGitHunks, applyHunks('stage'));
+
+/**
+ * POST /api/git/hunks/unstage
+ * Unstage hunks or lines of the staged diff
+ */
+router.post('/hunks/unstage', validateGitHunks, applyHunks('unstage'));
+
+/**
+ * POST /api/git/hunks/discard
+ * Discard hunks or lines of the working tree diff (requires admin)
+ */
+router.post('/hunks/discard', requireAdmin, validateGitHunks, applyHunks('discard'));
+
 /**
  * GET /api/git/branches
  * List branches
@@ -175,7 +300,7 @@ router.get('/branches', async (_req, res) => {
  * Create new branch
  * Body: { name: string, checkout?: boolean }
  */
-router.post('/branch', async (req, res) => {
+router.post('/branch', validateGitBranchCreate, async (req: Request, res: Response) => {
   try {
     const { name, checkout } = req.body;
     
@@ -196,10 +321,10 @@ router.post('/branch', async (req, res) => {
 
 /**
  * DELETE /api/git/branch/:name
- * Delete branch
+ * Delete branch (admin)
  * Query: ?force=true
  */
-router.delete('/branch/:name', async (req, res) => {
+router.delete('/branch/:name', requireAdmin, validateGitBranchDelete, async (req: Request, res: Response) => {
   try {
     const { name } = req.params;
     const { force } = req.query;
@@ -218,17 +343,17 @@ router.delete('/branch/:name', async (req, res) => {
 /**
  * POST /api/git/checkout
  * Checkout branch
- * Body: { branch: string }
+ * Body: { branch: string, force?: boolean } (force discards local changes and requires admin)
  */
-router.post('/checkout', async (req, res) => {
+router.post('/checkout', requireAdminWhen(req => req.body?.force === true), validateGitCheckout, async (req: Request, res: Response) => {
   try {
-    const { branch } = req.body;
+    const { branch, force } = req.body;
     
     if (!branch) {
       return res.status(400).json({ success: false, error: 'Branch name required' });
     }
 
-    await gitService.checkout(branch);
+    await gitService.checkout(branch, force === true);
     return res.json({ success: true, message: `Checked out ${branch}` });
   } catch (error) {
     logger.error('Git checkout failed:', error);
@@ -244,7 +369,7 @@ router.post('/checkout', async (req, res) => {
  * Get commit log
  * Query: ?maxCount=10&file=path/to/file
  */
-router.get('/log', async (req, res) => {
+router.get('/log', validateGitLog, async (req: Request, res: Response) => {
   try {
     const { maxCount, file } = req.query;
     
@@ -263,6 +388,208 @@ router.get('/log', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/git/blame
+ * Blame a file or a line range of it
+ * Query: ?file=path/to/file&start=10&end=20&rev=HEAD
+ */
+router.get('/blame', validateGitBlame, async (req: Request, res: Response) => {
+  try {
+    const { file, start, end, rev } = req.query;
+
+    const blame = await gitService.blame(file as string, {
+      start: start ? parseInt(start as string, 10) : undefined,
+      end: end ? parseInt(end as string, 10) : undefined,
+      rev: typeof rev === 'string' ? rev : undefined,
+    });
+
+    res.json({ success: true, data: blame });
+  } catch (error) {
+    logger.error('Git blame failed:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to blame file' 
+    });
+  }
+});
+
+/**
+ * GET /api/git/history
+ * Commits touching a file, following renames
+ * Query: ?file=path/to/file&maxCount=50
+ */
+router.get('/history', validateGitHistory, async (req: Request, res: Response) => {
+  try {
+    const { file, maxCount } = req.query;
+
+    const history = await gitService.fileHistory(
+      file as string,
+      maxCount ? parseInt(maxCount as string, 10) : undefined
+    );
+
+    res.json({ success: true, data: history });
+  } catch (error) {
+    logger.error('Git file history failed:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to get file history' 
+    });
+  }
+});
+
+/**
+ * GET /api/git/graph
+ * Commit graph with parent links, branch/tag decorations and lanes
+ * Query: ?maxCount=100&all=true&ref=main
+ */
+router.get('/graph', validateGitGraph, async (req: Request, res: Response) => {
+  try {
+    const { maxCount, all, ref } = req.query;
+
+    const graph = await gitService.graph({
+      maxCount: maxCount ? parseInt(maxCount as string, 10) : undefined,
+      all: all === 'true',
+      ref: typeof ref === 'string' ? ref : undefined,
+    });
+
+    res.json({ success: true, data: graph });
+  } catch (error) {
+    logger.error('Git graph failed:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to get commit graph' 
+    });
+  }
+});
+
+/**
+ * GET /api/git/commit/:ref
+ * Commit details with per-file stats
+ */
+router.get('/commit/:ref', validateGitCommitRef, async (req: Request, res: Response) => {
+  try {
+    const commit = await gitService.commitDetails(req.params.ref);
+
+    if (!commit) {
+      return res.status(404).json({ success: false, error: 'Commit not found' });
+    }
+
+    return res.json({ success: true, data: commit });
+  } catch (error) {
+    logger.error('Git commit details failed:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Failed to get commit details' 
+    });
+  }
+});
+
+/**
+ * Respond 400 for conflict workflow misuse (nothing in progress, file not conflicted, ...)
+ */
+const sendConflictError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof ConflictResolutionError) {
+    return res.status(400).json({ success: false, error: error.message });
+  }
+  logger.error(`Git ${fallback} failed:`, error);
+  return res.status(500).json({ 
+    success: false, 
+    error: error instanceof Error ? error.message : `Failed to ${fallback}` 
+  });
+};
+
+/**
+ * POST /api/git/merge
+ * Merge a branch into the current one
+ * Body: { branch: string, noFf?: boolean }
+ */
+router.post('/merge', validateGitMerge, async (req: Request, res: Response) => {
+  try {
+    const result = await gitService.merge(req.body.branch, { noFf: req.body.noFf === true });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    sendConflictError(res, error, 'merge');
+  }
+});
+
+/**
+ * POST /api/git/rebase
+ * Rebase the current branch (non-interactive)
+ * Body: { onto: string }
+ */
+router.post('/rebase', validateGitRebase, async (req: Request, res: Response) => {
+  try {
+    const result = await gitService.rebase(req.body.onto);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    sendConflictError(res, error, 'rebase');
+  }
+});
+
+/**
+ * GET /api/git/operation
+ * Merge/rebase/cherry-pick/revert in progress and its conflicted files
+ */
+router.get('/operation', async (_req, res) => {
+  try {
+    res.json({ success: true, data: await gitService.operationState() });
+  } catch (error) {
+    sendConflictError(res, error, 'get operation state');
+  }
+});
+
+/**
+ * POST /api/git/abort
+ * Abort the operation in progress
+ */
+router.post('/abort', async (_req, res) => {
+  try {
+    await gitService.abortOperation();
+    res.json({ success: true, message: 'Operation aborted' });
+  } catch (error) {
+    sendConflictError(res, error, 'abort');
+  }
+});
+
+/**
+ * POST /api/git/continue
+ * Continue the operation in progress after all conflicts are resolved
+ */
+router.post('/continue', async (_req, res) => {
+  try {
+    res.json({ success: true, data: await gitService.continueOperation() });
+  } catch (error) {
+    sendConflictError(res, error, 'continue');
+  }
+});
+
+/**
+ * GET /api/git/conflicts?file=path/to/file
+ * Base/ours/theirs versions and parsed conflict regions
+ */
+router.get('/conflicts', validateGitConflictFile, async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await gitService.conflictFile(req.query.file as string) });
+  } catch (error) {
+    sendConflictError(res, error, 'get conflict');
+  }
+});
+
+/**
+ * POST /api/git/conflicts/resolve
+ * Write the resolution and stage it
+ * Body: { file: string } plus one of { content: string } | { choice } | { choices: [] }
+ */
+router.post('/conflicts/resolve', validateGitConflictResolve, async (req: Request, res: Response) => {
+  try {
+    const { file, content, choice, choices } = req.body;
+    await gitService.resolveConflict(file, content !== undefined ? { content } : choice ? { choice } : { choices });
+    res.json({ success: true, message: `Resolved ${file}` });
+  } catch (error) {
+    sendConflictError(res, error, 'resolve conflict');
+  }
+});
+
 /**
  * GET /api/git/remotes
  * List remotes
@@ -285,7 +612,7 @@ router.get('/remotes', async (_req, res) => {
  * Add remote
  * Body: { name: string, url: string }
  */
-router.post('/remote', async (req, res) => {
+router.post('/remote', validateGitRemoteAdd, async (req: Request, res: Response) => {
   try {
     const { name, url } = req.body;
     
@@ -309,7 +636,7 @@ router.post('/remote', async (req, res) => {
  * Clone repository
  * Body: { url: string, directory?: string }
  */
-router.post('/clone', async (req, res) => {
+router.post('/clone', validateGitClone, async (req: Request, res: Response) => {
   try {
     const { url, directory } = req.body;
     
@@ -331,9 +658,9 @@ router.post('/clone', async (req, res) => {
 /**
  * POST /api/git/reset
  * Reset changes
- * Body: { mode: 'soft' | 'mixed' | 'hard', ref?: string }
+ * Body: { mode: 'soft' | 'mixed' | 'hard', ref?: string } (hard requires admin)
  */
-router.post('/reset', async (req, res) => {
+router.post('/reset', requireAdminWhen(req => req.body?.mode === 'hard'), validateGitReset, async (req: Request, res: Response) => {
   try {
     const { mode, ref } = req.body;
     
@@ -353,7 +680,7 @@ router.post('/reset', async (req, res) => {
  * Stash changes
  * Body: { message?: string }
  */
-router.post('/stash', async (req, res) => {
+router.post('/stash', validateGitStash, async (req: Request, res: Response) => {
   try {
     const { message } = req.body;
     await gitService.stash(message);
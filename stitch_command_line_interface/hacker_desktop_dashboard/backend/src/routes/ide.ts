@@ -1,6 +1,7 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { workspaceService } from '../services/workspaceService';
 import { executionService } from '../services/executionService';
+import { executionDispatcher, UnsupportedLanguageError } from '../services/executionDispatcher';
 import { llmService } from '../services/llmService';
 import { logger } from '../utils/logger';
 import { requireDeveloper, requireAdmin, userRateLimit } from '../middleware/auth';
@@ -10,6 +11,7 @@ import {
   validateWorkspaceFileDelete,
   validateWorkspaceSearch,
   validateCodeExecution,
+  validateExecutionSettings,
 } from '../middleware/validation';
 
 const router = Router();
@@ -17,6 +19,18 @@ const router = Router();
 // Note: All routes are already protected by authenticateToken + requireDeveloper from app.ts
 // Additional guards below provide extra protection for write/delete/execute operations
 
+/**
+ * Let whoever started an execution cancel it; anyone else needs admin
+ */
+const requireExecutionOwner = (req: Request, res: Response, next: NextFunction): void => {
+  const owner = executionDispatcher.ownerOf(req.params.id);
+  if (owner && owner !== req.user?.userId) {
+    requireAdmin(req, res, next);
+    return;
+  }
+  next();
+};
+
 /**
  * Workspace Routes
  */
@@ -200,10 +214,10 @@ router.get('/workspace/stats', async (_req, res) => {
  * Execution Routes
  */
 
-// Execute code - require developer role + per-user rate limiting
+// Execute code in the sandbox for its language - require developer role + per-user rate limiting
 router.post('/execute', requireDeveloper, userRateLimit(10, 60000), validateCodeExecution, async (req: Request, res: Response) => {
   try {
-    const { code, language, timeout, memoryLimit } = req.body;
+    const { code, language, timeout, memoryLimit, input, typeCheck, workingDirectory } = req.body;
     
     if (!code || !language) {
       return res.status(400).json({ 
@@ -214,19 +228,22 @@ router.post('/execute', requireDeveloper, userRateLimit(10, 60000), validateCode
 
     logger.info(`Code execution requested by ${req.user?.username} (${language})`);
 
-    const executionId = await executionService.executeCode({
+    const result = await executionDispatcher.execute({
       code,
       language,
       timeout,
       memoryLimit,
+      input,
+      typeCheck,
+      workingDirectory,
+      userId: req.user?.userId,
     });
 
-    // Wait a bit for execution to complete
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    const result = executionService.getResult(executionId);
-    return res.json({ success: true, executionId, result });
+    return res.json({ success: true, executionId: result.id, result });
   } catch (error) {
+    if (error instanceof UnsupportedLanguageError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
     logger.error('Failed to execute code:', error);
     return res.status(500).json({ 
       success: false, 
@@ -235,10 +252,52 @@ router.post('/execute', requireDeveloper, userRateLimit(10, 60000), validateCode
   }
 });
 
+// Get execution stats (before /execute/:id, which would match it)
+router.get('/execute/stats', async (_req, res) => {
+  try {
+    const stats = executionService.getStats();
+    return res.json({ success: true, data: stats });
+  } catch (error) {
+    logger.error('Failed to get execution stats:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
+// Sandbox settings (before /execute/:id, which would match them)
+router.get('/execute/settings', (_req, res) => {
+  res.json({ success: true, data: executionService.getSettings() });
+});
+
+// networkAccess is capped at SANDBOX_NETWORK_ACCESS, so this can only tighten the operator's limit
+router.put('/execute/settings', requireDeveloper, validateExecutionSettings, (req: Request, res: Response) => {
+  const { networkAccess } = req.body;
+  res.json({
+    success: true,
+    data: executionService.updateSettings(networkAccess !== undefined ? { networkAccess } : {}),
+  });
+});
+
+// Languages and whether their runtime is available on this host
+router.get('/execute/languages', async (_req, res) => {
+  try {
+    const runtimes = await executionDispatcher.getRuntimes();
+    return res.json({ success: true, data: runtimes });
+  } catch (error) {
+    logger.error('Failed to list execution runtimes:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    });
+  }
+});
+
 // Get execution result
 router.get('/execute/:id', async (req, res) => {
   try {
-    const result = executionService.getResult(req.params.id);
+    const result = executionDispatcher.getResult(req.params.id);
     
     if (!result) {
       return res.status(404).json({ 
@@ -258,9 +317,9 @@ router.get('/execute/:id', async (req, res) => {
 });
 
 // Cancel execution
-router.delete('/execute/:id', async (req, res) => {
+router.delete('/execute/:id', requireExecutionOwner, async (req: Request, res: Response) => {
   try {
-    await executionService.cancelExecution(req.params.id);
+    await executionDispatcher.cancel(req.params.id);
     return res.json({ success: true });
   } catch (error) {
     logger.error('Failed to cancel execution:', error);
@@ -274,7 +333,7 @@ router.delete('/execute/:id', async (req, res) => {
 // List executions
 router.get('/execute', async (_req, res) => {
   try {
-    const executions = executionService.listExecutions();
+    const executions = executionDispatcher.list();
     return res.json({ success: true, data: executions });
   } catch (error) {
     logger.error('Failed to list executions:', error);
@@ -285,20 +344,6 @@ router.get('/execute', async (_req, res) => {
   }
 });
 
-// Get execution stats
-router.get('/execute/stats', async (_req, res) => {
-  try {
-    const stats = executionService.getStats();
-    return res.json({ success: true, data: stats });
-  } catch (error) {
-    logger.error('Failed to get execution stats:', error);
-    return res.status(500).json({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
-  }
-});
-
 /**
  * AI Assistant Routes
  */
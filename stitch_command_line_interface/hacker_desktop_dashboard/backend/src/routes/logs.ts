@@ -1,30 +1,39 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
+import { logAggregatorService } from '../services/logAggregatorService';
+import { LogQueryError, parseLogQuery, runLogQuery } from '../services/logQuery';
+import { validateLogQuery, validateLogStream } from '../middleware/validation';
 
 const router = Router();
 
-router.get('/stream', (req, res) => {
-  const limit = Math.min(parseInt((req.query.limit as string) || '100', 10), 500);
-  const since = req.query.since as string | undefined;
-  const baseId = Date.now();
-  const tags: Array<'INFO' | 'WARN' | 'ERROR' | 'DEBUG'> = ['INFO', 'WARN', 'ERROR', 'DEBUG'];
-  const messages = [
-    'Dev server ready on http://localhost:5173',
-    'HMR update detected, reloading',
-    'Three slow tests detected (>= 1200 ms)',
-    'VPN heartbeat stalled, retrying',
-    'File watcher limit reached, consider increasing',
-    'Build completed successfully',
-  ];
+// `since` is the id of the last entry the client has seen; `next` is the cursor for the following call
+router.get('/stream', validateLogStream, (req: Request, res: Response) => {
+  const limit = parseInt((req.query.limit as string) || '100', 10);
+  const since = req.query.since !== undefined ? parseInt(req.query.since as string, 10) : undefined;
 
-  const logs = Array.from({ length: limit }, (_, i) => ({
-    id: baseId - i,
-    tag: tags[Math.floor(Math.random() * tags.length)],
-    message: messages[Math.floor(Math.random() * messages.length)],
-    timestamp: new Date(Date.now() - i * 2000).toISOString(),
-  }));
+  res.json(logAggregatorService.getEntries({ since, limit }));
+});
+
+router.get('/query', validateLogQuery, (req: Request, res: Response) => {
+  const q = (req.query.q as string) || '';
+  const page = parseInt((req.query.page as string) || '1', 10);
+  const pageSize = parseInt((req.query.pageSize as string) || '100', 10);
+  const order = (req.query.order as 'asc' | 'desc') || 'desc';
 
-  res.json({ logs, since: since || null });
+  try {
+    const result = runLogQuery(logAggregatorService.getAll(), parseLogQuery(q), { page, pageSize, order });
+    res.set('X-Total-Count', String(result.total));
+    res.json({ query: q, ...result });
+  } catch (error) {
+    if (error instanceof LogQueryError) {
+      res.status(400).json({ error: { code: 'INVALID_QUERY', message: error.message, position: error.position } });
+      return;
+    }
+    throw error;
+  }
 });
 
-export default router;
+router.get('/sources', (_req, res) => {
+  res.json({ sources: logAggregatorService.getSources() });
+});
 
+export default router;
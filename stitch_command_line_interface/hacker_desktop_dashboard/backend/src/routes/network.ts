@@ -1,43 +1,184 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { connectionService, Protocol } from '../services/connectionService';
+import { flowService } from '../services/flowService';
+import { policyService, PolicyRuleInput } from '../services/policyService';
+import { requireDeveloper } from '../middleware/auth';
+import {
+  validateNetworkConnections,
+  validateNetworkFlows,
+  validatePolicyRule,
+  validatePolicyRuleUpdate,
+  validatePolicyHostLists,
+} from '../middleware/validation';
 
 const router = Router();
 
-router.get('/flows', (_req, res) => {
-  const apps = ['node', 'docker', 'chrome', 'vscode', 'curl'];
-  const dests = ['api.internal', 'registry.hub', 'cdn.jsdelivr.net', 'github.com', 'unknown-host'];
-  const statuses = ['allow', 'watch', 'block'] as const;
-
-  const flows = Array.from({ length: 5 }, (_, i) => ({
-    id: String(i + 1),
-    app: apps[i % apps.length],
-    dest: dests[i % dests.length],
-    status: statuses[i % statuses.length],
-    bytesTotal: Math.floor(Math.random() * 10_000_000),
-    startedAt: new Date(Date.now() - Math.floor(Math.random() * 600000)).toISOString(),
-  }));
-  res.json({ flows });
-});
-
-router.get('/connections', (_req, res) => {
-  const protocols = ['TCP', 'UDP', 'HTTP', 'HTTPS', 'WebSocket'];
-  const states = ['ESTABLISHED', 'LISTEN', 'TIME_WAIT', 'CLOSE_WAIT'];
-  
-  const connections = Array.from({ length: 8 }, (_, i) => ({
-    id: String(i + 1),
-    protocol: protocols[i % protocols.length],
-    localAddress: `127.0.0.1:${3000 + i}`,
-    remoteAddress: `${192 + (i % 2)}.168.1.${100 + i}:${8000 + i}`,
-    state: states[i % states.length],
-    pid: 1000 + i * 100,
-    process: i % 2 === 0 ? 'node' : 'chrome',
-  }));
-  
-  res.json({ connections });
-});
-
-router.post('/flows/:id/block', (req, res) => {
-  const { id } = req.params;
-  res.json({ success: true, flowId: id, blockedAt: new Date().toISOString() });
+router.get('/flows', validateNetworkFlows, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Outside the WebSocket server the tracker is not polling; take a snapshot on demand
+    await policyService.load();
+    if (!flowService.isRunning()) {
+      await flowService.poll();
+    }
+
+    const state = (req.query.state as string) || 'active';
+    const limit = parseInt((req.query.limit as string) || '100', 10);
+    const flows = [
+      ...(state === 'closed' ? [] : flowService.getActive()),
+      ...(state === 'active' ? [] : flowService.getClosed()),
+    ].slice(0, limit);
+
+    res.json({ flows });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/flows/:id', (req, res) => {
+  const flow = flowService.getFlow(req.params.id);
+  if (!flow) {
+    res.status(404).json({ error: { code: 'FLOW_NOT_FOUND', message: `Flow ${req.params.id} not found` } });
+    return;
+  }
+  res.json(flow);
+});
+
+router.get('/processes', async (_req, res, next) => {
+  try {
+    if (!flowService.isRunning()) {
+      await flowService.poll();
+    }
+    res.json({ processes: flowService.getProcesses() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/connections', validateNetworkConnections, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt((req.query.page as string) || '1', 10);
+    const pageSize = parseInt((req.query.pageSize as string) || '50', 10);
+    const result = await connectionService.query(
+      {
+        state: req.query.state ? (req.query.state as string).split(',') : undefined,
+        port: req.query.port !== undefined ? parseInt(req.query.port as string, 10) : undefined,
+        process: req.query.process as string | undefined,
+        protocol: req.query.protocol ? ((req.query.protocol as string).toUpperCase() as Protocol) : undefined,
+      },
+      page,
+      pageSize
+    );
+
+    res.setHeader('X-Total-Count', String(result.total));
+    res.setHeader('X-Page-Count', String(Math.max(1, Math.ceil(result.total / pageSize))));
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/flows/:id/block', requireDeveloper, async (req, res, next) => {
+  try {
+    const flow = flowService.getFlow(req.params.id);
+    if (!flow) {
+      res.status(404).json({ error: { code: 'FLOW_NOT_FOUND', message: `Flow ${req.params.id} not found` } });
+      return;
+    }
+
+    const rule = await policyService.blockFlow(flow);
+    res.json({
+      success: true,
+      flowId: flow.id,
+      blockedAt: rule.createdAt,
+      rule,
+      enforcement: policyService.getBackendName(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Policy rules
+ */
+function pickRuleInput(body: Record<string, unknown>): Partial<PolicyRuleInput> {
+  const input: Partial<PolicyRuleInput> = {};
+  if (body.process !== undefined) input.process = body.process as string;
+  if (body.destination !== undefined) input.destination = body.destination as string;
+  if (body.port !== undefined) input.port = body.port === null ? undefined : Number(body.port);
+  if (body.action !== undefined) input.action = body.action as PolicyRuleInput['action'];
+  if (body.priority !== undefined) input.priority = Number(body.priority);
+  if (body.enabled !== undefined) input.enabled = Boolean(body.enabled);
+  if (body.description !== undefined) input.description = body.description as string;
+  return input;
+}
+
+router.get('/policy', async (_req, res, next) => {
+  try {
+    res.json({
+      defaultAction: policyService.getDefaultAction(),
+      backend: policyService.getBackendName(),
+      rules: await policyService.listRules(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/policy/rules', requireDeveloper, validatePolicyRule, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rule = await policyService.createRule(pickRuleInput(req.body) as PolicyRuleInput);
+    res.status(201).json(rule);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/policy/rules/:id', requireDeveloper, validatePolicyRuleUpdate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const existing = await policyService.getRule(req.params.id);
+    if (!existing || existing.source !== 'user') {
+      res.status(404).json({ error: { code: 'RULE_NOT_FOUND', message: `Rule ${req.params.id} not found` } });
+      return;
+    }
+    res.json(await policyService.updateRule(req.params.id, pickRuleInput(req.body)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/policy/rules/:id', requireDeveloper, async (req, res, next) => {
+  try {
+    const existing = await policyService.getRule(req.params.id);
+    if (!existing || existing.source !== 'user') {
+      res.status(404).json({ error: { code: 'RULE_NOT_FOUND', message: `Rule ${req.params.id} not found` } });
+      return;
+    }
+    await policyService.deleteRule(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Settings-managed rules are replaced wholesale from the frontend's host lists
+router.put('/policy/host-lists', requireDeveloper, validatePolicyHostLists, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rules = await policyService.setHostLists({ allow: req.body.allow ?? [], deny: req.body.deny ?? [] });
+    res.json({ rules });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/policy/matches', validateNetworkFlows, (req: Request, res: Response) => {
+  const limit = parseInt((req.query.limit as string) || '100', 10);
+  res.json({ matches: policyService.getMatches(limit) });
+});
+
+router.get('/policy/enforcement', validateNetworkFlows, (req: Request, res: Response) => {
+  const limit = parseInt((req.query.limit as string) || '100', 10);
+  res.json({ backend: policyService.getBackendName(), records: policyService.getEnforcementLog(limit) });
 });
 
 export default router;
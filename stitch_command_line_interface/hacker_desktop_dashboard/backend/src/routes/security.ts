@@ -1,4 +1,7 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { InvalidRedactionPatternError, RedactionSettings, redactionService } from '../services/redactionService';
+import { requireDeveloper } from '../middleware/auth';
+import { validateRedactionAudit, validateRedactionSettings } from '../middleware/validation';
 
 const router = Router();
 
@@ -23,5 +26,31 @@ router.post('/panic', (req, res) => {
   res.json({ success: true, actions: ['disable-network', 'lock-sessions', 'notify-admins'], reason: reason || null });
 });
 
+router.get('/redaction', (_req, res) => {
+  res.json({ settings: redactionService.getSettings(), audit: redactionService.getAudit(0) });
+});
+
+// Unknown keys are ignored; an invalid custom pattern is rejected with 400
+router.put('/redaction', requireDeveloper, validateRedactionSettings, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const update: Partial<RedactionSettings> = {};
+    for (const key of ['logRedactSecrets', 'secretRedaction', 'llmExcludeSecrets', 'customPatterns'] as const) {
+      if (req.body[key] !== undefined) (update as Record<string, unknown>)[key] = req.body[key];
+    }
+    res.json({ settings: redactionService.updateSettings(update) });
+  } catch (error) {
+    if (error instanceof InvalidRedactionPatternError) {
+      res.status(400).json({ error: { code: 'INVALID_PATTERN', message: error.message } });
+      return;
+    }
+    next(error);
+  }
+});
+
+router.get('/redaction/audit', validateRedactionAudit, (req: Request, res: Response) => {
+  const limit = parseInt((req.query.limit as string) || '100', 10);
+  res.json(redactionService.getAudit(limit));
+});
+
 export default router;
 
@@ -1,25 +1,74 @@
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { metricsService } from '../services/metricsService';
+import { validateMetricsHistory } from '../middleware/validation';
 
 const router = Router();
 
-router.get('/metrics', (_req, res) => {
-  const cpuUsage = Math.floor(20 + Math.random() * 60);
-  const cpuTemp = Math.floor(45 + Math.random() * 25);
-  const memTotal = 16 * 1024; // MB
-  const memUsed = Math.floor(6 * 1024 + Math.random() * 6 * 1024);
-  const memFree = memTotal - memUsed;
-  const charging = Math.random() > 0.5;
-  const batteryPct = Math.floor(40 + Math.random() * 60);
-  const rx = Math.floor(Math.random() * 10_000);
-  const tx = Math.floor(Math.random() * 10_000);
-
-  res.json({
-    cpu: { usage: cpuUsage, cores: 8, temperature: cpuTemp },
-    memory: { used: memUsed, free: memFree, total: memTotal, unit: 'MB' },
-    battery: { charging, percentage: batteryPct, timeRemaining: charging ? null : Math.floor(Math.random() * 180) },
-    network: { rx, tx, unit: 'KB/s' },
-  });
+const DEFAULT_HISTORY_WINDOW_MS = 15 * 60 * 1000;
+const MAX_POINTS_PER_SERIES = 2000;
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+
+// A bare number is read as seconds, matching the `step` convention of Prometheus-style APIs
+function parseDuration(value: string): number {
+  const match = /^(\d+)(ms|s|m|h)?$/.exec(value);
+  if (!match) return NaN;
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2] || 's'];
+}
+
+function parseTime(value: string): number {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+}
+
+router.get('/metrics', async (_req, res, next) => {
+  try {
+    const sample = await metricsService.getCurrent();
+    res.json(sample);
+  } catch (error) {
+    next(error);
+  }
 });
 
-export default router;
+router.get('/metrics/history', validateMetricsHistory, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const to = req.query.to ? parseTime(req.query.to as string) : Date.now();
+    const from = req.query.from ? parseTime(req.query.from as string) : to - DEFAULT_HISTORY_WINDOW_MS;
+    let stepMs = req.query.step ? parseDuration(req.query.step as string) : undefined;
+
+    if (from >= to) {
+      res.status(400).json({ error: { code: 'INVALID_RANGE', message: 'from must be earlier than to' } });
+      return;
+    }
 
+    const available = metricsService.listSeries();
+    const series = req.query.series
+      ? (req.query.series as string).split(',').map(s => s.trim()).filter(Boolean)
+      : available;
+    const unknown = series.filter(name => !available.includes(name));
+    if (unknown.length > 0) {
+      res.status(400).json({
+        error: { code: 'UNKNOWN_SERIES', message: `Unknown series: ${unknown.join(', ')}`, details: { available } },
+      });
+      return;
+    }
+
+    // Widen the step rather than return an unbounded number of points
+    const minStepMs = Math.ceil((to - from) / MAX_POINTS_PER_SERIES);
+    if (stepMs !== undefined && stepMs < minStepMs) {
+      stepMs = minStepMs;
+    }
+
+    const result = metricsService.querySeries({ series, from, to, stepMs });
+    res.json({
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      step: result.stepMs,
+      resolution: result.resolution,
+      series: result.series,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -8,6 +8,7 @@ import { Server as SocketIOServer } from 'socket.io';
 import app from './app';
 import { setupWebSocket } from './websocket/server';
 import { setupIDEWebSocket } from './websocket/ideHandler';
+import { debugSessionManager } from './services/debugSessionManager';
 import { logger } from './utils/logger';
 
 const PORT = process.env.PORT || 3001;
@@ -91,6 +92,7 @@ server.listen(PORT, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
+  debugSessionManager.stop().catch((error) => logger.error('Failed to stop debug sessions:', error));
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -99,6 +101,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server');
+  debugSessionManager.stop().catch((error) => logger.error('Failed to stop debug sessions:', error));
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -0,0 +1,357 @@
+/**
+ * Artifact Service
+ * Content-addressed store for pipeline outputs on local disk: blobs keyed by sha256,
+ * optional AES-256-GCM encryption at rest and a retention sweeper
+ */
+
+import crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { logger } from '../utils/logger';
+
+export interface ArtifactMeta {
+  /** `art-<number>` */
+  id: string;
+  /** Workspace-relative path the step wrote it to */
+  name: string;
+  runId: string;
+  stepId: string;
+  size: number;
+  /** Of the plaintext content */
+  sha256: string;
+  encrypted: boolean;
+  createdAt: string;
+}
+
+/** Mirrors the `artifactRetentionDays` and `artifactEncryption` workspace settings */
+export interface ArtifactSettings {
+  /** Artifacts older than this are swept; 0 keeps them forever */
+  retentionDays: number;
+  /** Applies to artifacts stored from now on */
+  encryption: boolean;
+}
+
+export interface ArtifactServiceOptions {
+  dataDir?: string;
+  settings?: Partial<ArtifactSettings>;
+  /** 32-byte key as 64 hex characters; ARTIFACT_ENCRYPTION_KEY by default, required to encrypt */
+  encryptionKey?: string;
+  maxFileMb?: number;
+  sweepIntervalMs?: number;
+}
+
+export interface ArtifactSweepResult {
+  removed: number;
+  freedBytes: number;
+}
+
+export class ArtifactTooLargeError extends Error {
+  constructor(name: string, limitMb: number) {
+    super(`${name} exceeds the ${limitMb} MB artifact limit`);
+    this.name = 'ArtifactTooLargeError';
+  }
+}
+
+export class ArtifactKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArtifactKeyError';
+  }
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function hashFile(file: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(createReadStream(file), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Artifact Service
+ */
+export class ArtifactService {
+  private dataDir: string;
+  private settings: ArtifactSettings;
+  private configuredKey: string | undefined;
+  private maxFileBytes: number;
+  private sweepIntervalMs: number;
+  private artifacts: ArtifactMeta[] = [];
+  private nextId = 1;
+  private key: Promise<Buffer> | null = null;
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: ArtifactServiceOptions = {}) {
+    this.dataDir = options.dataDir || process.env.ARTIFACT_DATA_DIR || path.join(process.cwd(), 'data', 'artifacts');
+    this.settings = {
+      retentionDays: parseInt(process.env.ARTIFACT_RETENTION_DAYS || '7', 10),
+      encryption: process.env.ARTIFACT_ENCRYPTION === 'true',
+      ...options.settings,
+    };
+    this.configuredKey = options.encryptionKey ?? process.env.ARTIFACT_ENCRYPTION_KEY;
+    this.maxFileBytes = (options.maxFileMb ?? parseInt(process.env.ARTIFACT_MAX_FILE_MB || '100', 10)) * 1024 * 1024;
+    this.sweepIntervalMs = options.sweepIntervalMs ?? parseInt(process.env.ARTIFACT_SWEEP_INTERVAL_MS || '3600000', 10);
+  }
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readIndex();
+    }
+    return this.loading;
+  }
+
+  getSettings(): ArtifactSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Apply settings pushed from the frontend; a shorter retention takes effect on the next sweep.
+   * Encryption can only be turned on when a usable key is configured.
+   */
+  updateSettings(update: Partial<ArtifactSettings>): ArtifactSettings {
+    if (update.encryption) {
+      this.resolveKey();
+    }
+    this.settings = { ...this.settings, ...update };
+    return this.getSettings();
+  }
+
+  /**
+   * Start the periodic retention sweep
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.sweep().catch(error => logger.error('Initial artifact sweep failed:', error));
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => logger.error('Artifact sweep failed:', error));
+    }, this.sweepIntervalMs);
+    this.timer.unref();
+    logger.info(`Artifact retention sweeper started (${this.settings.retentionDays} days)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Copy a file into the store. Identical content is kept once however often it is stored.
+   */
+  async store(file: string, meta: Pick<ArtifactMeta, 'name' | 'runId' | 'stepId'>): Promise<ArtifactMeta> {
+    await this.load();
+    const { size } = await fs.stat(file);
+    if (size > this.maxFileBytes) {
+      throw new ArtifactTooLargeError(meta.name, this.maxFileBytes / 1024 / 1024);
+    }
+
+    const sha256 = await hashFile(file);
+    const encrypted = this.settings.encryption;
+    const blob = await this.blobPath(sha256, encrypted);
+    try {
+      await fs.access(blob);
+    } catch {
+      await fs.mkdir(path.dirname(blob), { recursive: true });
+      const tmp = `${blob}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      if (encrypted) {
+        await this.encryptTo(file, tmp);
+      } else {
+        await fs.copyFile(file, tmp);
+      }
+      await fs.rename(tmp, blob);
+    }
+
+    const artifact: ArtifactMeta = {
+      id: `art-${this.nextId++}`,
+      ...meta,
+      size,
+      sha256,
+      encrypted,
+      createdAt: new Date().toISOString(),
+    };
+    this.artifacts.push(artifact);
+    await this.save();
+    return artifact;
+  }
+
+  async list(filter: { runId?: string; stepId?: string } = {}): Promise<ArtifactMeta[]> {
+    await this.load();
+    return this.artifacts.filter(artifact =>
+      (filter.runId === undefined || artifact.runId === filter.runId)
+      && (filter.stepId === undefined || artifact.stepId === filter.stepId));
+  }
+
+  async get(id: string): Promise<ArtifactMeta | undefined> {
+    await this.load();
+    return this.artifacts.find(artifact => artifact.id === id);
+  }
+
+  /**
+   * Plaintext content of an artifact. Encrypted blobs are authenticated in a first pass over the
+   * blob, so a tampered blob is refused before any plaintext is returned.
+   */
+  async open(artifact: ArtifactMeta): Promise<Readable> {
+    const blob = await this.blobPath(artifact.sha256, artifact.encrypted);
+    if (!artifact.encrypted) {
+      return createReadStream(blob);
+    }
+
+    const handle = await fs.open(blob, 'r');
+    let iv: Buffer;
+    let tag: Buffer;
+    let size: number;
+    try {
+      size = (await handle.stat()).size;
+      if (size < IV_BYTES + TAG_BYTES) throw new Error(`Artifact ${artifact.id} is truncated`);
+      iv = Buffer.alloc(IV_BYTES);
+      tag = Buffer.alloc(TAG_BYTES);
+      await handle.read(iv, 0, IV_BYTES, 0);
+      await handle.read(tag, 0, TAG_BYTES, size - TAG_BYTES);
+    } finally {
+      await handle.close();
+    }
+
+    const key = await this.encryptionKey();
+    const decrypt = () => {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAuthTag(tag);
+      const body = size > IV_BYTES + TAG_BYTES
+        ? createReadStream(blob, { start: IV_BYTES, end: size - TAG_BYTES - 1 })
+        : Readable.from([]);
+      body.on('error', (error: Error) => decipher.destroy(error));
+      return body.pipe(decipher);
+    };
+
+    // GCM only checks the tag at the end, so verify it before handing out plaintext
+    await pipeline(decrypt(), new Writable({ write: (_chunk, _encoding, done) => done() }));
+    return decrypt();
+  }
+
+  /**
+   * Drop artifacts past the retention period and any blobs nothing refers to any more
+   */
+  async sweep(now = Date.now()): Promise<ArtifactSweepResult> {
+    await this.load();
+    const { retentionDays } = this.settings;
+    const cutoff = now - retentionDays * DAY_MS;
+    const expired = retentionDays > 0 ? this.artifacts.filter(artifact => Date.parse(artifact.createdAt) < cutoff) : [];
+    if (expired.length) {
+      this.artifacts = this.artifacts.filter(artifact => !expired.includes(artifact));
+      await this.save();
+    }
+
+    const referenced = new Set<string>();
+    for (const artifact of this.artifacts) {
+      referenced.add(await this.blobPath(artifact.sha256, artifact.encrypted));
+    }
+    let freedBytes = 0;
+    for (const artifact of expired) {
+      const blob = await this.blobPath(artifact.sha256, artifact.encrypted);
+      if (referenced.has(blob)) continue;
+      referenced.add(blob);
+      try {
+        freedBytes += (await fs.stat(blob)).size;
+        await fs.rm(blob);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    if (expired.length) {
+      logger.info(`Artifact sweep removed ${expired.length} artifacts (${freedBytes} bytes) older than ${retentionDays} days`);
+    }
+    return { removed: expired.length, freedBytes };
+  }
+
+  /**
+   * Encrypted blobs are named by a keyed hash so the store does not reveal content hashes
+   */
+  private async blobPath(sha256: string, encrypted: boolean): Promise<string> {
+    const name = encrypted
+      ? `${crypto.createHmac('sha256', await this.encryptionKey()).update(sha256).digest('hex')}.enc`
+      : sha256;
+    return path.join(this.dataDir, 'blobs', name.slice(0, 2), name);
+  }
+
+  /**
+   * Layout: 12-byte IV, ciphertext, 16-byte GCM tag
+   */
+  private async encryptTo(file: string, target: string): Promise<void> {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', await this.encryptionKey(), iv);
+    const out = createWriteStream(target);
+    out.write(iv);
+    await pipeline(
+      createReadStream(file),
+      cipher,
+      new Transform({
+        transform: (chunk, _encoding, done) => done(null, chunk),
+        flush: done => done(null, cipher.getAuthTag()),
+      }),
+      out
+    );
+  }
+
+  private encryptionKey(): Promise<Buffer> {
+    if (!this.key) {
+      this.key = Promise.resolve().then(() => this.resolveKey());
+      this.key.catch(() => { this.key = null; });
+    }
+    return this.key;
+  }
+
+  /**
+   * The key comes from configuration only: kept next to the blobs, it would protect nothing
+   */
+  private resolveKey(): Buffer {
+    if (!this.configuredKey) {
+      throw new ArtifactKeyError('Artifact encryption needs ARTIFACT_ENCRYPTION_KEY (64 hex characters)');
+    }
+    if (!/^[0-9a-f]{64}$/i.test(this.configuredKey)) {
+      throw new ArtifactKeyError('ARTIFACT_ENCRYPTION_KEY must be 64 hex characters (32 bytes)');
+    }
+    return Buffer.from(this.configuredKey, 'hex');
+  }
+
+  private get indexFile(): string {
+    return path.join(this.dataDir, 'artifacts.json');
+  }
+
+  private async readIndex(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.indexFile, 'utf8'));
+      this.artifacts = Array.isArray(parsed.artifacts) ? parsed.artifacts : [];
+      this.nextId = typeof parsed.nextId === 'number' ? parsed.nextId : this.artifacts.length + 1;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to read artifact index ${this.indexFile}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Persist atomically; writes are queued so snapshots land in order
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(this.dataDir, { recursive: true });
+        const tmp = `${this.indexFile}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify({ version: 1, nextId: this.nextId, artifacts: this.artifacts }, null, 2), 'utf8');
+        await fs.rename(tmp, this.indexFile);
+      });
+    return this.saving;
+  }
+}
+
+export const artifactService = new ArtifactService();
@@ -0,0 +1,779 @@
+/**
+ * CI Service
+ * Runs the workspace pipeline definition locally: steps as child processes with timeouts,
+ * per-step status, duration and logs, test and coverage reports, artifacts and a persisted run history
+ */
+
+import { EventEmitter } from 'events';
+import { spawn, ChildProcess } from 'child_process';
+import { createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { gitService } from './gitService';
+import { workspaceService } from './workspaceService';
+import { nextSteps, parsePipeline, Pipeline, PipelineConfigError, PipelineStep, StepStatus } from './pipelineModel';
+import { parseTestReport, TestCaseResult } from './testReportModel';
+import { ArtifactService, artifactService } from './artifactService';
+import { CoverageTotals, coverageTotals, FileCoverage, mergeCoverage, parseCoverageReport } from './coverageModel';
+import { TestCounts, TestResultsService, testResultsService } from './testResultsService';
+import { passthroughEnv } from '../utils/childEnv';
+import { globToRegExp } from '../utils/glob';
+import { logger } from '../utils/logger';
+
+export interface CiStepResult {
+  id: string;
+  stage: string;
+  name: string;
+  command: string;
+  status: StepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  exitCode?: number | null;
+  timedOut?: boolean;
+  attempts?: number;
+  /** From the step's test reports (last attempt) */
+  tests?: TestCounts;
+  /** Failing flaky tests that did not fail the step */
+  quarantined?: string[];
+  /** Ids in the artifact store */
+  artifacts?: string[];
+}
+
+export type CiRunStatus = 'running' | 'pass' | 'fail' | 'cancelled';
+
+export interface CiRun {
+  /** `run-<number>`, also used as the logs ref */
+  id: string;
+  number: number;
+  pipeline: string;
+  branch?: string;
+  commit?: string;
+  trigger?: string;
+  status: CiRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+  steps: CiStepResult[];
+  /** Totals over the steps that produced test reports */
+  tests?: TestCounts;
+  /** Merged over every step's coverage files; per-file lines via `readCoverage` */
+  coverage?: CiRunCoverage;
+}
+
+export interface CiRunCoverage extends CoverageTotals {
+  files: number;
+  /** Minimum line coverage the run was held to (0 when not enforced) */
+  threshold: number;
+}
+
+export interface CiLogChunk {
+  runId: string;
+  stepId: string;
+  chunk: string;
+}
+
+/**
+ * Shape served by /v1/ci/status (the dashboard's CiState) plus the run it describes
+ */
+export interface CiSummary {
+  build: { durationMs: number; cacheHitPct: number | null; status: 'pass' | 'fail' | 'running' | 'idle' };
+  tests: { pass: number; fail: number; skip: number; flaky: number; lastRunAt: string | null };
+  logsRef: string;
+  run: CiRun | null;
+}
+
+/** Mirrors the `ciAutoRetryCount`, `ciQuarantineFlaky` and `coverageThreshold` workspace settings */
+export interface CiSettings {
+  autoRetryCount: number;
+  quarantineFlaky: boolean;
+  /** Line coverage percentage below which a run fails */
+  coverageThreshold: number;
+}
+
+export interface CiServiceOptions {
+  workspaceRoot?: string;
+  dataDir?: string;
+  /** Pipeline definition, relative to the workspace root */
+  pipelineFile?: string;
+  historySize?: number;
+  maxParallel?: number;
+  stepTimeoutMs?: number;
+  logLimitKb?: number;
+  settings?: Partial<CiSettings>;
+  testResults?: TestResultsService;
+  artifacts?: ArtifactService;
+}
+
+export class CiBusyError extends Error {
+  constructor(runId: string) {
+    super(`Run ${runId} is still in progress`);
+    this.name = 'CiBusyError';
+  }
+}
+
+interface ActiveRun {
+  run: CiRun;
+  pipeline: Pipeline;
+  children: Map<string, ChildProcess>;
+  cancelled: boolean;
+  coverage: FileCoverage[];
+}
+
+const KILL_GRACE_MS = 5000;
+
+/**
+ * CI Service
+ */
+export class CiService extends EventEmitter {
+  private workspaceRoot: string;
+  private dataDir: string;
+  private pipelineFile: string;
+  private historySize: number;
+  private maxParallel: number;
+  private stepTimeoutMs: number;
+  private logLimitBytes: number;
+  private settings: CiSettings;
+  private testResults: TestResultsService;
+  private artifacts: ArtifactService;
+  /** Newest first */
+  private runs: CiRun[] = [];
+  private active: ActiveRun | null = null;
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: CiServiceOptions = {}) {
+    super();
+    this.workspaceRoot = options.workspaceRoot || workspaceService.getWorkspaceRoot();
+    this.dataDir = options.dataDir || process.env.CI_DATA_DIR || path.join(process.cwd(), 'data', 'ci');
+    this.pipelineFile = options.pipelineFile || process.env.CI_PIPELINE_FILE || 'pipeline.json';
+    this.historySize = options.historySize ?? parseInt(process.env.CI_HISTORY_SIZE || '50', 10);
+    this.maxParallel = options.maxParallel ?? parseInt(process.env.CI_MAX_PARALLEL_STEPS || '2', 10);
+    this.stepTimeoutMs = options.stepTimeoutMs ?? parseInt(process.env.CI_STEP_TIMEOUT_MS || '600000', 10);
+    this.logLimitBytes = (options.logLimitKb ?? parseInt(process.env.CI_STEP_LOG_LIMIT_KB || '1024', 10)) * 1024;
+    this.settings = {
+      autoRetryCount: parseInt(process.env.CI_AUTO_RETRY_COUNT || '1', 10),
+      quarantineFlaky: (process.env.CI_QUARANTINE_FLAKY || 'true') === 'true',
+      coverageThreshold: parseFloat(process.env.CI_COVERAGE_THRESHOLD || '80'),
+      ...options.settings,
+    };
+    this.testResults = options.testResults || testResultsService;
+    this.artifacts = options.artifacts || artifactService;
+  }
+
+  getSettings(): CiSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Apply settings pushed from the frontend; takes effect from the next step attempt
+   */
+  updateSettings(update: Partial<CiSettings>): CiSettings {
+    this.settings = { ...this.settings, ...update };
+    return this.getSettings();
+  }
+
+  /**
+   * Load run history once; runs left `running` by a previous process are marked cancelled
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readHistory();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Read and validate the pipeline definition
+   */
+  async loadPipeline(): Promise<Pipeline> {
+    const file = path.resolve(this.workspaceRoot, this.pipelineFile);
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new PipelineConfigError(`No pipeline definition at ${this.pipelineFile}`);
+      }
+      throw error;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (error) {
+      throw new PipelineConfigError(`${this.pipelineFile} is not valid JSON: ${(error as Error).message}`);
+    }
+    return parsePipeline(raw, { timeoutMs: this.stepTimeoutMs });
+  }
+
+  async listRuns(limit?: number): Promise<CiRun[]> {
+    await this.load();
+    return limit === undefined ? [...this.runs] : this.runs.slice(0, limit);
+  }
+
+  /**
+   * Find a run by id (`run-12`) or number
+   */
+  async getRun(ref: string): Promise<CiRun | undefined> {
+    await this.load();
+    return this.runs.find(run => run.id === ref || String(run.number) === ref);
+  }
+
+  /**
+   * Latest run condensed for the dashboard card. Runs without test reports count
+   * step outcomes instead.
+   */
+  async summary(): Promise<CiSummary> {
+    await this.load();
+    const run = this.runs[0] ?? null;
+    if (!run) {
+      return {
+        build: { durationMs: 0, cacheHitPct: null, status: 'idle' },
+        tests: { pass: 0, fail: 0, skip: 0, flaky: 0, lastRunAt: null },
+        logsRef: '',
+        run: null,
+      };
+    }
+
+    const count = (...statuses: StepStatus[]) => run.steps.filter(step => statuses.includes(step.status)).length;
+    return {
+      build: {
+        durationMs: run.durationMs ?? Date.now() - Date.parse(run.startedAt),
+        cacheHitPct: null,
+        status: run.status === 'cancelled' ? 'fail' : run.status,
+      },
+      tests: {
+        ...(run.tests ?? { pass: count('pass'), fail: count('fail'), skip: count('skipped', 'cancelled'), flaky: 0 }),
+        lastRunAt: run.startedAt,
+      },
+      logsRef: run.id,
+      run,
+    };
+  }
+
+  /**
+   * Start a run of the current pipeline definition; resolves once it is recorded, not when it finishes
+   */
+  async startRun(trigger?: string): Promise<CiRun> {
+    await this.load();
+    const pipeline = await this.loadPipeline();
+    if (this.active) {
+      throw new CiBusyError(this.active.run.id);
+    }
+
+    const number = (this.runs[0]?.number ?? 0) + 1;
+    const run: CiRun = {
+      id: `run-${number}`,
+      number,
+      pipeline: pipeline.name,
+      trigger,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      steps: pipeline.steps.map(step => ({
+        id: step.id,
+        stage: step.stage,
+        name: step.name,
+        command: step.command,
+        status: 'pending',
+      })),
+    };
+    // Claimed before the next await so concurrent starts are rejected
+    const active: ActiveRun = { run, pipeline, children: new Map(), cancelled: false, coverage: [] };
+    this.active = active;
+
+    try {
+      Object.assign(run, await this.revision());
+      await fs.mkdir(this.logDir(run), { recursive: true });
+      this.runs.unshift(run);
+      await this.save();
+    } catch (error) {
+      this.active = null;
+      throw error;
+    }
+    logger.info(`CI ${run.id} started (${pipeline.steps.length} steps)`);
+    this.emit('run', run);
+
+    this.execute(active).catch(error => logger.error(`CI ${run.id} failed to execute:`, error));
+    return run;
+  }
+
+  /**
+   * Stop the run in progress: running steps are killed, pending ones never start
+   */
+  async cancelRun(id: string): Promise<CiRun | undefined> {
+    const run = await this.getRun(id);
+    if (!run || this.active?.run !== run) return run;
+
+    this.active.cancelled = true;
+    for (const child of this.active.children.values()) {
+      this.kill(child);
+    }
+    return run;
+  }
+
+  /**
+   * Log of one step, or every step that ran with a header line each
+   */
+  async readLogs(run: CiRun, stepId?: string): Promise<string> {
+    const read = async (index: number) => {
+      try {
+        return await fs.readFile(path.join(this.logDir(run), `${index}.log`), 'utf8');
+      } catch {
+        return '';
+      }
+    };
+
+    if (stepId !== undefined) {
+      const index = run.steps.findIndex(step => step.id === stepId);
+      return index === -1 ? '' : read(index);
+    }
+
+    const parts: string[] = [];
+    for (const [index, step] of run.steps.entries()) {
+      if (step.status === 'pending' || step.status === 'skipped') continue;
+      parts.push(`==> ${step.id} (${step.status})\n`, await read(index));
+    }
+    return parts.join('');
+  }
+
+  /**
+   * Per-file line coverage recorded for a run, or null when it collected none
+   */
+  async readCoverage(run: CiRun): Promise<FileCoverage[] | null> {
+    if (!run.coverage) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.coverageFile(run), 'utf8')).files;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Most recent run that collected coverage
+   */
+  async latestCoverageRun(): Promise<CiRun | undefined> {
+    await this.load();
+    return this.runs.find(run => run.coverage && run.status !== 'running');
+  }
+
+  isRunning(): boolean {
+    return this.active !== null;
+  }
+
+  private async execute(active: ActiveRun): Promise<void> {
+    const { run, pipeline } = active;
+    const statuses = new Map(run.steps.map(step => [step.id, step.status]));
+    const setStatus = (result: CiStepResult, status: StepStatus) => {
+      result.status = status;
+      statuses.set(result.id, status);
+    };
+
+    await new Promise<void>(resolve => {
+      let running = 0;
+      const pump = () => {
+        if (active.cancelled) {
+          run.steps.filter(step => step.status === 'pending').forEach(step => setStatus(step, 'cancelled'));
+        } else {
+          const { ready, skipped } = nextSteps(pipeline, statuses);
+          for (const id of skipped) {
+            setStatus(run.steps.find(step => step.id === id)!, 'skipped');
+          }
+          for (const id of ready.slice(0, Math.max(0, this.maxParallel - running))) {
+            const index = run.steps.findIndex(step => step.id === id);
+            running++;
+            setStatus(run.steps[index], 'running');
+            this.runStep(active, pipeline.steps.find(step => step.id === id)!, index)
+              .then(status => setStatus(run.steps[index], status))
+              .catch(error => {
+                logger.error(`CI step ${id} crashed:`, error);
+                setStatus(run.steps[index], 'fail');
+              })
+              .finally(() => {
+                running--;
+                this.emit('run', run);
+                this.save().catch(error => logger.error('Failed to save CI history:', error));
+                pump();
+              });
+          }
+          if (ready.length || skipped.length) this.emit('run', run);
+        }
+        if (running === 0) resolve();
+      };
+      pump();
+    });
+
+    const finishedAt = new Date();
+    run.finishedAt = finishedAt.toISOString();
+    run.durationMs = finishedAt.getTime() - Date.parse(run.startedAt);
+    run.status = active.cancelled
+      ? 'cancelled'
+      : run.steps.every(step => step.status === 'pass') ? 'pass' : 'fail';
+    if (active.coverage.length) {
+      await this.recordCoverage(active);
+    }
+    const reported = run.steps.filter(step => step.tests);
+    if (reported.length) {
+      run.tests = { pass: 0, fail: 0, skip: 0, flaky: 0 };
+      for (const step of reported) {
+        for (const key of ['pass', 'fail', 'skip', 'flaky'] as const) run.tests[key] += step.tests![key];
+      }
+    }
+    this.active = null;
+
+    await this.save();
+    logger.info(`CI ${run.id} finished: ${run.status} in ${run.durationMs}ms`);
+    this.emit('run', run);
+    this.emit('run:finish', run);
+  }
+
+  /**
+   * Run one step, teeing output to its log file. Steps with test reports are retried up to
+   * `autoRetryCount` times, and pass when every failing test is a known flaky one and
+   * `quarantineFlaky` is on.
+   */
+  private async runStep(active: ActiveRun, step: PipelineStep, index: number): Promise<StepStatus> {
+    const { run } = active;
+    const result = run.steps[index];
+    const started = Date.now();
+    result.startedAt = new Date(started).toISOString();
+
+    const log = createWriteStream(path.join(this.logDir(run), `${index}.log`));
+    let written = 0;
+    const write = (chunk: string) => {
+      if (written >= this.logLimitBytes) return;
+      written += Buffer.byteLength(chunk);
+      const text = written > this.logLimitBytes
+        ? `${chunk}\n[log truncated at ${Math.round(this.logLimitBytes / 1024)} KB]\n`
+        : chunk;
+      log.write(text);
+      this.emit('log', { runId: run.id, stepId: step.id, chunk: text } satisfies CiLogChunk);
+    };
+
+    let status: StepStatus = 'fail';
+    for (let attempt = 1; ; attempt++) {
+      if (attempt > 1) {
+        write(`\n[retry ${attempt - 1} of ${this.settings.autoRetryCount}]\n`);
+        this.emit('run', run);
+      }
+      write(`$ ${step.command}\n`);
+      const attemptStarted = Date.now();
+      const { exitCode, timedOut } = await this.spawnStep(active, step, write);
+
+      result.attempts = attempt;
+      result.exitCode = exitCode;
+      if (timedOut) result.timedOut = true;
+      else delete result.timedOut;
+      if (active.cancelled) {
+        status = 'cancelled';
+        break;
+      }
+      status = exitCode === 0 && !timedOut ? 'pass' : 'fail';
+
+      if (step.reports.length) {
+        const tests = await this.collectReports(run, step, attempt, attemptStarted, write);
+        if (tests) {
+          result.tests = tests.counts;
+          const quarantine = status === 'fail' && !timedOut && this.settings.quarantineFlaky && tests.failing.length > 0
+            && tests.failing.every(id => this.testResults.isFlaky(id));
+          if (quarantine) {
+            result.quarantined = tests.failing;
+            write(`\n[quarantined flaky tests: ${tests.failing.join(', ')}]\n`);
+            status = 'pass';
+          }
+        }
+      }
+      if (status === 'pass' || !step.reports.length || attempt > this.settings.autoRetryCount) break;
+    }
+
+    if (step.coverage.length && status !== 'cancelled') {
+      active.coverage.push(...await this.collectCoverage(step, started, write));
+    }
+    if (step.artifacts.length && status !== 'cancelled') {
+      result.artifacts = await this.collectArtifacts(run, step, started, write);
+    }
+
+    const finished = Date.now();
+    result.finishedAt = new Date(finished).toISOString();
+    result.durationMs = finished - started;
+    await new Promise<void>(resolve => log.end(() => resolve()));
+    return status;
+  }
+
+  /**
+   * One attempt at a step's command through the shell
+   */
+  private spawnStep(
+    active: ActiveRun,
+    step: PipelineStep,
+    write: (chunk: string) => void
+  ): Promise<{ exitCode: number | null; timedOut: boolean }> {
+    return new Promise(resolve => {
+      const child = spawn(step.command, {
+        cwd: path.resolve(this.workspaceRoot, step.cwd ?? '.'),
+        env: {
+          ...passthroughEnv(),
+          CI: 'true',
+          CI_RUN_ID: active.run.id,
+          CI_STEP_ID: step.id,
+          ...step.env,
+        },
+        shell: true,
+        // Own process group so a timeout kills everything the shell started
+        detached: process.platform !== 'win32',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+      active.children.set(step.id, child);
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        write(`\n[step timed out after ${step.timeoutMs}ms]\n`);
+        this.kill(child);
+      }, step.timeoutMs);
+      timer.unref();
+
+      child.stdout?.on('data', (data: Buffer) => write(data.toString()));
+      child.stderr?.on('data', (data: Buffer) => write(data.toString()));
+
+      let settled = false;
+      const finish = (exitCode: number | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        active.children.delete(step.id);
+        resolve({ exitCode, timedOut });
+      };
+
+      child.on('error', error => {
+        write(`\n[failed to start: ${error.message}]\n`);
+        finish(null);
+      });
+      child.on('close', code => finish(code));
+    });
+  }
+
+  /**
+   * Parse the report files an attempt wrote and record them in the test history.
+   * Files older than the attempt are left out so stale reports are not counted again.
+   */
+  private async collectReports(
+    run: CiRun,
+    step: PipelineStep,
+    attempt: number,
+    since: number,
+    write: (chunk: string) => void
+  ): Promise<{ counts: TestCounts; failing: string[] } | null> {
+    const cwd = path.resolve(this.workspaceRoot, step.cwd ?? '.');
+    const cases: TestCaseResult[] = [];
+    let found = 0;
+
+    for (const file of await this.matchReports(cwd, step.reports)) {
+      try {
+        // Coarse filesystem timestamps can trail the clock slightly
+        if ((await fs.stat(file)).mtimeMs < since - 1000) continue;
+        cases.push(...parseTestReport(await fs.readFile(file, 'utf8'), this.workspaceRoot));
+        found++;
+      } catch (error) {
+        write(`\n[test report ${path.relative(this.workspaceRoot, file)}: ${(error as Error).message}]\n`);
+      }
+    }
+
+    if (!found) {
+      write(`\n[no test reports matched ${step.reports.join(', ')}]\n`);
+      return null;
+    }
+    const counts = await this.testResults.ingest({ runId: run.id, commit: run.commit, stepId: step.id, attempt }, cases);
+    write(`\n[tests: ${counts.pass} passed, ${counts.fail} failed, ${counts.skip} skipped, ${counts.flaky} flaky]\n`);
+    return { counts, failing: cases.filter(c => c.status === 'fail').map(c => c.id) };
+  }
+
+  /**
+   * Parse the coverage files a step wrote (by any of its attempts)
+   */
+  private async collectCoverage(step: PipelineStep, since: number, write: (chunk: string) => void): Promise<FileCoverage[]> {
+    const cwd = path.resolve(this.workspaceRoot, step.cwd ?? '.');
+    const files: FileCoverage[] = [];
+    let found = 0;
+
+    for (const file of await this.matchReports(cwd, step.coverage)) {
+      try {
+        if ((await fs.stat(file)).mtimeMs < since - 1000) continue;
+        files.push(...parseCoverageReport(await fs.readFile(file, 'utf8'), { cwd, baseDir: this.workspaceRoot }));
+        found++;
+      } catch (error) {
+        write(`\n[coverage report ${path.relative(this.workspaceRoot, file)}: ${(error as Error).message}]\n`);
+      }
+    }
+
+    if (!found) {
+      write(`\n[no coverage reports matched ${step.coverage.join(', ')}]\n`);
+    } else {
+      write(`\n[coverage: ${coverageTotals(mergeCoverage(files)).lines.pct}% of lines in ${found} report${found === 1 ? '' : 's'}]\n`);
+    }
+    return files;
+  }
+
+  /**
+   * Keep the files (or whole directories) a step produced in the artifact store
+   */
+  private async collectArtifacts(run: CiRun, step: PipelineStep, since: number, write: (chunk: string) => void): Promise<string[]> {
+    const cwd = path.resolve(this.workspaceRoot, step.cwd ?? '.');
+    const files: string[] = [];
+    const walk = async (target: string): Promise<void> => {
+      const stat = await fs.stat(target);
+      if (stat.isDirectory()) {
+        for (const entry of await fs.readdir(target)) await walk(path.join(target, entry));
+      } else if (stat.isFile() && stat.mtimeMs >= since - 1000) {
+        files.push(target);
+      }
+    };
+    for (const match of await this.matchReports(cwd, step.artifacts)) {
+      await walk(match).catch(() => undefined);
+    }
+
+    const ids: string[] = [];
+    for (const file of files) {
+      const name = path.relative(this.workspaceRoot, file).split(path.sep).join('/');
+      try {
+        const artifact = await this.artifacts.store(file, { name, runId: run.id, stepId: step.id });
+        ids.push(artifact.id);
+      } catch (error) {
+        write(`\n[artifact ${name}: ${(error as Error).message}]\n`);
+      }
+    }
+    write(ids.length
+      ? `\n[stored ${ids.length} artifact${ids.length === 1 ? '' : 's'}]\n`
+      : `\n[no artifacts matched ${step.artifacts.join(', ')}]\n`);
+    return ids;
+  }
+
+  /**
+   * Store the run's merged coverage and hold an otherwise passing run to the threshold
+   */
+  private async recordCoverage(active: ActiveRun): Promise<void> {
+    const { run } = active;
+    const files = mergeCoverage(active.coverage);
+    const { coverageThreshold: threshold } = this.settings;
+    run.coverage = { ...coverageTotals(files), files: files.length, threshold };
+
+    try {
+      const file = this.coverageFile(run);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(`${file}.tmp`, JSON.stringify({ version: 1, files }), 'utf8');
+      await fs.rename(`${file}.tmp`, file);
+    } catch (error) {
+      logger.error(`Failed to save coverage for CI ${run.id}:`, error);
+    }
+
+    if (run.status === 'pass' && threshold > 0 && run.coverage.lines.pct < threshold) {
+      run.status = 'fail';
+      run.error = `Line coverage ${run.coverage.lines.pct}% is below the ${threshold}% threshold`;
+    }
+  }
+
+  private async matchReports(cwd: string, patterns: string[]): Promise<string[]> {
+    const files = new Set<string>();
+    for (const pattern of patterns) {
+      const dir = path.resolve(cwd, path.dirname(pattern));
+      const base = path.basename(pattern);
+      if (!/[*?]/.test(base)) {
+        files.add(path.join(dir, base));
+        continue;
+      }
+      const matcher = globToRegExp(base);
+      try {
+        (await fs.readdir(dir)).filter(name => matcher.test(name)).forEach(name => files.add(path.join(dir, name)));
+      } catch {
+        // Directory not created by this step
+      }
+    }
+    return Array.from(files);
+  }
+
+  private kill(child: ChildProcess): void {
+    const signal = (sig: NodeJS.Signals) => {
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          process.kill(-child.pid, sig);
+        } else {
+          child.kill(sig);
+        }
+      } catch {
+        // Already gone
+      }
+    };
+    signal('SIGTERM');
+    setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) signal('SIGKILL');
+    }, KILL_GRACE_MS).unref();
+  }
+
+  private async revision(): Promise<Pick<CiRun, 'branch' | 'commit'>> {
+    try {
+      if (!(await gitService.isRepo())) return {};
+      const [branch, [head]] = await Promise.all([gitService.currentBranch(), gitService.log({ maxCount: 1 })]);
+      return { branch, commit: head?.hash };
+    } catch {
+      return {};
+    }
+  }
+
+  private logDir(run: CiRun): string {
+    return path.join(this.dataDir, 'logs', run.id);
+  }
+
+  private coverageFile(run: CiRun): string {
+    return path.join(this.dataDir, 'coverage', `${run.id}.json`);
+  }
+
+  private get historyFile(): string {
+    return path.join(this.dataDir, 'runs.json');
+  }
+
+  private async readHistory(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.historyFile, 'utf8'));
+      this.runs = Array.isArray(parsed.runs) ? parsed.runs : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to read CI history ${this.historyFile}:`, error);
+      }
+      this.runs = [];
+    }
+
+    const interrupted = this.runs.filter(run => run.status === 'running');
+    for (const run of interrupted) {
+      run.status = 'cancelled';
+      run.error = 'Interrupted by a server restart';
+      run.steps
+        .filter(step => step.status === 'running' || step.status === 'pending')
+        .forEach(step => { step.status = 'cancelled'; });
+    }
+    if (interrupted.length) await this.save();
+  }
+
+  /**
+   * Persist atomically; writes are queued so snapshots land in order
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        const dropped = this.runs.splice(this.historySize);
+        await fs.mkdir(this.dataDir, { recursive: true });
+        const tmp = `${this.historyFile}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify({ version: 1, runs: this.runs }, null, 2), 'utf8');
+        await fs.rename(tmp, this.historyFile);
+        await Promise.all(dropped.flatMap(run => [
+          fs.rm(this.logDir(run), { recursive: true, force: true }),
+          fs.rm(this.coverageFile(run), { force: true }),
+        ]));
+      });
+    return this.saving;
+  }
+}
+
+export const ciService = new CiService();
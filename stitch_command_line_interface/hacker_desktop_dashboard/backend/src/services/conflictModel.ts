@@ -0,0 +1,123 @@
+/**
+ * Conflict Model
+ * Parses merge conflict markers (merge and diff3 styles) into ours/base/theirs regions
+ * and writes resolved text back out
+ */
+
+export interface ConflictRegion {
+  index: number;
+  /** 1-based line of the `<<<<<<<` marker in the conflicted file */
+  startLine: number;
+  ours: string[];
+  theirs: string[];
+  /** Only present with diff3/zdiff3 markers */
+  base?: string[];
+  oursLabel: string;
+  theirsLabel: string;
+  baseLabel?: string;
+}
+
+export type ConflictSegment =
+  | { type: 'common'; lines: string[] }
+  | { type: 'conflict'; region: ConflictRegion };
+
+export interface ParsedConflicts {
+  segments: ConflictSegment[];
+  regions: ConflictRegion[];
+  /** Trailing newline of the original text, kept when writing the result */
+  eol: boolean;
+}
+
+export type ConflictChoice = 'ours' | 'theirs' | 'base' | 'both';
+
+export class ConflictResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictResolutionError';
+  }
+}
+
+/**
+ * Split conflicted text into common and conflicting segments
+ */
+export function parseConflicts(text: string): ParsedConflicts {
+  const eol = text.endsWith('\n');
+  const lines = (eol ? text.slice(0, -1) : text).split('\n');
+  const segments: ConflictSegment[] = [];
+  const regions: ConflictRegion[] = [];
+  let common: string[] = [];
+  let region: ConflictRegion | null = null;
+  let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+  for (const [i, line] of lines.entries()) {
+    if (!region) {
+      if (line.startsWith('<<<<<<<')) {
+        if (common.length) segments.push({ type: 'common', lines: common });
+        common = [];
+        region = { index: regions.length, startLine: i + 1, ours: [], theirs: [], oursLabel: line.slice(8).trim(), theirsLabel: '' };
+        section = 'ours';
+      } else {
+        common.push(line);
+      }
+      continue;
+    }
+
+    if (section === 'ours' && line.startsWith('|||||||')) {
+      region.base = [];
+      region.baseLabel = line.slice(8).trim();
+      section = 'base';
+    } else if (section !== 'theirs' && line === '=======') {
+      section = 'theirs';
+    } else if (section === 'theirs' && line.startsWith('>>>>>>>')) {
+      region.theirsLabel = line.slice(8).trim();
+      regions.push(region);
+      segments.push({ type: 'conflict', region });
+      region = null;
+    } else if (section === 'base') {
+      region.base!.push(line);
+    } else {
+      region[section].push(line);
+    }
+  }
+
+  if (region) {
+    throw new ConflictResolutionError(`Unterminated conflict starting at line ${region.startLine}`);
+  }
+  if (common.length) segments.push({ type: 'common', lines: common });
+
+  return { segments, regions, eol };
+}
+
+/**
+ * Rebuild the file with every conflict replaced by the chosen side(s).
+ * A single choice applies to all regions; an array gives one choice per region.
+ */
+export function resolveConflicts(parsed: ParsedConflicts, choices: ConflictChoice | ConflictChoice[]): string {
+  if (Array.isArray(choices) && choices.length !== parsed.regions.length) {
+    throw new ConflictResolutionError(`Expected ${parsed.regions.length} choices, got ${choices.length}`);
+  }
+
+  const out: string[] = [];
+  for (const segment of parsed.segments) {
+    if (segment.type === 'common') {
+      out.push(...segment.lines);
+      continue;
+    }
+    const { region } = segment;
+    const choice = Array.isArray(choices) ? choices[region.index] : choices;
+    if (choice === 'base' && !region.base) {
+      throw new ConflictResolutionError(`Conflict ${region.index} has no base section`);
+    }
+    out.push(...(choice === 'both' ? [...region.ours, ...region.theirs] : region[choice]!));
+  }
+
+  const text = out.join('\n');
+  return parsed.eol && out.length ? `${text}\n` : text;
+}
+
+/**
+ * True while the text still contains conflict markers
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return /^(<<<<<<<|>>>>>>>)( |$)/m.test(text);
+}
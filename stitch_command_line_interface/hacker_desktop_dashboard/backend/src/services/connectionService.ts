@@ -0,0 +1,340 @@
+/**
+ * Connection Service - Socket Table Reader
+ * Parses /proc/net/{tcp,tcp6,udp,udp6} and maps socket inodes to owning processes
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+
+export type Protocol = 'TCP' | 'UDP';
+export type AddressFamily = 'IPv4' | 'IPv6';
+
+export interface SocketEntry {
+  protocol: Protocol;
+  family: AddressFamily;
+  localIp: string;
+  localPort: number;
+  remoteIp: string;
+  remotePort: number;
+  state: string;
+  txQueue: number;
+  rxQueue: number;
+  uid: number;
+  inode: number;
+}
+
+export interface Connection {
+  id: string;
+  protocol: Protocol;
+  family: AddressFamily;
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string;
+  remotePort: number;
+  state: string;
+  pid: number | null;
+  process: string | null;
+  uid: number;
+  inode: number;
+}
+
+export interface ProcessInfo {
+  pid: number;
+  name: string;
+}
+
+export interface ConnectionFilter {
+  state?: string[];
+  port?: number;
+  process?: string;
+  protocol?: Protocol;
+}
+
+export interface ConnectionServiceOptions {
+  procRoot?: string;
+  cacheTtlMs?: number;
+}
+
+export interface ConnectionPage {
+  connections: Connection[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const TCP_STATES: Record<string, string> = {
+  '01': 'ESTABLISHED',
+  '02': 'SYN_SENT',
+  '03': 'SYN_RECV',
+  '04': 'FIN_WAIT1',
+  '05': 'FIN_WAIT2',
+  '06': 'TIME_WAIT',
+  '07': 'CLOSE',
+  '08': 'CLOSE_WAIT',
+  '09': 'LAST_ACK',
+  '0A': 'LISTEN',
+  '0B': 'CLOSING',
+  '0C': 'NEW_SYN_RECV',
+};
+
+// UDP sockets reuse the TCP state numbers but only two are meaningful
+const UDP_STATES: Record<string, string> = {
+  '01': 'ESTABLISHED',
+  '07': 'UNCONN',
+};
+
+const SOCKET_TABLES: Array<{ file: string; protocol: Protocol; family: AddressFamily }> = [
+  { file: 'tcp', protocol: 'TCP', family: 'IPv4' },
+  { file: 'tcp6', protocol: 'TCP', family: 'IPv6' },
+  { file: 'udp', protocol: 'UDP', family: 'IPv4' },
+  { file: 'udp6', protocol: 'UDP', family: 'IPv6' },
+];
+
+/**
+ * Decode a little-endian hex IPv4 address (e.g. 0100007F -> 127.0.0.1)
+ */
+export function decodeIPv4(hex: string): string {
+  const bytes = [];
+  for (let i = 6; i >= 0; i -= 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes.join('.');
+}
+
+/**
+ * Decode a /proc/net IPv6 address: four 32-bit words, each in host (little-endian) byte order
+ */
+export function decodeIPv6(hex: string): string {
+  const bytes: number[] = [];
+  for (let word = 0; word < 4; word++) {
+    const chunk = hex.slice(word * 8, word * 8 + 8);
+    for (let i = 6; i >= 0; i -= 2) {
+      bytes.push(parseInt(chunk.slice(i, i + 2), 16));
+    }
+  }
+
+  // IPv4-mapped addresses read better in dotted form
+  if (bytes.slice(0, 10).every(b => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return `::ffff:${bytes.slice(12).join('.')}`;
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  // Compress the longest run of zero groups (RFC 5952)
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hexGroups = groups.map(g => g.toString(16));
+  if (bestStart === -1) {
+    return hexGroups.join(':');
+  }
+  const head = hexGroups.slice(0, bestStart).join(':');
+  const tail = hexGroups.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Parse one /proc/net socket table
+ */
+export function parseSocketTable(content: string, protocol: Protocol, family: AddressFamily): SocketEntry[] {
+  const entries: SocketEntry[] = [];
+  const decode = family === 'IPv4' ? decodeIPv4 : decodeIPv6;
+  const states = protocol === 'TCP' ? TCP_STATES : UDP_STATES;
+
+  for (const line of content.split('\n').slice(1)) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 10) continue;
+
+    const [localHex, localPortHex] = fields[1].split(':');
+    const [remoteHex, remotePortHex] = fields[2].split(':');
+    const [txHex, rxHex] = fields[4].split(':');
+
+    entries.push({
+      protocol,
+      family,
+      localIp: decode(localHex),
+      localPort: parseInt(localPortHex, 16),
+      remoteIp: decode(remoteHex),
+      remotePort: parseInt(remotePortHex, 16),
+      state: states[fields[3].toUpperCase()] || `UNKNOWN(${fields[3]})`,
+      txQueue: parseInt(txHex, 16),
+      rxQueue: parseInt(rxHex, 16),
+      uid: parseInt(fields[7], 10),
+      inode: parseInt(fields[9], 10),
+    });
+  }
+
+  return entries;
+}
+
+function formatAddress(ip: string, port: number, family: AddressFamily): string {
+  return family === 'IPv6' ? `[${ip}]:${port}` : `${ip}:${port}`;
+}
+
+/**
+ * Connection Service
+ */
+export class ConnectionService {
+  private procRoot: string;
+  private cacheTtlMs: number;
+  private cache: { at: number; connections: Connection[] } | null = null;
+  private pending: Promise<Connection[]> | null = null;
+
+  constructor(options: ConnectionServiceOptions = {}) {
+    this.procRoot = options.procRoot || process.env.METRICS_PROC_ROOT || '/proc';
+    this.cacheTtlMs = options.cacheTtlMs ?? parseInt(process.env.NETWORK_SNAPSHOT_TTL_MS || '1000', 10);
+  }
+
+  /**
+   * All sockets with owning process, served from a short-lived cache
+   */
+  async getConnections(): Promise<Connection[]> {
+    if (this.cache && Date.now() - this.cache.at < this.cacheTtlMs) {
+      return this.cache.connections;
+    }
+
+    if (!this.pending) {
+      this.pending = this.snapshot()
+        .then(connections => {
+          this.cache = { at: Date.now(), connections };
+          return connections;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Filtered, paginated view of the current connections
+   */
+  async query(filter: ConnectionFilter, page = 1, pageSize = 50): Promise<ConnectionPage> {
+    const all = await this.getConnections();
+    const processNeedle = filter.process?.toLowerCase();
+    const states = filter.state?.map(s => s.toUpperCase());
+
+    const matching = all.filter(conn =>
+      (!states || states.includes(conn.state)) &&
+      (!filter.protocol || conn.protocol === filter.protocol) &&
+      (filter.port === undefined || conn.localPort === filter.port || conn.remotePort === filter.port) &&
+      (!processNeedle || (conn.process?.toLowerCase().includes(processNeedle) ?? false))
+    );
+
+    const start = (page - 1) * pageSize;
+    return {
+      connections: matching.slice(start, start + pageSize),
+      total: matching.length,
+      page,
+      pageSize,
+    };
+  }
+
+  /**
+   * Read the socket tables and resolve owners without caching
+   */
+  async snapshot(): Promise<Connection[]> {
+    const [tables, owners] = await Promise.all([
+      Promise.all(SOCKET_TABLES.map(async ({ file, protocol, family }) => {
+        try {
+          const content = await fs.readFile(path.join(this.procRoot, 'net', file), 'utf8');
+          return parseSocketTable(content, protocol, family);
+        } catch {
+          // tcp6/udp6 are missing when IPv6 is disabled
+          return [];
+        }
+      })),
+      this.mapInodesToProcesses(),
+    ]);
+
+    return tables.flat().map(entry => {
+      const owner = entry.inode ? owners.get(entry.inode) : undefined;
+      const localAddress = formatAddress(entry.localIp, entry.localPort, entry.family);
+      const remoteAddress = formatAddress(entry.remoteIp, entry.remotePort, entry.family);
+      return {
+        id: `${entry.protocol.toLowerCase()}-${entry.inode || `${localAddress}-${remoteAddress}`}`,
+        protocol: entry.protocol,
+        family: entry.family,
+        localAddress,
+        localPort: entry.localPort,
+        remoteAddress,
+        remotePort: entry.remotePort,
+        state: entry.state,
+        pid: owner?.pid ?? null,
+        process: owner?.name ?? null,
+        uid: entry.uid,
+        inode: entry.inode,
+      };
+    });
+  }
+
+  /**
+   * Walk /proc/<pid>/fd and map socket inodes to processes.
+   * Processes owned by other users are skipped when we lack permission to read their fds.
+   */
+  async mapInodesToProcesses(): Promise<Map<number, ProcessInfo>> {
+    const owners = new Map<number, ProcessInfo>();
+    let pids: string[];
+    try {
+      pids = (await fs.readdir(this.procRoot)).filter(name => /^\d+$/.test(name));
+    } catch (error) {
+      logger.warn('Unable to list processes for socket mapping:', error);
+      return owners;
+    }
+
+    await Promise.all(pids.map(async pid => {
+      const fdDir = path.join(this.procRoot, pid, 'fd');
+      let fds: string[];
+      try {
+        fds = await fs.readdir(fdDir);
+      } catch {
+        return;
+      }
+
+      const inodes: number[] = [];
+      await Promise.all(fds.map(async fd => {
+        try {
+          const target = await fs.readlink(path.join(fdDir, fd));
+          const match = /^socket:\[(\d+)\]$/.exec(target);
+          if (match) inodes.push(parseInt(match[1], 10));
+        } catch {
+          // fd closed between readdir and readlink
+        }
+      }));
+      if (inodes.length === 0) return;
+
+      let name = pid;
+      try {
+        name = (await fs.readFile(path.join(this.procRoot, pid, 'comm'), 'utf8')).trim();
+      } catch {
+        // process exited; keep the pid as its name
+      }
+
+      for (const inode of inodes) {
+        owners.set(inode, { pid: parseInt(pid, 10), name });
+      }
+    }));
+
+    return owners;
+  }
+}
+
+// Singleton instance
+export const connectionService = new ConnectionService();
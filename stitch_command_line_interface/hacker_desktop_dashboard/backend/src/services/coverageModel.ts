@@ -0,0 +1,238 @@
+/**
+ * Coverage Model
+ * Parses lcov and Istanbul JSON coverage into per-file line hits, merges reports
+ * and computes line/function/branch totals
+ */
+
+import path from 'path';
+
+export interface CoverageMetric {
+  covered: number;
+  total: number;
+  /** Percentage with two decimals; 100 when there is nothing to cover */
+  pct: number;
+}
+
+export interface CoverageTotals {
+  lines: CoverageMetric;
+  functions: CoverageMetric;
+  branches: CoverageMetric;
+}
+
+export interface FileCoverage {
+  /** Workspace-relative path with forward slashes */
+  file: string;
+  /** Execution count per instrumented line number */
+  lines: Record<number, number>;
+  functions: { covered: number; total: number };
+  branches: { covered: number; total: number };
+}
+
+export type CoverageFormat = 'lcov' | 'istanbul';
+
+export class CoverageReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CoverageReportError';
+  }
+}
+
+export interface CoveragePaths {
+  /** Directory relative source paths in the report resolve against (the step's cwd) */
+  cwd: string;
+  /** Workspace root that stored paths are made relative to */
+  baseDir: string;
+}
+
+function relativeFile(file: string, paths: CoveragePaths): string {
+  return path.relative(paths.baseDir, path.resolve(paths.cwd, file)).split(path.sep).join('/');
+}
+
+function metric(covered: number, total: number): CoverageMetric {
+  return { covered, total, pct: total === 0 ? 100 : Math.round((covered / total) * 10000) / 100 };
+}
+
+/**
+ * lcov tracefiles (`lcov.info`) as written by nyc, c8, jest, vitest, coverage.py and gcov
+ */
+export function parseLcov(text: string, paths: CoveragePaths): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | null = null;
+  let functionHits = new Map<string, number>();
+  let fnTotals: { found?: number; hit?: number } = {};
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    const colon = line.indexOf(':');
+    const key = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1);
+
+    if (key === 'SF') {
+      current = { file: relativeFile(value, paths), lines: {}, functions: { covered: 0, total: 0 }, branches: { covered: 0, total: 0 } };
+      fnTotals = {};
+      functionHits = new Map();
+      continue;
+    }
+    if (!current) continue;
+
+    switch (key) {
+      case 'DA': {
+        const [lineNo, hits] = value.split(',').map(Number);
+        if (Number.isInteger(lineNo) && lineNo > 0) {
+          current.lines[lineNo] = (current.lines[lineNo] ?? 0) + (Number.isFinite(hits) ? hits : 0);
+        }
+        break;
+      }
+      case 'FNDA': {
+        const comma = value.indexOf(',');
+        const name = value.slice(comma + 1);
+        functionHits.set(name, (functionHits.get(name) ?? 0) + (Number(value.slice(0, comma)) || 0));
+        break;
+      }
+      case 'FNF':
+        fnTotals.found = Number(value) || 0;
+        break;
+      case 'FNH':
+        fnTotals.hit = Number(value) || 0;
+        break;
+      case 'BRDA': {
+        // line,block,branch,taken where taken is "-" for never evaluated
+        const taken = value.split(',')[3];
+        current.branches.total++;
+        if (taken !== '-' && Number(taken) > 0) current.branches.covered++;
+        break;
+      }
+      case 'end_of_record': {
+        const hits = Array.from(functionHits.values());
+        current.functions = {
+          total: fnTotals.found ?? hits.length,
+          covered: fnTotals.hit ?? hits.filter(count => count > 0).length,
+        };
+        files.push(current);
+        current = null;
+        break;
+      }
+    }
+  }
+
+  if (current) {
+    throw new CoverageReportError(`lcov record for ${current.file} has no end_of_record`);
+  }
+  return files;
+}
+
+interface IstanbulLocation {
+  start?: { line?: number };
+}
+
+interface IstanbulFile {
+  path?: string;
+  statementMap?: Record<string, IstanbulLocation>;
+  s?: Record<string, number>;
+  f?: Record<string, number>;
+  b?: Record<string, number[]>;
+}
+
+/**
+ * Istanbul `coverage-final.json` (nyc, jest and vitest's json reporter)
+ */
+export function parseIstanbulJson(json: unknown, paths: CoveragePaths): FileCoverage[] {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new CoverageReportError('Not an Istanbul coverage report: expected an object keyed by file');
+  }
+
+  const files: FileCoverage[] = [];
+  for (const [key, entry] of Object.entries(json as Record<string, IstanbulFile>)) {
+    if (!entry || typeof entry !== 'object' || !entry.statementMap || !entry.s) {
+      throw new CoverageReportError(`Not an Istanbul coverage report: ${key} has no statementMap`);
+    }
+
+    // A line counts as hit as often as its busiest statement, as istanbul's own line summary does
+    const lines: Record<number, number> = {};
+    for (const [id, location] of Object.entries(entry.statementMap)) {
+      const line = location.start?.line;
+      if (!line) continue;
+      const hits = entry.s[id] ?? 0;
+      if (lines[line] === undefined || lines[line] < hits) lines[line] = hits;
+    }
+
+    const fnCounts = Object.values(entry.f ?? {});
+    const branchCounts = Object.values(entry.b ?? {}).flat();
+    files.push({
+      file: relativeFile(entry.path || key, paths),
+      lines,
+      functions: { covered: fnCounts.filter(count => count > 0).length, total: fnCounts.length },
+      branches: { covered: branchCounts.filter(count => count > 0).length, total: branchCounts.length },
+    });
+  }
+  return files;
+}
+
+export function detectCoverageFormat(text: string): CoverageFormat {
+  const trimmed = text.trimStart();
+  if (trimmed[0] === '{') return 'istanbul';
+  if (/^(TN|SF):/m.test(trimmed)) return 'lcov';
+  throw new CoverageReportError('Unrecognized coverage report: expected lcov or Istanbul JSON');
+}
+
+/**
+ * Parse a coverage file's contents, whichever supported format it is in
+ */
+export function parseCoverageReport(text: string, paths: CoveragePaths): FileCoverage[] {
+  if (detectCoverageFormat(text) === 'lcov') {
+    return parseLcov(text, paths);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new CoverageReportError(`Invalid JSON coverage report: ${(error as Error).message}`);
+  }
+  return parseIstanbulJson(json, paths);
+}
+
+/**
+ * Combine reports that cover the same files (e.g. one per test shard). Line hits add up;
+ * function and branch counts cannot be matched across reports, so the larger one wins.
+ */
+export function mergeCoverage(reports: FileCoverage[]): FileCoverage[] {
+  const merged = new Map<string, FileCoverage>();
+  for (const report of reports) {
+    const existing = merged.get(report.file);
+    if (!existing) {
+      merged.set(report.file, { ...report, lines: { ...report.lines } });
+      continue;
+    }
+    for (const [line, hits] of Object.entries(report.lines)) {
+      existing.lines[Number(line)] = (existing.lines[Number(line)] ?? 0) + hits;
+    }
+    for (const key of ['functions', 'branches'] as const) {
+      if (report[key].covered > existing[key].covered) existing[key] = { ...report[key] };
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => a.file.localeCompare(b.file));
+}
+
+export function coverageTotals(files: FileCoverage[]): CoverageTotals {
+  let lines = 0;
+  let linesHit = 0;
+  let functions = 0;
+  let functionsHit = 0;
+  let branches = 0;
+  let branchesHit = 0;
+  for (const file of files) {
+    const hits = Object.values(file.lines);
+    lines += hits.length;
+    linesHit += hits.filter(count => count > 0).length;
+    functions += file.functions.total;
+    functionsHit += file.functions.covered;
+    branches += file.branches.total;
+    branchesHit += file.branches.covered;
+  }
+  return {
+    lines: metric(linesHit, lines),
+    functions: metric(functionsHit, functions),
+    branches: metric(branchesHit, branches),
+  };
+}
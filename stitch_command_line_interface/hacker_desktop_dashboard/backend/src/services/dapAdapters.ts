@@ -0,0 +1,166 @@
+/**
+ * Debug Adapters
+ * Debug Adapter Protocol adapters by language, how to launch them and how to find them on PATH
+ */
+
+import { constants } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface DebugAdapterCandidate {
+  /** Executable name looked up on PATH, or an absolute path */
+  command: string;
+  args: string[];
+  /** stdio: DAP over the adapter's stdin/stdout; tcp: the adapter prints the address it listens on */
+  transport: 'stdio' | 'tcp';
+  /** Arguments of the adapter's `launch` request */
+  launch: (program: string, args: string[], cwd: string) => Record<string, unknown>;
+}
+
+export interface DebugAdapterDefinition {
+  language: string;
+  extensions: string[];
+  /** Compiles the source into a debuggable binary first; the binary becomes the launched program */
+  build?: (source: string, output: string) => { command: string; args: string[] };
+  /** Tried in order; the first found on PATH is used */
+  candidates: DebugAdapterCandidate[];
+}
+
+export interface ResolvedDebugAdapter {
+  definition: DebugAdapterDefinition;
+  candidate: DebugAdapterCandidate;
+  /** Absolute path of the candidate's command */
+  executable: string;
+}
+
+export interface DebugAdapterAvailability {
+  language: string;
+  extensions: string[];
+  /** Command of the adapter that would be used, or null when none is installed */
+  adapter: string | null;
+}
+
+export class DebugAdapterNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DebugAdapterNotFoundError';
+  }
+}
+
+/** Files the built-in Node inspector debugs */
+export const NODE_INSPECTOR_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+const lldbLaunch = (program: string, args: string[], cwd: string) => ({ program, args, cwd, stopOnEntry: true });
+
+const gdbLaunch = (program: string, args: string[], cwd: string) => ({ program, args, cwd, stopAtBeginningOfMainSubprogram: true });
+
+/** Native-code adapters, for binaries built with debug info */
+const NATIVE_CANDIDATES: DebugAdapterCandidate[] = [
+  { command: 'lldb-dap', args: [], transport: 'stdio', launch: lldbLaunch },
+  { command: 'lldb-vscode', args: [], transport: 'stdio', launch: lldbLaunch },
+  { command: 'gdb', args: ['-i=dap', '-q'], transport: 'stdio', launch: gdbLaunch },
+];
+
+const pythonLaunch = (program: string, args: string[], cwd: string) => ({
+  type: 'python',
+  program,
+  args,
+  cwd,
+  stopOnEntry: true,
+  console: 'internalConsole',
+  justMyCode: false,
+});
+
+export const DEBUG_ADAPTERS: DebugAdapterDefinition[] = [
+  {
+    language: 'python',
+    extensions: ['.py'],
+    candidates: [
+      { command: 'debugpy-adapter', args: [], transport: 'stdio', launch: pythonLaunch },
+      { command: 'python3', args: ['-m', 'debugpy.adapter'], transport: 'stdio', launch: pythonLaunch },
+    ],
+  },
+  {
+    language: 'go',
+    extensions: ['.go'],
+    candidates: [{
+      command: 'dlv',
+      args: ['dap', '--listen=127.0.0.1:0'],
+      transport: 'tcp',
+      launch: (program, args, cwd) => ({ mode: 'debug', program, args, cwd, stopOnEntry: true }),
+    }],
+  },
+  {
+    language: 'c',
+    extensions: ['.c'],
+    build: (source, output) => ({ command: 'gcc', args: ['-g', '-O0', '-o', output, source] }),
+    candidates: NATIVE_CANDIDATES,
+  },
+  {
+    language: 'cpp',
+    extensions: ['.cpp', '.cc', '.cxx'],
+    build: (source, output) => ({ command: 'g++', args: ['-g', '-O0', '-std=c++17', '-o', output, source] }),
+    candidates: NATIVE_CANDIDATES,
+  },
+  {
+    language: 'rust',
+    extensions: ['.rs'],
+    build: (source, output) => ({ command: 'rustc', args: ['-g', '-o', output, source] }),
+    candidates: NATIVE_CANDIDATES,
+  },
+];
+
+/**
+ * Absolute path of an executable on PATH, or undefined
+ */
+export async function findOnPath(command: string, searchPath: string = process.env.PATH || ''): Promise<string | undefined> {
+  const candidates = path.isAbsolute(command)
+    ? [command]
+    : searchPath.split(path.delimiter).filter(Boolean).map(dir => path.join(dir, command));
+
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate, constants.X_OK);
+      if ((await fs.stat(candidate)).isFile()) return candidate;
+    } catch {
+      // Not here; keep looking
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The adapter definition covering a file, by extension
+ */
+export function adapterForFile(file: string, adapters: DebugAdapterDefinition[] = DEBUG_ADAPTERS): DebugAdapterDefinition | undefined {
+  const extension = path.extname(file).toLowerCase();
+  return adapters.find(adapter => adapter.extensions.includes(extension));
+}
+
+/**
+ * First installed adapter for a language
+ */
+export async function resolveAdapter(definition: DebugAdapterDefinition): Promise<ResolvedDebugAdapter> {
+  for (const candidate of definition.candidates) {
+    const executable = await findOnPath(candidate.command);
+    if (executable) {
+      return { definition, candidate, executable };
+    }
+  }
+  const commands = definition.candidates.map(candidate => candidate.command).join(', ');
+  throw new DebugAdapterNotFoundError(`No ${definition.language} debug adapter found on PATH (looked for ${commands})`);
+}
+
+/**
+ * Which languages can be debugged here, and with which adapter
+ */
+export async function listAdapters(adapters: DebugAdapterDefinition[] = DEBUG_ADAPTERS): Promise<DebugAdapterAvailability[]> {
+  return Promise.all(adapters.map(async (definition) => {
+    const resolved = await resolveAdapter(definition).catch(() => undefined);
+    return {
+      language: definition.language,
+      extensions: definition.extensions,
+      adapter: resolved ? resolved.candidate.command : null,
+    };
+  }));
+}
@@ -0,0 +1,179 @@
+/**
+ * DAP Client
+ * Debug Adapter Protocol transport: Content-Length framed JSON over a stream pair,
+ * requests correlated with their responses by sequence number
+ */
+
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+import { logger } from '../utils/logger';
+
+export interface DapRequest {
+  seq: number;
+  type: 'request';
+  command: string;
+  arguments?: any;
+}
+
+export interface DapResponse {
+  seq: number;
+  type: 'response';
+  request_seq: number;
+  success: boolean;
+  command: string;
+  message?: string;
+  body?: any;
+}
+
+export interface DapEvent {
+  seq: number;
+  type: 'event';
+  event: string;
+  body?: any;
+}
+
+export type DapMessage = DapRequest | DapResponse | DapEvent;
+
+export class DapRequestError extends Error {
+  constructor(public command: string, message: string) {
+    super(message);
+    this.name = 'DapRequestError';
+  }
+}
+
+const HEADER_END = '\r\n\r\n';
+
+/**
+ * Encode one message with its Content-Length header
+ */
+export function encodeDapMessage(message: object): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  return Buffer.concat([Buffer.from(`Content-Length: ${body.length}${HEADER_END}`, 'ascii'), body]);
+}
+
+/**
+ * Split every complete message off the front of a buffer; returns them with the unread rest
+ */
+export function decodeDapMessages(buffer: Buffer): { messages: DapMessage[]; rest: Buffer } {
+  const messages: DapMessage[] = [];
+  let rest = buffer;
+
+  for (;;) {
+    const headerEnd = rest.indexOf(HEADER_END);
+    if (headerEnd < 0) break;
+    const match = /Content-Length:\s*(\d+)/i.exec(rest.subarray(0, headerEnd).toString('ascii'));
+    if (!match) {
+      throw new Error('DAP message without Content-Length header');
+    }
+    const start = headerEnd + HEADER_END.length;
+    const end = start + parseInt(match[1], 10);
+    if (rest.length < end) break;
+    messages.push(JSON.parse(rest.subarray(start, end).toString('utf8')));
+    rest = rest.subarray(end);
+  }
+
+  return { messages, rest };
+}
+
+/**
+ * DAP Client
+ * Emits 'event' (DapEvent) for adapter events and 'close' once the stream ends
+ */
+export class DapClient extends EventEmitter {
+  private nextSeq = 1;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: Map<number, { resolve: (body: any) => void; reject: (error: Error) => void }> = new Map();
+  private closed = false;
+
+  constructor(input: Readable, private output: Writable) {
+    super();
+    input.on('data', (chunk: Buffer) => this.receive(chunk));
+    input.on('end', () => this.close());
+    input.on('error', () => this.close());
+    output.on('error', () => this.close());
+  }
+
+  /**
+   * Send a request and resolve with the response body
+   */
+  request(command: string, args?: any): Promise<any> {
+    if (this.closed) {
+      return Promise.reject(new DapRequestError(command, 'Debug adapter connection is closed'));
+    }
+    const seq = this.nextSeq++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(seq, { resolve, reject });
+      this.send({ seq, type: 'request', command, ...(args !== undefined ? { arguments: args } : {}) });
+    });
+  }
+
+  /**
+   * Resolve with the body of the next event of this name
+   */
+  waitForEvent(name: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const onEvent = (event: DapEvent) => {
+        if (event.event !== name) return;
+        this.off('event', onEvent);
+        this.off('close', onClose);
+        resolve(event.body);
+      };
+      const onClose = () => {
+        this.off('event', onEvent);
+        reject(new DapRequestError(name, 'Debug adapter closed the connection'));
+      };
+      this.on('event', onEvent);
+      this.once('close', onClose);
+    });
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const { reject } of this.pending.values()) {
+      reject(new DapRequestError('', 'Debug adapter connection is closed'));
+    }
+    this.pending.clear();
+    this.emit('close');
+  }
+
+  private send(message: object): void {
+    this.output.write(encodeDapMessage(message));
+  }
+
+  private receive(chunk: Buffer): void {
+    let messages: DapMessage[];
+    try {
+      ({ messages, rest: this.buffer } = decodeDapMessages(Buffer.concat([this.buffer, chunk])));
+    } catch (error) {
+      logger.error('Malformed message from debug adapter:', error);
+      this.close();
+      return;
+    }
+
+    for (const message of messages) {
+      if (message.type === 'response') {
+        const pending = this.pending.get(message.request_seq);
+        if (!pending) continue;
+        this.pending.delete(message.request_seq);
+        if (message.success) {
+          pending.resolve(message.body ?? {});
+        } else {
+          pending.reject(new DapRequestError(message.command, message.body?.error?.format || message.message || `${message.command} failed`));
+        }
+      } else if (message.type === 'event') {
+        this.emit('event', message);
+      } else if (message.type === 'request') {
+        // Reverse requests (runInTerminal, startDebugging) are not supported
+        this.send({
+          seq: this.nextSeq++,
+          type: 'response',
+          request_seq: message.seq,
+          command: message.command,
+          success: false,
+          message: `${message.command} is not supported`,
+        });
+      }
+    }
+  }
+}
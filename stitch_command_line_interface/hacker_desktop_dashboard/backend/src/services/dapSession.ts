@@ -0,0 +1,356 @@
+/**
+ * DAP Session
+ * Runs one program under a Debug Adapter Protocol adapter: builds it when the language needs it,
+ * launches the adapter, and maps DAP threads, frames, scopes and variables onto the debugger model
+ */
+
+import { EventEmitter } from 'events';
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { DapClient, DapEvent } from './dapClient';
+import { ResolvedDebugAdapter } from './dapAdapters';
+import { DapVariable, DebugVariable, DebugVariablePage, fromDapVariable } from './debugModel';
+import { logger } from '../utils/logger';
+import { passthroughEnv } from '../utils/childEnv';
+
+/** A stack frame as the adapter reports it; `file` is absolute */
+export interface DapStackFrame {
+  id: string;
+  file: string;
+  line: number;
+  column: number;
+  function: string;
+  scopes: Array<{ type: string; name?: string; objectId?: string }>;
+}
+
+export interface DapSessionBreakpoint {
+  line: number;
+  condition?: string;
+}
+
+export class DebugBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DebugBuildError';
+  }
+}
+
+/** Frames fetched per pause */
+const MAX_FRAMES = 50;
+
+/** Compiler output kept in a build error */
+const MAX_BUILD_OUTPUT = 4000;
+
+/**
+ * DAP Session
+ * Emits 'output' ({ type, data }), 'stopped' ({ reason, callStack }), 'continued' and
+ * 'terminated' (exit code or null)
+ */
+export class DapSession extends EventEmitter {
+  private adapterProcess?: ChildProcess;
+  private client?: DapClient;
+  private buildDir?: string;
+  private threadId?: number;
+  private exitCode: number | null = null;
+  private terminated = false;
+  /** Indexed child counts of the variables handed out since the last stop, by reference */
+  private indexedSizes: Map<number, number> = new Map();
+
+  constructor(private adapter: ResolvedDebugAdapter, private timeoutMs: number) {
+    super();
+  }
+
+  /**
+   * Build if needed, launch the adapter and run the program until its first stop
+   */
+  async start(source: string, args: string[], cwd: string, breakpoints: Map<string, DapSessionBreakpoint[]>): Promise<void> {
+    const program = await this.build(source, cwd);
+    const client = await this.connect(cwd);
+
+    const initialized = client.waitForEvent('initialized');
+    initialized.catch(() => undefined);
+    const capabilities = await this.withTimeout(client.request('initialize', {
+      clientID: 'secureide',
+      clientName: 'SecureIDE',
+      adapterID: this.adapter.definition.language,
+      linesStartAt1: true,
+      columnsStartAt1: true,
+      pathFormat: 'path',
+      supportsVariableType: true,
+      supportsRunInTerminalRequest: false,
+    }), 'initialize');
+
+    // Some adapters answer launch only after configurationDone, others send initialized after launch
+    const launched = client.request('launch', this.adapter.candidate.launch(program, args, cwd));
+    await this.withTimeout(Promise.race([initialized, launched.then(() => initialized)]), 'launch');
+
+    for (const [file, lines] of breakpoints) {
+      await this.setBreakpoints(file, lines);
+    }
+    if (capabilities.supportsConfigurationDoneRequest) {
+      await client.request('configurationDone');
+    }
+    await this.withTimeout(launched, 'launch');
+  }
+
+  /**
+   * Replace the breakpoints of one source file
+   */
+  async setBreakpoints(file: string, breakpoints: DapSessionBreakpoint[]): Promise<void> {
+    await this.request('setBreakpoints', {
+      source: { path: file, name: path.basename(file) },
+      breakpoints: breakpoints.map(bp => ({ line: bp.line, ...(bp.condition ? { condition: bp.condition } : {}) })),
+      lines: breakpoints.map(bp => bp.line),
+    });
+  }
+
+  /**
+   * Children of a variables reference; indexed collections page by element
+   */
+  async variables(objectId: string, start: number, count: number): Promise<DebugVariablePage> {
+    const reference = parseInt(objectId, 10);
+    const size = this.indexedSizes.get(reference);
+
+    if (size !== undefined) {
+      const body = await this.request('variables', { variablesReference: reference, filter: 'indexed', start, count });
+      return { variables: this.toVariables(body.variables), start, total: size };
+    }
+
+    const body = await this.request('variables', { variablesReference: reference });
+    const variables = this.toVariables(body.variables);
+    return { variables: variables.slice(start, start + count), start, total: variables.length };
+  }
+
+  /**
+   * Evaluate in a frame; `watch` for watch expressions, `repl` for the debug console
+   */
+  async evaluate(expression: string, frameId: string, context: 'watch' | 'repl'): Promise<DebugVariable> {
+    const body = await this.request('evaluate', { expression, frameId: parseInt(frameId, 10), context });
+    return this.track(fromDapVariable(expression, body), body);
+  }
+
+  continue(): void {
+    this.resume('continue');
+  }
+
+  stepOver(): void {
+    this.resume('next');
+  }
+
+  stepInto(): void {
+    this.resume('stepIn');
+  }
+
+  stepOut(): void {
+    this.resume('stepOut');
+  }
+
+  pause(): void {
+    this.threadIdOrFirst()
+      .then(threadId => this.request('pause', { threadId }))
+      .catch(error => logger.warn('Debug adapter pause failed:', error));
+  }
+
+  /**
+   * Disconnect, terminating the debuggee, and remove any build output
+   */
+  async stop(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+    if (client) {
+      await this.withTimeout(client.request('disconnect', { terminateDebuggee: true }), 'disconnect').catch(() => undefined);
+      client.close();
+    }
+    if (this.adapterProcess) {
+      this.adapterProcess.kill();
+      this.adapterProcess = undefined;
+    }
+    if (this.buildDir) {
+      await fs.rm(this.buildDir, { recursive: true, force: true }).catch(() => undefined);
+      this.buildDir = undefined;
+    }
+  }
+
+  private request(command: string, args?: any): Promise<any> {
+    if (!this.client) {
+      return Promise.reject(new Error('Debug adapter is not connected'));
+    }
+    return this.client.request(command, args);
+  }
+
+  private resume(command: string): void {
+    this.threadIdOrFirst()
+      .then(threadId => this.request(command, { threadId }))
+      // Adapters need not send `continued` for requests the client made
+      .then(() => this.emit('continued'))
+      .catch(error => logger.warn(`Debug adapter ${command} failed:`, error));
+  }
+
+  private async threadIdOrFirst(): Promise<number> {
+    if (this.threadId === undefined) {
+      const { threads } = await this.request('threads');
+      this.threadId = threads?.[0]?.id ?? 1;
+    }
+    return this.threadId!;
+  }
+
+  /**
+   * Compile languages that need it into a temporary directory
+   */
+  private async build(source: string, cwd: string): Promise<string> {
+    if (!this.adapter.definition.build) return source;
+
+    this.buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'secureide-debug-'));
+    const output = path.join(this.buildDir, path.basename(source, path.extname(source)));
+    const { command, args } = this.adapter.definition.build(source, output);
+
+    await new Promise<void>((resolve, reject) => {
+      const compiler = spawn(command, args, { cwd, env: passthroughEnv(), stdio: ['ignore', 'pipe', 'pipe'] });
+      let log = '';
+      const collect = (data: Buffer) => {
+        log = (log + data.toString()).slice(-MAX_BUILD_OUTPUT);
+      };
+      compiler.stdout?.on('data', collect);
+      compiler.stderr?.on('data', collect);
+      compiler.on('error', (error) => reject(new DebugBuildError(`${command} could not be run: ${error.message}`)));
+      compiler.on('close', (code) => {
+        if (code === 0) resolve();
+        else reject(new DebugBuildError(`${command} exited with code ${code}\n${log.trim()}`));
+      });
+    });
+    return output;
+  }
+
+  /**
+   * Spawn the adapter and open its DAP connection
+   */
+  private async connect(cwd: string): Promise<DapClient> {
+    const { candidate, executable } = this.adapter;
+    const adapterProcess = spawn(executable, candidate.args, { cwd, env: passthroughEnv(), stdio: ['pipe', 'pipe', 'pipe'] });
+    this.adapterProcess = adapterProcess;
+
+    adapterProcess.stderr?.on('data', (data) => logger.debug(`[${candidate.command}] ${data.toString().trim()}`));
+    adapterProcess.on('exit', () => {
+      if (this.adapterProcess === adapterProcess) this.adapterProcess = undefined;
+      this.terminate();
+    });
+
+    let client: DapClient;
+    if (candidate.transport === 'stdio') {
+      client = new DapClient(adapterProcess.stdout!, adapterProcess.stdin!);
+    } else {
+      const socket = await this.withTimeout(this.listenAddress(adapterProcess).then(({ host, port }) => new Promise<net.Socket>((resolve, reject) => {
+        const connection = net.connect(port, host, () => resolve(connection));
+        connection.once('error', reject);
+      })), 'connect');
+      client = new DapClient(socket, socket);
+    }
+
+    this.client = client;
+    client.on('event', (event: DapEvent) => this.handleEvent(event));
+    client.on('close', () => this.terminate());
+    return client;
+  }
+
+  /**
+   * Address a tcp adapter prints once it listens, e.g. `DAP server listening at: 127.0.0.1:38697`
+   */
+  private listenAddress(adapterProcess: ChildProcess): Promise<{ host: string; port: number }> {
+    return new Promise((resolve, reject) => {
+      let printed = '';
+      adapterProcess.stdout?.on('data', (data) => {
+        printed += data.toString();
+        const match = /listening at:?\s*\[?([\w.:]+?)\]?:(\d+)/i.exec(printed);
+        if (match) resolve({ host: match[1], port: parseInt(match[2], 10) });
+      });
+      adapterProcess.once('exit', () => reject(new Error(`${this.adapter.candidate.command} exited before listening`)));
+    });
+  }
+
+  private handleEvent(event: DapEvent): void {
+    switch (event.event) {
+      case 'output': {
+        const category = event.body?.category || 'console';
+        if (category === 'telemetry') return;
+        this.emit('output', { type: category === 'stderr' ? 'stderr' : 'stdout', data: event.body?.output ?? '' });
+        return;
+      }
+      case 'stopped':
+        if (event.body?.threadId !== undefined) this.threadId = event.body.threadId;
+        this.loadStack()
+          .then(callStack => this.emit('stopped', { reason: event.body?.reason, callStack }))
+          .catch(error => logger.error('Failed to inspect stopped state:', error));
+        return;
+      case 'continued':
+        this.emit('continued');
+        return;
+      case 'exited':
+        this.exitCode = event.body?.exitCode ?? null;
+        return;
+      case 'terminated':
+        this.terminate();
+        return;
+    }
+  }
+
+  /**
+   * Stack of the stopped thread with each frame's scopes
+   */
+  private async loadStack(): Promise<DapStackFrame[]> {
+    this.indexedSizes.clear();
+    const threadId = await this.threadIdOrFirst();
+    const { stackFrames = [] } = await this.request('stackTrace', { threadId, startFrame: 0, levels: MAX_FRAMES });
+
+    return Promise.all(stackFrames.map(async (frame: any) => {
+      const { scopes = [] } = await this.request('scopes', { frameId: frame.id }).catch(() => ({ scopes: [] }));
+      return {
+        id: String(frame.id),
+        file: frame.source?.path || frame.source?.name || 'unknown',
+        line: frame.line,
+        column: frame.column,
+        function: frame.name || '<anonymous>',
+        scopes: scopes.map((scope: any) => ({
+          type: scope.presentationHint || String(scope.name).toLowerCase(),
+          name: scope.name,
+          ...(scope.variablesReference > 0 ? { objectId: String(scope.variablesReference) } : {}),
+        })),
+      };
+    }));
+  }
+
+  private toVariables(variables: DapVariable[] = []): DebugVariable[] {
+    return variables.map(variable => this.track(fromDapVariable(variable.name || '', variable), variable));
+  }
+
+  /**
+   * Remember indexed sizes so expanding the variable later pages through elements
+   */
+  private track(variable: DebugVariable, source: DapVariable): DebugVariable {
+    if (source.variablesReference > 0 && source.indexedVariables !== undefined) {
+      this.indexedSizes.set(source.variablesReference, source.indexedVariables);
+    }
+    return variable;
+  }
+
+  private terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.emit('terminated', this.exitCode);
+  }
+
+  private withTimeout<T>(promise: Promise<T>, step: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Debug adapter ${this.adapter.candidate.command} did not answer ${step} within ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      timer.unref();
+      promise.then(
+        (value) => { clearTimeout(timer); resolve(value); },
+        (error) => { clearTimeout(timer); reject(error); },
+      );
+    });
+  }
+}
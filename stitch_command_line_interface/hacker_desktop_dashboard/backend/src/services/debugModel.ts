@@ -0,0 +1,128 @@
+/**
+ * Debug Model
+ * Turns inspector RemoteObjects and Debug Adapter Protocol variables into variables the
+ * debug UI can show and expand, and pages through large arrays, maps and sets
+ */
+
+export interface RemoteObject {
+  type: string;
+  subtype?: string;
+  className?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  objectId?: string;
+}
+
+export interface DebugVariable {
+  name: string;
+  /** One-line preview, e.g. `42`, `"text"`, `Array(3)`, `Map(2)`, `ƒ handler(req, res)` */
+  value: string;
+  /** RemoteObject subtype when there is one (array, map, null, ...), otherwise its type; the language's type name under DAP */
+  type: string;
+  /** Present when the value has children; expand it with getVariables while paused */
+  objectId?: string;
+  /** Element count of arrays, typed arrays, maps and sets, whose children are paged */
+  size?: number;
+}
+
+/** A DAP `Variable`, or the body of an `evaluate` response */
+export interface DapVariable {
+  name?: string;
+  value?: string;
+  result?: string;
+  type?: string;
+  /** Handle for the children; 0 when there are none */
+  variablesReference: number;
+  indexedVariables?: number;
+  namedVariables?: number;
+}
+
+export interface DebugVariablePage {
+  variables: DebugVariable[];
+  start: number;
+  total: number;
+}
+
+/** Subtypes whose children are indexed elements rather than named properties */
+export const PAGED_SUBTYPES = new Set(['array', 'typedarray', 'map', 'set']);
+
+/**
+ * Runs inside the debuggee with `this` bound to the collection; returns one page of its
+ * elements as an index-keyed object. Map entries become `{ key, value }`.
+ */
+export const COLLECTION_PAGE_FUNCTION = `function (start, count) {
+  const page = {};
+  if (Array.isArray(this) || ArrayBuffer.isView(this)) {
+    const end = Math.min(this.length, start + count);
+    for (let i = start; i < end; i++) page[i] = this[i];
+    return page;
+  }
+  let i = 0;
+  for (const entry of this) {
+    if (i >= start + count) break;
+    if (i >= start) page[i] = this instanceof Map ? { key: entry[0], value: entry[1] } : entry;
+    i++;
+  }
+  return page;
+}`;
+
+const MAX_PREVIEW = 120;
+
+function truncate(text: string): string {
+  return text.length > MAX_PREVIEW ? `${text.slice(0, MAX_PREVIEW - 1)}…` : text;
+}
+
+export function describeRemoteObject(remote: RemoteObject): string {
+  if (remote.unserializableValue !== undefined) return remote.unserializableValue;
+  switch (remote.type) {
+    case 'undefined':
+      return 'undefined';
+    case 'string':
+      return truncate(JSON.stringify(remote.value));
+    case 'function': {
+      // description is the function's source; its first line carries the signature
+      const signature = (remote.description || 'function').split('\n')[0].replace(/\s*\{\s*$/, '');
+      return truncate(`ƒ ${signature.replace(/^(async\s+)?function\s*/, '$1')}`);
+    }
+    case 'object':
+      if (remote.subtype === 'null') return 'null';
+      return truncate(remote.description || remote.className || 'Object');
+    default:
+      return truncate(remote.description ?? String(remote.value));
+  }
+}
+
+/**
+ * Element count from descriptions such as `Array(3)`, `Uint8Array(16)` or `Map(2)`
+ */
+export function collectionSize(remote: RemoteObject): number | undefined {
+  if (!remote.subtype || !PAGED_SUBTYPES.has(remote.subtype)) return undefined;
+  const match = /\((\d+)\)$/.exec(remote.description || '');
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+export function toDebugVariable(name: string, remote: RemoteObject): DebugVariable {
+  const expandable = (remote.type === 'object' && remote.subtype !== 'null') || remote.type === 'function';
+  const size = collectionSize(remote);
+  return {
+    name,
+    value: describeRemoteObject(remote),
+    type: remote.subtype || remote.type,
+    ...(expandable && remote.objectId ? { objectId: remote.objectId } : {}),
+    ...(size !== undefined ? { size } : {}),
+  };
+}
+
+/**
+ * DAP variables are already rendered by the adapter; children are fetched by variablesReference
+ */
+export function fromDapVariable(name: string, variable: DapVariable): DebugVariable {
+  return {
+    name,
+    value: truncate(variable.value ?? variable.result ?? ''),
+    type: variable.type || 'unknown',
+    ...(variable.variablesReference > 0 ? { objectId: String(variable.variablesReference) } : {}),
+    ...(variable.indexedVariables !== undefined ? { size: variable.indexedVariables } : {}),
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * Debug Session Manager
+ * Per-user debug sessions, each with its own debuggee process, inspector connection,
+ * breakpoints and watches. Enforces a per-user limit and closes idle or orphaned sessions.
+ */
+
+import { EventEmitter } from 'events';
+import { DebuggerService } from './debuggerService';
+import { logger } from '../utils/logger';
+
+export interface DebugSession {
+  id: string;
+  userId: string;
+  username?: string;
+  debugger: DebuggerService;
+  /** Workspace file the session last launched */
+  file?: string;
+  createdAt: string;
+  /** Last request from the owner; debuggee output does not count */
+  lastActivityAt: number;
+  /** Socket.IO connections that opened the session; it closes when the last one disconnects */
+  sockets: Set<string>;
+}
+
+export interface DebugSessionSummary {
+  id: string;
+  userId: string;
+  username?: string;
+  file?: string;
+  running: boolean;
+  paused: boolean;
+  createdAt: string;
+  lastActivityAt: string;
+}
+
+export interface DebugSessionEvent {
+  sessionId: string;
+  userId: string;
+  /** DebuggerService event name: started, paused, resumed, frame, output, exit, stopped or watches */
+  event: string;
+  data?: unknown;
+}
+
+export interface DebugSessionManagerOptions {
+  maxSessionsPerUser?: number;
+  idleTimeoutMs?: number;
+  sweepIntervalMs?: number;
+}
+
+export class DebugSessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Debug session ${id} not found`);
+    this.name = 'DebugSessionNotFoundError';
+  }
+}
+
+export class DebugSessionLimitError extends Error {
+  constructor(limit: number) {
+    super(`At most ${limit} debug sessions per user; close one first`);
+    this.name = 'DebugSessionLimitError';
+  }
+}
+
+/** DebuggerService events relayed to the session owner */
+export const DEBUG_SESSION_EVENTS = ['started', 'paused', 'resumed', 'frame', 'output', 'exit', 'stopped', 'watches'];
+
+/**
+ * Debug Session Manager
+ */
+export class DebugSessionManager extends EventEmitter {
+  private sessions = new Map<string, DebugSession>();
+  private nextId = 1;
+  private maxSessionsPerUser: number;
+  private idleTimeoutMs: number;
+  private sweepIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: DebugSessionManagerOptions = {}) {
+    super();
+    this.maxSessionsPerUser = options.maxSessionsPerUser ?? parseInt(process.env.DEBUG_MAX_SESSIONS_PER_USER || '2', 10);
+    this.idleTimeoutMs = options.idleTimeoutMs ?? parseInt(process.env.DEBUG_SESSION_IDLE_MS || '900000', 10);
+    this.sweepIntervalMs = options.sweepIntervalMs ?? parseInt(process.env.DEBUG_SESSION_SWEEP_INTERVAL_MS || '60000', 10);
+  }
+
+  /**
+   * Open a session for a user, optionally tied to the socket that asked for it
+   */
+  create(owner: { userId: string; username?: string }, socketId?: string): DebugSession {
+    const owned = this.list(owner.userId).length;
+    if (owned >= this.maxSessionsPerUser) {
+      throw new DebugSessionLimitError(this.maxSessionsPerUser);
+    }
+
+    const session: DebugSession = {
+      id: `dbg-${this.nextId++}`,
+      userId: owner.userId,
+      username: owner.username,
+      debugger: new DebuggerService(),
+      createdAt: new Date().toISOString(),
+      lastActivityAt: Date.now(),
+      sockets: new Set(socketId ? [socketId] : []),
+    };
+
+    for (const event of DEBUG_SESSION_EVENTS) {
+      session.debugger.on(event, (data?: unknown) => {
+        if (event === 'started') session.file = (data as { file: string }).file;
+        this.emit('session:event', { sessionId: session.id, userId: session.userId, event, data } as DebugSessionEvent);
+      });
+    }
+
+    this.sessions.set(session.id, session);
+    logger.info(`Debug session ${session.id} opened for ${owner.username || owner.userId}`);
+    return session;
+  }
+
+  /**
+   * A session owned by the user; other users' sessions are reported as not found
+   */
+  get(id: string, userId: string): DebugSession {
+    const session = this.sessions.get(id);
+    if (!session || session.userId !== userId) {
+      throw new DebugSessionNotFoundError(id);
+    }
+    session.lastActivityAt = Date.now();
+    return session;
+  }
+
+  list(userId: string): DebugSessionSummary[] {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .map(session => this.summarize(session));
+  }
+
+  summarize(session: DebugSession): DebugSessionSummary {
+    const state = session.debugger.getState();
+    return {
+      id: session.id,
+      userId: session.userId,
+      ...(session.username ? { username: session.username } : {}),
+      ...(session.file ? { file: session.file } : {}),
+      running: state.running,
+      paused: state.paused,
+      createdAt: session.createdAt,
+      lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+    };
+  }
+
+  /**
+   * Kill the session's debuggee and forget the session
+   */
+  async close(id: string, userId: string): Promise<void> {
+    await this.destroy(this.get(id, userId), 'closed');
+  }
+
+  /**
+   * Detach a disconnected socket, closing the sessions it was the last user of
+   */
+  async releaseSocket(socketId: string): Promise<string[]> {
+    const closed: string[] = [];
+    for (const session of Array.from(this.sessions.values())) {
+      if (!session.sockets.delete(socketId) || session.sockets.size > 0) continue;
+      await this.destroy(session, 'socket disconnected');
+      closed.push(session.id);
+    }
+    return closed;
+  }
+
+  /**
+   * Close sessions their owner has not touched within the idle timeout
+   */
+  async sweep(now: number = Date.now()): Promise<string[]> {
+    const closed: string[] = [];
+    for (const session of Array.from(this.sessions.values())) {
+      if (now - session.lastActivityAt < this.idleTimeoutMs) continue;
+      await this.destroy(session, 'idle timeout');
+      closed.push(session.id);
+    }
+    return closed;
+  }
+
+  /**
+   * Start the periodic idle sweep
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => logger.error('Debug session sweep failed:', error));
+    }, this.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop the sweep and every session's debuggee
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const session of Array.from(this.sessions.values())) {
+      await this.destroy(session, 'shutdown');
+    }
+  }
+
+  private async destroy(session: DebugSession, reason: string): Promise<void> {
+    this.sessions.delete(session.id);
+    await session.debugger.stopDebugging();
+    session.debugger.removeAllListeners();
+    logger.info(`Debug session ${session.id} closed (${reason})`);
+    this.emit('session:closed', { sessionId: session.id, userId: session.userId, reason });
+  }
+}
+
+export const debugSessionManager = new DebugSessionManager();
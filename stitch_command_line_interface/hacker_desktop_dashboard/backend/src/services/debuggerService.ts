@@ -1,15 +1,30 @@
 /**
  * Debugger Service
  * Provides debugging capabilities: breakpoints, watch variables, step execution
- * Uses Node.js Inspector protocol for JavaScript debugging
+ * Uses Node.js Inspector protocol for JavaScript debugging and Debug Adapter Protocol
+ * adapters found on PATH for Python, Go, C, C++ and Rust
+ * One instance is one debug session; debugSessionManager owns them per user
  */
 
 import { EventEmitter } from 'events';
 import { spawn, ChildProcess } from 'child_process';
 import WebSocket from 'ws';
 import { logger } from '../utils/logger';
+import { passthroughEnv } from '../utils/childEnv';
 import { workspaceService } from './workspaceService';
+import { logAggregatorService } from './logAggregatorService';
 import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { COLLECTION_PAGE_FUNCTION, DebugVariable, DebugVariablePage, RemoteObject, toDebugVariable } from './debugModel';
+import {
+  adapterForFile,
+  DEBUG_ADAPTERS,
+  DebugAdapterDefinition,
+  DebugAdapterNotFoundError,
+  NODE_INSPECTOR_EXTENSIONS,
+  resolveAdapter,
+} from './dapAdapters';
+import { DapSession, DapSessionBreakpoint, DapStackFrame, DebugBuildError } from './dapSession';
 
 export interface Breakpoint {
   id: string;
@@ -22,22 +37,73 @@ export interface Breakpoint {
 export interface WatchExpression {
   id: string;
   expression: string;
-  value?: any;
+  /** Preview of the value in the selected frame; expand objects through objectId */
+  value?: string;
+  type?: string;
+  objectId?: string;
+  /** Exception text when the expression threw in the paused context */
+  error?: string;
+}
+
+export interface DebugScope {
+  type: string;
+  name?: string;
+  objectId?: string;
+}
+
+export interface DebugStackFrame {
+  /** Inspector callFrameId or DAP frame id, valid until execution resumes */
+  id: string;
+  file: string;
+  /** 1-based, like breakpoint lines */
+  line: number;
+  column: number;
+  function: string;
+  /** Innermost scope first */
+  scopes: DebugScope[];
 }
 
 export interface DebuggerState {
   running: boolean;
   paused: boolean;
+  /** Why execution paused (breakpoint, step, debugCommand, Break on start, ...) */
+  reason?: string;
   currentFile?: string;
+  /** 1-based, like breakpoint lines */
   currentLine?: number;
-  callStack: Array<{
-    file: string;
-    line: number;
-    function: string;
-  }>;
-  variables: Record<string, any>;
+  callStack: DebugStackFrame[];
+  /** Index into callStack that variables, scopes and watches refer to */
+  selectedFrame: number;
+  /** First page of the selected frame's innermost scope */
+  variables: DebugVariable[];
+}
+
+export interface DebuggerServiceOptions {
+  /** Children returned per getVariables call unless the caller asks for another count */
+  variablePageSize?: number;
+  /** Debug Adapter Protocol adapters for languages other than JavaScript */
+  adapters?: DebugAdapterDefinition[];
+  /** How long a debug adapter may take to answer a startup request */
+  adapterTimeoutMs?: number;
 }
 
+export class DebuggerStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DebuggerStateError';
+  }
+}
+
+export class DebugEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DebugEvaluationError';
+  }
+}
+
+/** Object group for remote objects handed to clients; released whenever execution resumes */
+const OBJECT_GROUP = 'debug-ui';
+
 export interface StepAction {
   type: 'continue' | 'stepOver' | 'stepInto' | 'stepOut';
 }
@@ -54,14 +120,32 @@ export class DebuggerService extends EventEmitter {
     running: false,
     paused: false,
     callStack: [],
-    variables: {},
+    selectedFrame: 0,
+    variables: [],
   };
   private nextBreakpointId = 1;
   private nextWatchId = 1;
+  private nextMessageId = 1;
   private inspectorUrl?: string;
-
-  constructor() {
+  /** Inspector responses awaited by message id */
+  private pendingResponses: Map<number, (message: any) => void> = new Map();
+  /** Inspector-assigned ids of the breakpoints currently set, by our breakpoint id */
+  private inspectorBreakpointIds: Map<string, string> = new Map();
+  /** Script URLs by inspector scriptId, for mapping call frames back to files */
+  private scriptUrls: Map<string, string> = new Map();
+  /** Element counts of the paged collections handed out since the last pause, by objectId */
+  private collectionSizes: Map<string, number> = new Map();
+  private variablePageSize: number;
+  /** Adapter connection while debugging a non-JavaScript program */
+  private dap?: DapSession;
+  private adapters: DebugAdapterDefinition[];
+  private adapterTimeoutMs: number;
+
+  constructor(options: DebuggerServiceOptions = {}) {
     super();
+    this.variablePageSize = options.variablePageSize ?? parseInt(process.env.DEBUG_VARIABLE_PAGE_SIZE || '100', 10);
+    this.adapters = options.adapters ?? DEBUG_ADAPTERS;
+    this.adapterTimeoutMs = options.adapterTimeoutMs ?? parseInt(process.env.DEBUG_ADAPTER_TIMEOUT_MS || '15000', 10);
   }
 
   /**
@@ -74,15 +158,24 @@ export class DebuggerService extends EventEmitter {
       await workspaceService.readFile(filePath);
 
       // Stop existing session
-      if (this.debugProcess) {
+      if (this.debugProcess || this.dap) {
         await this.stopDebugging();
       }
 
+      const extension = path.extname(filePath).toLowerCase();
+      const definition = NODE_INSPECTOR_EXTENSIONS.includes(extension) ? undefined : adapterForFile(filePath, this.adapters);
+      if (definition) {
+        await this.startAdapter(definition, filePath, fullPath, args);
+        return;
+      }
+
       // Start Node.js with inspector enabled
       this.debugProcess = spawn('node', ['--inspect-brk=0', fullPath, ...args], {
         cwd: workspaceService.getWorkspaceRoot(),
+        env: passthroughEnv(),
         stdio: ['pipe', 'pipe', 'pipe'],
       });
+      logAggregatorService.attachProcess(this.debugProcess, `debug:${filePath}`);
 
       // Capture output
       this.debugProcess.stdout?.on('data', (data) => {
@@ -93,16 +186,22 @@ export class DebuggerService extends EventEmitter {
         const output = data.toString();
         
         // Extract inspector WebSocket URL
-        const match = output.match(/ws:\/\/[^\s]+/);
+        // (Node also prints "Debugger ending on ws://..." as it exits)
+        const match = output.match(/Debugger listening on (ws:\/\/[^\s]+)/);
         if (match) {
-          this.inspectorUrl = match[0];
-          this.connectToInspector();
+          this.inspectorUrl = match[1];
+          // Failures are logged by the socket's error handler
+          this.connectToInspector().catch(() => undefined);
         }
         
         this.emit('output', { type: 'stderr', data: output });
       });
 
-      this.debugProcess.on('exit', (code) => {
+      const child = this.debugProcess;
+      child.on('exit', (code) => {
+        if (this.debugProcess === child) {
+          this.debugProcess = undefined;
+        }
         this.emit('exit', code);
         this.cleanup();
       });
@@ -112,10 +211,46 @@ export class DebuggerService extends EventEmitter {
       this.emit('started', { file: filePath });
     } catch (error) {
       logger.error('Failed to start debugger:', error);
+      if (error instanceof DebugAdapterNotFoundError || error instanceof DebugBuildError) {
+        throw error;
+      }
       throw new Error('Failed to start debugger');
     }
   }
 
+  /**
+   * Start a program under its language's Debug Adapter Protocol adapter
+   */
+  private async startAdapter(definition: DebugAdapterDefinition, filePath: string, fullPath: string, args: string[]): Promise<void> {
+    const dap = new DapSession(await resolveAdapter(definition), this.adapterTimeoutMs);
+    this.dap = dap;
+
+    dap.on('output', (output) => this.emit('output', output));
+    dap.on('stopped', ({ reason, callStack }: { reason?: string; callStack: DapStackFrame[] }) => {
+      const frames = callStack.map(frame => ({ ...frame, file: this.toWorkspacePath(frame.file) }));
+      this.enterPaused(reason, frames).catch((error) => {
+        logger.error('Failed to inspect paused state:', error);
+      });
+    });
+    dap.on('continued', () => this.handleResumed());
+    dap.on('terminated', (code: number | null) => {
+      this.emit('exit', code);
+      this.cleanup();
+    });
+
+    // Set before launching: the adapter may report the entry stop before launch returns
+    this.state.running = true;
+    this.emit('started', { file: filePath, language: definition.language });
+
+    try {
+      await dap.start(fullPath, args, workspaceService.getWorkspaceRoot(), this.adapterBreakpoints());
+    } catch (error) {
+      await this.stopDebugging();
+      throw error;
+    }
+    logger.info(`Debugger started for: ${filePath} (${definition.language})`);
+  }
+
   /**
    * Connect to Node.js Inspector
    */
@@ -167,63 +302,103 @@ export class DebuggerService extends EventEmitter {
         this.setInspectorBreakpoint(bp);
       }
     }
+
+    // --inspect-brk holds the process until a client says go; it then pauses on the first line
+    this.sendInspectorCommand('Runtime.runIfWaitingForDebugger');
   }
 
   /**
    * Send command to Inspector
    */
-  private sendInspectorCommand(method: string, params: any = {}): void {
+  private sendInspectorCommand(method: string, params: any = {}): number | undefined {
     if (!this.inspectorWs || this.inspectorWs.readyState !== WebSocket.OPEN) {
       logger.warn('Inspector WebSocket not connected');
-      return;
+      return undefined;
     }
 
     const message = {
-      id: Date.now(),
+      id: this.nextMessageId++,
       method,
       params,
     };
 
     this.inspectorWs.send(JSON.stringify(message));
+    return message.id;
+  }
+
+  /**
+   * Send command to Inspector and wait for its response
+   */
+  private requestInspector(method: string, params: any = {}): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const id = this.sendInspectorCommand(method, params);
+      if (id === undefined) {
+        reject(new DebuggerStateError('Debugger is not connected'));
+        return;
+      }
+      this.pendingResponses.set(id, (message) => {
+        if (message.error) {
+          reject(new Error(message.error.message || `${method} failed`));
+        } else {
+          resolve(message.result);
+        }
+      });
+    });
+  }
+
+  /**
+   * Map an inspector script URL to a workspace-relative path when it is inside the workspace
+   */
+  private toWorkspaceFile(url: string): string {
+    if (!url.startsWith('file://')) return url;
+    const file = this.toWorkspacePath(fileURLToPath(url));
+    return path.isAbsolute(file) ? url : file;
+  }
+
+  /**
+   * Workspace-relative form of an absolute path inside the workspace; other paths are unchanged
+   */
+  private toWorkspacePath(file: string): string {
+    if (!path.isAbsolute(file)) return file;
+    const relative = path.relative(workspaceService.getWorkspaceRoot(), file);
+    return relative.startsWith('..') || path.isAbsolute(relative) ? file : relative.split(path.sep).join('/');
   }
 
   /**
    * Handle Inspector protocol messages
    */
   private handleInspectorMessage(message: any): void {
-    // Handle debugger paused event
-    if (message.method === 'Debugger.paused') {
-      const callFrames = message.params.callFrames || [];
-      
-      this.state.paused = true;
-      this.state.callStack = callFrames.map((frame: any) => ({
-        file: frame.location?.scriptId || 'unknown',
-        line: frame.location?.lineNumber || 0,
-        function: frame.functionName || '<anonymous>',
-      }));
-
-      if (callFrames.length > 0) {
-        const topFrame = callFrames[0];
-        this.state.currentLine = topFrame.location?.lineNumber;
+    // Responses to our own commands
+    if (message.id !== undefined) {
+      const resolve = this.pendingResponses.get(message.id);
+      if (resolve) {
+        this.pendingResponses.delete(message.id);
+        resolve(message);
       }
+      return;
+    }
 
-      // Extract local variables
-      this.extractVariables(callFrames);
-
-      this.emit('paused', {
-        callStack: this.state.callStack,
-        variables: this.state.variables,
+    // Handle debugger paused event
+    if (message.method === 'Debugger.paused') {
+      this.handlePaused(message.params).catch((error) => {
+        logger.error('Failed to inspect paused state:', error);
       });
     }
 
     // Handle debugger resumed event
     if (message.method === 'Debugger.resumed') {
-      this.state.paused = false;
-      this.emit('resumed');
+      this.sendInspectorCommand('Runtime.releaseObjectGroup', { objectGroup: OBJECT_GROUP });
+      this.handleResumed();
+    }
+
+    // The script finished; Node keeps the process alive until the debugger disconnects
+    if (message.method === 'Runtime.executionContextDestroyed') {
+      this.inspectorWs?.close();
     }
 
     // Handle script parsed event
     if (message.method === 'Debugger.scriptParsed') {
+      this.scriptUrls.set(message.params.scriptId, message.params.url);
       this.emit('scriptParsed', {
         scriptId: message.params.scriptId,
         url: message.params.url,
@@ -232,25 +407,146 @@ export class DebuggerService extends EventEmitter {
   }
 
   /**
-   * Extract variables from call frames
+   * Map inspector call frames to workspace locations
    */
-  private extractVariables(callFrames: any[]): void {
-    if (!callFrames || callFrames.length === 0) return;
+  private async handlePaused(params: any): Promise<void> {
+    const callFrames = params.callFrames || [];
+    const callStack: DebugStackFrame[] = callFrames.map((frame: any) => ({
+      id: frame.callFrameId,
+      file: this.toWorkspaceFile(this.scriptUrls.get(frame.location?.scriptId) || frame.url || 'unknown'),
+      line: (frame.location?.lineNumber ?? 0) + 1,
+      column: (frame.location?.columnNumber ?? 0) + 1,
+      function: frame.functionName || '<anonymous>',
+      scopes: (frame.scopeChain || []).map((scope: any) => ({
+        type: scope.type,
+        name: scope.name,
+        objectId: scope.object?.objectId,
+      })),
+    }));
+
+    await this.enterPaused(params.reason, callStack);
+  }
 
-    const topFrame = callFrames[0];
-    const scopeChain = topFrame.scopeChain || [];
+  /**
+   * Record the stopped location, load the selected frame's variables and re-evaluate watches
+   */
+  private async enterPaused(reason: string | undefined, callStack: DebugStackFrame[]): Promise<void> {
+    this.state.paused = true;
+    this.state.reason = reason;
+    this.state.callStack = callStack;
+    this.state.selectedFrame = 0;
+    this.state.currentFile = callStack[0]?.file;
+    this.state.currentLine = callStack[0]?.line;
+    this.collectionSizes.clear();
+
+    await this.loadFrameVariables();
+    // A step may already have resumed execution while the variables loaded
+    if (this.state.callStack !== callStack) return;
+
+    this.emit('paused', this.getState());
+    await this.refreshWatches();
+  }
 
-    this.state.variables = {};
+  private handleResumed(): void {
+    if (!this.state.paused) return;
+    this.state.paused = false;
+    this.state.reason = undefined;
+    this.state.callStack = [];
+    this.state.selectedFrame = 0;
+    this.state.variables = [];
+    this.collectionSizes.clear();
+    this.emit('resumed');
+  }
 
-    for (const scope of scopeChain) {
-      if (scope.type === 'local' || scope.type === 'closure') {
-        // Request scope variables
-        this.sendInspectorCommand('Runtime.getProperties', {
-          objectId: scope.object.objectId,
-          ownProperties: true,
-        });
-      }
+  /**
+   * First page of the selected frame's innermost scope
+   */
+  private async loadFrameVariables(): Promise<void> {
+    const scope = this.state.callStack[this.state.selectedFrame]?.scopes[0];
+    this.state.variables = scope?.objectId ? (await this.getVariables(scope.objectId)).variables : [];
+  }
+
+  private frame(index: number): DebugStackFrame {
+    if (!this.state.paused) {
+      throw new DebuggerStateError('Call frames are only available while paused');
+    }
+    const frame = this.state.callStack[index];
+    if (!frame) {
+      throw new DebuggerStateError(`No call frame ${index}`);
     }
+    return frame;
+  }
+
+  /**
+   * Scope chain of a call frame, innermost first
+   */
+  getScopes(frameIndex: number = this.state.selectedFrame): DebugScope[] {
+    return this.frame(frameIndex).scopes;
+  }
+
+  /**
+   * Make a call frame the one variables and watches are evaluated in
+   */
+  async selectFrame(frameIndex: number): Promise<DebuggerState> {
+    this.frame(frameIndex);
+    this.state.selectedFrame = frameIndex;
+    await this.loadFrameVariables();
+    this.emit('frame', this.getState());
+    await this.refreshWatches();
+    return this.getState();
+  }
+
+  /**
+   * Children of a scope or object by objectId. Arrays, typed arrays, maps and sets are paged
+   * by element index; other objects by property.
+   */
+  async getVariables(objectId: string, options: { start?: number; count?: number } = {}): Promise<DebugVariablePage> {
+    if (!this.state.paused) {
+      throw new DebuggerStateError('Variables are only available while paused');
+    }
+    const start = options.start ?? 0;
+    const count = options.count ?? this.variablePageSize;
+
+    if (this.dap) {
+      return this.dap.variables(objectId, start, count);
+    }
+
+    const size = this.collectionSizes.get(objectId);
+    if (size !== undefined) {
+      const page = await this.requestInspector('Runtime.callFunctionOn', {
+        objectId,
+        functionDeclaration: COLLECTION_PAGE_FUNCTION,
+        arguments: [{ value: start }, { value: count }],
+        objectGroup: OBJECT_GROUP,
+      });
+      return { variables: await this.getOwnProperties(page.result.objectId), start, total: size };
+    }
+
+    const variables = await this.getOwnProperties(objectId);
+    return { variables: variables.slice(start, start + count), start, total: variables.length };
+  }
+
+  private async getOwnProperties(objectId: string): Promise<DebugVariable[]> {
+    const { result } = await this.requestInspector('Runtime.getProperties', {
+      objectId,
+      ownProperties: true,
+      generatePreview: false,
+    });
+    return (result as Array<{ name: string; value?: RemoteObject; get?: RemoteObject }>)
+      .filter(property => property.name !== '__proto__')
+      .map(property => property.value
+        ? this.track(toDebugVariable(property.name, property.value))
+        : { name: property.name, value: property.get ? '(getter)' : 'undefined', type: 'accessor' });
+  }
+
+  /**
+   * Remember collection sizes so expanding them later pages through elements
+   */
+  private track(variable: DebugVariable): DebugVariable {
+    if (variable.objectId && variable.size !== undefined) {
+      this.collectionSizes.set(variable.objectId, variable.size);
+    }
+    return variable;
   }
 
   /**
@@ -268,63 +564,98 @@ export class DebuggerService extends EventEmitter {
 
     this.breakpoints.set(id, breakpoint);
 
-    // Set in inspector if debugging
-    if (this.state.running) {
-      this.setInspectorBreakpoint(breakpoint);
-    }
+    // Set in the debuggee if debugging
+    this.applyBreakpoint(breakpoint, true);
 
     logger.info(`Breakpoint added: ${file}:${line}`);
     return breakpoint;
   }
 
+  /**
+   * Push a breakpoint change to a running debuggee. DAP replaces a file's breakpoints as a whole.
+   */
+  private applyBreakpoint(bp: Breakpoint, set: boolean): void {
+    if (!this.state.running) return;
+
+    if (this.dap) {
+      const file = path.join(workspaceService.getWorkspaceRoot(), bp.file);
+      this.dap.setBreakpoints(file, this.adapterBreakpoints().get(file) || []).catch((error) => {
+        logger.warn(`Failed to set breakpoints in ${bp.file}:`, error);
+      });
+    } else if (set) {
+      this.setInspectorBreakpoint(bp);
+    } else {
+      this.removeInspectorBreakpoint(bp.id);
+    }
+  }
+
+  /**
+   * Enabled breakpoints by absolute file path, for the adapter
+   */
+  private adapterBreakpoints(): Map<string, DapSessionBreakpoint[]> {
+    const byFile = new Map<string, DapSessionBreakpoint[]>();
+    for (const bp of this.breakpoints.values()) {
+      const file = path.join(workspaceService.getWorkspaceRoot(), bp.file);
+      if (!byFile.has(file)) byFile.set(file, []);
+      if (bp.enabled) byFile.get(file)!.push({ line: bp.line, condition: bp.condition });
+    }
+    return byFile;
+  }
+
   /**
    * Set breakpoint in Inspector
    */
   private setInspectorBreakpoint(bp: Breakpoint): void {
-    this.sendInspectorCommand('Debugger.setBreakpointByUrl', {
+    this.requestInspector('Debugger.setBreakpointByUrl', {
       lineNumber: bp.line - 1, // Inspector uses 0-based line numbers
-      url: `file://${path.join(workspaceService.getWorkspaceRoot(), bp.file)}`,
+      url: pathToFileURL(path.join(workspaceService.getWorkspaceRoot(), bp.file)).href,
       condition: bp.condition,
-    });
+    })
+      .then((result) => {
+        this.inspectorBreakpointIds.set(bp.id, result.breakpointId);
+      })
+      .catch((error) => {
+        logger.warn(`Failed to set breakpoint ${bp.file}:${bp.line}:`, error);
+      });
+  }
+
+  /**
+   * Remove breakpoint from Inspector
+   */
+  private removeInspectorBreakpoint(id: string): void {
+    const breakpointId = this.inspectorBreakpointIds.get(id);
+    if (!breakpointId) return;
+    this.inspectorBreakpointIds.delete(id);
+    this.sendInspectorCommand('Debugger.removeBreakpoint', { breakpointId });
   }
 
   /**
    * Remove breakpoint
    */
-  removeBreakpoint(id: string): void {
+  removeBreakpoint(id: string): boolean {
     const bp = this.breakpoints.get(id);
-    if (!bp) return;
+    if (!bp) return false;
 
     this.breakpoints.delete(id);
     
-    // Remove from inspector if debugging
-    if (this.state.running) {
-      this.sendInspectorCommand('Debugger.removeBreakpoint', {
-        breakpointId: id,
-      });
-    }
+    // Remove from the debuggee if debugging
+    this.applyBreakpoint(bp, false);
 
     logger.info(`Breakpoint removed: ${id}`);
+    return true;
   }
 
   /**
    * Toggle breakpoint
    */
-  toggleBreakpoint(id: string): void {
+  toggleBreakpoint(id: string): Breakpoint | undefined {
     const bp = this.breakpoints.get(id);
-    if (!bp) return;
+    if (!bp) return undefined;
 
     bp.enabled = !bp.enabled;
 
-    if (this.state.running) {
-      if (bp.enabled) {
-        this.setInspectorBreakpoint(bp);
-      } else {
-        this.sendInspectorCommand('Debugger.removeBreakpoint', {
-          breakpointId: id,
-        });
-      }
-    }
+    this.applyBreakpoint(bp, bp.enabled);
+    return bp;
   }
 
   /**
@@ -349,28 +680,40 @@ export class DebuggerService extends EventEmitter {
     
     // Evaluate if paused
     if (this.state.paused) {
-      this.evaluateWatch(watch);
+      this.refreshWatches();
     }
 
     return watch;
   }
 
   /**
-   * Evaluate watch expression
+   * Re-evaluate every watch in the selected frame and emit the new values
    */
-  private evaluateWatch(watch: WatchExpression): void {
-    this.sendInspectorCommand('Runtime.evaluate', {
-      expression: watch.expression,
-      returnByValue: true,
-    });
+  private async refreshWatches(): Promise<void> {
+    if (!this.watchExpressions.size) return;
+
+    for (const watch of this.watchExpressions.values()) {
+      try {
+        const variable = await this.evaluateVariable(watch.expression, this.state.selectedFrame);
+        watch.value = variable.value;
+        watch.type = variable.type;
+        watch.objectId = variable.objectId;
+        watch.error = undefined;
+      } catch (error) {
+        watch.value = watch.type = watch.objectId = undefined;
+        watch.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+    this.emit('watches', this.listWatches());
   }
 
   /**
    * Remove watch expression
    */
-  removeWatch(id: string): void {
-    this.watchExpressions.delete(id);
+  removeWatch(id: string): boolean {
+    if (!this.watchExpressions.delete(id)) return false;
     logger.info(`Watch removed: ${id}`);
+    return true;
   }
 
   /**
@@ -385,6 +728,7 @@ export class DebuggerService extends EventEmitter {
    */
   continue(): void {
     if (!this.state.paused) return;
+    if (this.dap) return this.dap.continue();
     this.sendInspectorCommand('Debugger.resume');
   }
 
@@ -393,6 +737,7 @@ export class DebuggerService extends EventEmitter {
    */
   stepOver(): void {
     if (!this.state.paused) return;
+    if (this.dap) return this.dap.stepOver();
     this.sendInspectorCommand('Debugger.stepOver');
   }
 
@@ -401,6 +746,7 @@ export class DebuggerService extends EventEmitter {
    */
   stepInto(): void {
     if (!this.state.paused) return;
+    if (this.dap) return this.dap.stepInto();
     this.sendInspectorCommand('Debugger.stepInto');
   }
 
@@ -409,6 +755,7 @@ export class DebuggerService extends EventEmitter {
    */
   stepOut(): void {
     if (!this.state.paused) return;
+    if (this.dap) return this.dap.stepOut();
     this.sendInspectorCommand('Debugger.stepOut');
   }
 
@@ -417,6 +764,7 @@ export class DebuggerService extends EventEmitter {
    */
   pause(): void {
     if (!this.state.running || this.state.paused) return;
+    if (this.dap) return this.dap.pause();
     this.sendInspectorCommand('Debugger.pause');
   }
 
@@ -428,56 +776,68 @@ export class DebuggerService extends EventEmitter {
   }
 
   /**
-   * Evaluate expression in current context
+   * Evaluate expression in a call frame, the selected one by default. JavaScript results come
+   * back as JSON values; adapters' results as the adapter renders them.
    */
-  async evaluate(expression: string): Promise<any> {
-    return new Promise((resolve, reject) => {
-      if (!this.state.paused) {
-        reject(new Error('Can only evaluate when paused'));
-        return;
-      }
+  async evaluate(expression: string, frameIndex: number = this.state.selectedFrame): Promise<any> {
+    if (this.dap) {
+      return (await this.evaluateWithAdapter(expression, frameIndex, 'repl')).value;
+    }
+    return (await this.evaluateOnFrame(expression, frameIndex, true)).value;
+  }
 
-      const messageId = Date.now();
-      const handler = (data: WebSocket.Data) => {
-        try {
-          const message = JSON.parse(data.toString());
-          if (message.id === messageId) {
-            this.inspectorWs?.removeListener('message', handler);
-            
-            if (message.result) {
-              resolve(message.result.result?.value);
-            } else {
-              reject(new Error('Evaluation failed'));
-            }
-          }
-        } catch (error) {
-          reject(error);
-        }
-      };
-
-      this.inspectorWs?.on('message', handler);
-
-      this.inspectorWs?.send(JSON.stringify({
-        id: messageId,
-        method: 'Runtime.evaluate',
-        params: {
-          expression,
-          returnByValue: true,
-        },
-      }));
+  /**
+   * Evaluate to an expandable variable, as watches show it
+   */
+  private async evaluateVariable(expression: string, frameIndex: number): Promise<DebugVariable> {
+    if (this.dap) {
+      return this.evaluateWithAdapter(expression, frameIndex, 'watch');
+    }
+    return this.track(toDebugVariable(expression, await this.evaluateOnFrame(expression, frameIndex, false)));
+  }
+
+  private async evaluateWithAdapter(expression: string, frameIndex: number, context: 'watch' | 'repl'): Promise<DebugVariable> {
+    if (!this.state.paused) {
+      throw new DebuggerStateError('Can only evaluate when paused');
+    }
+    try {
+      return await this.dap!.evaluate(expression, this.frame(frameIndex).id, context);
+    } catch (error) {
+      if (error instanceof DebuggerStateError) throw error;
+      throw new DebugEvaluationError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async evaluateOnFrame(expression: string, frameIndex: number, returnByValue: boolean): Promise<RemoteObject> {
+    if (!this.state.paused) {
+      throw new DebuggerStateError('Can only evaluate when paused');
+    }
+
+    const result = await this.requestInspector('Debugger.evaluateOnCallFrame', {
+      callFrameId: this.frame(frameIndex).id,
+      expression,
+      returnByValue,
+      objectGroup: OBJECT_GROUP,
+      silent: true,
     });
+    if (result.exceptionDetails) {
+      throw new DebugEvaluationError(result.exceptionDetails.exception?.description || result.exceptionDetails.text || 'Evaluation failed');
+    }
+    return result.result;
   }
 
   /**
    * Stop debugging
    */
   async stopDebugging(): Promise<void> {
+    const adapterStopped = this.detachAdapter();
     this.cleanup();
     
     if (this.debugProcess) {
       this.debugProcess.kill();
       this.debugProcess = undefined;
     }
+    await adapterStopped;
 
     logger.info('Debugger stopped');
     this.emit('stopped');
@@ -491,15 +851,35 @@ export class DebuggerService extends EventEmitter {
       this.inspectorWs.close();
       this.inspectorWs = undefined;
     }
+    this.detachAdapter();
+
+    for (const resolve of this.pendingResponses.values()) {
+      resolve({ error: { message: 'Debugger session ended' } });
+    }
+    this.pendingResponses.clear();
+    this.inspectorBreakpointIds.clear();
+    this.scriptUrls.clear();
+    this.collectionSizes.clear();
 
     this.state = {
       running: false,
       paused: false,
       callStack: [],
-      variables: {},
+      selectedFrame: 0,
+      variables: [],
     };
   }
-}
 
-// Singleton instance
-export const debuggerService = new DebuggerService();
+  /**
+   * Disconnect from the debug adapter, terminating its debuggee
+   */
+  private detachAdapter(): Promise<void> {
+    const dap = this.dap;
+    if (!dap) return Promise.resolve();
+    this.dap = undefined;
+    dap.removeAllListeners();
+    return dap.stop().catch((error) => {
+      logger.warn('Failed to stop debug adapter:', error);
+    });
+  }
+}
@@ -8,6 +8,7 @@ import { spawn, ChildProcess } from 'child_process';
 import { gitService } from './gitService';
 import { logger } from '../utils/logger';
 import { workspaceService } from './workspaceService';
+import { logAggregatorService } from './logAggregatorService';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -337,6 +338,7 @@ export class DeploymentService extends EventEmitter {
         env: { ...process.env, ...envVars },
         shell: true,
       });
+      logAggregatorService.attachProcess(childProcess, `deploy:${cmd}`);
 
       childProcess.stdout?.on('data', (data) => {
         const log = data.toString();
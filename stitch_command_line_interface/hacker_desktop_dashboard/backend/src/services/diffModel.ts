@@ -0,0 +1,230 @@
+/**
+ * Unified Diff Model
+ * Parses `git diff` output into files, hunks and numbered lines, and builds partial
+ * patches from a hunk/line selection for `git apply`
+ */
+
+export type DiffLineType = 'context' | 'add' | 'del';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+  /** Followed by "\ No newline at end of file" */
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Function/section context git prints after the second `@@` */
+  section?: string;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied';
+
+export interface DiffFile {
+  path: string;
+  oldPath: string;
+  newPath: string;
+  status: DiffFileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  /** Extended header lines between `diff --git` and the first hunk */
+  headers: string[];
+  hunks: DiffHunk[];
+}
+
+export interface HunkSelection {
+  /** Index into DiffFile.hunks */
+  index: number;
+  /** Indices into DiffHunk.lines; the whole hunk when omitted */
+  lines?: number[];
+}
+
+export class DiffSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiffSelectionError';
+  }
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+function stripPrefix(path: string): string {
+  return path === '/dev/null' ? path : path.replace(/^"?[ab]\//, '').replace(/"$/, '');
+}
+
+/**
+ * Parse unified diff output (as produced by `git diff`) into a structured model
+ */
+export function parseUnifiedDiff(raw: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of raw.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(line);
+      const oldPath = match?.[1] ?? '';
+      const newPath = match?.[2] ?? oldPath;
+      file = {
+        path: newPath,
+        oldPath,
+        newPath,
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        headers: [line],
+        hunks: [],
+      };
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+    if (!file) continue;
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      hunk = {
+        header: line,
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        section: header[5] || undefined,
+        lines: [],
+      };
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      if (!line) continue;
+      file.headers.push(line);
+      if (line.startsWith('new file mode')) file.status = 'added';
+      else if (line.startsWith('deleted file mode')) file.status = 'deleted';
+      else if (line.startsWith('rename from ')) { file.status = 'renamed'; file.oldPath = line.slice(12); }
+      else if (line.startsWith('rename to ')) { file.newPath = line.slice(10); file.path = file.newPath; }
+      else if (line.startsWith('copy from ')) { file.status = 'copied'; file.oldPath = line.slice(10); }
+      else if (line.startsWith('copy to ')) { file.newPath = line.slice(8); file.path = file.newPath; }
+      else if (line.startsWith('Binary files ') || line === 'GIT binary patch') file.binary = true;
+      else if (line.startsWith('--- ') && line !== '--- /dev/null') file.oldPath = stripPrefix(line.slice(4));
+      else if (line.startsWith('+++ ') && line !== '+++ /dev/null') { file.newPath = stripPrefix(line.slice(4)); file.path = file.newPath; }
+      continue;
+    }
+
+    const marker = line[0];
+    const content = line.slice(1);
+    if (marker === '+') {
+      hunk.lines.push({ type: 'add', content, newLine: newLine++ });
+      file.additions++;
+    } else if (marker === '-') {
+      hunk.lines.push({ type: 'del', content, oldLine: oldLine++ });
+      file.deletions++;
+    } else if (marker === ' ') {
+      hunk.lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+    } else if (marker === '\\') {
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous) previous.noNewline = true;
+    } else {
+      // Blank line or the start of something that is not hunk content
+      hunk = null;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Build a patch containing only the selected hunks/lines of a file.
+ *
+ * Unselected changes are turned into whatever the target already contains so the
+ * patch still applies: forward patches (stage) drop unselected additions and keep
+ * unselected deletions as context; reverse patches (unstage, discard) do the opposite.
+ */
+export function buildPartialPatch(file: DiffFile, selection: HunkSelection[], reverse = false): string {
+  if (file.binary) throw new DiffSelectionError(`${file.path} is binary and cannot be partially applied`);
+  if (selection.length === 0) throw new DiffSelectionError('No hunks selected');
+
+  const byIndex = new Map<number, HunkSelection>();
+  for (const item of selection) {
+    if (!file.hunks[item.index]) throw new DiffSelectionError(`Hunk ${item.index} does not exist in ${file.path}`);
+    byIndex.set(item.index, item);
+  }
+
+  const out = file.headers.filter(header => !header.startsWith('--- ') && !header.startsWith('+++ '));
+  out.push(
+    `--- ${file.status === 'added' ? '/dev/null' : `a/${file.oldPath}`}`,
+    `+++ ${file.status === 'deleted' ? '/dev/null' : `b/${file.newPath}`}`
+  );
+
+  // Net line-count change of the hunks emitted so far, for the new-side start positions
+  let offset = 0;
+  let changed = 0;
+
+  file.hunks.forEach((hunk, index) => {
+    const selected = byIndex.get(index);
+    if (!selected) return;
+
+    const picked = selected.lines ? new Set(selected.lines) : null;
+    if (picked) {
+      for (const lineIndex of picked) {
+        if (!hunk.lines[lineIndex]) throw new DiffSelectionError(`Line ${lineIndex} does not exist in hunk ${index}`);
+      }
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let hunkChanges = 0;
+
+    hunk.lines.forEach((line, lineIndex) => {
+      let marker: string | null;
+      if (line.type === 'context' || !picked || picked.has(lineIndex)) {
+        marker = line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' ';
+        if (line.type !== 'context') hunkChanges++;
+      } else if ((line.type === 'add') === reverse) {
+        // The target already has this line: keep it as context
+        marker = ' ';
+      } else {
+        marker = null;
+      }
+      if (marker === null) return;
+
+      if (marker !== '+') oldCount++;
+      if (marker !== '-') newCount++;
+      body.push(`${marker}${line.content}`);
+      if (line.noNewline) body.push('\\ No newline at end of file');
+    });
+
+    if (hunkChanges === 0) return;
+    changed += hunkChanges;
+
+    // The side git apply matches against is unchanged outside the selection, so anchor
+    // on it and derive the other side from the hunks emitted so far.
+    // A zero-length side is numbered by the line before it.
+    const oldFirst = hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+    const newFirst = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+    const first = reverse ? { old: newFirst - offset, new: newFirst } : { old: oldFirst, new: oldFirst + offset };
+    const oldStart = oldCount === 0 ? first.old - 1 : first.old;
+    const newStart = newCount === 0 ? first.new - 1 : first.new;
+    const section = hunk.section ? ` ${hunk.section}` : '';
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${section}`, ...body);
+    offset += newCount - oldCount;
+  });
+
+  if (changed === 0) throw new DiffSelectionError('Selection contains no changed lines');
+  return `${out.join('\n')}\n`;
+}
@@ -0,0 +1,260 @@
+/**
+ * Execution Dispatcher
+ * Routes code execution by language: JavaScript and TypeScript (transpiled in-process) run in the isolated-vm sandbox,
+ * every other language in a throwaway Docker container. Both report one result shape and
+ * stream output as stdout/stderr chunks.
+ */
+
+import { EventEmitter } from 'events';
+import { executionService, ExecutionService, ExecutionOptions, ExecutionResult } from './executionService';
+import {
+  multiLangExecutionService,
+  MultiLangExecutionService,
+  MultiLangExecutionResult,
+  ExecutionOutputChunk,
+  ExecutionStdinError,
+  SupportedLanguage,
+} from './multiLangExecutionService';
+import { TypeScriptDiagnostic } from './typescriptTranspiler';
+import { logger } from '../utils/logger';
+
+export type ExecutionLanguage = ExecutionOptions['language'] | SupportedLanguage;
+
+export type ExecutionSandbox = 'isolate' | 'container';
+
+export const EXECUTION_LANGUAGES: ExecutionLanguage[] = ['javascript', 'typescript', 'python', 'java', 'cpp', 'c', 'go', 'rust'];
+
+/** Languages the isolated-vm sandbox runs; the rest go to containers */
+const ISOLATE_LANGUAGES: ExecutionLanguage[] = ['javascript', 'typescript'];
+
+export interface CodeExecutionRequest {
+  code: string;
+  language: ExecutionLanguage;
+  timeout?: number;
+  memoryLimit?: number;
+  /** Written to stdin when the program starts */
+  input?: string;
+  /** Keep stdin open for writeStdin; container languages only */
+  interactive?: boolean;
+  /** Report TypeScript type errors with the result */
+  typeCheck?: boolean;
+  /** Workspace directory relative imports resolve from; isolate languages only */
+  workingDirectory?: string;
+  /** User who started the run; only they or an admin may cancel it */
+  userId?: string;
+}
+
+export interface CodeExecutionResult {
+  id: string;
+  language: ExecutionLanguage;
+  sandbox: ExecutionSandbox;
+  status: 'running' | 'completed' | 'error' | 'timeout' | 'cancelled';
+  output: string;
+  error?: string;
+  exitCode: number;
+  /** Wall-clock milliseconds */
+  runtime: number;
+  memoryUsed: number;
+  timestamp: Date;
+  /** TypeScript syntax and type-check diagnostics */
+  diagnostics?: TypeScriptDiagnostic[];
+}
+
+export interface ExecutionRuntime {
+  language: ExecutionLanguage;
+  sandbox: ExecutionSandbox;
+  available: boolean;
+  /** Container image, for container languages */
+  image?: string;
+  /** Whether the image is already pulled; missing images are pulled on first run */
+  imagePresent?: boolean;
+  /** Why the runtime is unavailable */
+  reason?: string;
+}
+
+export class UnsupportedLanguageError extends Error {
+  constructor(language: string) {
+    super(`Unsupported language: ${language}. Supported: ${EXECUTION_LANGUAGES.join(', ')}`);
+    this.name = 'UnsupportedLanguageError';
+  }
+}
+
+/**
+ * Execution Dispatcher
+ * Re-emits both sandboxes' 'execution:output' (as ExecutionOutputChunk) and 'execution:complete' events
+ */
+export class ExecutionDispatcher extends EventEmitter {
+  /** userId of whoever started each running execution */
+  private owners: Map<string, string> = new Map();
+
+  constructor(
+    private isolate: ExecutionService = executionService,
+    private containers: MultiLangExecutionService = multiLangExecutionService,
+  ) {
+    super();
+
+    this.isolate.on('execution:output', (chunk: ExecutionOutputChunk) => this.emit('execution:output', chunk));
+    this.isolate.on('execution:complete', (result: ExecutionResult) => this.complete(this.normalize(result, 'isolate')));
+    this.containers.on('execution:output', (chunk: ExecutionOutputChunk) => this.emit('execution:output', chunk));
+    this.containers.on('execution:complete', (result: MultiLangExecutionResult) => this.complete(this.normalize(result, 'container')));
+  }
+
+  /**
+   * Which sandbox runs a language
+   */
+  sandboxFor(language: string): ExecutionSandbox {
+    if (!EXECUTION_LANGUAGES.includes(language as ExecutionLanguage)) {
+      throw new UnsupportedLanguageError(language);
+    }
+    return ISOLATE_LANGUAGES.includes(language as ExecutionLanguage) ? 'isolate' : 'container';
+  }
+
+  /**
+   * Run code to completion in the sandbox for its language
+   */
+  async execute(request: CodeExecutionRequest): Promise<CodeExecutionResult> {
+    const id = await this.launch(request).running;
+
+    const result = this.getResult(id);
+    if (!result) {
+      throw new Error(`Execution ${id} not found`);
+    }
+    return result;
+  }
+
+  /**
+   * Start code in the sandbox for its language and resolve with its id without waiting for it to finish;
+   * output and the result follow as events. `onStart` gets the id before any of them is emitted.
+   */
+  async start(request: CodeExecutionRequest, onStart: (id: string) => void = () => {}): Promise<string> {
+    const { id, running } = this.launch(request, onStart);
+    if (id === undefined) {
+      // Refused before starting, e.g. the isolate's concurrency limit
+      await running;
+      throw new Error('Execution did not start');
+    }
+    running.catch(error => logger.error(`Execution ${id} failed to run:`, error));
+    return id;
+  }
+
+  /**
+   * userId of whoever started a running execution
+   */
+  ownerOf(id: string): string | undefined {
+    return this.owners.get(id);
+  }
+
+  /**
+   * Type into a running container program; `end` closes its stdin
+   */
+  writeStdin(id: string, data: string, end: boolean = false): void {
+    if (this.isolate.getResult(id)) {
+      throw new ExecutionStdinError('JavaScript runs in the isolate, which has no stdin');
+    }
+    this.containers.writeStdin(id, data, end);
+  }
+
+  getResult(id: string): CodeExecutionResult | undefined {
+    const isolated = this.isolate.getResult(id);
+    if (isolated) return this.normalize(isolated, 'isolate');
+    const contained = this.containers.getResult(id);
+    return contained ? this.normalize(contained, 'container') : undefined;
+  }
+
+  async cancel(id: string): Promise<void> {
+    if (this.isolate.getResult(id)) {
+      await this.isolate.cancelExecution(id);
+    } else {
+      await this.containers.cancelExecution(id);
+    }
+  }
+
+  /**
+   * Executions of both sandboxes, newest first
+   */
+  list(): CodeExecutionResult[] {
+    return [
+      ...this.isolate.listExecutions().map(result => this.normalize(result, 'isolate')),
+      ...this.containers.listExecutions().map(result => this.normalize(result, 'container')),
+    ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * Every language with whether this host can run it right now
+   */
+  async getRuntimes(): Promise<ExecutionRuntime[]> {
+    const dockerAvailable = await this.containers.isDockerAvailable();
+
+    const containerRuntimes = await Promise.all(
+      this.containers.getSupportedLanguages()
+        .filter(({ language }) => !ISOLATE_LANGUAGES.includes(language))
+        .map(async ({ language, image }): Promise<ExecutionRuntime> => ({
+          language,
+          sandbox: 'container',
+          available: dockerAvailable,
+          image,
+          imagePresent: dockerAvailable ? await this.containers.hasImage(image) : false,
+          ...(dockerAvailable ? {} : { reason: 'Docker is not available' }),
+        })),
+    );
+
+    return [
+      { language: 'javascript', sandbox: 'isolate', available: true },
+      { language: 'typescript', sandbox: 'isolate', available: true },
+      ...containerRuntimes,
+    ];
+  }
+
+  /**
+   * Hand a request to its sandbox; `id` is set once the sandbox has announced it, and `running`
+   * resolves with it when the run finishes
+   */
+  private launch(request: CodeExecutionRequest, onStart: (id: string) => void = () => {}): { id?: string; running: Promise<string> } {
+    const sandbox = this.sandboxFor(request.language);
+    const service: EventEmitter = sandbox === 'isolate' ? this.isolate : this.containers;
+
+    // Both sandboxes announce the id synchronously, before their first await
+    let id: string | undefined;
+    const onSandboxStart = (data: { id: string; options: unknown }) => {
+      if (data.options === options && id === undefined) {
+        id = data.id;
+        if (request.userId) this.owners.set(id, request.userId);
+        onStart(id);
+      }
+    };
+
+    const options = sandbox === 'isolate'
+      ? { ...request, language: request.language as ExecutionOptions['language'] }
+      : { ...request, language: request.language as SupportedLanguage };
+    service.on('execution:start', onSandboxStart);
+    const running = sandbox === 'isolate'
+      ? this.isolate.executeCode(options as ExecutionOptions)
+      : this.containers.executeCode(options as CodeExecutionRequest & { language: SupportedLanguage });
+    service.off('execution:start', onSandboxStart);
+
+    return { id, running };
+  }
+
+  private complete(result: CodeExecutionResult): void {
+    this.emit('execution:complete', result);
+    this.owners.delete(result.id);
+  }
+
+  private normalize(result: ExecutionResult | MultiLangExecutionResult, sandbox: ExecutionSandbox): CodeExecutionResult {
+    return {
+      id: result.id,
+      language: result.language,
+      sandbox,
+      status: result.status,
+      output: result.output,
+      ...(result.error !== undefined ? { error: result.error } : {}),
+      exitCode: result.exitCode,
+      runtime: result.runtime,
+      memoryUsed: result.memoryUsed,
+      timestamp: result.timestamp,
+      ...('diagnostics' in result && result.diagnostics ? { diagnostics: result.diagnostics } : {}),
+    };
+  }
+}
+
+export const executionDispatcher = new ExecutionDispatcher();
@@ -1,12 +1,27 @@
 /**
  * Execution Service - Secure Sandboxed Code Execution
- * Runs user code in isolated environments with resource limits
+ * Runs user code in isolated environments with resource limits, streaming console output
+ * while it runs. Code with imports runs as a module whose relative imports load from the workspace.
  */
 
 import ivm from 'isolated-vm';
 import { createHash } from 'crypto';
+import * as path from 'path';
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
+import { redactionService } from './redactionService';
+import type { ExecutionOutputChunk } from './multiLangExecutionService';
+import { SandboxHost } from './sandboxHost';
+import { isModuleSource } from './sandboxModules';
+import { NETWORK_ACCESS_MODES, NetworkAccess } from './sandboxNetwork';
+import {
+  checkTypeScript,
+  transpileTypeScript,
+  TranspiledTypeScript,
+  TypeScriptDiagnostic,
+  TypeScriptSyntaxError,
+  TYPESCRIPT_SOURCE_FILE,
+} from './typescriptTranspiler';
 
 export interface ExecutionOptions {
   code: string;
@@ -14,11 +29,15 @@ export interface ExecutionOptions {
   timeout?: number;
   memoryLimit?: number;
   input?: string;
+  /** Workspace directory the code's relative imports resolve from */
   workingDirectory?: string;
+  /** Type-check TypeScript and report diagnostics with the result; type errors do not stop the run */
+  typeCheck?: boolean;
 }
 
 export interface ExecutionResult {
   id: string;
+  language: ExecutionOptions['language'];
   status: 'running' | 'completed' | 'error' | 'timeout' | 'cancelled';
   output: string;
   error?: string;
@@ -26,27 +45,57 @@ export interface ExecutionResult {
   runtime: number;
   memoryUsed: number;
   timestamp: Date;
+  /** TypeScript syntax errors, plus type errors when type-checked */
+  diagnostics?: TypeScriptDiagnostic[];
 }
 
 export interface ExecutionMetrics {
   id: string;
   startTime: number;
   endTime?: number;
+  /** Milliseconds the isolate spent on the CPU */
   cpuTime?: number;
+  /** Milliseconds the isolate existed, running or waiting */
+  wallTime?: number;
   memoryPeak?: number;
   outputSize?: number;
 }
 
+export interface ExecutionSettings {
+  networkAccess: NetworkAccess;
+  /** SANDBOX_NETWORK_ACCESS; networkAccess can be lowered below it but never raised above it */
+  maxNetworkAccess: NetworkAccess;
+}
+
+/** Script name in sandbox stack traces */
+const SCRIPT_FILE = 'main.js';
+const SCRIPT_POSITION = /(?:^|[\s(])main\.js:(\d+):(\d+)/m;
+
+/** Submitted code starts on its own line, so positions only shift by the wrapper's lines */
+const CODE_WRAPPER_PREFIX = '(async function() {\n  try {\n';
+const CODE_WRAPPER_LINES = CODE_WRAPPER_PREFIX.split('\n').length - 1;
+
 /**
  * Execution Manager
+ * Emits 'execution:output' (ExecutionOutputChunk) while code runs; console.error and
+ * console.warn go to stderr
  */
 export class ExecutionService extends EventEmitter {
   private executions: Map<string, ExecutionResult> = new Map();
   private metrics: Map<string, ExecutionMetrics> = new Map();
+  /** Isolates of running executions, disposed to cancel them */
+  private isolates: Map<string, ivm.Isolate> = new Map();
+  /** Host APIs of running executions, disposed to drop their pending timers */
+  private hosts: Map<string, SandboxHost> = new Map();
+  private settings: ExecutionSettings;
   private readonly DEFAULT_TIMEOUT_MS: number;
   private readonly DEFAULT_MEMORY_LIMIT_MB: number;
   private readonly MAX_OUTPUT_SIZE_KB: number;
   private readonly MAX_CONCURRENT_EXECUTIONS: number;
+  private readonly OUTPUT_FLUSH_MS: number;
+  private readonly FETCH_TIMEOUT_MS: number;
+  private readonly FETCH_MAX_BYTES: number;
+  private readonly MAX_TIMERS: number;
   private activeExecutions: number = 0;
 
   constructor() {
@@ -55,6 +104,32 @@ export class ExecutionService extends EventEmitter {
     this.DEFAULT_MEMORY_LIMIT_MB = parseInt(process.env.MAX_MEMORY_MB || '512', 10);
     this.MAX_OUTPUT_SIZE_KB = parseInt(process.env.MAX_OUTPUT_SIZE_KB || '1024', 10);
     this.MAX_CONCURRENT_EXECUTIONS = parseInt(process.env.MAX_CONCURRENT_EXECUTIONS || '5', 10);
+    this.OUTPUT_FLUSH_MS = parseInt(process.env.EXECUTION_OUTPUT_FLUSH_MS || '100', 10);
+    this.FETCH_TIMEOUT_MS = parseInt(process.env.SANDBOX_FETCH_TIMEOUT_MS || '10000', 10);
+    this.FETCH_MAX_BYTES = parseInt(process.env.SANDBOX_FETCH_MAX_KB || '1024', 10) * 1024;
+    this.MAX_TIMERS = parseInt(process.env.SANDBOX_MAX_TIMERS || '100', 10);
+
+    const envAccess = process.env.SANDBOX_NETWORK_ACCESS as NetworkAccess;
+    const maxNetworkAccess = NETWORK_ACCESS_MODES.includes(envAccess) ? envAccess : 'off';
+    this.settings = { networkAccess: maxNetworkAccess, maxNetworkAccess };
+  }
+
+  getSettings(): ExecutionSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Apply settings pushed from the frontend, capping networkAccess at the configured maximum;
+   * runs already started keep their network access
+   */
+  updateSettings(update: Partial<Pick<ExecutionSettings, 'networkAccess'>>): ExecutionSettings {
+    if (update.networkAccess !== undefined) {
+      const { maxNetworkAccess } = this.settings;
+      this.settings.networkAccess = NETWORK_ACCESS_MODES.indexOf(update.networkAccess) > NETWORK_ACCESS_MODES.indexOf(maxNetworkAccess)
+        ? maxNetworkAccess
+        : update.networkAccess;
+    }
+    return this.getSettings();
   }
 
   /**
@@ -72,6 +147,7 @@ export class ExecutionService extends EventEmitter {
     // Initialize execution result
     const result: ExecutionResult = {
       id,
+      language: options.language,
       status: 'running',
       output: '',
       exitCode: 0,
@@ -106,8 +182,9 @@ export class ExecutionService extends EventEmitter {
       result.status = 'completed';
       result.exitCode = 0;
     } catch (error) {
-      result.status = 'error';
-      result.error = error instanceof Error ? error.message : 'Unknown error';
+      // Keep timeout status and the error message the executor already set
+      if (result.status === 'running') result.status = 'error';
+      result.error = result.error ?? (error instanceof Error ? error.message : 'Unknown error');
       result.exitCode = 1;
       logger.error(`Execution ${id} failed:`, error);
     } finally {
@@ -121,6 +198,8 @@ export class ExecutionService extends EventEmitter {
 
       // Decrement active execution counter
       this.activeExecutions--;
+      this.isolates.delete(id);
+      this.hosts.delete(id);
 
       this.emit('execution:complete', result);
       logger.info(`Execution ${id} completed in ${result.runtime}ms (${this.activeExecutions}/${this.MAX_CONCURRENT_EXECUTIONS} active)`);
@@ -130,25 +209,39 @@ export class ExecutionService extends EventEmitter {
   }
 
   /**
-   * Execute JavaScript code
+   * Execute JavaScript code; runtime errors of transpiled code are located in its source
    */
-  private async executeJavaScript(id: string, options: ExecutionOptions): Promise<void> {
+  private async executeJavaScript(id: string, options: ExecutionOptions, transpiled?: TranspiledTypeScript): Promise<void> {
     const result = this.executions.get(id);
     if (!result) throw new Error('Execution not found');
 
     const timeout = options.timeout || this.DEFAULT_TIMEOUT_MS;
+    const deadline = Date.now() + timeout;
     const memoryLimit = (options.memoryLimit || this.DEFAULT_MEMORY_LIMIT_MB) * 1024 * 1024;
 
     // Create isolated VM
     const isolate = new ivm.Isolate({ memoryLimit: memoryLimit / 1024 / 1024 });
+    this.isolates.set(id, isolate);
     const context = await isolate.createContext();
 
     // Create output buffer
     const outputLines: string[] = [];
     const maxOutputSize = this.MAX_OUTPUT_SIZE_KB * 1024;
+    let outputSize = 0;
+
+    // Lines logged since the last flush, merged per stream
+    const pending: ExecutionOutputChunk[] = [];
+    let flushTimer: NodeJS.Timeout | undefined;
+    const flushOutput = () => {
+      clearTimeout(flushTimer);
+      flushTimer = undefined;
+      for (const chunk of pending.splice(0)) {
+        this.emit('execution:output', { ...chunk, data: redactionService.redactText(chunk.data, 'execution', id) });
+      }
+    };
 
     // Setup console.log capture
-    const logFunction = new ivm.Reference(function(...args: unknown[]) {
+    const logFunction = new ivm.Reference((stream: ExecutionOutputChunk['stream'], ...args: unknown[]) => {
       const message = args.map(arg => {
         if (typeof arg === 'object') {
           try {
@@ -163,10 +256,21 @@ export class ExecutionService extends EventEmitter {
       outputLines.push(message);
       
       // Check output size limit
-      const currentSize = outputLines.join('\n').length;
-      if (currentSize > maxOutputSize) {
+      outputSize += message.length + 1;
+      if (outputSize > maxOutputSize) {
         throw new Error('Output size limit exceeded');
       }
+
+      const last = pending[pending.length - 1];
+      if (last?.stream === stream) {
+        last.data += `${message}\n`;
+      } else {
+        pending.push({ id, stream, data: `${message}\n` });
+      }
+      if (!flushTimer) {
+        flushTimer = setTimeout(flushOutput, this.OUTPUT_FLUSH_MS);
+        flushTimer.unref();
+      }
     });
 
     await context.global.set('log', logFunction);
@@ -175,37 +279,62 @@ export class ExecutionService extends EventEmitter {
     const consoleObject = await context.eval(`
       (function(log) {
         return {
-          log: function(...args) { return log.applySync(undefined, args); },
-          info: function(...args) { return log.applySync(undefined, ['[INFO]', ...args]); },
-          warn: function(...args) { return log.applySync(undefined, ['[WARN]', ...args]); },
-          error: function(...args) { return log.applySync(undefined, ['[ERROR]', ...args]); },
+          log: function(...args) { return log.applySync(undefined, ['stdout', ...args]); },
+          info: function(...args) { return log.applySync(undefined, ['stdout', '[INFO]', ...args]); },
+          warn: function(...args) { return log.applySync(undefined, ['stderr', '[WARN]', ...args]); },
+          error: function(...args) { return log.applySync(undefined, ['stderr', '[ERROR]', ...args]); },
         };
       })
     `);
     await consoleObject.apply(undefined, [logFunction]);
     await context.global.set('console', consoleObject);
 
+    // setTimeout, read-only workspace fs and fetch
+    const host = new SandboxHost(isolate, context, {
+      networkAccess: this.settings.networkAccess,
+      fetchTimeoutMs: this.FETCH_TIMEOUT_MS,
+      fetchMaxBytes: this.FETCH_MAX_BYTES,
+      maxTimers: this.MAX_TIMERS,
+    });
+    this.hosts.set(id, host);
+    const asModule = isModuleSource(options.code);
+
     // Prepare code
-    const wrappedCode = `
-      (async function() {
-        try {
-          ${options.code}
-        } catch (error) {
-          console.error('Runtime error:', error.message);
-          throw error;
-        }
-      })();
-    `;
+    const wrappedCode = `${CODE_WRAPPER_PREFIX}${options.code}
+  } catch (error) {
+    console.error('Runtime error:', error.message);
+    throw error;
+  }
+})();
+`;
 
     try {
-      // Compile script
-      const script = await isolate.compileScript(wrappedCode);
+      await host.install();
+
+      if (asModule) {
+        // Named main.js for stack traces; imports resolve from the working directory
+        const mainPath = path.posix.join(options.workingDirectory || '', SCRIPT_FILE);
+        const module = await host.compileModule(options.code, mainPath, SCRIPT_FILE);
+        await host.runModule(module, timeout);
+      } else {
+        // Compile script
+        const script = await isolate.compileScript(wrappedCode, { filename: SCRIPT_FILE });
 
-      // Run with timeout
-      await script.run(context, { timeout, promise: true });
+        // Run with timeout
+        await script.run(context, { timeout, promise: true });
+      }
+
+      // Pending timers keep the run going until they have fired or the timeout passes
+      let timeoutTimer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        host.settled(),
+        new Promise<never>((_, reject) => {
+          timeoutTimer = setTimeout(() => reject(new Error('Execution timeout')), Math.max(0, deadline - Date.now()));
+        }),
+      ]).finally(() => clearTimeout(timeoutTimer));
 
       // Collect output
-      result.output = outputLines.join('\n');
+      result.output = redactionService.redactText(outputLines.join('\n'), 'execution', id);
       
       // Get memory usage
       const heapStats = isolate.getHeapStatisticsSync();
@@ -217,42 +346,82 @@ export class ExecutionService extends EventEmitter {
         metrics.outputSize = result.output.length;
       }
 
-      this.emit('execution:output', { id, output: result.output });
-
     } catch (error) {
-      if (error instanceof Error) {
+      // A cancelled run fails because its isolate was disposed; keep the cancellation
+      if (error instanceof Error && result.status !== 'cancelled') {
         if (error.message.includes('timeout')) {
           result.status = 'timeout';
           result.error = `Execution timeout after ${timeout}ms`;
         } else {
-          result.error = error.message;
+          result.error = transpiled
+            ? this.locateError(error, transpiled, asModule ? 0 : CODE_WRAPPER_LINES)
+            : error.message;
         }
-        result.output = outputLines.join('\n');
       }
+      result.output = redactionService.redactText(outputLines.join('\n'), 'execution', id);
       throw error;
     } finally {
+      flushOutput();
+      host.dispose();
+
       // Cleanup
-      logFunction.release();
-      context.release();
-      isolate.dispose();
+      if (!isolate.isDisposed) {
+        this.recordTimes(id, isolate);
+        logFunction.release();
+        context.release();
+        isolate.dispose();
+      }
+    }
+  }
+
+  /**
+   * CPU and wall time of an isolate, in milliseconds; must be read before it is disposed
+   */
+  private recordTimes(id: string, isolate: ivm.Isolate): void {
+    const metrics = this.metrics.get(id);
+    if (metrics) {
+      metrics.cpuTime = Number(isolate.cpuTime) / 1e6;
+      metrics.wallTime = Number(isolate.wallTime) / 1e6;
     }
   }
 
   /**
    * Execute TypeScript code
-   * For now, we'll just throw an error and recommend JavaScript
+   * Transpiled in-process and run as JavaScript; only syntax errors stop it from running
    */
-  private async executeTypeScript(_id: string, _options: ExecutionOptions): Promise<void> {
-    // In a real implementation, you would:
-    // 1. Use @typescript-eslint/typescript-estree to parse TS
-    // 2. Use ts.transpileModule to convert to JS
-    // 3. Run the resulting JS through executeJavaScript
-    
-    throw new Error(
-      'TypeScript execution requires transpilation. ' +
-      'Please transpile your TypeScript code to JavaScript first, ' +
-      'or use the built-in TypeScript compiler.'
-    );
+  private async executeTypeScript(id: string, options: ExecutionOptions): Promise<void> {
+    const result = this.executions.get(id);
+    if (!result) throw new Error('Execution not found');
+
+    let transpiled: TranspiledTypeScript;
+    try {
+      transpiled = transpileTypeScript(options.code);
+    } catch (error) {
+      if (error instanceof TypeScriptSyntaxError) {
+        result.diagnostics = error.diagnostics;
+      }
+      throw error;
+    }
+
+    if (options.typeCheck) {
+      result.diagnostics = checkTypeScript(options.code);
+    }
+
+    await this.executeJavaScript(id, { ...options, code: transpiled.code }, transpiled);
+  }
+
+  /**
+   * Error message with the TypeScript position of the innermost frame in the submitted code;
+   * `lineOffset` is the number of wrapper lines before it
+   */
+  private locateError(error: Error, transpiled: TranspiledTypeScript, lineOffset: number): string {
+    const frame = SCRIPT_POSITION.exec(error.stack || '');
+    if (!frame) return error.message;
+
+    const position = transpiled.toSource(parseInt(frame[1], 10) - lineOffset, parseInt(frame[2], 10));
+    return position
+      ? `${error.message} (${TYPESCRIPT_SOURCE_FILE}:${position.line}:${position.column})`
+      : error.message;
   }
 
   /**
@@ -281,6 +450,14 @@ export class ExecutionService extends EventEmitter {
     if (result.status === 'running') {
       result.status = 'cancelled';
       result.error = 'Execution cancelled by user';
+
+      // Disposing terminates the script; the run then fails and completes as cancelled
+      const isolate = this.isolates.get(id);
+      if (isolate && !isolate.isDisposed) {
+        this.recordTimes(id, isolate);
+        isolate.dispose();
+      }
+      this.hosts.get(id)?.dispose();
       this.emit('execution:cancelled', { id });
       logger.info(`Execution ${id} cancelled`);
     }
@@ -318,10 +495,15 @@ export class ExecutionService extends EventEmitter {
     completed: number;
     failed: number;
     avgRuntime: number;
+    /** Mean isolate CPU milliseconds of finished runs */
+    avgCpuTime: number;
     activeExecutions: number;
     maxConcurrent: number;
   } {
     const results = Array.from(this.executions.values());
+    const cpuTimes = Array.from(this.metrics.values())
+      .map(metrics => metrics.cpuTime)
+      .filter((time): time is number => time !== undefined);
     
     return {
       total: results.length,
@@ -331,6 +513,9 @@ export class ExecutionService extends EventEmitter {
       avgRuntime: results.length > 0
         ? results.reduce((sum, r) => sum + r.runtime, 0) / results.length
         : 0,
+      avgCpuTime: cpuTimes.length > 0
+        ? cpuTimes.reduce((sum, time) => sum + time, 0) / cpuTimes.length
+        : 0,
       activeExecutions: this.activeExecutions,
       maxConcurrent: this.MAX_CONCURRENT_EXECUTIONS,
     };
@@ -363,4 +548,4 @@ export const executionService = new ExecutionService();
 // Auto-cleanup old executions every hour
 setInterval(() => {
   executionService.clearOldExecutions();
-}, 3600000);
+}, 3600000).unref();
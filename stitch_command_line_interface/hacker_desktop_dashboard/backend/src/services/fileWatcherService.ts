@@ -6,6 +6,7 @@
 import * as chokidar from 'chokidar';
 import { Server as WebSocketServer, WebSocket } from 'ws';
 import { logger } from '../utils/logger';
+import { redactionService } from './redactionService';
 import path from 'path';
 
 export class FileWatcherService {
@@ -153,7 +154,7 @@ export class FileWatcherService {
       return;
     }
 
-    const messageStr = JSON.stringify(message);
+    const messageStr = JSON.stringify(redactionService.redactValue(message, 'websocket', message.type));
     this.wss.clients.forEach((client) => {
       if (client.readyState === WebSocket.OPEN) {
         client.send(messageStr);
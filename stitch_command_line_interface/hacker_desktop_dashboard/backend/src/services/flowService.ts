@@ -0,0 +1,318 @@
+/**
+ * Flow Service - Connection Flow Tracker
+ * Groups sockets into flows keyed by (process, remote host, port), diffs successive
+ * snapshots to detect flow open/close and attributes per-process I/O from /proc/<pid>/io
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { RingBuffer } from '../utils/ringBuffer';
+import { Connection, ConnectionService, Protocol, connectionService } from './connectionService';
+
+export type FlowStatus = 'allow' | 'watch' | 'block';
+
+export interface Flow {
+  id: string;
+  key: string;
+  app: string;
+  pid: number | null;
+  dest: string;
+  port: number;
+  protocol: Protocol;
+  status: FlowStatus;
+  connections: number;
+  bytesIn: number | null;
+  bytesOut: number | null;
+  bytesTotal: number | null;
+  startedAt: string;
+  lastSeen: string;
+  endedAt: string | null;
+}
+
+export interface ProcessIoCounters {
+  rchar: number;
+  wchar: number;
+}
+
+export interface ProcessAccounting {
+  pid: number;
+  app: string;
+  flows: number;
+  bytesIn: number | null;
+  bytesOut: number | null;
+}
+
+export interface FlowServiceOptions {
+  procRoot?: string;
+  intervalMs?: number;
+  historySize?: number;
+  source?: ConnectionService;
+}
+
+export type FlowEvaluator = (flow: Flow) => FlowStatus;
+
+export interface FlowDiff {
+  opened: Flow[];
+  closed: Flow[];
+}
+
+// Sockets without a peer (listeners, unconnected UDP) and kernel-owned
+// TIME_WAIT/CLOSE remnants are not flows
+const NON_FLOW_STATES = new Set(['LISTEN', 'UNCONN', 'TIME_WAIT', 'CLOSE']);
+
+/**
+ * Parse /proc/<pid>/io into the character counters (bytes passed through read/write syscalls)
+ */
+export function parseProcIo(content: string): ProcessIoCounters | null {
+  const rchar = /^rchar:\s+(\d+)/m.exec(content);
+  const wchar = /^wchar:\s+(\d+)/m.exec(content);
+  if (!rchar || !wchar) return null;
+  return { rchar: parseInt(rchar[1], 10), wchar: parseInt(wchar[1], 10) };
+}
+
+function remoteHost(conn: Connection): string {
+  return conn.remoteAddress.slice(0, conn.remoteAddress.lastIndexOf(':')).replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Flow identity: one flow per process talking to one remote endpoint
+ */
+export function flowKey(conn: Connection): string {
+  return `${conn.process ?? 'unknown'}|${conn.pid ?? '-'}|${remoteHost(conn)}|${conn.remotePort}|${conn.protocol}`;
+}
+
+export function isFlowCandidate(conn: Connection): boolean {
+  return conn.remotePort !== 0 && !NON_FLOW_STATES.has(conn.state);
+}
+
+/**
+ * Flow Service
+ */
+export class FlowService extends EventEmitter {
+  private procRoot: string;
+  private intervalMs: number;
+  private source: ConnectionService;
+  private active = new Map<string, Flow>();
+  private closed: RingBuffer<Flow>;
+  private ioBaseline = new Map<number, ProcessIoCounters>();
+  private processes = new Map<number, ProcessAccounting>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<FlowDiff> | null = null;
+  private evaluator: FlowEvaluator | null = null;
+  private nextId = 1;
+
+  constructor(options: FlowServiceOptions = {}) {
+    super();
+    this.procRoot = options.procRoot || process.env.METRICS_PROC_ROOT || '/proc';
+    this.intervalMs = options.intervalMs ?? parseInt(process.env.FLOW_POLL_INTERVAL_MS || '2000', 10);
+    this.source = options.source || connectionService;
+    this.closed = new RingBuffer<Flow>(options.historySize ?? parseInt(process.env.FLOW_HISTORY_SIZE || '500', 10));
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.poll().catch(error => logger.error('Initial flow poll failed:', error));
+    this.timer = setInterval(() => {
+      this.poll().catch(error => logger.error('Flow poll failed:', error));
+    }, this.intervalMs);
+    this.timer.unref();
+    logger.info(`Flow tracker started (interval ${this.intervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getActive(): Flow[] {
+    return Array.from(this.active.values());
+  }
+
+  /**
+   * Recently closed flows, newest first
+   */
+  getClosed(limit?: number): Flow[] {
+    const flows = this.closed.toArray().reverse();
+    return limit === undefined ? flows : flows.slice(0, limit);
+  }
+
+  getFlow(id: string): Flow | undefined {
+    return this.getActive().find(flow => flow.id === id) || this.closed.toArray().find(flow => flow.id === id);
+  }
+
+  getProcesses(): ProcessAccounting[] {
+    return Array.from(this.processes.values());
+  }
+
+  /**
+   * Decide each new flow's status (e.g. from policy rules); flows default to `allow`
+   */
+  setEvaluator(evaluator: FlowEvaluator | null): void {
+    this.evaluator = evaluator;
+  }
+
+  /**
+   * Re-apply the evaluator to all active flows, returning those whose status changed
+   */
+  reevaluate(): Flow[] {
+    if (!this.evaluator) return [];
+
+    const changed: Flow[] = [];
+    for (const flow of this.active.values()) {
+      const status = this.evaluator(flow);
+      if (status !== flow.status) {
+        flow.status = status;
+        changed.push(flow);
+      }
+    }
+    changed.forEach(flow => this.emit('flow:status', flow));
+    return changed;
+  }
+
+  /**
+   * Take a snapshot and diff it against the active flows; concurrent callers share one poll
+   */
+  poll(): Promise<FlowDiff> {
+    if (!this.polling) {
+      this.polling = this.diff().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  private async diff(): Promise<FlowDiff> {
+    const connections = (await this.source.getConnections()).filter(isFlowCandidate);
+    const now = new Date().toISOString();
+
+    const grouped = new Map<string, Connection[]>();
+    for (const conn of connections) {
+      const key = flowKey(conn);
+      const group = grouped.get(key);
+      if (group) group.push(conn);
+      else grouped.set(key, [conn]);
+    }
+
+    const opened: Flow[] = [];
+    const closed: Flow[] = [];
+
+    for (const [key, group] of grouped) {
+      const existing = this.active.get(key);
+      if (existing) {
+        existing.connections = group.length;
+        existing.lastSeen = now;
+        continue;
+      }
+
+      const first = group[0];
+      const flow: Flow = {
+        id: `flow-${this.nextId++}`,
+        key,
+        app: first.process ?? 'unknown',
+        pid: first.pid,
+        dest: remoteHost(first),
+        port: first.remotePort,
+        protocol: first.protocol,
+        status: 'allow',
+        connections: group.length,
+        bytesIn: null,
+        bytesOut: null,
+        bytesTotal: null,
+        startedAt: now,
+        lastSeen: now,
+        endedAt: null,
+      };
+      if (this.evaluator) {
+        flow.status = this.evaluator(flow);
+      }
+      this.active.set(key, flow);
+      opened.push(flow);
+    }
+
+    for (const [key, flow] of this.active) {
+      if (grouped.has(key)) continue;
+      flow.endedAt = now;
+      flow.connections = 0;
+      this.active.delete(key);
+      this.closed.push(flow);
+      closed.push(flow);
+    }
+
+    await this.accountBytes();
+
+    opened.forEach(flow => this.emit('flow:open', flow));
+    closed.forEach(flow => this.emit('flow:close', flow));
+    return { opened, closed };
+  }
+
+  /**
+   * Attribute process I/O deltas to that process's open flows.
+   * /proc/<pid>/io is only readable for processes we may ptrace (same uid without
+   * extra privileges); other processes keep null byte counts.
+   * rchar/wchar cover every read/write syscall, so the figures are an upper bound
+   * on network traffic rather than exact socket byte counts.
+   */
+  private async accountBytes(): Promise<void> {
+    const byPid = new Map<number, Flow[]>();
+    for (const flow of this.active.values()) {
+      if (flow.pid === null) continue;
+      const flows = byPid.get(flow.pid);
+      if (flows) flows.push(flow);
+      else byPid.set(flow.pid, [flow]);
+    }
+
+    const seen = new Set<number>();
+    await Promise.all(Array.from(byPid.entries()).map(async ([pid, flows]) => {
+      seen.add(pid);
+      let counters: ProcessIoCounters | null = null;
+      try {
+        counters = parseProcIo(await fs.readFile(path.join(this.procRoot, String(pid), 'io'), 'utf8'));
+      } catch {
+        // permission denied or process exited
+      }
+
+      const accounting = this.processes.get(pid) ?? { pid, app: flows[0].app, flows: 0, bytesIn: null, bytesOut: null };
+      accounting.flows = flows.length;
+      this.processes.set(pid, accounting);
+      if (!counters) return;
+
+      const baseline = this.ioBaseline.get(pid);
+      this.ioBaseline.set(pid, counters);
+      // First sighting only establishes the baseline
+      const deltaIn = baseline ? Math.max(0, counters.rchar - baseline.rchar) : 0;
+      const deltaOut = baseline ? Math.max(0, counters.wchar - baseline.wchar) : 0;
+
+      accounting.bytesIn = (accounting.bytesIn ?? 0) + deltaIn;
+      accounting.bytesOut = (accounting.bytesOut ?? 0) + deltaOut;
+
+      // Split evenly across the process's flows; the kernel does not expose per-socket counters here
+      const shareIn = Math.round(deltaIn / flows.length);
+      const shareOut = Math.round(deltaOut / flows.length);
+      for (const flow of flows) {
+        flow.bytesIn = (flow.bytesIn ?? 0) + shareIn;
+        flow.bytesOut = (flow.bytesOut ?? 0) + shareOut;
+        flow.bytesTotal = flow.bytesIn + flow.bytesOut;
+      }
+    }));
+
+    // Forget processes that no longer own any flow
+    for (const pid of Array.from(this.processes.keys())) {
+      if (!seen.has(pid)) {
+        this.processes.delete(pid);
+        this.ioBaseline.delete(pid);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const flowService = new FlowService();
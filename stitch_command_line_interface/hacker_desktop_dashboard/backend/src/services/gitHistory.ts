@@ -0,0 +1,265 @@
+/**
+ * Git History Model
+ * Parsers for blame, file history and per-file stats, plus lane assignment for drawing
+ * a commit graph
+ */
+
+export interface BlameLine {
+  line: number;
+  content: string;
+  hash: string;
+  /** Line number in the commit that introduced it */
+  originalLine: number;
+  /** Path in that commit when the file has since been renamed */
+  originalPath?: string;
+  author: string;
+  email: string;
+  date: string;
+  summary: string;
+  /** Not committed yet (hash of zeros) */
+  uncommitted: boolean;
+}
+
+export interface FileHistoryEntry {
+  hash: string;
+  parents: string[];
+  author: string;
+  email: string;
+  date: string;
+  message: string;
+  /** Path of the file in this commit */
+  path: string;
+  /** Set when this commit renamed or copied the file */
+  oldPath?: string;
+  status: string;
+}
+
+export interface CommitFileStat {
+  path: string;
+  oldPath?: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface RefDecorations {
+  head: boolean;
+  branches: string[];
+  tags: string[];
+}
+
+export interface GraphCommit {
+  hash: string;
+  parents: string[];
+  author: string;
+  date: string;
+  message: string;
+  refs: RefDecorations;
+}
+
+export interface GraphNode extends GraphCommit {
+  /** Column this commit is drawn in */
+  lane: number;
+  /** Column each parent continues in on the following rows, same order as `parents` */
+  parentLanes: number[];
+}
+
+/** Field and record separators used in `--format` strings */
+export const FIELD_SEP = '\x1f';
+export const RECORD_SEP = '\x1e';
+
+const ZERO_HASH = /^0+$/;
+
+/**
+ * Parse `git blame --porcelain` output
+ */
+export function parseBlamePorcelain(raw: string): BlameLine[] {
+  const commits = new Map<string, Partial<BlameLine>>();
+  const lines: BlameLine[] = [];
+  let current: { hash: string; originalLine: number; line: number } | null = null;
+  let meta: Partial<BlameLine> = {};
+  let authorTime = 0;
+
+  for (const line of raw.split('\n')) {
+    if (current === null) {
+      const header = /^([0-9a-f]{40}) (\d+) (\d+)(?: \d+)?$/.exec(line);
+      if (!header) continue;
+      current = { hash: header[1], originalLine: parseInt(header[2], 10), line: parseInt(header[3], 10) };
+      // Porcelain prints commit metadata only the first time a commit appears
+      meta = { ...commits.get(current.hash) };
+      continue;
+    }
+
+    if (line.startsWith('\t')) {
+      if (!commits.has(current.hash)) commits.set(current.hash, meta);
+      lines.push({
+        line: current.line,
+        content: line.slice(1),
+        hash: current.hash,
+        originalLine: current.originalLine,
+        originalPath: meta.originalPath,
+        author: meta.author ?? '',
+        email: meta.email ?? '',
+        date: meta.date ?? '',
+        summary: meta.summary ?? '',
+        uncommitted: ZERO_HASH.test(current.hash),
+      });
+      current = null;
+      continue;
+    }
+
+    const space = line.indexOf(' ');
+    const key = space === -1 ? line : line.slice(0, space);
+    const value = space === -1 ? '' : line.slice(space + 1);
+    switch (key) {
+      case 'author':
+        meta.author = value;
+        break;
+      case 'author-mail':
+        meta.email = value.replace(/^<|>$/g, '');
+        break;
+      case 'author-time':
+        authorTime = parseInt(value, 10);
+        meta.date = new Date(authorTime * 1000).toISOString();
+        break;
+      case 'summary':
+        meta.summary = value;
+        break;
+      case 'filename':
+        meta.originalPath = value;
+        break;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Parse `git log --format=<RECORD_SEP>%H<FIELD_SEP>%P<FIELD_SEP>%an<FIELD_SEP>%ae<FIELD_SEP>%aI<FIELD_SEP>%s --name-status`
+ */
+export function parseFileHistory(raw: string): FileHistoryEntry[] {
+  const entries: FileHistoryEntry[] = [];
+
+  for (const record of raw.split(RECORD_SEP)) {
+    if (!record.trim()) continue;
+    const [header, ...rest] = record.split('\n');
+    const [hash, parents, author, email, date, message] = header.split(FIELD_SEP);
+    const change = rest.find(line => line.trim())?.split('\t') ?? [];
+    const status = change[0] ?? '';
+    const renamed = /^[RC]/.test(status);
+
+    entries.push({
+      hash,
+      parents: parents ? parents.split(' ') : [],
+      author,
+      email,
+      date,
+      message,
+      path: renamed ? change[2] : change[1] ?? '',
+      oldPath: renamed ? change[1] : undefined,
+      status: status.charAt(0),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse `git diff --numstat -z -M` output
+ */
+export function parseNumstat(raw: string): CommitFileStat[] {
+  const tokens = raw.split('\0');
+  const files: CommitFileStat[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const match = /^(\d+|-)\t(\d+|-)\t(.*)$/s.exec(tokens[i].replace(/^\n/, ''));
+    if (!match) continue;
+
+    const binary = match[1] === '-';
+    const stat = {
+      additions: binary ? 0 : parseInt(match[1], 10),
+      deletions: binary ? 0 : parseInt(match[2], 10),
+      binary,
+    };
+    if (match[3]) {
+      files.push({ path: match[3], ...stat });
+    } else {
+      // Renames and copies put the old and new paths in the next two tokens
+      files.push({ oldPath: tokens[i + 1], path: tokens[i + 2], ...stat });
+      i += 2;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Parse a `%D` decoration list such as `HEAD -> main, origin/main, tag: v1.0`
+ */
+export function parseRefDecorations(raw: string): RefDecorations {
+  const refs: RefDecorations = { head: false, branches: [], tags: [] };
+
+  for (const part of raw.split(', ').map(p => p.trim()).filter(Boolean)) {
+    if (part === 'HEAD') {
+      refs.head = true;
+    } else if (part.startsWith('HEAD -> ')) {
+      refs.head = true;
+      refs.branches.push(part.slice(8));
+    } else if (part.startsWith('tag: ')) {
+      refs.tags.push(part.slice(5));
+    } else {
+      refs.branches.push(part);
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Assign graph lanes to commits in topological order (children before parents).
+ * A commit takes the lane that was waiting for it, its first parent inherits that
+ * lane and further parents branch off into free lanes.
+ */
+export function assignLanes(commits: GraphCommit[]): GraphNode[] {
+  // lanes[i] is the hash the lane is waiting for, or null when free
+  const lanes: Array<string | null> = [];
+
+  const claim = (hash: string): number => {
+    const free = lanes.indexOf(null);
+    if (free !== -1) {
+      lanes[free] = hash;
+      return free;
+    }
+    lanes.push(hash);
+    return lanes.length - 1;
+  };
+
+  return commits.map(commit => {
+    let lane = lanes.indexOf(commit.hash);
+    if (lane === -1) lane = claim(commit.hash);
+
+    // Other lanes that were waiting for this commit merge into it here
+    lanes.forEach((waiting, i) => {
+      if (waiting === commit.hash && i !== lane) lanes[i] = null;
+    });
+
+    const parentLanes = commit.parents.map((parent, i) => {
+      if (i === 0) {
+        const existing = lanes.indexOf(parent);
+        if (existing !== -1 && existing !== lane) {
+          lanes[lane] = null;
+          return existing;
+        }
+        lanes[lane] = parent;
+        return lane;
+      }
+      const existing = lanes.indexOf(parent);
+      return existing !== -1 ? existing : claim(parent);
+    });
+    if (commit.parents.length === 0) lanes[lane] = null;
+
+    while (lanes.length && lanes[lanes.length - 1] === null) lanes.pop();
+
+    return { ...commit, lane, parentLanes };
+  });
+}
@@ -4,8 +4,33 @@
  */
 
 import simpleGit, { SimpleGit, StatusResult, BranchSummary } from 'simple-git';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { logger } from '../utils/logger';
 import { workspaceService } from './workspaceService';
+import { DiffFile, DiffSelectionError, HunkSelection, buildPartialPatch, parseUnifiedDiff } from './diffModel';
+import {
+  ConflictChoice,
+  ConflictRegion,
+  ConflictResolutionError,
+  hasConflictMarkers,
+  parseConflicts,
+  resolveConflicts,
+} from './conflictModel';
+import {
+  BlameLine,
+  CommitFileStat,
+  FIELD_SEP,
+  FileHistoryEntry,
+  GraphNode,
+  RECORD_SEP,
+  assignLanes,
+  parseBlamePorcelain,
+  parseFileHistory,
+  parseNumstat,
+  parseRefDecorations,
+} from './gitHistory';
 
 export interface GitCommitInfo {
   hash: string;
@@ -15,6 +40,58 @@ export interface GitCommitInfo {
   email: string;
 }
 
+export interface GitCommitDetails extends GitCommitInfo {
+  parents: string[];
+  /** Message body after the subject line */
+  body: string;
+  files: CommitFileStat[];
+  stats: { files: number; additions: number; deletions: number };
+}
+
+export type GitOperation = 'merge' | 'rebase' | 'cherry-pick' | 'revert';
+
+export interface GitOperationState {
+  operation: GitOperation | null;
+  /** Commit being merged, or the branch being rebased */
+  head?: string;
+  /** Commit a rebase replays onto */
+  onto?: string;
+  conflicts: string[];
+}
+
+export interface GitMergeResult {
+  status: 'merged' | 'fast-forward' | 'up-to-date' | 'conflicts';
+  conflicts: string[];
+}
+
+export interface GitConflictFile {
+  path: string;
+  /** Whole-file index stages; null when that side deleted the file */
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  /** Working tree text with conflict markers */
+  content: string;
+  regions: ConflictRegion[];
+}
+
+export type GitConflictResolution =
+  | { content: string }
+  | { choice: ConflictChoice }
+  | { choices: ConflictChoice[] };
+
+// diff3 markers carry the merge base, which the three-way view needs
+const CONFLICT_STYLE = ['-c', 'merge.conflictStyle=diff3'];
+const NO_EDITOR = ['-c', 'core.editor=true'];
+
+const OPERATION_MARKERS: Array<[GitOperation, string]> = [
+  ['rebase', 'rebase-merge'],
+  ['rebase', 'rebase-apply'],
+  ['merge', 'MERGE_HEAD'],
+  ['cherry-pick', 'CHERRY_PICK_HEAD'],
+  ['revert', 'REVERT_HEAD'],
+];
+
 export interface GitBranchInfo {
   name: string;
   current: boolean;
@@ -33,6 +110,35 @@ export interface GitStatus {
   }>;
 }
 
+const STATUS_CODES: Record<string, string> = {
+  M: 'modified',
+  T: 'modified',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  U: 'conflicted',
+  '?': 'untracked',
+};
+
+/**
+ * Split `git diff` output into per-file chunks keyed by the new path
+ */
+export function splitDiffByFile(raw: string): Map<string, string> {
+  const chunks = new Map<string, string>();
+  const parts = raw.split(/^(?=diff --git )/m).filter(part => part.startsWith('diff --git '));
+
+  for (const part of parts) {
+    const [header] = part.split('\n', 1);
+    const renamed = /^rename to (.+)$/m.exec(part);
+    const match = / b\/(.+)$/.exec(header);
+    const file = renamed?.[1] ?? match?.[1];
+    if (file) chunks.set(file, part);
+  }
+
+  return chunks;
+}
+
 export interface GitDiffInfo {
   file: string;
   changes: string;
@@ -40,6 +146,17 @@ export interface GitDiffInfo {
   deletions: number;
 }
 
+/**
+ * stage: worktree -> index, unstage: index -> HEAD, discard: drop from the worktree
+ */
+export type GitHunkAction = 'stage' | 'unstage' | 'discard';
+
+const HUNK_APPLY_ARGS: Record<GitHunkAction, string[]> = {
+  stage: ['--cached'],
+  unstage: ['--cached', '--reverse'],
+  discard: ['--reverse'],
+};
+
 /**
  * Git Service
  */
@@ -85,18 +202,25 @@ export class GitService {
   async status(): Promise<GitStatus> {
     try {
       const status: StatusResult = await this.git.status();
+      const files: GitStatus['files'] = [];
+
+      // A partially staged file shows up once per side
+      for (const file of status.files) {
+        const conflicted = status.conflicted.includes(file.path);
+        if (file.index !== ' ' && file.index !== '?' && !conflicted) {
+          files.push({ path: file.path, status: STATUS_CODES[file.index] ?? 'modified', staged: true });
+        }
+        if (file.working_dir !== ' ' || conflicted) {
+          files.push({ path: file.path, status: conflicted ? 'conflicted' : STATUS_CODES[file.working_dir] ?? 'modified', staged: false });
+        }
+      }
 
       return {
         current: status.current || 'main',
         tracking: status.tracking || undefined,
         ahead: status.ahead,
         behind: status.behind,
-        files: [
-          ...status.modified.map(f => ({ path: f, status: 'modified', staged: false })),
-          ...status.created.map(f => ({ path: f, status: 'created', staged: false })),
-          ...status.deleted.map(f => ({ path: f, status: 'deleted', staged: false })),
-          ...status.staged.map(f => ({ path: f, status: 'staged', staged: true })),
-        ],
+        files,
       };
     } catch (error) {
       logger.error('Git status failed:', error);
@@ -117,18 +241,29 @@ export class GitService {
     }
   }
 
+  /**
+   * Remove files from the staging area, keeping working tree changes
+   */
+  async unstage(files: string | string[]): Promise<void> {
+    const paths = Array.isArray(files) ? files : [files];
+    try {
+      await this.git.raw(['restore', '--staged', '--', ...paths]);
+      logger.info(`Removed from staging: ${paths.join(', ')}`);
+    } catch (error) {
+      logger.error('Git unstage failed:', error);
+      throw new Error('Failed to remove files from staging');
+    }
+  }
+
   /**
    * Commit changes
    */
   async commit(message: string, author?: { name: string; email: string }): Promise<GitCommitInfo> {
     try {
-      // Set author if provided
-      if (author) {
-        await this.git.addConfig('user.name', author.name);
-        await this.git.addConfig('user.email', author.email);
-      }
-
-      const result = await this.git.commit(message);
+      // Per-commit author; the repository config is left untouched
+      const result = author
+        ? await this.git.commit(message, undefined, { '--author': `${author.name} <${author.email}>` })
+        : await this.git.commit(message);
       logger.info(`Committed: ${result.commit}`);
 
       const log = await this.git.log({ maxCount: 1 });
@@ -196,9 +331,7 @@ export class GitService {
 
       // Get raw diff output as string
       const diffOutput = await this.git.diff(diffArgs);
-      
-      // Parse diff output - for now return simplified info
-      // In production, you'd parse the diff text to extract file changes
+      const chunks = splitDiffByFile(diffOutput);
       const files: GitDiffInfo[] = [];
       
       // Get diff summary instead for file stats
@@ -212,7 +345,7 @@ export class GitService {
           
           files.push({
             file: file.file,
-            changes: typeof diffOutput === 'string' ? diffOutput : '',
+            changes: chunks.get(file.file) ?? '',
             additions: insertions || 0,
             deletions: deletions || 0,
           });
@@ -226,6 +359,55 @@ export class GitService {
     }
   }
 
+  /**
+   * Get diff parsed into files, hunks and numbered lines
+   */
+  async parsedDiff(options?: { staged?: boolean; file?: string; context?: number }): Promise<DiffFile[]> {
+    try {
+      const diffArgs = [`--unified=${options?.context ?? 3}`, '--no-color', '--no-ext-diff'];
+      if (options?.staged) {
+        diffArgs.push('--cached');
+      }
+      if (options?.file) {
+        diffArgs.push('--', options.file);
+      }
+      return parseUnifiedDiff(await this.git.diff(diffArgs));
+    } catch (error) {
+      logger.error('Git parsed diff failed:', error);
+      throw new Error('Failed to get diff');
+    }
+  }
+
+  /**
+   * Stage, unstage or discard selected hunks (or lines within them) of one file.
+   * Selections refer to `parsedDiff` of the working tree (stage, discard) or index (unstage).
+   */
+  async applyHunks(action: GitHunkAction, file: string, selection: Array<HunkSelection & { header?: string }>): Promise<void> {
+    const [diff] = await this.parsedDiff({ staged: action === 'unstage', file });
+    if (!diff) {
+      throw new DiffSelectionError(`${file} has no ${action === 'unstage' ? 'staged' : 'unstaged'} changes`);
+    }
+    for (const item of selection) {
+      // Guards against selections made on a diff that has since changed
+      if (item.header && diff.hunks[item.index]?.header !== item.header) {
+        throw new DiffSelectionError(`Hunk ${item.index} of ${file} has changed; refresh the diff`);
+      }
+    }
+
+    const patch = buildPartialPatch(diff, selection, action !== 'stage');
+    const patchFile = path.join(os.tmpdir(), `secureide-hunk-${process.pid}-${Date.now()}.patch`);
+    try {
+      await fs.writeFile(patchFile, patch, 'utf8');
+      await this.git.applyPatch(patchFile, [...HUNK_APPLY_ARGS[action], '--whitespace=nowarn']);
+      logger.info(`Applied ${action} of ${selection.length} hunk(s) in ${file}`);
+    } catch (error) {
+      logger.error(`Git ${action} hunks failed:`, error);
+      throw new Error(`Failed to ${action} selected changes`);
+    } finally {
+      await fs.unlink(patchFile).catch(() => undefined);
+    }
+  }
+
   /**
    * List branches
    */
@@ -262,12 +444,13 @@ export class GitService {
   }
 
   /**
-   * Checkout branch
+   * Checkout branch; the trailing `--` keeps a name that is also a file from being taken as a
+   * path, which would discard that file's changes
    */
-  async checkout(branch: string): Promise<void> {
+  async checkout(branch: string, force: boolean = false): Promise<void> {
     try {
-      await this.git.checkout(branch);
-      logger.info(`Checked out: ${branch}`);
+      await this.git.checkout(force ? ['-f', branch, '--'] : [branch, '--']);
+      logger.info(`Checked out: ${branch}${force ? ' (forced)' : ''}`);
     } catch (error) {
       logger.error('Git checkout failed:', error);
       throw new Error('Failed to checkout branch');
@@ -317,6 +500,289 @@ export class GitService {
     }
   }
 
+  /**
+   * Blame a file, optionally limited to a line range and/or at a revision
+   */
+  async blame(file: string, options?: { start?: number; end?: number; rev?: string }): Promise<BlameLine[]> {
+    try {
+      const args = ['blame', '--porcelain'];
+      if (options?.start || options?.end) {
+        args.push('-L', `${options.start ?? 1},${options.end ?? ''}`);
+      }
+      if (options?.rev) {
+        args.push(options.rev);
+      }
+      args.push('--', file);
+      return parseBlamePorcelain(await this.git.raw(args));
+    } catch (error) {
+      logger.error('Git blame failed:', error);
+      throw new Error('Failed to blame file');
+    }
+  }
+
+  /**
+   * Commits touching a file, following renames
+   */
+  async fileHistory(file: string, maxCount: number = 50): Promise<FileHistoryEntry[]> {
+    try {
+      const format = `${RECORD_SEP}${['%H', '%P', '%an', '%ae', '%aI', '%s'].join(FIELD_SEP)}`;
+      const raw = await this.git.raw([
+        'log', '--follow', '-M', '--name-status', `--max-count=${maxCount}`, `--format=${format}`, '--', file,
+      ]);
+      return parseFileHistory(raw);
+    } catch (error) {
+      logger.error('Git file history failed:', error);
+      throw new Error('Failed to get file history');
+    }
+  }
+
+  /**
+   * Commit metadata with per-file stats (against the first parent for merges); null when unknown
+   */
+  async commitDetails(ref: string): Promise<GitCommitDetails | null> {
+    const hash = (await this.git.raw(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).catch(() => '')).trim();
+    if (!hash) {
+      return null;
+    }
+
+    try {
+      const show = await this.git.raw([
+        'show', '-s', `--format=${['%H', '%P', '%an', '%ae', '%aI', '%s', '%b'].join(FIELD_SEP)}`, hash,
+      ]);
+      const [, parents, author, email, date, message, body] = show.split(FIELD_SEP);
+      const parentList = parents ? parents.split(' ') : [];
+
+      const numstat = parentList.length > 0
+        ? await this.git.raw(['diff', '--numstat', '-z', '-M', parentList[0], hash])
+        : await this.git.raw(['diff-tree', '--root', '--no-commit-id', '-r', '--numstat', '-z', '-M', hash]);
+      const files = parseNumstat(numstat);
+
+      return {
+        hash,
+        parents: parentList,
+        author,
+        email,
+        date,
+        message,
+        body: (body ?? '').trim(),
+        files,
+        stats: {
+          files: files.length,
+          additions: files.reduce((sum, f) => sum + f.additions, 0),
+          deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+        },
+      };
+    } catch (error) {
+      logger.error('Git commit details failed:', error);
+      throw new Error('Failed to get commit details');
+    }
+  }
+
+  /**
+   * Recent commits with parent links, ref decorations and graph lanes
+   */
+  async graph(options?: { maxCount?: number; all?: boolean; ref?: string }): Promise<GraphNode[]> {
+    try {
+      const args = [
+        'log', '--topo-order', '--decorate=short', `--max-count=${options?.maxCount ?? 100}`,
+        `--format=${RECORD_SEP}${['%H', '%P', '%D', '%an', '%aI', '%s'].join(FIELD_SEP)}`,
+      ];
+      if (options?.all) {
+        args.push('--all');
+      } else if (options?.ref) {
+        args.push(options.ref);
+      }
+
+      const commits = (await this.git.raw(args))
+        .split(RECORD_SEP)
+        .filter(record => record.trim())
+        .map(record => {
+          const [hash, parents, refs, author, date, message] = record.replace(/\n$/, '').split(FIELD_SEP);
+          return {
+            hash,
+            parents: parents ? parents.split(' ') : [],
+            refs: parseRefDecorations(refs),
+            author,
+            date,
+            message,
+          };
+        });
+
+      return assignLanes(commits);
+    } catch (error) {
+      logger.error('Git graph failed:', error);
+      throw new Error('Failed to get commit graph');
+    }
+  }
+
+  /**
+   * Merge a branch into the current one; conflicts are reported rather than thrown
+   */
+  async merge(branch: string, options?: { noFf?: boolean }): Promise<GitMergeResult> {
+    const { output, conflicts } = await this.runOperation(
+      [...CONFLICT_STYLE, 'merge', '--no-edit', ...(options?.noFf ? ['--no-ff'] : []), branch],
+      `merge ${branch}`
+    );
+    if (conflicts.length) {
+      return { status: 'conflicts', conflicts };
+    }
+    return {
+      status: /Already up.to.date/i.test(output) ? 'up-to-date' : /Fast-forward/.test(output) ? 'fast-forward' : 'merged',
+      conflicts,
+    };
+  }
+
+  /**
+   * Rebase the current branch onto another (non-interactive)
+   */
+  async rebase(onto: string): Promise<GitMergeResult> {
+    const { output, conflicts } = await this.runOperation([...CONFLICT_STYLE, 'rebase', onto], `rebase onto ${onto}`);
+    if (conflicts.length) {
+      return { status: 'conflicts', conflicts };
+    }
+    return { status: /up to date/i.test(output) ? 'up-to-date' : 'merged', conflicts };
+  }
+
+  /**
+   * Merge, rebase, cherry-pick or revert in progress, and its conflicted files
+   */
+  async operationState(): Promise<GitOperationState> {
+    try {
+      const gitDir = path.resolve(this.workspacePath, (await this.git.raw(['rev-parse', '--git-dir'])).trim());
+      const read = (file: string) => fs.readFile(path.join(gitDir, file), 'utf8').then(v => v.trim()).catch(() => undefined);
+      const conflicts = (await this.git.status()).conflicted;
+
+      for (const [operation, marker] of OPERATION_MARKERS) {
+        const exists = await fs.access(path.join(gitDir, marker)).then(() => true, () => false);
+        if (!exists) continue;
+
+        if (operation === 'rebase') {
+          const head = await read(`${marker}/head-name`);
+          return { operation, head: head?.replace(/^refs\/heads\//, ''), onto: await read(`${marker}/onto`), conflicts };
+        }
+        return { operation, head: await read(marker), conflicts };
+      }
+
+      return { operation: null, conflicts };
+    } catch (error) {
+      logger.error('Git operation state failed:', error);
+      throw new Error('Failed to get operation state');
+    }
+  }
+
+  /**
+   * Abort the operation in progress, restoring the pre-operation state
+   */
+  async abortOperation(): Promise<void> {
+    const { operation } = await this.operationState();
+    if (!operation) {
+      throw new ConflictResolutionError('No merge, rebase, cherry-pick or revert in progress');
+    }
+    try {
+      await this.git.raw([operation, '--abort']);
+      logger.info(`Aborted ${operation}`);
+    } catch (error) {
+      logger.error(`Git ${operation} abort failed:`, error);
+      throw new Error(`Failed to abort ${operation}`);
+    }
+  }
+
+  /**
+   * Continue the operation in progress once all conflicts are resolved and staged
+   */
+  async continueOperation(): Promise<GitMergeResult> {
+    const { operation, conflicts } = await this.operationState();
+    if (!operation) {
+      throw new ConflictResolutionError('No merge, rebase, cherry-pick or revert in progress');
+    }
+    if (conflicts.length) {
+      throw new ConflictResolutionError(`Resolve all conflicts before continuing (${conflicts.length} remaining)`);
+    }
+    // A rebase can stop again on the next commit
+    const { conflicts: next } = await this.runOperation(
+      operation === 'merge' ? ['commit', '--no-edit'] : [...NO_EDITOR, ...CONFLICT_STYLE, operation, '--continue'],
+      `continue ${operation}`
+    );
+    return { status: next.length ? 'conflicts' : 'merged', conflicts: next };
+  }
+
+  /**
+   * Base/ours/theirs versions and parsed conflict regions of a conflicted file
+   */
+  async conflictFile(file: string): Promise<GitConflictFile> {
+    await this.assertConflicted(file);
+
+    const stage = (n: number) => this.git.raw(['show', `:${n}:${file}`]).catch(() => null);
+    const [base, ours, theirs] = await Promise.all([stage(1), stage(2), stage(3)]);
+    const content = await fs.readFile(path.join(this.workspacePath, file), 'utf8').catch(() => '');
+
+    return { path: file, base, ours, theirs, content, regions: parseConflicts(content).regions };
+  }
+
+  /**
+   * Write the resolved file (explicit content, or one side per conflict region) and stage it
+   */
+  async resolveConflict(file: string, resolution: GitConflictResolution): Promise<void> {
+    await this.assertConflicted(file);
+    const target = path.join(this.workspacePath, file);
+
+    let content: string;
+    if ('content' in resolution) {
+      if (hasConflictMarkers(resolution.content)) {
+        throw new ConflictResolutionError(`${file} still contains conflict markers`);
+      }
+      content = resolution.content;
+    } else {
+      const parsed = parseConflicts(await fs.readFile(target, 'utf8').catch(() => ''));
+      if (!parsed.regions.length) {
+        throw new ConflictResolutionError(`${file} has no conflict markers; send the resolved content instead`);
+      }
+      content = resolveConflicts(parsed, 'choice' in resolution ? resolution.choice : resolution.choices);
+    }
+
+    try {
+      await fs.writeFile(target, content, 'utf8');
+      await this.git.add(['--', file]);
+      logger.info(`Resolved conflict in ${file}`);
+    } catch (error) {
+      logger.error('Git conflict resolution failed:', error);
+      throw new Error('Failed to resolve conflict');
+    }
+  }
+
+  private async assertConflicted(file: string): Promise<void> {
+    const { conflicted } = await this.git.status();
+    if (!conflicted.includes(file)) {
+      throw new ConflictResolutionError(`${file} is not in conflict`);
+    }
+  }
+
+  /**
+   * Run a merge-like command; stopping on conflicts is an outcome, not a failure
+   */
+  private async runOperation(args: string[], action: string): Promise<{ output: string; conflicts: string[] }> {
+    let output = '';
+    let failure: unknown;
+    try {
+      output = await this.git.raw(args);
+    } catch (error) {
+      failure = error;
+    }
+
+    // git exits non-zero on conflicts, which simple-git does not always surface as an error
+    const state = await this.operationState().catch(() => null);
+    if (state?.operation && state.conflicts.length) {
+      logger.info(`${action} stopped with ${state.conflicts.length} conflict(s)`);
+      return { output, conflicts: state.conflicts };
+    }
+    if (failure) {
+      logger.error(`Git ${action} failed:`, failure);
+      throw new Error(`Failed to ${action}`);
+    }
+    logger.info(`Git ${action} completed`);
+    return { output, conflicts: [] };
+  }
+
   /**
    * Add remote
    */
@@ -6,6 +6,7 @@
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
 import { logger } from '../utils/logger';
+import { redactionService } from './redactionService';
 
 // Types
 export interface LLMMessage {
@@ -215,6 +216,9 @@ export class LLMService {
     const provider = options.provider || 'openai';
     const context = this.contextManager.getContext(sessionId);
 
+    // Secrets never reach a provider or the stored context when `llmExcludeSecrets` is on
+    prompt = redactionService.redactText(prompt, 'llm', sessionId);
+
     // Add user message to context
     this.contextManager.addMessage(sessionId, 'user', prompt);
 
@@ -0,0 +1,359 @@
+/**
+ * Log Aggregator Service
+ * Collects the backend's winston output, workspace log files and spawned process
+ * stdout/stderr into one bounded buffer with monotonic ids
+ */
+
+import { ChildProcess } from 'child_process';
+import * as chokidar from 'chokidar';
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import Transport from 'winston-transport';
+import { logger } from '../utils/logger';
+import { RingBuffer } from '../utils/ringBuffer';
+import { globToRegExp } from '../utils/glob';
+import { redactionService } from './redactionService';
+
+export type LogTag = 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
+
+export interface LogEntry {
+  id: number;
+  tag: LogTag;
+  message: string;
+  timestamp: string;
+  /** `backend`, `file:<workspace-relative path>` or `process:<name>` */
+  source: string;
+  stream?: 'stdout' | 'stderr';
+  fields?: Record<string, unknown>;
+}
+
+export type LogEntryInput = Omit<LogEntry, 'id' | 'timestamp'> & { timestamp?: string };
+
+export interface LogAggregatorOptions {
+  bufferSize?: number;
+  /** Attach a transport to the shared winston logger */
+  captureLogger?: boolean;
+  filePatterns?: string[];
+  maxReadBytes?: number;
+  /** Safety re-check interval; watch events can be coalesced under rapid appends */
+  pollIntervalMs?: number;
+}
+
+export interface LogPage {
+  logs: LogEntry[];
+  since: number | null;
+  next: number | null;
+}
+
+interface TailState {
+  offset: number;
+  partial: string;
+  queue: Promise<void>;
+}
+
+const WINSTON_LEVELS: Record<string, LogTag> = {
+  error: 'ERROR',
+  warn: 'WARN',
+  info: 'INFO',
+  http: 'INFO',
+  verbose: 'DEBUG',
+  debug: 'DEBUG',
+  silly: 'DEBUG',
+};
+
+const LEVEL_ALIASES: Record<string, LogTag> = {
+  ...WINSTON_LEVELS,
+  fatal: 'ERROR',
+  err: 'ERROR',
+  warning: 'WARN',
+  trace: 'DEBUG',
+};
+
+/**
+ * Infer a tag from free-form text; unrecognised stderr lines are treated as warnings
+ */
+export function inferTag(line: string, stream?: 'stdout' | 'stderr'): LogTag {
+  if (/\b(error|fatal|exception|uncaught)\b/i.test(line)) return 'ERROR';
+  if (/\bwarn(ing)?\b/i.test(line)) return 'WARN';
+  if (/\b(debug|trace)\b/i.test(line)) return 'DEBUG';
+  return stream === 'stderr' ? 'WARN' : 'INFO';
+}
+
+/**
+ * Turn one raw line into an entry; JSON lines keep their level/message and remaining fields
+ */
+export function parseLogLine(line: string, source: string, stream?: 'stdout' | 'stderr'): LogEntryInput {
+  const trimmed = line.replace(/\u001b\[[0-9;]*m/g, '').trimEnd();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const { level, message, msg, timestamp, time, ...fields } = parsed as Record<string, unknown>;
+        const text = typeof message === 'string' ? message : typeof msg === 'string' ? msg : trimmed;
+        const tag = typeof level === 'string' ? LEVEL_ALIASES[level.toLowerCase()] : undefined;
+        const ts = typeof timestamp === 'string' ? timestamp : typeof time === 'string' ? time : undefined;
+        return {
+          tag: tag ?? inferTag(text, stream),
+          message: text,
+          timestamp: ts && !Number.isNaN(Date.parse(ts)) ? new Date(ts).toISOString() : undefined,
+          source,
+          stream,
+          fields: Object.keys(fields).length ? fields : undefined,
+        };
+      }
+    } catch {
+      // not JSON after all
+    }
+  }
+
+  return { tag: inferTag(trimmed, stream), message: trimmed, source, stream };
+}
+
+function toSerializable(value: Record<string, unknown>): Record<string, unknown> | undefined {
+  const keys = Object.keys(value);
+  if (keys.length === 0) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return Object.fromEntries(keys.map(key => [key, String(value[key])]));
+  }
+}
+
+/**
+ * Winston transport feeding the aggregator
+ */
+class AggregatorTransport extends Transport {
+  constructor(private readonly aggregator: LogAggregatorService) {
+    super();
+  }
+
+  log(info: Record<string | symbol, unknown>, callback: () => void): void {
+    // The console transport colorizes `level` in place; the symbol keeps the raw value
+    const level = String(info[Symbol.for('level')] ?? info.level ?? 'info');
+    const { level: _level, message, timestamp, ...meta } = info as Record<string, unknown>;
+
+    this.aggregator.push({
+      tag: WINSTON_LEVELS[level] ?? 'INFO',
+      message: typeof message === 'string' ? message : JSON.stringify(message),
+      timestamp: typeof timestamp === 'string' ? timestamp : undefined,
+      source: 'backend',
+      fields: toSerializable(meta),
+    });
+    callback();
+  }
+}
+
+/**
+ * Log Aggregator Service
+ */
+export class LogAggregatorService extends EventEmitter {
+  private buffer: RingBuffer<LogEntry>;
+  private nextId = 1;
+  private filePatterns: RegExp[];
+  private maxReadBytes: number;
+  private pollIntervalMs: number;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private watcher: chokidar.FSWatcher | null = null;
+  private root: string | null = null;
+  private tails = new Map<string, TailState>();
+  private transport: AggregatorTransport | null = null;
+
+  constructor(options: LogAggregatorOptions = {}) {
+    super();
+    this.buffer = new RingBuffer<LogEntry>(options.bufferSize ?? parseInt(process.env.LOG_BUFFER_SIZE || '5000', 10));
+    const patterns = options.filePatterns ?? (process.env.LOG_TAIL_PATTERNS || '*.log,logs/*').split(',');
+    this.filePatterns = patterns.map(p => p.trim()).filter(Boolean).map(globToRegExp);
+    this.maxReadBytes = options.maxReadBytes ?? 1024 * 1024;
+    this.pollIntervalMs = options.pollIntervalMs ?? parseInt(process.env.LOG_TAIL_POLL_MS || '1000', 10);
+
+    if (options.captureLogger ?? true) {
+      this.transport = new AggregatorTransport(this);
+      logger.add(this.transport);
+    }
+  }
+
+  /**
+   * Append an entry (secrets masked when `logRedactSecrets` is on) and notify listeners
+   */
+  push(input: LogEntryInput): LogEntry {
+    const { message, fields } = redactionService.redactValue({ message: input.message, fields: input.fields }, 'logs', input.source);
+    const entry: LogEntry = {
+      ...input,
+      message,
+      fields,
+      id: this.nextId++,
+      timestamp: input.timestamp ?? new Date().toISOString(),
+    };
+    this.buffer.push(entry);
+    this.emit('entry', entry);
+    return entry;
+  }
+
+  /**
+   * Entries after `since` (oldest first, up to `limit`), or the newest `limit` entries
+   */
+  getEntries(options: { since?: number; limit?: number } = {}): LogPage {
+    const limit = options.limit ?? 100;
+    const all = this.buffer.toArray();
+    const logs = options.since !== undefined
+      ? all.filter(entry => entry.id > options.since!).slice(0, limit)
+      : all.slice(-limit);
+
+    return {
+      logs,
+      since: options.since ?? null,
+      next: logs.length ? logs[logs.length - 1].id : options.since ?? null,
+    };
+  }
+
+  getAll(): LogEntry[] {
+    return this.buffer.toArray();
+  }
+
+  /**
+   * Known sources with entry counts in the buffer
+   */
+  getSources(): Array<{ source: string; count: number }> {
+    const counts = new Map<string, number>();
+    for (const entry of this.buffer.toArray()) {
+      counts.set(entry.source, (counts.get(entry.source) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).map(([source, count]) => ({ source, count }));
+  }
+
+  /**
+   * Capture a spawned process's stdout/stderr line by line
+   */
+  attachProcess(child: ChildProcess, name: string): void {
+    const source = `process:${name}`;
+    const pipe = (stream: NodeJS.ReadableStream | null, kind: 'stdout' | 'stderr') => {
+      if (!stream) return;
+      let partial = '';
+      stream.on('data', (chunk: Buffer | string) => {
+        const lines = (partial + chunk.toString()).split(/\r?\n/);
+        partial = lines.pop() ?? '';
+        lines.filter(line => line.trim()).forEach(line => this.push(parseLogLine(line, source, kind)));
+      });
+      stream.on('end', () => {
+        if (partial.trim()) this.push(parseLogLine(partial, source, kind));
+        partial = '';
+      });
+    };
+
+    pipe(child.stdout, 'stdout');
+    pipe(child.stderr, 'stderr');
+    child.on('exit', (code, signal) => {
+      this.push({
+        tag: code === 0 ? 'INFO' : 'WARN',
+        message: `Process exited with ${signal ? `signal ${signal}` : `code ${code}`}`,
+        source,
+      });
+    });
+  }
+
+  /**
+   * Tail log files under the workspace; files present at startup are followed from their end
+   */
+  async start(workspaceRoot: string): Promise<void> {
+    if (this.watcher) return;
+    this.root = workspaceRoot;
+
+    this.watcher = chokidar.watch(workspaceRoot, {
+      ignored: (filePath: string, stats?: { isFile(): boolean }) =>
+        /[\\/](node_modules|\.git|dist|build|coverage)([\\/]|$)/.test(filePath) ||
+        (stats?.isFile() === true && !this.isLogFile(filePath)),
+      persistent: true,
+      ignoreInitial: false,
+      depth: 5,
+    });
+
+    let ready = false;
+    this.watcher
+      .on('add', (filePath: string, stats?: { size: number }) => {
+        this.tails.set(filePath, { offset: ready ? 0 : stats?.size ?? 0, partial: '', queue: Promise.resolve() });
+        if (ready) this.readNew(filePath);
+      })
+      .on('change', (filePath: string) => this.readNew(filePath))
+      .on('unlink', (filePath: string) => this.tails.delete(filePath))
+      .on('error', (error: unknown) => logger.error('Log tail watcher error:', error));
+
+    await new Promise<void>(resolve => this.watcher!.once('ready', () => {
+      ready = true;
+      resolve();
+    }));
+
+    this.pollTimer = setInterval(() => {
+      for (const filePath of this.tails.keys()) this.readNew(filePath);
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+    logger.info(`Log aggregator tailing ${this.tails.size} files under ${workspaceRoot}`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.watcher) {
+      await this.watcher.close();
+      this.watcher = null;
+    }
+    this.tails.clear();
+  }
+
+  /**
+   * Detach from winston (used by tests and shutdown)
+   */
+  dispose(): void {
+    if (this.transport) {
+      logger.remove(this.transport);
+      this.transport = null;
+    }
+  }
+
+  private isLogFile(filePath: string): boolean {
+    if (!this.root) return false;
+    const relative = path.relative(this.root, filePath).split(path.sep).join('/');
+    const base = path.basename(filePath);
+    return this.filePatterns.some(pattern => pattern.test(relative) || pattern.test(base));
+  }
+
+  // Reads are chained per file so overlapping change events never double-read a range
+  private readNew(filePath: string): void {
+    const tail = this.tails.get(filePath);
+    if (!tail) return;
+
+    tail.queue = tail.queue.then(async () => {
+      const { size } = await fs.stat(filePath);
+      if (size < tail.offset) {
+        // Truncated or rotated in place
+        tail.offset = 0;
+        tail.partial = '';
+      }
+      if (size === tail.offset) return;
+
+      const length = Math.min(size - tail.offset, this.maxReadBytes);
+      const handle = await fs.open(filePath, 'r');
+      try {
+        const { buffer, bytesRead } = await handle.read(Buffer.alloc(length), 0, length, tail.offset);
+        tail.offset += bytesRead;
+        const lines = (tail.partial + buffer.subarray(0, bytesRead).toString('utf8')).split(/\r?\n/);
+        tail.partial = lines.pop() ?? '';
+        const source = `file:${path.relative(this.root!, filePath).split(path.sep).join('/')}`;
+        lines.filter(line => line.trim()).forEach(line => this.push(parseLogLine(line, source)));
+      } finally {
+        await handle.close();
+      }
+
+      // Large appends are drained in bounded chunks
+      if (tail.offset < size) this.readNew(filePath);
+    }).catch(error => {
+      logger.debug(`Log tail read failed for ${filePath}:`, error);
+    });
+  }
+}
+
+// Singleton instance
+export const logAggregatorService = new LogAggregatorService();
@@ -0,0 +1,329 @@
+/**
+ * Log Query Language
+ * Parses console queries such as `level:>=warn source:process:* /timeout/i after:15m status>=500`
+ * and evaluates them against aggregated log entries
+ *
+ * Terms are ANDed; prefix any term with `-` to negate it.
+ *   level:error | level:warn,error | level:>=warn   severity filters
+ *   source:backend | source:file | source:process:vite*   exact, kind prefix or glob
+ *   /pattern/flags                                  regex on the message (no nested repetition)
+ *   after:<time> | before:<time>                    ISO, epoch ms or relative (15m, 2h, 1d)
+ *   key=value | key!=value | key>n | key<=n          structured field match (dotted paths, `*` globs)
+ *   word | "quoted phrase"                          case-insensitive substring
+ */
+
+import { globToRegExp } from '../utils/glob';
+import type { LogEntry, LogTag } from './logAggregatorService';
+
+export type FieldOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type LogQueryTerm =
+  | { kind: 'level'; levels: LogTag[]; negate: boolean }
+  | { kind: 'source'; patterns: string[]; negate: boolean }
+  | { kind: 'regex'; regex: RegExp; negate: boolean }
+  | { kind: 'text'; text: string; negate: boolean }
+  | { kind: 'time'; bound: 'after' | 'before'; at: number; negate: boolean }
+  | { kind: 'field'; path: string[]; op: FieldOperator; value: string; negate: boolean };
+
+export interface LogQueryResult {
+  logs: LogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: {
+    level: Record<string, number>;
+    source: Record<string, number>;
+  };
+}
+
+export interface LogQueryOptions {
+  page?: number;
+  pageSize?: number;
+  order?: 'asc' | 'desc';
+}
+
+export class LogQueryError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'LogQueryError';
+  }
+}
+
+const SEVERITY: LogTag[] = ['DEBUG', 'INFO', 'WARN', 'ERROR'];
+const LEVEL_NAMES: Record<string, LogTag> = {
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'WARN',
+  warning: 'WARN',
+  error: 'ERROR',
+  err: 'ERROR',
+};
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+const FIELD_TERM = /^([A-Za-z_][\w.-]*)(!=|>=|<=|=|>|<)(.*)$/;
+const MAX_REGEX_LENGTH = 200;
+const REPEAT = /^(?:[*+]|\{\d+(?:,\d*)?\})/;
+
+interface Token {
+  text: string;
+  position: number;
+  quoted: boolean;
+}
+
+/**
+ * Split on whitespace, keeping "quoted phrases" and /regex with spaces/ together
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    while (i < query.length && /\s/.test(query[i])) i++;
+    if (i >= query.length) break;
+
+    const start = i;
+    const negated = query[i] === '-' ? 1 : 0;
+    const opener = query[i + negated];
+
+    if (opener === '"' || opener === '/') {
+      let j = i + negated + 1;
+      while (j < query.length && query[j] !== opener) {
+        if (query[j] === '\\') j++;
+        j++;
+      }
+      if (j >= query.length) {
+        throw new LogQueryError(`Unterminated ${opener === '"' ? 'quote' : 'regex'}`, start);
+      }
+      j++;
+      if (opener === '/') {
+        while (j < query.length && /[a-z]/.test(query[j])) j++;
+      }
+      tokens.push({ text: query.slice(start, j), position: start, quoted: opener === '"' });
+      i = j;
+      continue;
+    }
+
+    while (i < query.length && !/\s/.test(query[i])) {
+      // Values such as key="two words" keep their quoted part
+      if (query[i] === '"') {
+        const close = query.indexOf('"', i + 1);
+        i = close === -1 ? query.length : close + 1;
+      } else {
+        i++;
+      }
+    }
+    tokens.push({ text: query.slice(start, i), position: start, quoted: false });
+  }
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/\\"/g, '"')
+    : value;
+}
+
+/**
+ * Absolute (ISO / epoch ms) or relative-to-now (15m, 2h, 1d) time
+ */
+export function parseQueryTime(value: string, now = Date.now()): number {
+  const relative = /^(\d+)([smhd])$/.exec(value);
+  if (relative) return now - parseInt(relative[1], 10) * DURATION_UNITS[relative[2]];
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return Date.parse(value);
+}
+
+function parseLevels(value: string, position: number): LogTag[] {
+  const range = /^(>=|<=|>|<)(\w+)$/.exec(value);
+  if (range) {
+    const pivot = LEVEL_NAMES[range[2].toLowerCase()];
+    if (!pivot) throw new LogQueryError(`Unknown level "${range[2]}"`, position);
+    const index = SEVERITY.indexOf(pivot);
+    return SEVERITY.filter((_, i) =>
+      range[1] === '>=' ? i >= index : range[1] === '>' ? i > index : range[1] === '<=' ? i <= index : i < index
+    );
+  }
+
+  return value.split(',').filter(Boolean).map(name => {
+    const level = LEVEL_NAMES[name.toLowerCase()];
+    if (!level) throw new LogQueryError(`Unknown level "${name}"`, position);
+    return level;
+  });
+}
+
+/**
+ * Why a regex could backtrack catastrophically, if it could: a group repeated with `*`, `+` or
+ * `{n,}` that itself contains a quantifier or an alternation, like `(a+)+` or `(a|ab)*`
+ */
+function unsafeRegexReason(source: string): string | undefined {
+  if (source.length > MAX_REGEX_LENGTH) {
+    return `Regex is longer than ${MAX_REGEX_LENGTH} characters`;
+  }
+
+  const groups: Array<{ quantified: boolean; alternation: boolean }> = [];
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push({ quantified: false, alternation: false });
+      if (source[i + 1] === '?') i++;
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1].alternation = true;
+    } else if (char === ')') {
+      const group = groups.pop();
+      if (!group) continue;
+      const repeated = REPEAT.test(source.slice(i + 1));
+      if (repeated && (group.quantified || group.alternation)) {
+        return 'Regex repeats a group that contains a quantifier or alternation';
+      }
+      if (groups.length > 0 && (repeated || group.quantified)) groups[groups.length - 1].quantified = true;
+    } else if (REPEAT.test(source.slice(i)) || char === '?') {
+      if (groups.length > 0) groups[groups.length - 1].quantified = true;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a query string into terms; throws LogQueryError with the offending position
+ */
+export function parseLogQuery(query: string, now = Date.now()): LogQueryTerm[] {
+  return tokenize(query).map(({ text, position, quoted }): LogQueryTerm => {
+    const negate = text.startsWith('-') && text.length > 1;
+    const body = negate ? text.slice(1) : text;
+
+    if (quoted) {
+      return { kind: 'text', text: unquote(body).toLowerCase(), negate };
+    }
+
+    if (body.startsWith('/')) {
+      const end = body.lastIndexOf('/');
+      const unsafe = unsafeRegexReason(body.slice(1, end));
+      if (unsafe) throw new LogQueryError(unsafe, position);
+      try {
+        return { kind: 'regex', regex: new RegExp(body.slice(1, end), body.slice(end + 1)), negate };
+      } catch (error) {
+        throw new LogQueryError(`Invalid regex: ${(error as Error).message}`, position);
+      }
+    }
+
+    const colon = body.indexOf(':');
+    const key = colon > 0 ? body.slice(0, colon).toLowerCase() : '';
+    const value = colon > 0 ? unquote(body.slice(colon + 1)) : '';
+
+    if (key === 'level' || key === 'tag') {
+      return { kind: 'level', levels: parseLevels(value, position), negate };
+    }
+    if (key === 'source') {
+      if (!value) throw new LogQueryError('source: needs a value', position);
+      return { kind: 'source', patterns: value.split(',').filter(Boolean), negate };
+    }
+    if (key === 'after' || key === 'before' || key === 'since' || key === 'until') {
+      const at = parseQueryTime(value, now);
+      if (Number.isNaN(at)) throw new LogQueryError(`Invalid time "${value}"`, position);
+      return { kind: 'time', bound: key === 'after' || key === 'since' ? 'after' : 'before', at, negate };
+    }
+
+    const field = FIELD_TERM.exec(body);
+    if (field) {
+      const path = field[1].replace(/^fields\./, '').split('.');
+      return { kind: 'field', path, op: field[2] as FieldOperator, value: unquote(field[3]), negate };
+    }
+
+    return { kind: 'text', text: body.toLowerCase(), negate };
+  });
+}
+
+function sourceMatches(source: string, pattern: string): boolean {
+  if (pattern.includes('*') || pattern.includes('?')) return globToRegExp(pattern).test(source);
+  const needle = pattern.toLowerCase();
+  const haystack = source.toLowerCase();
+  // `file` matches every `file:<path>` source
+  return haystack === needle || haystack.startsWith(`${needle}:`);
+}
+
+function readField(fields: Record<string, unknown> | undefined, path: string[]): unknown {
+  let current: unknown = fields;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function compareField(actual: unknown, op: FieldOperator, expected: string): boolean {
+  if (actual === undefined) return op === '!=';
+
+  const text = typeof actual === 'object' && actual !== null ? JSON.stringify(actual) : String(actual);
+  const equals = expected.includes('*') ? globToRegExp(expected).test(text) : text.toLowerCase() === expected.toLowerCase();
+  if (op === '=') return equals;
+  if (op === '!=') return !equals;
+
+  const left = Number(actual);
+  const right = Number(expected);
+  const numeric = !Number.isNaN(left) && !Number.isNaN(right) && text.trim() !== '';
+  const [a, b] = numeric ? [left, right] : [Date.parse(text), Date.parse(expected)];
+  if (Number.isNaN(a) || Number.isNaN(b)) return false;
+
+  switch (op) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+  }
+}
+
+function termMatches(term: LogQueryTerm, entry: LogEntry): boolean {
+  switch (term.kind) {
+    case 'level':
+      return term.levels.includes(entry.tag);
+    case 'source':
+      return term.patterns.some(pattern => sourceMatches(entry.source, pattern));
+    case 'regex':
+      term.regex.lastIndex = 0;
+      return term.regex.test(entry.message);
+    case 'text':
+      return entry.message.toLowerCase().includes(term.text);
+    case 'time': {
+      const at = Date.parse(entry.timestamp);
+      return term.bound === 'after' ? at >= term.at : at <= term.at;
+    }
+    case 'field':
+      return compareField(readField(entry.fields, term.path), term.op, term.value);
+  }
+}
+
+export function matchesQuery(entry: LogEntry, terms: LogQueryTerm[]): boolean {
+  return terms.every(term => termMatches(term, entry) !== term.negate);
+}
+
+/**
+ * Filter, count facets over the matching set and paginate (newest first by default)
+ */
+export function runLogQuery(entries: LogEntry[], terms: LogQueryTerm[], options: LogQueryOptions = {}): LogQueryResult {
+  const page = options.page ?? 1;
+  const pageSize = options.pageSize ?? 100;
+  const matching = entries.filter(entry => matchesQuery(entry, terms));
+  if ((options.order ?? 'desc') === 'desc') matching.reverse();
+
+  const facets: LogQueryResult['facets'] = { level: {}, source: {} };
+  for (const entry of matching) {
+    facets.level[entry.tag] = (facets.level[entry.tag] ?? 0) + 1;
+    facets.source[entry.source] = (facets.source[entry.source] ?? 0) + 1;
+  }
+
+  const start = (page - 1) * pageSize;
+  return {
+    logs: matching.slice(start, start + pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    facets,
+  };
+}
@@ -0,0 +1,420 @@
+/**
+ * Metrics Service - Host Metrics Collector
+ * Samples /proc and /sys, turns kernel counters into rates and keeps a bounded history
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { RingBuffer } from '../utils/ringBuffer';
+import { TimeSeriesStore, SeriesQuery, SeriesQueryResult } from './timeSeriesStore';
+
+export interface CpuTimes {
+  idle: number;
+  total: number;
+}
+
+export interface ProcStat {
+  total: CpuTimes;
+  cores: CpuTimes[];
+}
+
+export interface NetCounters {
+  rxBytes: number;
+  txBytes: number;
+}
+
+export interface MetricsSample {
+  timestamp: string;
+  cpu: {
+    usage: number | null;
+    cores: number;
+    perCore: Array<number | null>;
+    temperature: number | null;
+  };
+  memory: {
+    used: number | null;
+    free: number | null;
+    available: number | null;
+    cached: number | null;
+    total: number | null;
+    unit: 'MB';
+  };
+  battery: {
+    charging: boolean | null;
+    percentage: number | null;
+    timeRemaining: number | null;
+  };
+  network: {
+    rx: number | null;
+    tx: number | null;
+    unit: 'KB/s';
+  };
+}
+
+export interface MetricsServiceOptions {
+  procRoot?: string;
+  sysRoot?: string;
+  intervalMs?: number;
+  historySize?: number;
+}
+
+/**
+ * Numeric series recorded into the time-series store for every sample
+ */
+export const METRIC_SERIES: Record<string, (sample: MetricsSample) => number | null> = {
+  'cpu.usage': sample => sample.cpu.usage,
+  'cpu.temperature': sample => sample.cpu.temperature,
+  'memory.used': sample => sample.memory.used,
+  'memory.available': sample => sample.memory.available,
+  'memory.usedPct': sample =>
+    sample.memory.used !== null && sample.memory.total ? Math.round((sample.memory.used / sample.memory.total) * 1000) / 10 : null,
+  'network.rx': sample => sample.network.rx,
+  'network.tx': sample => sample.network.tx,
+  'battery.percentage': sample => sample.battery.percentage,
+};
+
+interface RawCounters {
+  at: number;
+  stat: ProcStat | null;
+  net: NetCounters | null;
+}
+
+/**
+ * Parse /proc/stat into aggregate and per-core jiffy counters
+ */
+export function parseProcStat(content: string): ProcStat | null {
+  let total: CpuTimes | null = null;
+  const cores: CpuTimes[] = [];
+
+  for (const line of content.split('\n')) {
+    const match = /^cpu(\d*)\s+(.*)$/.exec(line);
+    if (!match) continue;
+
+    // user nice system idle iowait irq softirq steal (guest fields are already counted in user/nice)
+    const fields = match[2].trim().split(/\s+/).slice(0, 8).map(Number);
+    if (fields.length < 4 || fields.some(n => Number.isNaN(n))) continue;
+
+    const idle = fields[3] + (fields[4] || 0);
+    const times = { idle, total: fields.reduce((sum, n) => sum + n, 0) };
+
+    if (match[1] === '') {
+      total = times;
+    } else {
+      cores.push(times);
+    }
+  }
+
+  return total ? { total, cores } : null;
+}
+
+/**
+ * Parse /proc/meminfo into a map of field name to kB
+ */
+export function parseMeminfo(content: string): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const line of content.split('\n')) {
+    const match = /^(\w+(?:\(\w+\))?):\s+(\d+)/.exec(line);
+    if (match) {
+      result[match[1]] = parseInt(match[2], 10);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse /proc/net/dev and sum byte counters over all non-loopback interfaces
+ */
+export function parseNetDev(content: string): NetCounters | null {
+  let rxBytes = 0;
+  let txBytes = 0;
+  let found = false;
+
+  for (const line of content.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const iface = line.slice(0, separator).trim();
+    const fields = line.slice(separator + 1).trim().split(/\s+/).map(Number);
+    if (iface === 'lo' || fields.length < 9) continue;
+
+    rxBytes += fields[0];
+    txBytes += fields[8];
+    found = true;
+  }
+
+  return found ? { rxBytes, txBytes } : null;
+}
+
+/**
+ * CPU utilisation percentage between two counter snapshots
+ */
+export function cpuUsageBetween(prev: CpuTimes, curr: CpuTimes): number | null {
+  const totalDelta = curr.total - prev.total;
+  const idleDelta = curr.idle - prev.idle;
+  if (totalDelta <= 0) {
+    return null;
+  }
+  return round(((totalDelta - idleDelta) / totalDelta) * 100);
+}
+
+function round(value: number, digits = 1): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toMb(kb: number | undefined): number | null {
+  return kb === undefined ? null : Math.round(kb / 1024);
+}
+
+/**
+ * Metrics Service
+ */
+export class MetricsService {
+  private procRoot: string;
+  private sysRoot: string;
+  private intervalMs: number;
+  private history: RingBuffer<MetricsSample>;
+  private store: TimeSeriesStore;
+  private previous: RawCounters | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private sampling: Promise<MetricsSample> | null = null;
+
+  constructor(options: MetricsServiceOptions = {}) {
+    this.procRoot = options.procRoot || process.env.METRICS_PROC_ROOT || '/proc';
+    this.sysRoot = options.sysRoot || process.env.METRICS_SYS_ROOT || '/sys';
+    this.intervalMs = options.intervalMs || parseInt(process.env.METRICS_INTERVAL_MS || '2000', 10);
+    const historySize = options.historySize || parseInt(process.env.METRICS_HISTORY_SIZE || '900', 10);
+    this.history = new RingBuffer(historySize);
+    this.store = new TimeSeriesStore({ raw: historySize });
+  }
+
+  /**
+   * Start periodic sampling
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    void this.sample();
+    this.timer = setInterval(() => {
+      this.sample().catch(error => logger.error('Metrics sampling failed:', error));
+    }, this.intervalMs);
+    this.timer.unref();
+
+    logger.info(`Metrics collector started (interval ${this.intervalMs}ms)`);
+  }
+
+  /**
+   * Stop periodic sampling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Metrics collector stopped');
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Latest collected sample, if any
+   */
+  getLatest(): MetricsSample | null {
+    return this.history.last() || null;
+  }
+
+  /**
+   * Latest sample, sampling on demand when the collector has not produced one yet
+   */
+  async getCurrent(): Promise<MetricsSample> {
+    return this.getLatest() || this.sample();
+  }
+
+  /**
+   * Collected samples, oldest first
+   */
+  getHistory(limit?: number): MetricsSample[] {
+    const samples = this.history.toArray();
+    return limit ? samples.slice(-limit) : samples;
+  }
+
+  /**
+   * Query recorded series with rollups and min/avg/max aggregates
+   */
+  querySeries(query: SeriesQuery): SeriesQueryResult {
+    return this.store.query(query);
+  }
+
+  /**
+   * Series names clients may request
+   */
+  listSeries(): string[] {
+    return Object.keys(METRIC_SERIES);
+  }
+
+  /**
+   * Take a single sample and append it to the history
+   */
+  sample(): Promise<MetricsSample> {
+    // Concurrent callers share one in-flight read so rate deltas stay consistent
+    if (!this.sampling) {
+      this.sampling = this.collect().finally(() => {
+        this.sampling = null;
+      });
+    }
+    return this.sampling;
+  }
+
+  private async collect(): Promise<MetricsSample> {
+    const [statContent, memContent, netContent, temperature, battery] = await Promise.all([
+      this.readText(path.join(this.procRoot, 'stat')),
+      this.readText(path.join(this.procRoot, 'meminfo')),
+      this.readText(path.join(this.procRoot, 'net', 'dev')),
+      this.readTemperature(),
+      this.readBattery(),
+    ]);
+
+    const current: RawCounters = {
+      at: Date.now(),
+      stat: statContent ? parseProcStat(statContent) : null,
+      net: netContent ? parseNetDev(netContent) : null,
+    };
+    const prev = this.previous;
+    this.previous = current;
+
+    const mem = memContent ? parseMeminfo(memContent) : {};
+    const total = mem.MemTotal;
+    const available = mem.MemAvailable;
+    const free = mem.MemFree;
+    const cached = mem.Cached !== undefined ? mem.Cached + (mem.Buffers || 0) : undefined;
+
+    const coreCount = current.stat?.cores.length || os.cpus().length;
+    const perCore: Array<number | null> = Array.from({ length: coreCount }, (_, i) => {
+      const before = prev?.stat?.cores[i];
+      const after = current.stat?.cores[i];
+      return before && after ? cpuUsageBetween(before, after) : null;
+    });
+
+    let rx: number | null = null;
+    let tx: number | null = null;
+    if (prev?.net && current.net && current.at > prev.at) {
+      const seconds = (current.at - prev.at) / 1000;
+      // Counters reset when an interface goes away; report null rather than a negative rate
+      const rxDelta = current.net.rxBytes - prev.net.rxBytes;
+      const txDelta = current.net.txBytes - prev.net.txBytes;
+      rx = rxDelta >= 0 ? round(rxDelta / 1024 / seconds) : null;
+      tx = txDelta >= 0 ? round(txDelta / 1024 / seconds) : null;
+    }
+
+    const sample: MetricsSample = {
+      timestamp: new Date(current.at).toISOString(),
+      cpu: {
+        usage: prev?.stat && current.stat ? cpuUsageBetween(prev.stat.total, current.stat.total) : null,
+        cores: coreCount,
+        perCore,
+        temperature,
+      },
+      memory: {
+        used: total !== undefined && available !== undefined ? toMb(total - available) : null,
+        free: toMb(free),
+        available: toMb(available),
+        cached: toMb(cached),
+        total: toMb(total),
+        unit: 'MB',
+      },
+      battery,
+      network: { rx, tx, unit: 'KB/s' },
+    };
+
+    this.history.push(sample);
+    for (const [name, extract] of Object.entries(METRIC_SERIES)) {
+      this.store.record(name, current.at, extract(sample));
+    }
+    return sample;
+  }
+
+  /**
+   * CPU temperature in °C from the thermal zones, preferring CPU package sensors
+   */
+  private async readTemperature(): Promise<number | null> {
+    const thermalDir = path.join(this.sysRoot, 'class', 'thermal');
+    const zones = (await this.readDir(thermalDir)).filter(name => name.startsWith('thermal_zone'));
+
+    const readings: Array<{ type: string; celsius: number }> = [];
+    for (const zone of zones) {
+      const raw = await this.readText(path.join(thermalDir, zone, 'temp'));
+      const millidegrees = raw ? parseInt(raw, 10) : NaN;
+      if (Number.isNaN(millidegrees) || millidegrees <= 0) continue;
+
+      const type = (await this.readText(path.join(thermalDir, zone, 'type')))?.trim() || '';
+      readings.push({ type, celsius: round(millidegrees / 1000) });
+    }
+
+    if (readings.length === 0) {
+      return null;
+    }
+
+    const cpuReading = readings.find(r => /x86_pkg_temp|cpu|coretemp|k10temp|soc/i.test(r.type));
+    return cpuReading ? cpuReading.celsius : Math.max(...readings.map(r => r.celsius));
+  }
+
+  /**
+   * Battery state from the first power supply of type Battery
+   */
+  private async readBattery(): Promise<MetricsSample['battery']> {
+    const supplyDir = path.join(this.sysRoot, 'class', 'power_supply');
+    const empty = { charging: null, percentage: null, timeRemaining: null };
+
+    for (const name of await this.readDir(supplyDir)) {
+      const dir = path.join(supplyDir, name);
+      const type = (await this.readText(path.join(dir, 'type')))?.trim();
+      if (type !== 'Battery') continue;
+
+      const status = (await this.readText(path.join(dir, 'status')))?.trim() || null;
+      const capacity = await this.readNumber(path.join(dir, 'capacity'));
+      const charging = status === null ? null : status !== 'Discharging';
+
+      // Energy-based drivers report µWh/µW, charge-based ones µAh/µA; both divide the same way
+      const remaining = (await this.readNumber(path.join(dir, 'energy_now'))) ?? (await this.readNumber(path.join(dir, 'charge_now')));
+      const rate = (await this.readNumber(path.join(dir, 'power_now'))) ?? (await this.readNumber(path.join(dir, 'current_now')));
+      const timeRemaining = charging === false && remaining !== null && rate
+        ? Math.round((remaining / rate) * 60)
+        : null;
+
+      return { charging, percentage: capacity, timeRemaining };
+    }
+
+    return empty;
+  }
+
+  private async readText(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  private async readNumber(filePath: string): Promise<number | null> {
+    const raw = await this.readText(filePath);
+    const value = raw === null ? NaN : parseInt(raw, 10);
+    return Number.isNaN(value) ? null : value;
+  }
+
+  private async readDir(dirPath: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dirPath);
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+export const metricsService = new MetricsService();
@@ -1,12 +1,15 @@
 /**
  * Multi-Language Execution Service
- * Executes code in Python, Java, C++, and other languages using Docker containers
+ * Executes code in Python, Java, C++, and other languages using Docker containers,
+ * streaming the container's stdout/stderr and optionally taking stdin while it runs
  */
 
 import Docker from 'dockerode';
 import { EventEmitter } from 'events';
+import { Writable } from 'stream';
 import { createHash } from 'crypto';
 import { logger } from '../utils/logger';
+import { redactionService } from './redactionService';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
@@ -18,7 +21,24 @@ export interface MultiLangExecutionOptions {
   language: SupportedLanguage;
   timeout?: number;
   memoryLimit?: number;
+  /** Written to the program's stdin when it starts */
   input?: string;
+  /** Keep stdin open for writeStdin until it is closed or the program exits */
+  interactive?: boolean;
+}
+
+/** Part of a running program's output, as it is produced */
+export interface ExecutionOutputChunk {
+  id: string;
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
+export class ExecutionStdinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExecutionStdinError';
+  }
 }
 
 export interface MultiLangExecutionResult {
@@ -85,18 +105,21 @@ const LANGUAGE_CONFIG: Record<SupportedLanguage, {
 
 /**
  * Multi-Language Execution Service
+ * Emits 'execution:output' (ExecutionOutputChunk) while a program runs
  */
 export class MultiLangExecutionService extends EventEmitter {
   private docker: Docker;
   private executions: Map<string, MultiLangExecutionResult> = new Map();
+  /** Containers still running, with their attached stdin */
+  private running: Map<string, { container: Docker.Container; stdin: NodeJS.WritableStream; interactive: boolean }> = new Map();
   private readonly DEFAULT_TIMEOUT_MS: number;
   private readonly DEFAULT_MEMORY_LIMIT_MB: number;
   private readonly MAX_OUTPUT_SIZE: number;
   private tempDir: string;
 
-  constructor() {
+  constructor(docker: Docker = new Docker()) {
     super();
-    this.docker = new Docker();
+    this.docker = docker;
     this.DEFAULT_TIMEOUT_MS = parseInt(process.env.MAX_EXECUTION_TIME_MS || '30000', 10);
     this.DEFAULT_MEMORY_LIMIT_MB = parseInt(process.env.MAX_MEMORY_MB || '512', 10);
     this.MAX_OUTPUT_SIZE = parseInt(process.env.MAX_OUTPUT_SIZE_KB || '1024', 10) * 1024;
@@ -136,10 +159,11 @@ export class MultiLangExecutionService extends EventEmitter {
       // Execute based on language
       await this.executeInDocker(id, options);
 
-      result.status = 'completed';
+      if (result.status === 'running') result.status = 'completed';
     } catch (error) {
-      result.status = 'error';
-      result.error = error instanceof Error ? error.message : 'Execution failed';
+      // Keep timeout and cancelled
+      if (result.status === 'running') result.status = 'error';
+      result.error = redactionService.redactText(error instanceof Error ? error.message : 'Execution failed', 'execution', id);
       result.exitCode = 1;
       logger.error(`Execution ${id} failed:`, error);
     } finally {
@@ -165,6 +189,7 @@ export class MultiLangExecutionService extends EventEmitter {
     // Create temporary directory for this execution
     const execDir = path.join(this.tempDir, id);
     await fs.mkdir(execDir, { recursive: true });
+    let timer: NodeJS.Timeout | undefined;
 
     try {
       // Write code to file
@@ -179,8 +204,12 @@ export class MultiLangExecutionService extends EventEmitter {
       const container = await this.docker.createContainer({
         Image: config.image,
         Cmd: ['/bin/sh', '-c', this.buildExecutionCommand(options.language)],
+        AttachStdin: true,
         AttachStdout: true,
         AttachStderr: true,
+        // stdin closes for the program once our attached stream ends
+        OpenStdin: true,
+        StdinOnce: true,
         WorkingDir: '/code',
         HostConfig: {
           Binds: [`${execDir}:/code:ro`], // Read-only mount
@@ -192,54 +221,63 @@ export class MultiLangExecutionService extends EventEmitter {
         Tty: false,
       });
 
-      // Start container
-      await container.start();
-
-      // Collect output
-      const stream = await container.logs({
-        follow: true,
-        stdout: true,
-        stderr: true,
-      });
+      // Attach before starting so no output is missed
+      const stream = await container.attach({ stream: true, hijack: true, stdin: true, stdout: true, stderr: true });
 
       let output = '';
       const outputPromise = new Promise<void>((resolve, reject) => {
-        stream.on('data', (chunk: Buffer) => {
-          // Docker multiplexes stdout/stderr - skip 8-byte header
-          const data = chunk.slice(8).toString();
-          output += data;
-          
-          if (output.length > this.MAX_OUTPUT_SIZE) {
-            container.stop().catch(() => {});
-            reject(new Error('Output size limit exceeded'));
-          }
+        const forward = (type: ExecutionOutputChunk['stream']) => new Writable({
+          write: (chunk: Buffer, _encoding, done) => {
+            const data = chunk.toString();
+            output += data;
+            if (output.length > this.MAX_OUTPUT_SIZE) {
+              container.stop().catch(() => {});
+              reject(new Error('Output size limit exceeded'));
+            } else {
+              this.emit('execution:output', { id, stream: type, data: redactionService.redactText(data, 'execution', id) } as ExecutionOutputChunk);
+            }
+            done();
+          },
         });
 
+        // Docker multiplexes stdout/stderr into 8-byte-header frames
+        this.docker.modem.demuxStream(stream, forward('stdout'), forward('stderr'));
         stream.on('end', () => resolve());
         stream.on('error', (err: Error) => reject(err));
       });
+      // Only awaited once the container runs
+      outputPromise.catch(() => {});
+
+      // Wait before starting: with AutoRemove, a quick program's container can be gone before a later wait
+      const exited = container.wait({ condition: 'next-exit' });
+      exited.catch(() => {});
+
+      // Start container
+      await container.start();
+
+      this.running.set(id, { container, stdin: stream, interactive: !!options.interactive });
+      if (options.input) {
+        stream.write(options.input);
+      }
+      if (!options.interactive) {
+        stream.end();
+      }
 
       // Wait with timeout
       const timeoutPromise = new Promise<void>((_, reject) => {
-        setTimeout(() => {
+        timer = setTimeout(() => {
           container.stop().catch(() => {});
           reject(new Error(`Execution timeout after ${timeout}ms`));
         }, timeout);
       });
 
-      await Promise.race([outputPromise, timeoutPromise]);
+      await Promise.race([Promise.all([outputPromise, exited]), timeoutPromise]);
 
-      // Get container info
-      const containerInfo = await container.inspect();
-      result.exitCode = containerInfo.State.ExitCode || 0;
-      result.output = output.trim();
+      result.exitCode = (await exited).StatusCode ?? 0;
+      result.output = redactionService.redactText(output.trim(), 'execution', id);
 
       // Estimate memory used
-      if (containerInfo.HostConfig.Memory) {
-        result.memoryUsed = containerInfo.HostConfig.Memory;
-      }
-
-      this.emit('execution:output', { id, output: result.output });
+      result.memoryUsed = memoryLimit;
 
     } catch (error) {
       if (error instanceof Error && error.message.includes('timeout')) {
@@ -251,6 +289,8 @@ export class MultiLangExecutionService extends EventEmitter {
       throw error;
     } finally {
       // Cleanup
+      this.running.delete(id);
+      clearTimeout(timer);
       await fs.rm(execDir, { recursive: true, force: true }).catch(() => {});
     }
   }
@@ -292,6 +332,30 @@ export class MultiLangExecutionService extends EventEmitter {
     }
   }
 
+  /**
+   * Whether the Docker daemon answers
+   */
+  async isDockerAvailable(): Promise<boolean> {
+    try {
+      await this.docker.ping();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether an image is already pulled
+   */
+  async hasImage(imageName: string): Promise<boolean> {
+    try {
+      await this.docker.getImage(imageName).inspect();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Ensure Docker image exists
    */
@@ -341,10 +405,32 @@ export class MultiLangExecutionService extends EventEmitter {
     if (result.status === 'running') {
       result.status = 'cancelled';
       result.error = 'Execution cancelled by user';
+      this.running.get(id)?.container.stop().catch(() => {});
       this.emit('execution:cancelled', { id });
     }
   }
 
+  /**
+   * Type into a running interactive program; `end` closes its stdin (EOF)
+   */
+  writeStdin(id: string, data: string, end: boolean = false): void {
+    const running = this.running.get(id);
+    if (!running) {
+      throw new ExecutionStdinError(`Execution ${id} is not running`);
+    }
+    if (!running.interactive) {
+      throw new ExecutionStdinError(`Execution ${id} was not started interactively`);
+    }
+
+    if (data) {
+      running.stdin.write(data);
+    }
+    if (end) {
+      running.stdin.end();
+      running.interactive = false;
+    }
+  }
+
   /**
    * Generate execution ID
    */
@@ -404,4 +490,4 @@ export const multiLangExecutionService = new MultiLangExecutionService();
 // Auto-cleanup old executions every hour
 setInterval(() => {
   multiLangExecutionService.clearOldExecutions();
-}, 3600000);
+}, 3600000).unref();
@@ -0,0 +1,249 @@
+/**
+ * Pipeline Model
+ * Validates a CI pipeline definition (stages of steps with commands, env and dependencies)
+ * and works out which steps can run next
+ */
+
+import path from 'path';
+
+export interface PipelineStep {
+  /** `<stage>/<step>`, unique within the pipeline */
+  id: string;
+  stage: string;
+  name: string;
+  command: string;
+  env: Record<string, string>;
+  /** Working directory relative to the workspace root */
+  cwd?: string;
+  timeoutMs: number;
+  /** Ids of steps that must pass first */
+  needs: string[];
+  /** Test report files (JUnit XML or Jest/Vitest JSON) relative to the step's cwd; `*` and `?` match within a file name */
+  reports: string[];
+  /** Coverage files (lcov or Istanbul JSON), matched like `reports` */
+  coverage: string[];
+  /** Output files or directories kept in the artifact store, matched like `reports` */
+  artifacts: string[];
+}
+
+export interface Pipeline {
+  name: string;
+  stages: string[];
+  /** Steps in a valid execution order */
+  steps: PipelineStep[];
+}
+
+export type StepStatus = 'pending' | 'running' | 'pass' | 'fail' | 'skipped' | 'cancelled';
+
+export class PipelineConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineConfigError';
+  }
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readName(value: unknown, where: string): string {
+  if (typeof value !== 'string' || !NAME_PATTERN.test(value)) {
+    throw new PipelineConfigError(`${where}: name must be 1-64 letters, digits, '.', '_' or '-'`);
+  }
+  return value;
+}
+
+function readNames(value: unknown, where: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    throw new PipelineConfigError(`${where}: needs must be a list of names`);
+  }
+  return value as string[];
+}
+
+function readEnv(value: unknown, where: string): Record<string, string> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    throw new PipelineConfigError(`${where}: env must be an object`);
+  }
+  const env: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      throw new PipelineConfigError(`${where}: invalid env name "${key}"`);
+    }
+    if (typeof v !== 'string' && typeof v !== 'number' && typeof v !== 'boolean') {
+      throw new PipelineConfigError(`${where}: env ${key} must be a string, number or boolean`);
+    }
+    env[key] = String(v);
+  }
+  return env;
+}
+
+function readReports(value: unknown, where: string, field = 'reports'): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !v)) {
+    throw new PipelineConfigError(`${where}: ${field} must be a list of file paths`);
+  }
+  return value.map(report => {
+    const normalized = path.normalize(report as string);
+    if (path.isAbsolute(normalized) || normalized === '..' || normalized.startsWith(`..${path.sep}`)) {
+      throw new PipelineConfigError(`${where}: ${field} file ${report} must be inside the workspace`);
+    }
+    if (/[*?]/.test(path.dirname(normalized))) {
+      throw new PipelineConfigError(`${where}: ${field} file ${report} may only use wildcards in the file name`);
+    }
+    return normalized;
+  });
+}
+
+function readTimeout(value: unknown, fallback: number, where: string): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new PipelineConfigError(`${where}: timeoutMs must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Validate a parsed pipeline file. Stages run after the stages they `need`
+ * (the previous stage when omitted); steps within a stage run in parallel
+ * unless they `need` other steps of the same stage.
+ */
+export function parsePipeline(raw: unknown, defaults: { timeoutMs: number }): Pipeline {
+  if (!isRecord(raw)) {
+    throw new PipelineConfigError('Pipeline must be an object');
+  }
+  if (!Array.isArray(raw.stages) || raw.stages.length === 0) {
+    throw new PipelineConfigError('Pipeline must define at least one stage');
+  }
+
+  const name = raw.name === undefined ? 'pipeline' : readName(raw.name, 'pipeline');
+  const pipelineEnv = readEnv(raw.env, 'pipeline');
+  const pipelineTimeout = readTimeout(raw.timeoutMs, defaults.timeoutMs, 'pipeline');
+
+  const stageNames: string[] = [];
+  const stageNeeds = new Map<string, string[]>();
+  const stageSteps = new Map<string, PipelineStep[]>();
+
+  for (const [i, stage] of raw.stages.entries()) {
+    if (!isRecord(stage)) {
+      throw new PipelineConfigError(`stages[${i}] must be an object`);
+    }
+    const stageName = readName(stage.name, `stages[${i}]`);
+    if (stageSteps.has(stageName)) {
+      throw new PipelineConfigError(`Duplicate stage "${stageName}"`);
+    }
+    if (!Array.isArray(stage.steps) || stage.steps.length === 0) {
+      throw new PipelineConfigError(`Stage "${stageName}" must define at least one step`);
+    }
+
+    const stageEnv = readEnv(stage.env, `stage ${stageName}`);
+    const steps: PipelineStep[] = [];
+    for (const [j, step] of stage.steps.entries()) {
+      const where = `stage ${stageName} step ${j}`;
+      if (!isRecord(step)) {
+        throw new PipelineConfigError(`${where} must be an object`);
+      }
+      const stepName = readName(step.name, where);
+      if (steps.some(s => s.name === stepName)) {
+        throw new PipelineConfigError(`Duplicate step "${stepName}" in stage "${stageName}"`);
+      }
+      if (typeof step.command !== 'string' || !step.command.trim()) {
+        throw new PipelineConfigError(`Step ${stageName}/${stepName} needs a command`);
+      }
+      let cwd: string | undefined;
+      if (step.cwd !== undefined) {
+        cwd = typeof step.cwd === 'string' ? path.normalize(step.cwd) : '';
+        if (!cwd || path.isAbsolute(cwd) || cwd === '..' || cwd.startsWith(`..${path.sep}`)) {
+          throw new PipelineConfigError(`Step ${stageName}/${stepName}: cwd must be a path inside the workspace`);
+        }
+      }
+
+      steps.push({
+        id: `${stageName}/${stepName}`,
+        stage: stageName,
+        name: stepName,
+        command: step.command,
+        env: { ...pipelineEnv, ...stageEnv, ...readEnv(step.env, `step ${stageName}/${stepName}`) },
+        cwd,
+        timeoutMs: readTimeout(step.timeoutMs, pipelineTimeout, `step ${stageName}/${stepName}`),
+        needs: readNames(step.needs, `step ${stageName}/${stepName}`),
+        reports: readReports(step.reports, `step ${stageName}/${stepName}`),
+        coverage: readReports(step.coverage, `step ${stageName}/${stepName}`, 'coverage'),
+        artifacts: readReports(step.artifacts, `step ${stageName}/${stepName}`, 'artifacts'),
+      });
+    }
+
+    stageNeeds.set(stageName, stage.needs === undefined
+      ? stageNames.slice(-1)
+      : readNames(stage.needs, `stage ${stageName}`));
+    stageNames.push(stageName);
+    stageSteps.set(stageName, steps);
+  }
+
+  // Resolve step needs to ids: same-stage step names plus every step of each needed stage
+  for (const stageName of stageNames) {
+    const inherited: string[] = [];
+    for (const needed of stageNeeds.get(stageName)!) {
+      const steps = stageSteps.get(needed);
+      if (!steps || needed === stageName) {
+        throw new PipelineConfigError(`Stage "${stageName}" needs unknown stage "${needed}"`);
+      }
+      inherited.push(...steps.map(s => s.id));
+    }
+    const siblings = stageSteps.get(stageName)!;
+    for (const step of siblings) {
+      const own = step.needs.map(needed => {
+        if (!siblings.some(s => s.name === needed) || needed === step.name) {
+          throw new PipelineConfigError(`Step ${step.id} needs unknown step "${needed}" in stage "${stageName}"`);
+        }
+        return `${stageName}/${needed}`;
+      });
+      step.needs = [...inherited, ...own];
+    }
+  }
+
+  return { name, stages: stageNames, steps: sortSteps(stageNames.flatMap(s => stageSteps.get(s)!)) };
+}
+
+// Kahn's algorithm, keeping declaration order among independent steps
+function sortSteps(steps: PipelineStep[]): PipelineStep[] {
+  const sorted: PipelineStep[] = [];
+  const done = new Set<string>();
+  let remaining = steps;
+
+  while (remaining.length) {
+    const ready = remaining.filter(step => step.needs.every(id => done.has(id)));
+    if (ready.length === 0) {
+      throw new PipelineConfigError(`Dependency cycle between ${remaining.map(s => s.id).join(', ')}`);
+    }
+    ready.forEach(step => done.add(step.id));
+    sorted.push(...ready);
+    remaining = remaining.filter(step => !done.has(step.id));
+  }
+  return sorted;
+}
+
+/**
+ * Pending steps that can start now, and pending steps that never will
+ * because something they need did not pass
+ */
+export function nextSteps(pipeline: Pipeline, statuses: Map<string, StepStatus>): { ready: string[]; skipped: string[] } {
+  const ready: string[] = [];
+  const skipped: string[] = [];
+  const blocked = new Set<string>();
+
+  for (const step of pipeline.steps) {
+    if (statuses.get(step.id) !== 'pending') continue;
+    const needs = step.needs.map(id => statuses.get(id));
+    if (step.needs.some(id => blocked.has(id)) || needs.some(s => s === 'fail' || s === 'skipped' || s === 'cancelled')) {
+      skipped.push(step.id);
+      blocked.add(step.id);
+    } else if (needs.every(s => s === 'pass')) {
+      ready.push(step.id);
+    }
+  }
+  return { ready, skipped };
+}
@@ -0,0 +1,396 @@
+/**
+ * Policy Service - Network Flow Policy Engine
+ * Persistent allow/watch/block rules evaluated against every observed flow,
+ * with match logging and a pluggable enforcement backend (dry-run by default)
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as dns } from 'dns';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { RingBuffer } from '../utils/ringBuffer';
+import { ipInCidr } from '../utils/cidr';
+import { globToRegExp } from '../utils/glob';
+import { Flow, FlowService, FlowStatus, flowService } from './flowService';
+
+export type PolicyAction = FlowStatus;
+export type PolicyRuleSource = 'user' | 'settings';
+
+export interface PolicyRule {
+  id: string;
+  /** Glob matched against the process name (case-insensitive) */
+  process?: string;
+  /** Host glob, IP address or CIDR block */
+  destination?: string;
+  port?: number;
+  action: PolicyAction;
+  /** Lower numbers are evaluated first; the first matching rule wins */
+  priority: number;
+  enabled: boolean;
+  source: PolicyRuleSource;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PolicyRuleInput = Pick<PolicyRule, 'action'> &
+  Partial<Pick<PolicyRule, 'process' | 'destination' | 'port' | 'priority' | 'enabled' | 'description'>>;
+
+export interface PolicyMatch {
+  flowId: string;
+  app: string;
+  dest: string;
+  port: number;
+  ruleId: string;
+  action: PolicyAction;
+  at: string;
+}
+
+export interface EnforcementRecord {
+  flowId: string;
+  ruleId: string;
+  backend: string;
+  applied: boolean;
+  detail: string;
+  at: string;
+}
+
+/**
+ * Enforcement backends turn block decisions into real effects (firewall rules, socket kills, ...)
+ */
+export interface EnforcementBackend {
+  readonly name: string;
+  block(flow: Flow, rule: PolicyRule): Promise<EnforcementRecord>;
+}
+
+/**
+ * Records what would have been blocked without touching the host
+ */
+export class DryRunBackend implements EnforcementBackend {
+  readonly name = 'dry-run';
+
+  async block(flow: Flow, rule: PolicyRule): Promise<EnforcementRecord> {
+    return {
+      flowId: flow.id,
+      ruleId: rule.id,
+      backend: this.name,
+      applied: false,
+      detail: `Would block ${flow.app} -> ${flow.dest}:${flow.port}/${flow.protocol}`,
+      at: new Date().toISOString(),
+    };
+  }
+}
+
+export interface HostLists {
+  allow: string[];
+  deny: string[];
+}
+
+export interface PolicyServiceOptions {
+  file?: string;
+  flows?: FlowService;
+  backend?: EnforcementBackend;
+  defaultAction?: PolicyAction;
+  logSize?: number;
+}
+
+// Settings-derived rules sit ahead of user rules unless a user rule asks for a lower priority
+export const SETTINGS_DENY_PRIORITY = 10;
+export const SETTINGS_ALLOW_PRIORITY = 20;
+export const DEFAULT_RULE_PRIORITY = 100;
+
+const POLICY_ACTIONS: PolicyAction[] = ['allow', 'watch', 'block'];
+
+// Plain hostnames (no wildcard, not an address) are resolved so they can match flows by IP
+function isResolvableHost(destination: string): boolean {
+  return !destination.includes('*') && !destination.includes('?') && !destination.includes('/') && !net.isIP(destination);
+}
+
+/**
+ * Does a rule cover a flow? `resolved` maps hostnames to their known addresses.
+ */
+export function ruleMatches(rule: PolicyRule, flow: Flow, resolved: Map<string, string[]> = new Map()): boolean {
+  if (!rule.enabled) return false;
+  if (rule.port !== undefined && rule.port !== flow.port) return false;
+  if (rule.process && !globToRegExp(rule.process).test(flow.app)) return false;
+
+  if (rule.destination) {
+    const destination = rule.destination;
+    if (destination.includes('/')) {
+      return ipInCidr(flow.dest, destination);
+    }
+    if (globToRegExp(destination).test(flow.dest)) return true;
+    return resolved.get(destination.toLowerCase())?.includes(flow.dest) ?? false;
+  }
+
+  return true;
+}
+
+function describeRule(rule: PolicyRule): string {
+  return `${rule.process || '*'} -> ${rule.destination || '*'}:${rule.port ?? '*'}`;
+}
+
+/**
+ * Policy Service
+ */
+export class PolicyService {
+  private file: string;
+  private flows: FlowService;
+  private backend: EnforcementBackend;
+  private defaultAction: PolicyAction;
+  private rules: PolicyRule[] = [];
+  private resolved = new Map<string, string[]>();
+  private decisions = new Map<string, string>();
+  private matches: RingBuffer<PolicyMatch>;
+  private enforcement: RingBuffer<EnforcementRecord>;
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: PolicyServiceOptions = {}) {
+    this.file = options.file || process.env.POLICY_FILE || path.join(process.cwd(), 'data', 'network-policy.json');
+    this.flows = options.flows || flowService;
+    this.backend = options.backend || new DryRunBackend();
+    const envDefault = process.env.POLICY_DEFAULT_ACTION as PolicyAction | undefined;
+    this.defaultAction = options.defaultAction || (envDefault && POLICY_ACTIONS.includes(envDefault) ? envDefault : 'allow');
+    const logSize = options.logSize ?? parseInt(process.env.POLICY_LOG_SIZE || '1000', 10);
+    this.matches = new RingBuffer<PolicyMatch>(logSize);
+    this.enforcement = new RingBuffer<EnforcementRecord>(logSize);
+
+    this.flows.setEvaluator(flow => this.evaluate(flow));
+    this.flows.on('flow:close', (flow: Flow) => this.decisions.delete(flow.id));
+  }
+
+  /**
+   * Load rules from disk once; a missing file starts with an empty rule set
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile().then(() => {
+        this.resolveHosts();
+        this.flows.reevaluate();
+      });
+    }
+    return this.loading;
+  }
+
+  async listRules(): Promise<PolicyRule[]> {
+    await this.load();
+    return this.sortedRules();
+  }
+
+  async getRule(id: string): Promise<PolicyRule | undefined> {
+    await this.load();
+    return this.rules.find(rule => rule.id === id);
+  }
+
+  async createRule(input: PolicyRuleInput, source: PolicyRuleSource = 'user'): Promise<PolicyRule> {
+    await this.load();
+    const now = new Date().toISOString();
+    const rule: PolicyRule = {
+      id: randomUUID(),
+      process: input.process || undefined,
+      destination: input.destination || undefined,
+      port: input.port,
+      action: input.action,
+      priority: input.priority ?? DEFAULT_RULE_PRIORITY,
+      enabled: input.enabled ?? true,
+      source,
+      description: input.description,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.rules.push(rule);
+    await this.commit();
+    logger.info(`Policy rule created: ${rule.action} ${describeRule(rule)}`);
+    return rule;
+  }
+
+  async updateRule(id: string, changes: Partial<PolicyRuleInput>): Promise<PolicyRule | undefined> {
+    await this.load();
+    const rule = this.rules.find(r => r.id === id);
+    if (!rule) return undefined;
+
+    Object.assign(rule, changes, { updatedAt: new Date().toISOString() });
+    await this.commit();
+    logger.info(`Policy rule updated: ${rule.action} ${describeRule(rule)}`);
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    await this.load();
+    const index = this.rules.findIndex(rule => rule.id === id);
+    if (index === -1) return false;
+
+    const [rule] = this.rules.splice(index, 1);
+    await this.commit();
+    logger.info(`Policy rule deleted: ${rule.action} ${describeRule(rule)}`);
+    return true;
+  }
+
+  /**
+   * Replace the rules derived from the `hostAllowlist`/`hostDenylist` settings
+   */
+  async setHostLists(lists: HostLists): Promise<PolicyRule[]> {
+    await this.load();
+    const now = new Date().toISOString();
+    const fromList = (hosts: string[], action: PolicyAction, priority: number): PolicyRule[] =>
+      Array.from(new Set(hosts.map(h => h.trim()).filter(Boolean))).map(destination => ({
+        id: randomUUID(),
+        destination,
+        action,
+        priority,
+        enabled: true,
+        source: 'settings',
+        description: `From ${action === 'block' ? 'hostDenylist' : 'hostAllowlist'} setting`,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+    this.rules = [
+      ...this.rules.filter(rule => rule.source !== 'settings'),
+      ...fromList(lists.deny, 'block', SETTINGS_DENY_PRIORITY),
+      ...fromList(lists.allow, 'allow', SETTINGS_ALLOW_PRIORITY),
+    ];
+    await this.commit();
+    logger.info(`Policy host lists synced: ${lists.allow.length} allowed, ${lists.deny.length} denied`);
+    return this.sortedRules().filter(rule => rule.source === 'settings');
+  }
+
+  /**
+   * First matching rule (by priority, then age) decides the flow's status.
+   * A match is logged (and enforced) only when the deciding rule changes for a flow.
+   */
+  evaluate(flow: Flow): PolicyAction {
+    const rule = this.sortedRules().find(r => ruleMatches(r, flow, this.resolved));
+    if (!rule) {
+      this.decisions.delete(flow.id);
+      return this.defaultAction;
+    }
+    if (this.decisions.get(flow.id) === rule.id) return rule.action;
+    this.decisions.set(flow.id, rule.id);
+
+    const match: PolicyMatch = {
+      flowId: flow.id,
+      app: flow.app,
+      dest: flow.dest,
+      port: flow.port,
+      ruleId: rule.id,
+      action: rule.action,
+      at: new Date().toISOString(),
+    };
+    this.matches.push(match);
+    logger.info(`Policy ${rule.action}: ${flow.app} -> ${flow.dest}:${flow.port} (rule ${rule.id})`);
+
+    if (rule.action === 'block') {
+      this.backend.block(flow, rule)
+        .then(record => this.enforcement.push(record))
+        .catch(error => logger.error(`Enforcement backend ${this.backend.name} failed:`, error));
+    }
+    return rule.action;
+  }
+
+  /**
+   * Add a block rule for exactly this flow's process and endpoint
+   */
+  async blockFlow(flow: Flow): Promise<PolicyRule> {
+    return this.createRule({
+      process: flow.app,
+      destination: flow.dest,
+      port: flow.port,
+      action: 'block',
+      description: `Blocked from flow ${flow.id}`,
+    });
+  }
+
+  setBackend(backend: EnforcementBackend): void {
+    this.backend = backend;
+    logger.info(`Policy enforcement backend: ${backend.name}`);
+  }
+
+  getBackendName(): string {
+    return this.backend.name;
+  }
+
+  getDefaultAction(): PolicyAction {
+    return this.defaultAction;
+  }
+
+  /**
+   * Recent rule matches, newest first
+   */
+  getMatches(limit?: number): PolicyMatch[] {
+    const matches = this.matches.toArray().reverse();
+    return limit === undefined ? matches : matches.slice(0, limit);
+  }
+
+  getEnforcementLog(limit?: number): EnforcementRecord[] {
+    const records = this.enforcement.toArray().reverse();
+    return limit === undefined ? records : records.slice(0, limit);
+  }
+
+  private sortedRules(): PolicyRule[] {
+    return [...this.rules].sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private async readFile(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      this.rules = Array.isArray(parsed.rules) ? parsed.rules : [];
+      logger.info(`Loaded ${this.rules.length} policy rules from ${this.file}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to read policy file ${this.file}:`, error);
+      }
+      this.rules = [];
+    }
+  }
+
+  /**
+   * Persist atomically, then re-apply the rules to every active flow. Writes are chained so
+   * concurrent updates never share the tmp file.
+   */
+  private async commit(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify({ version: 1, rules: this.rules }, null, 2), 'utf8');
+        await fs.rename(tmp, this.file);
+      });
+    await this.saving;
+
+    this.resolveHosts();
+    this.flows.reevaluate();
+  }
+
+  // Resolution runs in the background; flows are re-evaluated once addresses arrive
+  private resolveHosts(): void {
+    const hosts = new Set(
+      this.rules
+        .filter(rule => rule.destination && isResolvableHost(rule.destination))
+        .map(rule => rule.destination!.toLowerCase())
+    );
+
+    for (const host of this.resolved.keys()) {
+      if (!hosts.has(host)) this.resolved.delete(host);
+    }
+
+    const pending = Array.from(hosts).filter(host => !this.resolved.has(host));
+    if (pending.length === 0) return;
+
+    Promise.all(pending.map(async host => {
+      try {
+        const addresses = await dns.lookup(host, { all: true });
+        this.resolved.set(host, addresses.map(a => a.address));
+      } catch {
+        this.resolved.set(host, []);
+      }
+    })).then(() => this.flows.reevaluate());
+  }
+}
+
+// Singleton instance
+export const policyService = new PolicyService();
@@ -0,0 +1,285 @@
+/**
+ * Redaction Service
+ * Masks secrets in log entries, execution output, WebSocket messages and LLM prompts
+ * with pluggable detectors, and keeps an audit of how much was redacted (never what)
+ */
+
+import { RingBuffer } from '../utils/ringBuffer';
+
+export type RedactionScope = 'logs' | 'execution' | 'websocket' | 'llm';
+
+export interface SecretDetector {
+  id: string;
+  /** Must carry the `g` flag */
+  pattern: RegExp;
+  /** Capture group 1 is kept and only the remainder of the match is masked (e.g. `API_KEY=`) */
+  keepPrefix?: boolean;
+  /** Final check on the candidate secret; rejected matches are left alone */
+  accept?: (secret: string) => boolean;
+}
+
+/** Mirrors the `logRedactSecrets`, `secretRedaction` and `llmExcludeSecrets` workspace settings */
+export interface RedactionSettings {
+  logRedactSecrets: boolean;
+  secretRedaction: boolean;
+  llmExcludeSecrets: boolean;
+  customPatterns: string[];
+}
+
+export interface RedactionResult {
+  text: string;
+  count: number;
+  detectors: Record<string, number>;
+}
+
+export interface RedactionAuditRecord {
+  id: number;
+  scope: RedactionScope;
+  context?: string;
+  count: number;
+  detectors: Record<string, number>;
+  timestamp: string;
+}
+
+export interface RedactionAudit {
+  total: number;
+  byScope: Record<string, number>;
+  byDetector: Record<string, number>;
+  recent: RedactionAuditRecord[];
+}
+
+export interface RedactionServiceOptions {
+  settings?: Partial<RedactionSettings>;
+  entropyThreshold?: number;
+  auditSize?: number;
+}
+
+export class InvalidRedactionPatternError extends Error {
+  constructor(public readonly pattern: string, reason: string) {
+    super(`Invalid redaction pattern "${pattern}": ${reason}`);
+    this.name = 'InvalidRedactionPatternError';
+  }
+}
+
+const ENV_SECRET_NAME = '(?:[A-Z0-9]+_)*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?|AUTH)(?:_[A-Z0-9]+)*';
+
+/**
+ * Bits of entropy per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Built-in detectors, most specific first; the high-entropy catch-all runs last
+ */
+export function builtInDetectors(entropyThreshold: number): SecretDetector[] {
+  return [
+    {
+      id: 'private-key',
+      pattern: /-----BEGIN ([A-Z ]*PRIVATE KEY(?: BLOCK)?)-----[\s\S]*?-----END \1-----/g,
+    },
+    {
+      id: 'jwt',
+      pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g,
+    },
+    {
+      id: 'aws-access-key',
+      pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g,
+    },
+    {
+      id: 'aws-secret-key',
+      pattern: /(aws_?secret_?access_?key["']?\s*[=:]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+      keepPrefix: true,
+    },
+    {
+      id: 'env-assignment',
+      pattern: new RegExp(`^(\\s*(?:export\\s+)?${ENV_SECRET_NAME}\\s*=\\s*)(\\S+)`, 'gm'),
+      keepPrefix: true,
+      accept: secret => !/^(["'])\1$/.test(secret),
+    },
+    {
+      id: 'high-entropy',
+      pattern: /[A-Za-z0-9+/_=-]{24,}/g,
+      // Mixed case plus digits keeps hex digests, UUIDs and plain paths out
+      accept: secret =>
+        /[a-z]/.test(secret) && /[A-Z]/.test(secret) && /\d/.test(secret) &&
+        shannonEntropy(secret) >= entropyThreshold,
+    },
+  ];
+}
+
+function compileCustomPattern(pattern: string): RegExp {
+  try {
+    const regex = new RegExp(pattern, 'g');
+    if (regex.test('')) throw new Error('pattern matches the empty string');
+    return regex;
+  } catch (error) {
+    throw new InvalidRedactionPatternError(pattern, (error as Error).message);
+  }
+}
+
+/**
+ * Redaction Service
+ */
+export class RedactionService {
+  private settings: RedactionSettings;
+  private detectors: SecretDetector[];
+  private customDetectors: SecretDetector[] = [];
+  private audit: RingBuffer<RedactionAuditRecord>;
+  private nextAuditId = 1;
+  private total = 0;
+  private byScope: Record<string, number> = {};
+  private byDetector: Record<string, number> = {};
+
+  constructor(options: RedactionServiceOptions = {}) {
+    const entropyThreshold = options.entropyThreshold ?? parseFloat(process.env.REDACTION_ENTROPY_THRESHOLD || '4.0');
+    this.detectors = builtInDetectors(entropyThreshold);
+    this.audit = new RingBuffer<RedactionAuditRecord>(options.auditSize ?? parseInt(process.env.REDACTION_AUDIT_SIZE || '500', 10));
+    this.settings = { logRedactSecrets: true, secretRedaction: true, llmExcludeSecrets: true, customPatterns: [] };
+    this.updateSettings(options.settings ?? {});
+  }
+
+  getSettings(): RedactionSettings {
+    return { ...this.settings, customPatterns: [...this.settings.customPatterns] };
+  }
+
+  /**
+   * Apply settings pushed from the frontend; throws InvalidRedactionPatternError before changing anything
+   */
+  updateSettings(update: Partial<RedactionSettings>): RedactionSettings {
+    const customPatterns = update.customPatterns ?? this.settings.customPatterns;
+    const customDetectors = customPatterns.map((pattern, index) => ({
+      id: `custom:${index + 1}`,
+      pattern: compileCustomPattern(pattern),
+    }));
+
+    this.settings = { ...this.settings, ...update, customPatterns: [...customPatterns] };
+    this.customDetectors = customDetectors;
+    return this.getSettings();
+  }
+
+  /**
+   * Register an additional detector (runs before the high-entropy catch-all)
+   */
+  addDetector(detector: SecretDetector): void {
+    this.detectors.splice(this.detectors.length - 1, 0, detector);
+  }
+
+  isEnabled(scope: RedactionScope): boolean {
+    switch (scope) {
+      case 'logs':
+        return this.settings.logRedactSecrets;
+      case 'llm':
+        return this.settings.llmExcludeSecrets;
+      default:
+        return this.settings.secretRedaction;
+    }
+  }
+
+  /**
+   * Mask secrets in text without touching the audit
+   */
+  scan(text: string): RedactionResult {
+    const detectors: Record<string, number> = {};
+    let count = 0;
+    let output = text;
+
+    // Custom patterns run before the entropy catch-all so they get the credit
+    const all = [...this.detectors.slice(0, -1), ...this.customDetectors, ...this.detectors.slice(-1)];
+    for (const detector of all) {
+      detector.pattern.lastIndex = 0;
+      output = output.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+        const prefix = detector.keepPrefix && typeof groups[0] === 'string' ? groups[0] : '';
+        const secret = match.slice(prefix.length);
+        // Values already masked by an earlier detector are not counted twice
+        if (!secret || secret.startsWith('[REDACTED:') || (detector.accept && !detector.accept(secret))) return match;
+
+        count++;
+        detectors[detector.id] = (detectors[detector.id] ?? 0) + 1;
+        return `${prefix}[REDACTED:${detector.id}]`;
+      });
+    }
+
+    return { text: output, count, detectors };
+  }
+
+  /**
+   * Redact text for a scope (no-op when that scope's setting is off) and record the count
+   */
+  redact(text: string, scope: RedactionScope, context?: string): RedactionResult {
+    if (!text || !this.isEnabled(scope)) return { text, count: 0, detectors: {} };
+    const result = this.scan(text);
+    this.record(scope, result, context);
+    return result;
+  }
+
+  redactText(text: string, scope: RedactionScope, context?: string): string {
+    return this.redact(text, scope, context).text;
+  }
+
+  /**
+   * Redact every string inside a JSON-like value; one audit record per call
+   */
+  redactValue<T>(value: T, scope: RedactionScope, context?: string): T {
+    if (!this.isEnabled(scope)) return value;
+
+    const total: RedactionResult = { text: '', count: 0, detectors: {} };
+    const walk = (current: unknown): unknown => {
+      if (typeof current === 'string') {
+        const result = this.scan(current);
+        total.count += result.count;
+        for (const [id, n] of Object.entries(result.detectors)) {
+          total.detectors[id] = (total.detectors[id] ?? 0) + n;
+        }
+        return result.text;
+      }
+      if (Array.isArray(current)) return current.map(walk);
+      if (current && typeof current === 'object' && !(current instanceof Date)) {
+        return Object.fromEntries(Object.entries(current).map(([key, v]) => [key, walk(v)]));
+      }
+      return current;
+    };
+
+    const redacted = walk(value) as T;
+    this.record(scope, total, context);
+    return total.count ? redacted : value;
+  }
+
+  getAudit(limit = 100): RedactionAudit {
+    return {
+      total: this.total,
+      byScope: { ...this.byScope },
+      byDetector: { ...this.byDetector },
+      recent: limit > 0 ? this.audit.toArray().slice(-limit).reverse() : [],
+    };
+  }
+
+  private record(scope: RedactionScope, result: RedactionResult, context?: string): void {
+    if (!result.count) return;
+
+    this.total += result.count;
+    this.byScope[scope] = (this.byScope[scope] ?? 0) + result.count;
+    for (const [id, n] of Object.entries(result.detectors)) {
+      this.byDetector[id] = (this.byDetector[id] ?? 0) + n;
+    }
+    this.audit.push({
+      id: this.nextAuditId++,
+      scope,
+      context,
+      count: result.count,
+      detectors: result.detectors,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// Singleton instance
+export const redactionService = new RedactionService();
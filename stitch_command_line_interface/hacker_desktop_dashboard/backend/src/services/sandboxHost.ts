@@ -0,0 +1,230 @@
+/**
+ * Sandbox Host
+ * The allowlisted host API of one isolated-vm run: setTimeout/clearTimeout, a read-only
+ * workspace `fs` and a `fetch` gated by the networkAccess setting. Also links the run's
+ * imports to workspace modules.
+ */
+
+import ivm from 'isolated-vm';
+import * as path from 'path';
+import { workspaceService, WorkspaceService } from './workspaceService';
+import { findWorkspaceFile, loadModuleSource, toWorkspacePath } from './sandboxModules';
+import { NetworkAccess, sandboxFetch, SandboxFetchInit } from './sandboxNetwork';
+
+export interface SandboxHostOptions {
+  networkAccess: NetworkAccess;
+  fetchTimeoutMs: number;
+  fetchMaxBytes: number;
+  /** Timers that may be pending at once */
+  maxTimers: number;
+  workspace?: WorkspaceService;
+}
+
+/**
+ * Installs the globals inside the isolate and returns the function the host calls when a timer
+ * is due. Host functions arrive as References; results cross as copies.
+ */
+const BOOTSTRAP = `(function (schedule, cancel, readFile, readdir, fetchUrl) {
+  const timers = new Map();
+  let nextTimer = 0;
+  const copy = { result: { promise: true, copy: true } };
+
+  globalThis.setTimeout = (callback, delay = 0, ...args) => {
+    if (typeof callback !== 'function') throw new TypeError('setTimeout callback must be a function');
+    const id = ++nextTimer;
+    timers.set(id, () => callback(...args));
+    schedule.applySync(undefined, [id, Number(delay) || 0]);
+    return id;
+  };
+  globalThis.clearTimeout = (id) => {
+    if (timers.delete(id)) cancel.applySync(undefined, [id]);
+  };
+
+  globalThis.fs = Object.freeze({
+    readFile: (file) => readFile.apply(undefined, [String(file)], copy),
+    readdir: (dir = '') => readdir.apply(undefined, [String(dir)], copy),
+  });
+
+  globalThis.fetch = async (url, init = {}) => {
+    const request = JSON.stringify({ method: init.method, headers: init.headers, body: init.body });
+    const response = JSON.parse(await fetchUrl.apply(undefined, [String(url), request], copy));
+    return Object.freeze({
+      url: response.url,
+      status: response.status,
+      statusText: response.statusText,
+      ok: response.status >= 200 && response.status < 300,
+      headers: { get: (name) => response.headers[String(name).toLowerCase()] ?? null },
+      text: async () => response.body,
+      json: async () => JSON.parse(response.body),
+    });
+  };
+
+  return (id) => {
+    const callback = timers.get(id);
+    timers.delete(id);
+    if (callback) callback();
+  };
+})`;
+
+/**
+ * Sandbox Host
+ * One per run; `dispose` before disposing the isolate
+ */
+export class SandboxHost {
+  private workspace: WorkspaceService;
+  private references: ivm.Reference[] = [];
+  private fire?: ivm.Reference<(id: number) => void>;
+  private timers: Map<number, NodeJS.Timeout> = new Map();
+  /** Timer callbacks running in the isolate */
+  private firing = 0;
+  private idleWaiters: Array<() => void> = [];
+  /** First error thrown by a timer callback */
+  private timerError?: Error;
+  /** Workspace path of each compiled module, which its relative imports resolve against */
+  private modulePaths: Map<ivm.Module, string> = new Map();
+  private modulesByPath: Map<string, Promise<ivm.Module>> = new Map();
+
+  constructor(private isolate: ivm.Isolate, private context: ivm.Context, private options: SandboxHostOptions) {
+    this.workspace = options.workspace || workspaceService;
+  }
+
+  /**
+   * Define setTimeout, clearTimeout, fs and fetch in the context
+   */
+  async install(): Promise<void> {
+    const api = [
+      (id: number, delay: number) => this.schedule(id, delay),
+      (id: number) => this.cancel(id),
+      (file: string) => this.readFile(file),
+      (dir: string) => this.readdir(dir),
+      (url: string, init: string) => this.fetch(url, init),
+    ].map(fn => new ivm.Reference(fn));
+    this.references.push(...api);
+
+    const bootstrap = await this.context.eval(BOOTSTRAP, { reference: true });
+    this.references.push(bootstrap);
+    const fire = await bootstrap.apply(undefined, api, { result: { reference: true } }) as ivm.Reference<(id: number) => void>;
+    this.references.push(fire);
+    this.fire = fire;
+  }
+
+  /**
+   * Compile module code; `modulePath` is the workspace path its imports are relative to
+   */
+  async compileModule(code: string, modulePath: string, filename: string = modulePath): Promise<ivm.Module> {
+    const module = await this.isolate.compileModule(code, { filename });
+    this.modulePaths.set(module, modulePath);
+    return module;
+  }
+
+  /**
+   * Link a module's imports to workspace files and evaluate it
+   */
+  async runModule(module: ivm.Module, timeout: number): Promise<void> {
+    await module.instantiate(this.context, (specifier, referrer) => this.resolveImport(specifier, referrer));
+    await module.evaluate({ timeout });
+  }
+
+  /**
+   * Resolve once no timer is pending or running; rejects with the first error a timer callback threw
+   */
+  async settled(): Promise<void> {
+    if (this.timers.size > 0 || this.firing > 0) {
+      await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+    }
+    if (this.timerError) {
+      throw this.timerError;
+    }
+  }
+
+  dispose(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    for (const reference of this.references) {
+      reference.release();
+    }
+    this.references = [];
+    for (const module of this.modulePaths.keys()) {
+      module.release();
+    }
+    this.modulePaths.clear();
+    this.modulesByPath.clear();
+
+    // Nothing is left to wait for
+    for (const resolve of this.idleWaiters.splice(0)) {
+      resolve();
+    }
+  }
+
+  private async resolveImport(specifier: string, referrer: ivm.Module): Promise<ivm.Module> {
+    const source = await loadModuleSource(specifier, this.modulePaths.get(referrer) ?? '', this.workspace);
+    let module = this.modulesByPath.get(source.path);
+    if (!module) {
+      module = this.compileModule(source.code, source.path);
+      this.modulesByPath.set(source.path, module);
+    }
+    return module;
+  }
+
+  private schedule(id: number, delay: number): void {
+    if (this.timers.size >= this.options.maxTimers) {
+      throw new Error(`Too many pending timers (max ${this.options.maxTimers})`);
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(id);
+      this.firing++;
+      this.fire!.apply(undefined, [id])
+        .catch((error: Error) => {
+          this.timerError = this.timerError ?? error;
+        })
+        .finally(() => {
+          this.firing--;
+          this.notifyIfIdle();
+        });
+    }, Math.max(0, delay));
+    timer.unref();
+    this.timers.set(id, timer);
+  }
+
+  private cancel(id: number): void {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.notifyIfIdle();
+  }
+
+  private notifyIfIdle(): void {
+    if (this.timers.size === 0 && this.firing === 0) {
+      for (const resolve of this.idleWaiters.splice(0)) {
+        resolve();
+      }
+    }
+  }
+
+  private async readFile(file: string): Promise<string> {
+    const filePath = toWorkspacePath(file);
+    if (!await findWorkspaceFile(filePath, this.workspace)) {
+      throw new Error(`ENOENT: no such file in the workspace: ${file}`);
+    }
+    return (await this.workspace.readFile(filePath)).content;
+  }
+
+  private async readdir(dir: string): Promise<string[]> {
+    const dirPath = toWorkspacePath(dir);
+    const entries = await this.workspace.listFiles(dirPath === '.' ? '' : dirPath).catch(() => {
+      throw new Error(`ENOENT: no such directory in the workspace: ${dir}`);
+    });
+    return entries.map(entry => path.posix.basename(entry.path));
+  }
+
+  private async fetch(url: string, init: string): Promise<string> {
+    const response = await sandboxFetch(url, JSON.parse(init) as SandboxFetchInit, {
+      access: this.options.networkAccess,
+      timeoutMs: this.options.fetchTimeoutMs,
+      maxBytes: this.options.fetchMaxBytes,
+    });
+    return JSON.stringify(response);
+  }
+}
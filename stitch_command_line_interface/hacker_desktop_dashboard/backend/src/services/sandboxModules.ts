@@ -0,0 +1,97 @@
+/**
+ * Sandbox Modules
+ * Resolves the imports of sandboxed JavaScript and TypeScript against the workspace and loads
+ * their source through workspaceService. Only relative and workspace-absolute specifiers resolve;
+ * files the workspace listing hides (.env, node_modules, .git, ...) are never read.
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import { workspaceService, WorkspaceService } from './workspaceService';
+import { transpileTypeScript } from './typescriptTranspiler';
+
+export interface SandboxModuleSource {
+  /** Workspace-relative path */
+  path: string;
+  /** JavaScript module code */
+  code: string;
+}
+
+export class SandboxModuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxModuleError';
+  }
+}
+
+/** Tried in order after the specifier itself */
+const MODULE_SUFFIXES = ['.js', '.mjs', '.ts', '.json', '/index.js', '/index.ts'];
+
+/**
+ * Whether code has import or export statements and must run as a module
+ */
+export function isModuleSource(code: string): boolean {
+  return ts.isExternalModule(ts.createSourceFile('main.ts', code, ts.ScriptTarget.ES2020));
+}
+
+/**
+ * Workspace path a specifier names, relative to the importing module's path
+ */
+export function resolveModuleSpecifier(specifier: string, referrer: string): string {
+  if (!/^\.{0,2}\//.test(specifier)) {
+    throw new SandboxModuleError(`Cannot import '${specifier}': only relative and workspace paths can be imported`);
+  }
+
+  const resolved = specifier.startsWith('/')
+    ? path.posix.normalize(specifier.replace(/^\/+/, '') || '.')
+    : path.posix.join(path.posix.dirname(referrer.replace(/^\/+/, '')), specifier);
+
+  if (resolved === '..' || resolved.startsWith('../')) {
+    throw new SandboxModuleError(`Cannot import '${specifier}' from ${referrer}: outside the workspace`);
+  }
+  return resolved;
+}
+
+/**
+ * Workspace-relative path for a path sandboxed code passes to `fs`
+ */
+export function toWorkspacePath(filePath: string): string {
+  return resolveModuleSpecifier(`/${filePath}`, '');
+}
+
+/**
+ * A workspace file, if it exists and the workspace listing shows it
+ */
+export async function findWorkspaceFile(filePath: string, workspace: WorkspaceService = workspaceService): Promise<string | undefined> {
+  const dir = path.posix.dirname(filePath);
+  const entries = await workspace.listFiles(dir === '.' ? '' : dir).catch(() => []);
+  const name = path.posix.basename(filePath);
+  return entries.find(entry => entry.name === name && entry.type === 'file') ? filePath : undefined;
+}
+
+/**
+ * Load an imported module as JavaScript: TypeScript is transpiled and JSON becomes a default export
+ */
+export async function loadModuleSource(
+  specifier: string,
+  referrer: string,
+  workspace: WorkspaceService = workspaceService,
+): Promise<SandboxModuleSource> {
+  const base = resolveModuleSpecifier(specifier, referrer);
+
+  for (const candidate of [base, ...MODULE_SUFFIXES.map(suffix => `${base}${suffix}`)]) {
+    if (!await findWorkspaceFile(candidate, workspace)) continue;
+
+    const { content } = await workspace.readFile(candidate);
+    switch (path.posix.extname(candidate)) {
+      case '.ts':
+        return { path: candidate, code: transpileTypeScript(content).code };
+      case '.json':
+        return { path: candidate, code: `export default ${JSON.stringify(JSON.parse(content))};` };
+      default:
+        return { path: candidate, code: content };
+    }
+  }
+
+  throw new SandboxModuleError(`Cannot find module '${specifier}' imported from ${referrer}`);
+}
@@ -0,0 +1,163 @@
+/**
+ * Sandbox Network
+ * The `fetch` behind sandboxed code, gated by the workspace's networkAccess setting:
+ * `off` refuses every request, `internal-only` allows hosts that resolve only to private
+ * addresses, and `full` allows any http(s) host. No mode reaches loopback or link-local addresses
+ * (the backend itself, cloud metadata endpoints). Requests connect to the address that was
+ * checked, so a host cannot pass the check and then resolve elsewhere.
+ */
+
+import { promises as dns } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { ipInCidr } from '../utils/cidr';
+
+export type NetworkAccess = 'off' | 'internal-only' | 'full';
+
+/** Least to most permissive */
+export const NETWORK_ACCESS_MODES: NetworkAccess[] = ['off', 'internal-only', 'full'];
+
+export interface SandboxFetchInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/** What sandboxed code gets back; the sandbox wraps it in a Response-like object */
+export interface SandboxFetchResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface SandboxFetchOptions {
+  access: NetworkAccess;
+  timeoutMs: number;
+  maxBytes: number;
+  /** All addresses of a host name */
+  lookup?: (hostname: string) => Promise<string[]>;
+  /** CIDR ranges no mode may reach; defaults to loopback and link-local */
+  blockedRanges?: string[];
+}
+
+export class SandboxNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxNetworkError';
+  }
+}
+
+const INTERNAL_RANGES = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'];
+const BLOCKED_RANGES = ['0.0.0.0/8', '127.0.0.0/8', '169.254.0.0/16', '::/128', '::1/128', 'fe80::/10'];
+
+const lookupAll = async (hostname: string): Promise<string[]> =>
+  (await dns.lookup(hostname, { all: true })).map(({ address }) => address);
+
+/**
+ * Whether an address (IPv4-mapped IPv6 included) is in one of the ranges
+ */
+function inRanges(address: string, ranges: string[]): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  return ranges.some(range => ipInCidr(ip, range));
+}
+
+export function isInternalAddress(address: string): boolean {
+  return inRanges(address, INTERNAL_RANGES);
+}
+
+/**
+ * Throw SandboxNetworkError unless the access mode allows requesting the URL; returns the
+ * address the request must connect to
+ */
+export async function assertNetworkAccess(
+  url: URL,
+  access: NetworkAccess,
+  lookup: (hostname: string) => Promise<string[]> = lookupAll,
+  blockedRanges: string[] = BLOCKED_RANGES,
+): Promise<string> {
+  if (access === 'off') {
+    throw new SandboxNetworkError('Network access is disabled for sandboxed code');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SandboxNetworkError(`Unsupported protocol: ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname) ? [hostname] : await lookup(hostname).catch(() => []);
+  if (addresses.length === 0) {
+    throw new SandboxNetworkError(`Cannot resolve ${url.hostname}`);
+  }
+  if (addresses.some(address => inRanges(address, blockedRanges))) {
+    throw new SandboxNetworkError(`${url.hostname} is a loopback or link-local address, which sandboxed code cannot reach`);
+  }
+  if (access === 'internal-only' && !addresses.every(isInternalAddress)) {
+    throw new SandboxNetworkError(`${url.hostname} is not an internal host; network access is internal-only`);
+  }
+  return addresses[0];
+}
+
+/**
+ * Fetch on behalf of sandboxed code. Redirects are returned rather than followed, so every
+ * host reached passes the access check.
+ */
+export async function sandboxFetch(input: string, init: SandboxFetchInit, options: SandboxFetchOptions): Promise<SandboxFetchResponse> {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new SandboxNetworkError(`Invalid URL: ${input}`);
+  }
+  const address = await assertNetworkAccess(url, options.access, options.lookup, options.blockedRanges);
+  const family = net.isIP(address);
+
+  // Connect to the checked address instead of resolving the host again
+  const pinnedLookup = ((_hostname: string, lookupOptions: { all?: boolean }, callback: (...args: unknown[]) => void) =>
+    lookupOptions.all ? callback(null, [{ address, family }]) : callback(null, address, family)) as unknown as net.LookupFunction;
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: init.method || 'GET',
+      headers: init.headers,
+      lookup: pinnedLookup,
+      signal: AbortSignal.timeout(options.timeoutMs),
+    }, response => {
+      readBody(response, options.maxBytes).then(body => resolve({
+        url: url.toString(),
+        status: response.statusCode ?? 0,
+        statusText: response.statusMessage ?? '',
+        headers: Object.fromEntries(Object.entries(response.headers).map(([name, value]) => [name, ([] as string[]).concat(value ?? []).join(', ')])),
+        body: body.toString('utf8'),
+      }), error => {
+        request.destroy();
+        reject(error);
+      });
+    });
+    request.on('error', reject);
+    request.end(init.body);
+  });
+}
+
+/**
+ * Counted as it arrives, so a chunked or endless body is cut off at the limit
+ */
+async function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const length = parseInt(response.headers['content-length'] || '0', 10);
+  if (length > maxBytes) {
+    throw new SandboxNetworkError(`Response of ${length} bytes exceeds the ${maxBytes} byte limit`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new SandboxNetworkError(`Response exceeds the ${maxBytes} byte limit`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
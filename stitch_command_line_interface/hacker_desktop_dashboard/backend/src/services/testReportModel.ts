@@ -0,0 +1,212 @@
+/**
+ * Test Report Model
+ * Parses JUnit XML and Jest/Vitest JSON reports into one list of test case results
+ */
+
+import path from 'path';
+
+export type TestOutcome = 'pass' | 'fail' | 'skip';
+
+export interface TestCaseResult {
+  /** `<suite or file>::<name>`, stable across runs */
+  id: string;
+  suite: string;
+  name: string;
+  file?: string;
+  status: TestOutcome;
+  durationMs: number;
+  /** First line of the failure message */
+  message?: string;
+}
+
+export type TestReportFormat = 'junit' | 'jest';
+
+export class TestReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TestReportError';
+  }
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attrs;
+}
+
+function firstLine(text: string | undefined): string | undefined {
+  const line = text?.trim().split('\n')[0].trim();
+  return line ? line.slice(0, 500) : undefined;
+}
+
+function caseId(suite: string, name: string): string {
+  return `${suite}::${name}`;
+}
+
+// Tags (attribute values may contain '>'), CDATA, comments and processing instructions
+const XML_TOKEN = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>/g;
+
+/**
+ * JUnit XML as written by jest-junit, vitest, pytest, surefire and friends.
+ * Only `testsuite`, `testcase` and their `failure`/`error`/`skipped` children matter.
+ */
+export function parseJUnitXml(xml: string): TestCaseResult[] {
+  const results: TestCaseResult[] = [];
+  const suites: Array<Record<string, string>> = [];
+  let current: (TestCaseResult & { detail: string }) | null = null;
+  let capturing = false;
+  let lastIndex = 0;
+  let sawRoot = false;
+
+  const closeCase = () => {
+    if (!current) return;
+    const { detail, ...result } = current;
+    if (result.status === 'fail' && !result.message) result.message = firstLine(detail);
+    results.push(result);
+    current = null;
+  };
+
+  for (const match of xml.matchAll(XML_TOKEN)) {
+    if (capturing && current) {
+      current.detail += decodeEntities(xml.slice(lastIndex, match.index));
+    }
+    lastIndex = match.index! + match[0].length;
+
+    if (match[5] !== undefined) {
+      if (capturing && current) current.detail += match[5];
+      continue;
+    }
+    if (!match[2]) continue;
+
+    const [, closing, tag, attrSource, selfClosing] = match;
+    if (tag === 'testsuites' || tag === 'testsuite') sawRoot = true;
+
+    if (closing) {
+      if (tag === 'testsuite') suites.pop();
+      else if (tag === 'testcase') closeCase();
+      else if (tag === 'failure' || tag === 'error') capturing = false;
+      continue;
+    }
+
+    const attrs = parseAttributes(attrSource);
+    if (tag === 'testsuite') {
+      if (!selfClosing) suites.push(attrs);
+    } else if (tag === 'testcase') {
+      closeCase();
+      const suiteAttrs = suites[suites.length - 1] ?? {};
+      const suite = attrs.classname || suiteAttrs.name || 'default';
+      const name = attrs.name || 'unnamed';
+      const time = parseFloat(attrs.time || '0');
+      const file = attrs.file || suiteAttrs.file;
+      current = {
+        id: caseId(suite, name),
+        suite,
+        name,
+        ...(file ? { file } : {}),
+        status: 'pass',
+        durationMs: Number.isFinite(time) ? Math.round(time * 1000) : 0,
+        detail: '',
+      };
+      if (selfClosing) closeCase();
+    } else if (current && (tag === 'failure' || tag === 'error')) {
+      current.status = 'fail';
+      current.message = current.message ?? firstLine(attrs.message);
+      if (!selfClosing) capturing = true;
+    } else if (current && tag === 'skipped' && current.status !== 'fail') {
+      current.status = 'skip';
+    }
+  }
+
+  if (!sawRoot) {
+    throw new TestReportError('Not a JUnit report: no <testsuite> or <testsuites> element');
+  }
+  closeCase();
+  return results;
+}
+
+interface JestAssertion {
+  title?: string;
+  fullName?: string;
+  ancestorTitles?: string[];
+  status?: string;
+  duration?: number | null;
+  failureMessages?: string[];
+}
+
+const JEST_STATUS: Record<string, TestOutcome> = {
+  passed: 'pass',
+  failed: 'fail',
+  pending: 'skip',
+  skipped: 'skip',
+  todo: 'skip',
+  disabled: 'skip',
+  focused: 'pass',
+};
+
+/**
+ * Jest `--json` output; Vitest's `json` reporter writes the same shape.
+ * File paths are made relative to `baseDir` so ids survive checkouts in other places.
+ */
+export function parseJestJson(json: unknown, baseDir?: string): TestCaseResult[] {
+  const report = json as { testResults?: Array<{ name?: string; assertionResults?: JestAssertion[] }> };
+  if (!report || !Array.isArray(report.testResults)) {
+    throw new TestReportError('Not a Jest/Vitest JSON report: missing testResults');
+  }
+
+  const results: TestCaseResult[] = [];
+  for (const file of report.testResults) {
+    const filePath = file.name && baseDir && path.isAbsolute(file.name) ? path.relative(baseDir, file.name) : file.name;
+    const suite = filePath || 'default';
+    for (const assertion of file.assertionResults ?? []) {
+      const name = assertion.fullName || [...(assertion.ancestorTitles ?? []), assertion.title ?? 'unnamed'].join(' ');
+      const status = JEST_STATUS[assertion.status ?? ''] ?? 'skip';
+      results.push({
+        id: caseId(suite, name),
+        suite,
+        name,
+        ...(filePath ? { file: filePath } : {}),
+        status,
+        durationMs: Math.round(assertion.duration ?? 0),
+        ...(status === 'fail' ? { message: firstLine(assertion.failureMessages?.[0]) } : {}),
+      });
+    }
+  }
+  return results;
+}
+
+export function detectReportFormat(text: string): TestReportFormat {
+  const start = text.trimStart()[0];
+  if (start === '<') return 'junit';
+  if (start === '{') return 'jest';
+  throw new TestReportError('Unrecognized test report: expected JUnit XML or Jest/Vitest JSON');
+}
+
+/**
+ * Parse a report file's contents, whichever supported format it is in
+ */
+export function parseTestReport(text: string, baseDir?: string): TestCaseResult[] {
+  if (detectReportFormat(text) === 'junit') {
+    return parseJUnitXml(text);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new TestReportError(`Invalid JSON report: ${(error as Error).message}`);
+  }
+  return parseJestJson(json, baseDir);
+}
@@ -0,0 +1,269 @@
+/**
+ * Test Results Service
+ * Per-test history across CI runs, flaky detection (outcome flips on one commit)
+ * and slowest/failing/flaky views
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { TestCaseResult, TestOutcome } from './testReportModel';
+import { logger } from '../utils/logger';
+
+export interface TestExecution {
+  runId: string;
+  /** Commit the run tested; runs outside a repository are keyed by run id instead */
+  commit?: string;
+  stepId: string;
+  attempt: number;
+  status: TestOutcome;
+  durationMs: number;
+  message?: string;
+  at: string;
+}
+
+export interface TestRecord {
+  id: string;
+  suite: string;
+  name: string;
+  file?: string;
+  /** Oldest first, capped at the history size */
+  history: TestExecution[];
+}
+
+export interface TestCounts {
+  pass: number;
+  fail: number;
+  skip: number;
+  flaky: number;
+}
+
+export type TestSummary = Omit<TestRecord, 'history'> & {
+  runs: number;
+  lastStatus: TestOutcome;
+  lastRunAt: string;
+};
+
+export interface SlowTest extends TestSummary {
+  avgDurationMs: number;
+  maxDurationMs: number;
+}
+
+export interface FailingTest extends TestSummary {
+  /** Consecutive failed executions, newest backwards */
+  streak: number;
+  failingSince: string;
+  message?: string;
+}
+
+export interface FlakyTest extends TestSummary {
+  /** Commits on which the test both passed and failed */
+  flips: number;
+  lastFlipAt: string;
+}
+
+export interface TestIngestContext {
+  runId: string;
+  commit?: string;
+  stepId: string;
+  attempt: number;
+  at?: string;
+}
+
+export interface TestResultsServiceOptions {
+  dataDir?: string;
+  historySize?: number;
+}
+
+/**
+ * Commits (or runs) on which the executions include both a pass and a fail
+ */
+export function flakyKeys(history: TestExecution[]): Map<string, string> {
+  const outcomes = new Map<string, { pass: boolean; fail: boolean; at: string }>();
+  for (const execution of history) {
+    if (execution.status === 'skip') continue;
+    const key = execution.commit ?? `run:${execution.runId}`;
+    const entry = outcomes.get(key) ?? { pass: false, fail: false, at: execution.at };
+    entry[execution.status] = true;
+    entry.at = execution.at;
+    outcomes.set(key, entry);
+  }
+
+  const flips = new Map<string, string>();
+  for (const [key, entry] of outcomes) {
+    if (entry.pass && entry.fail) flips.set(key, entry.at);
+  }
+  return flips;
+}
+
+/**
+ * Test Results Service
+ */
+export class TestResultsService {
+  private dataDir: string;
+  private historySize: number;
+  private tests = new Map<string, TestRecord>();
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: TestResultsServiceOptions = {}) {
+    this.dataDir = options.dataDir || process.env.CI_DATA_DIR || path.join(process.cwd(), 'data', 'ci');
+    this.historySize = options.historySize ?? parseInt(process.env.CI_TEST_HISTORY_SIZE || '30', 10);
+  }
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Record one report's results and return counts for it, flaky ones included
+   */
+  async ingest(context: TestIngestContext, results: TestCaseResult[]): Promise<TestCounts> {
+    await this.load();
+    const at = context.at ?? new Date().toISOString();
+    const counts: TestCounts = { pass: 0, fail: 0, skip: 0, flaky: 0 };
+
+    for (const result of results) {
+      const record = this.tests.get(result.id) ?? { id: result.id, suite: result.suite, name: result.name, history: [] };
+      if (result.file) record.file = result.file;
+      record.history.push({
+        runId: context.runId,
+        ...(context.commit ? { commit: context.commit } : {}),
+        stepId: context.stepId,
+        attempt: context.attempt,
+        status: result.status,
+        durationMs: result.durationMs,
+        ...(result.message ? { message: result.message } : {}),
+        at,
+      });
+      record.history.splice(0, record.history.length - this.historySize);
+      this.tests.set(result.id, record);
+
+      counts[result.status]++;
+      if (this.isFlaky(result.id)) counts.flaky++;
+    }
+
+    await this.save();
+    return counts;
+  }
+
+  isFlaky(id: string): boolean {
+    const record = this.tests.get(id);
+    return record ? flakyKeys(record.history).size > 0 : false;
+  }
+
+  async getTest(id: string): Promise<TestRecord | undefined> {
+    await this.load();
+    return this.tests.get(id);
+  }
+
+  /**
+   * Executions recorded for one run, in the order they were ingested
+   */
+  async forRun(runId: string): Promise<Array<Omit<TestRecord, 'history'> & TestExecution>> {
+    await this.load();
+    const executions: Array<Omit<TestRecord, 'history'> & TestExecution> = [];
+    for (const { history, ...test } of this.tests.values()) {
+      for (const execution of history) {
+        if (execution.runId === runId) executions.push({ ...test, ...execution });
+      }
+    }
+    return executions.sort((a, b) => a.at.localeCompare(b.at) || a.attempt - b.attempt);
+  }
+
+  /**
+   * Highest average duration over the retained executions that ran
+   */
+  async slowest(limit = 20): Promise<SlowTest[]> {
+    await this.load();
+    const slow: SlowTest[] = [];
+    for (const record of this.tests.values()) {
+      const ran = record.history.filter(execution => execution.status !== 'skip');
+      if (!ran.length) continue;
+      const durations = ran.map(execution => execution.durationMs);
+      slow.push({
+        ...this.summarize(record),
+        avgDurationMs: Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length),
+        maxDurationMs: Math.max(...durations),
+      });
+    }
+    return slow.sort((a, b) => b.avgDurationMs - a.avgDurationMs).slice(0, limit);
+  }
+
+  /**
+   * Tests whose latest execution failed, longest failing first
+   */
+  async failing(limit = 50): Promise<FailingTest[]> {
+    await this.load();
+    const failing: FailingTest[] = [];
+    for (const record of this.tests.values()) {
+      const last = record.history[record.history.length - 1];
+      if (last?.status !== 'fail') continue;
+
+      let streak = 0;
+      while (streak < record.history.length && record.history[record.history.length - 1 - streak].status === 'fail') {
+        streak++;
+      }
+      failing.push({
+        ...this.summarize(record),
+        streak,
+        failingSince: record.history[record.history.length - streak].at,
+        message: last.message,
+      });
+    }
+    return failing.sort((a, b) => b.streak - a.streak || b.lastRunAt.localeCompare(a.lastRunAt)).slice(0, limit);
+  }
+
+  async flaky(limit = 50): Promise<FlakyTest[]> {
+    await this.load();
+    const flaky: FlakyTest[] = [];
+    for (const record of this.tests.values()) {
+      const flips = flakyKeys(record.history);
+      if (!flips.size) continue;
+      flaky.push({
+        ...this.summarize(record),
+        flips: flips.size,
+        lastFlipAt: Array.from(flips.values()).sort().pop()!,
+      });
+    }
+    return flaky.sort((a, b) => b.lastFlipAt.localeCompare(a.lastFlipAt)).slice(0, limit);
+  }
+
+  private summarize({ history, ...test }: TestRecord): TestSummary {
+    const last = history[history.length - 1];
+    return { ...test, runs: new Set(history.map(execution => execution.runId)).size, lastStatus: last.status, lastRunAt: last.at };
+  }
+
+  private get file(): string {
+    return path.join(this.dataDir, 'tests.json');
+  }
+
+  private async readFile(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      for (const record of Array.isArray(parsed.tests) ? parsed.tests : []) {
+        this.tests.set(record.id, record);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to read test history ${this.file}:`, error);
+      }
+    }
+  }
+
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(this.dataDir, { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify({ version: 1, tests: Array.from(this.tests.values()) }), 'utf8');
+        await fs.rename(tmp, this.file);
+      });
+    return this.saving;
+  }
+}
+
+export const testResultsService = new TestResultsService();
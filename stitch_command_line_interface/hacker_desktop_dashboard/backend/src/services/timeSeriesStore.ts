@@ -0,0 +1,210 @@
+/**
+ * Time Series Store
+ * In-process numeric series with fixed-resolution rollups (raw, 10s, 1m, 5m)
+ */
+
+import { RingBuffer } from '../utils/ringBuffer';
+
+export type Resolution = 'raw' | '10s' | '1m' | '5m';
+
+export interface SeriesPoint {
+  t: number;
+  min: number;
+  avg: number;
+  max: number;
+  count: number;
+}
+
+export interface SeriesQuery {
+  series: string[];
+  from: number;
+  to: number;
+  stepMs?: number;
+}
+
+export interface SeriesQueryResult {
+  resolution: Resolution;
+  stepMs: number;
+  series: Record<string, SeriesPoint[]>;
+}
+
+export type RetentionConfig = Record<Resolution, number>;
+
+/** Bucket width per resolution; raw keeps every recorded value */
+export const RESOLUTION_MS: Record<Resolution, number> = {
+  raw: 0,
+  '10s': 10_000,
+  '1m': 60_000,
+  '5m': 300_000,
+};
+
+const ROLLUPS: Resolution[] = ['10s', '1m', '5m'];
+
+// Defaults: ~30 min raw at a 2s interval, 6h of 10s, 24h of 1m, 7d of 5m
+const DEFAULT_RETENTION: RetentionConfig = {
+  raw: 900,
+  '10s': 2160,
+  '1m': 1440,
+  '5m': 2016,
+};
+
+interface SeriesData {
+  raw: RingBuffer<SeriesPoint>;
+  rollups: Record<Exclude<Resolution, 'raw'>, { closed: RingBuffer<SeriesPoint>; open: SeriesPoint | null }>;
+}
+
+/**
+ * Merge points into buckets of the given width, combining min/avg/max
+ */
+export function downsample(points: SeriesPoint[], stepMs: number): SeriesPoint[] {
+  if (stepMs <= 0) {
+    return points;
+  }
+
+  const result: SeriesPoint[] = [];
+  for (const point of points) {
+    const bucketStart = Math.floor(point.t / stepMs) * stepMs;
+    const last = result[result.length - 1];
+
+    if (last && last.t === bucketStart) {
+      mergeInto(last, point);
+    } else {
+      result.push({ ...point, t: bucketStart });
+    }
+  }
+  return result;
+}
+
+function mergeInto(target: SeriesPoint, point: SeriesPoint): void {
+  const count = target.count + point.count;
+  target.avg = (target.avg * target.count + point.avg * point.count) / count;
+  target.min = Math.min(target.min, point.min);
+  target.max = Math.max(target.max, point.max);
+  target.count = count;
+}
+
+/**
+ * Time Series Store
+ */
+export class TimeSeriesStore {
+  private data = new Map<string, SeriesData>();
+  private retention: RetentionConfig;
+
+  constructor(retention: Partial<RetentionConfig> = {}) {
+    this.retention = { ...DEFAULT_RETENTION, ...retention };
+  }
+
+  /**
+   * Record a value; null values are gaps and are not stored
+   */
+  record(series: string, timestamp: number, value: number | null): void {
+    if (value === null || !Number.isFinite(value)) {
+      return;
+    }
+
+    const data = this.getOrCreate(series);
+    data.raw.push({ t: timestamp, min: value, avg: value, max: value, count: 1 });
+
+    for (const resolution of ROLLUPS) {
+      const width = RESOLUTION_MS[resolution];
+      const bucketStart = Math.floor(timestamp / width) * width;
+      const rollup = data.rollups[resolution as Exclude<Resolution, 'raw'>];
+
+      if (rollup.open && rollup.open.t === bucketStart) {
+        mergeInto(rollup.open, { t: timestamp, min: value, avg: value, max: value, count: 1 });
+        continue;
+      }
+
+      if (rollup.open) {
+        rollup.closed.push(rollup.open);
+      }
+      rollup.open = { t: bucketStart, min: value, avg: value, max: value, count: 1 };
+    }
+  }
+
+  /**
+   * Names of series that have recorded data
+   */
+  listSeries(): string[] {
+    return Array.from(this.data.keys()).sort();
+  }
+
+  has(series: string): boolean {
+    return this.data.has(series);
+  }
+
+  /**
+   * Pick the coarsest stored resolution that still satisfies the requested step
+   */
+  selectResolution(stepMs: number | undefined): Resolution {
+    if (!stepMs) {
+      return 'raw';
+    }
+
+    let selected: Resolution = 'raw';
+    for (const resolution of ROLLUPS) {
+      if (RESOLUTION_MS[resolution] <= stepMs) {
+        selected = resolution;
+      }
+    }
+    return selected;
+  }
+
+  /**
+   * Query series between `from` and `to` (epoch ms), downsampled to `stepMs` when given
+   */
+  query({ series, from, to, stepMs }: SeriesQuery): SeriesQueryResult {
+    const resolution = this.selectResolution(stepMs);
+    const result: Record<string, SeriesPoint[]> = {};
+
+    for (const name of series) {
+      const points = this.readPoints(name, resolution)
+        .filter(point => point.t >= from && point.t <= to);
+      result[name] = (stepMs ? downsample(points, stepMs) : points).map(point => ({
+        ...point,
+        avg: Math.round(point.avg * 100) / 100,
+      }));
+    }
+
+    return { resolution, stepMs: stepMs || RESOLUTION_MS[resolution], series: result };
+  }
+
+  clear(): void {
+    this.data.clear();
+  }
+
+  private readPoints(series: string, resolution: Resolution): SeriesPoint[] {
+    const data = this.data.get(series);
+    if (!data) {
+      return [];
+    }
+
+    if (resolution === 'raw') {
+      return data.raw.toArray().map(point => ({ ...point }));
+    }
+
+    const rollup = data.rollups[resolution];
+    const points = rollup.closed.toArray();
+    if (rollup.open) {
+      points.push(rollup.open);
+    }
+    // Copy so downsampling never mutates stored buckets
+    return points.map(point => ({ ...point }));
+  }
+
+  private getOrCreate(series: string): SeriesData {
+    let data = this.data.get(series);
+    if (!data) {
+      data = {
+        raw: new RingBuffer(this.retention.raw),
+        rollups: {
+          '10s': { closed: new RingBuffer(this.retention['10s']), open: null },
+          '1m': { closed: new RingBuffer(this.retention['1m']), open: null },
+          '5m': { closed: new RingBuffer(this.retention['5m']), open: null },
+        },
+      };
+      this.data.set(series, data);
+    }
+    return data;
+  }
+}
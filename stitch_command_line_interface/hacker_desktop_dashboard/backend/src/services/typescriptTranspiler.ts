@@ -0,0 +1,232 @@
+/**
+ * TypeScript Transpiler
+ * Turns submitted TypeScript into JavaScript for the isolated-vm sandbox, maps positions in the
+ * generated JavaScript back to the source through its source map, and optionally type-checks it
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+
+/** Name the submitted source is compiled under; diagnostics and mapped errors refer to it */
+export const TYPESCRIPT_SOURCE_FILE = 'main.ts';
+
+export interface TypeScriptDiagnostic {
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  code: number;
+  category: 'error' | 'warning' | 'suggestion' | 'message';
+  message: string;
+}
+
+export interface SourcePosition {
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+}
+
+export interface TranspiledTypeScript {
+  code: string;
+  /** Maps a 1-based position in `code` to the TypeScript source */
+  toSource: (line: number, column: number) => SourcePosition | undefined;
+}
+
+export class TypeScriptSyntaxError extends Error {
+  constructor(public diagnostics: TypeScriptDiagnostic[]) {
+    super(`TypeScript syntax error:\n${diagnostics.map(formatDiagnostic).join('\n')}`);
+    this.name = 'TypeScriptSyntaxError';
+  }
+}
+
+const TRANSPILE_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  sourceMap: true,
+  removeComments: false,
+};
+
+/** The source runs inside an async function, so top-level await is allowed */
+const CHECK_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  lib: ['lib.es2022.d.ts'],
+  types: [],
+  strict: true,
+  noEmit: true,
+};
+
+/** Globals the sandbox provides besides the ECMAScript library */
+const SANDBOX_DECLARATIONS_FILE = 'sandbox.d.ts';
+const SANDBOX_DECLARATIONS = `
+declare const console: {
+  log(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+};
+declare function setTimeout(callback: (...args: any[]) => void, delay?: number, ...args: any[]): number;
+declare function clearTimeout(id?: number): void;
+declare const fs: {
+  readFile(path: string): Promise<string>;
+  readdir(path?: string): Promise<string[]>;
+};
+declare function fetch(url: string, init?: { method?: string; headers?: Record<string, string>; body?: string }): Promise<{
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+  json(): Promise<any>;
+}>;
+`;
+
+/** "Cannot find module" (with and without a hint): workspace imports are only loaded when the code runs */
+const UNRESOLVED_MODULE = [2307, 2792];
+
+/** Parsed library files, shared by every type-check */
+const libraryFiles: Map<string, ts.SourceFile> = new Map();
+
+/**
+ * Transpile to JavaScript; syntax errors throw TypeScriptSyntaxError, type errors are ignored
+ */
+export function transpileTypeScript(source: string): TranspiledTypeScript {
+  const output = ts.transpileModule(source, {
+    compilerOptions: TRANSPILE_OPTIONS,
+    fileName: TYPESCRIPT_SOURCE_FILE,
+    reportDiagnostics: true,
+  });
+
+  const errors = (output.diagnostics || [])
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(toDiagnostic);
+  if (errors.length > 0) {
+    throw new TypeScriptSyntaxError(errors);
+  }
+
+  // The source map comment would point at a file the sandbox does not have
+  const code = output.outputText.replace(/\n\/\/# sourceMappingURL=.*\s*$/, '\n');
+  return { code, toSource: createSourceMapper(JSON.parse(output.sourceMapText || '{"mappings":""}').mappings) };
+}
+
+/**
+ * Type-check against the ECMAScript library and the sandbox's globals
+ */
+export function checkTypeScript(source: string): TypeScriptDiagnostic[] {
+  const libDir = path.dirname(ts.getDefaultLibFilePath(CHECK_OPTIONS));
+  const files = new Map<string, string>([
+    [TYPESCRIPT_SOURCE_FILE, source],
+    [SANDBOX_DECLARATIONS_FILE, SANDBOX_DECLARATIONS],
+  ]);
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const text = files.get(fileName);
+      if (text !== undefined) {
+        return ts.createSourceFile(fileName, text, languageVersion, true);
+      }
+      if (!libraryFiles.has(fileName)) {
+        const library = ts.sys.readFile(fileName);
+        if (library === undefined) return undefined;
+        libraryFiles.set(fileName, ts.createSourceFile(fileName, library, languageVersion, true));
+      }
+      return libraryFiles.get(fileName);
+    },
+    getDefaultLibFileName: () => path.join(libDir, 'lib.es2022.d.ts'),
+    getDefaultLibLocation: () => libDir,
+    writeFile: () => {},
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => files.has(fileName) || ts.sys.fileExists(fileName),
+    readFile: fileName => files.get(fileName) ?? ts.sys.readFile(fileName),
+  };
+
+  const program = ts.createProgram([TYPESCRIPT_SOURCE_FILE, SANDBOX_DECLARATIONS_FILE], CHECK_OPTIONS, host);
+  const sourceFile = program.getSourceFile(TYPESCRIPT_SOURCE_FILE);
+  return [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile),
+  ].filter(diagnostic => !UNRESOLVED_MODULE.includes(diagnostic.code)).map(toDiagnostic);
+}
+
+/**
+ * `main.ts:3:7 - error TS2322: Type 'string' is not assignable to type 'number'.`
+ */
+export function formatDiagnostic(diagnostic: TypeScriptDiagnostic): string {
+  return `${TYPESCRIPT_SOURCE_FILE}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.category} TS${diagnostic.code}: ${diagnostic.message}`;
+}
+
+/**
+ * Resolve 1-based generated positions through source map `mappings` (base64 VLQ); a position
+ * maps through the closest segment at or before it on its line
+ */
+export function createSourceMapper(mappings: string): TranspiledTypeScript['toSource'] {
+  // Per generated line: [generatedColumn, sourceLine, sourceColumn], 0-based
+  const lines: Array<Array<[number, number, number]>> = [];
+  let sourceLine = 0;
+  let sourceColumn = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: Array<[number, number, number]> = [];
+    let generatedColumn = 0;
+    for (const segment of line.split(',').filter(Boolean)) {
+      const fields = decodeVlq(segment);
+      generatedColumn += fields[0];
+      if (fields.length >= 4) {
+        sourceLine += fields[2];
+        sourceColumn += fields[3];
+        segments.push([generatedColumn, sourceLine, sourceColumn]);
+      }
+    }
+    lines.push(segments);
+  }
+
+  return (line, column) => {
+    const segments = lines[line - 1];
+    if (!segments || segments.length === 0) return undefined;
+    let match = segments[0];
+    for (const segment of segments) {
+      if (segment[0] > column - 1) break;
+      match = segment;
+    }
+    return { line: match[1] + 1, column: match[2] + 1 + Math.max(0, column - 1 - match[0]) };
+  };
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >> 1) : value >> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+function toDiagnostic(diagnostic: ts.Diagnostic): TypeScriptDiagnostic {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: 0, character: 0 };
+  return {
+    line: position.line + 1,
+    column: position.character + 1,
+    code: diagnostic.code,
+    category: ts.DiagnosticCategory[diagnostic.category].toLowerCase() as TypeScriptDiagnostic['category'],
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  };
+}
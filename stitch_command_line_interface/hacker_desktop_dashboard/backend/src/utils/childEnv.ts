@@ -0,0 +1,14 @@
+/**
+ * Child Process Environment
+ * The backend variables child processes inherit. Everything else (JWT_SECRET, LLM API keys,
+ * credentials) stays out of code the user runs and out of its output.
+ */
+
+export const ENV_PASSTHROUGH = ['PATH', 'HOME', 'LANG'];
+
+/**
+ * The set variables of `names`, taken from the backend's environment
+ */
+export function passthroughEnv(names: string[] = ENV_PASSTHROUGH): NodeJS.ProcessEnv {
+  return Object.fromEntries(names.filter(name => process.env[name] !== undefined).map(name => [name, process.env[name]]));
+}
@@ -0,0 +1,26 @@
+/**
+ * CIDR Utilities
+ * IPv4/IPv6 subnet validation and membership checks built on net.BlockList
+ */
+
+import * as net from 'net';
+
+export function isValidCidr(value: string): boolean {
+  const [network, prefixText] = value.split('/');
+  const family = net.isIP(network);
+  if (!family || !/^\d+$/.test(prefixText ?? '')) return false;
+  return parseInt(prefixText, 10) <= (family === 4 ? 32 : 128);
+}
+
+/**
+ * Check an address against a CIDR block; invalid blocks never match
+ */
+export function ipInCidr(ip: string, cidr: string): boolean {
+  const ipFamily = net.isIP(ip);
+  if (!ipFamily || !isValidCidr(cidr)) return false;
+
+  const [network, prefixText] = cidr.split('/');
+  const blockList = new net.BlockList();
+  blockList.addSubnet(network, parseInt(prefixText, 10), net.isIP(network) === 4 ? 'ipv4' : 'ipv6');
+  return blockList.check(ip, ipFamily === 4 ? 'ipv4' : 'ipv6');
+}
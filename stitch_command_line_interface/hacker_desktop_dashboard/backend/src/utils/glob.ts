@@ -0,0 +1,12 @@
+/**
+ * Glob Utilities
+ * Minimal `*`/`?` wildcard matching for user-supplied patterns
+ */
+
+/**
+ * Translate a `*`/`?` glob into an anchored, case-insensitive RegExp
+ */
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
@@ -0,0 +1,69 @@
+/**
+ * Ring Buffer Utility
+ * Fixed-capacity FIFO that overwrites the oldest entry once full
+ */
+
+export class RingBuffer<T> {
+  private items: Array<T | undefined>;
+  private head = 0;
+  private count = 0;
+
+  constructor(private readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error('RingBuffer capacity must be a positive integer');
+    }
+    this.items = new Array(capacity);
+  }
+
+  /**
+   * Append an item, evicting the oldest one when at capacity
+   */
+  push(item: T): void {
+    const index = (this.head + this.count) % this.capacity;
+    this.items[index] = item;
+
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.head = (this.head + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Most recently pushed item
+   */
+  last(): T | undefined {
+    if (this.count === 0) {
+      return undefined;
+    }
+    return this.items[(this.head + this.count - 1) % this.capacity];
+  }
+
+  /**
+   * Items in insertion order (oldest first)
+   */
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.items[(this.head + i) % this.capacity] as T);
+    }
+    return result;
+  }
+
+  /**
+   * Remove all items
+   */
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.head = 0;
+    this.count = 0;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  get maxSize(): number {
+    return this.capacity;
+  }
+}
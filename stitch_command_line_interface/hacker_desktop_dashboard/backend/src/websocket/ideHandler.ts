@@ -5,8 +5,12 @@
 
 import { Server, Socket } from 'socket.io';
 import { workspaceService } from '../services/workspaceService';
-import { executionService } from '../services/executionService';
+import { executionDispatcher, ExecutionLanguage, CodeExecutionResult } from '../services/executionDispatcher';
+import { ExecutionOutputChunk } from '../services/multiLangExecutionService';
 import { llmService } from '../services/llmService';
+import { StepAction } from '../services/debuggerService';
+import { debugSessionManager, DebugSessionEvent } from '../services/debugSessionManager';
+import { listAdapters } from '../services/dapAdapters';
 import { logger } from '../utils/logger';
 
 export interface IDEClient {
@@ -17,6 +21,11 @@ export interface IDEClient {
   cursorPosition?: { line: number; column: number };
 }
 
+const userRoom = (userId: string) => `user:${userId}`;
+
+/** Socket that started each running execution; its output and stdin belong to that socket */
+const executionOwners = new Map<string, string>();
+
 /**
  * Setup IDE WebSocket handlers
  */
@@ -35,6 +44,9 @@ export function setupIDEWebSocket(io: Server): void {
     };
     clients.set(socket.id, client);
 
+    // Per-user room for events only the user may see (debug sessions, REST executions)
+    socket.join(userRoom(socket.data.userId));
+
     // Broadcast user join
     socket.broadcast.emit('user:join', {
       userId: socket.id,
@@ -137,11 +149,15 @@ export function setupIDEWebSocket(io: Server): void {
      * Code Execution
      */
     
-    // Execute code (developer role required)
+    // Execute code (developer role required); output streams back as execution:output chunks
     socket.on('code:execute', async (data: { 
       code: string; 
-      language: 'javascript' | 'typescript';
+      language: ExecutionLanguage;
       timeout?: number;
+      input?: string;
+      interactive?: boolean;
+      typeCheck?: boolean;
+      workingDirectory?: string;
     }, callback) => {
       try {
         // Require developer role
@@ -154,19 +170,18 @@ export function setupIDEWebSocket(io: Server): void {
 
         logger.info(`Code execution requested by ${socket.data.username} (${data.language})`);
 
-        const executionId = await executionService.executeCode({
+        const executionId = await executionDispatcher.start({
           code: data.code,
           language: data.language,
           timeout: data.timeout,
-        });
+          input: data.input,
+          interactive: data.interactive ?? true,
+          typeCheck: data.typeCheck,
+          workingDirectory: data.workingDirectory,
+          userId: socket.data.userId,
+        }, id => executionOwners.set(id, socket.id));
 
         callback({ success: true, executionId });
-
-        // Stream output in real-time
-        const result = executionService.getResult(executionId);
-        if (result) {
-          socket.emit('execution:result', result);
-        }
       } catch (error) {
         logger.error('Failed to execute code:', error);
         callback({ 
@@ -178,7 +193,7 @@ export function setupIDEWebSocket(io: Server): void {
 
     // Get execution result
     socket.on('execution:get', (data: { id: string }, callback) => {
-      const result = executionService.getResult(data.id);
+      const result = executionDispatcher.getResult(data.id);
       if (result) {
         callback({ success: true, data: result });
       } else {
@@ -186,10 +201,29 @@ export function setupIDEWebSocket(io: Server): void {
       }
     });
 
-    // Cancel execution
+    // Type into a running program; eof closes its stdin
+    socket.on('execution:stdin', (data: { id: string; data?: string; eof?: boolean }, callback) => {
+      try {
+        if (executionOwners.get(data.id) !== socket.id) {
+          return callback?.({ success: false, error: 'Execution not running for this client' });
+        }
+        executionDispatcher.writeStdin(data.id, data.data ?? '', !!data.eof);
+        callback?.({ success: true });
+      } catch (error) {
+        callback?.({ 
+          success: false, 
+          error: error instanceof Error ? error.message : 'Unknown error' 
+        });
+      }
+    });
+
+    // Cancel execution; only the socket that started it may stop it
     socket.on('execution:cancel', async (data: { id: string }, callback) => {
       try {
-        await executionService.cancelExecution(data.id);
+        if (executionOwners.get(data.id) !== socket.id) {
+          return callback({ success: false, error: 'Execution not running for this client' });
+        }
+        await executionDispatcher.cancel(data.id);
         callback({ success: true });
       } catch (error) {
         logger.error('Failed to cancel execution:', error);
@@ -315,6 +349,155 @@ export function setupIDEWebSocket(io: Server): void {
       });
     });
 
+    /**
+     * Debugging
+     */
+
+    // Every debug:* request answers through the callback; session changes go to the owner's sockets
+    const debugRequest = <T>(event: string, handler: (data: T) => unknown) => {
+      socket.on(event, async (data: T, callback?: (response: unknown) => void) => {
+        const respond = typeof callback === 'function' ? callback : () => undefined;
+        try {
+          if (!hasRole('developer')) {
+            return respond({ success: false, error: 'Developer role required to debug' });
+          }
+          respond({ success: true, data: await handler(data || ({} as T)) });
+        } catch (error) {
+          logger.error(`Debugger ${event} failed:`, error);
+          respond({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      });
+    };
+
+    // Sessions of other users are reported as not found
+    const debuggerFor = (data: { sessionId?: string }) =>
+      debugSessionManager.get(String(data.sessionId), socket.data.userId).debugger;
+
+    const emitToOwner = (event: string, sessionId: string, data: unknown) => {
+      io.to(userRoom(socket.data.userId)).emit(event, { sessionId, data });
+    };
+
+    const DEBUG_COMMANDS = ['continue', 'stepOver', 'stepInto', 'stepOut', 'pause'];
+
+    type SessionRequest = { sessionId: string };
+
+    debugRequest('debug:adapters', () => listAdapters());
+
+    debugRequest('debug:sessions', () => debugSessionManager.list(socket.data.userId));
+
+    debugRequest('debug:session:create', () => {
+      const session = debugSessionManager.create({ userId: socket.data.userId, username: socket.data.username }, socket.id);
+      return debugSessionManager.summarize(session);
+    });
+
+    debugRequest('debug:session:close', (data: SessionRequest) =>
+      debugSessionManager.close(String(data.sessionId), socket.data.userId));
+
+    debugRequest('debug:state', (data: SessionRequest) => {
+      const debug = debuggerFor(data);
+      return {
+        ...debug.getState(),
+        breakpoints: debug.listBreakpoints(),
+        watches: debug.listWatches(),
+      };
+    });
+
+    debugRequest('debug:start', async (data: SessionRequest & { file: string; args?: string[] }) => {
+      if (typeof data.file !== 'string' || !data.file) {
+        throw new Error('file is required');
+      }
+      const debug = debuggerFor(data);
+      logger.info(`Debug session ${data.sessionId} started by ${socket.data.username} for ${data.file}`);
+      await debug.startDebugging(data.file, Array.isArray(data.args) ? data.args.map(String) : []);
+      return debug.getState();
+    });
+
+    debugRequest('debug:stop', (data: SessionRequest) => debuggerFor(data).stopDebugging());
+
+    debugRequest('debug:step', (data: SessionRequest & { action: StepAction['type'] | 'pause' }) => {
+      if (!DEBUG_COMMANDS.includes(data.action)) {
+        throw new Error(`action must be one of ${DEBUG_COMMANDS.join(', ')}`);
+      }
+      debuggerFor(data)[data.action]();
+      return { action: data.action };
+    });
+
+    debugRequest('debug:breakpoint:add', (data: SessionRequest & { file: string; line: number; condition?: string }) => {
+      if (typeof data.file !== 'string' || !data.file || !Number.isInteger(data.line) || data.line < 1) {
+        throw new Error('file and a positive line are required');
+      }
+      const debug = debuggerFor(data);
+      const breakpoint = debug.addBreakpoint(data.file, data.line, data.condition || undefined);
+      emitToOwner('debug:breakpoints', data.sessionId, debug.listBreakpoints());
+      return breakpoint;
+    });
+
+    debugRequest('debug:breakpoint:remove', (data: SessionRequest & { id: string }) => {
+      const debug = debuggerFor(data);
+      if (!debug.removeBreakpoint(data.id)) {
+        throw new Error('Breakpoint not found');
+      }
+      emitToOwner('debug:breakpoints', data.sessionId, debug.listBreakpoints());
+    });
+
+    debugRequest('debug:breakpoint:toggle', (data: SessionRequest & { id: string }) => {
+      const debug = debuggerFor(data);
+      const breakpoint = debug.toggleBreakpoint(data.id);
+      if (!breakpoint) {
+        throw new Error('Breakpoint not found');
+      }
+      emitToOwner('debug:breakpoints', data.sessionId, debug.listBreakpoints());
+      return breakpoint;
+    });
+
+    debugRequest('debug:watch:add', (data: SessionRequest & { expression: string }) => {
+      if (typeof data.expression !== 'string' || !data.expression.trim()) {
+        throw new Error('expression is required');
+      }
+      const debug = debuggerFor(data);
+      const watch = debug.addWatch(data.expression.trim());
+      emitToOwner('debug:watches', data.sessionId, debug.listWatches());
+      return watch;
+    });
+
+    debugRequest('debug:watch:remove', (data: SessionRequest & { id: string }) => {
+      const debug = debuggerFor(data);
+      if (!debug.removeWatch(data.id)) {
+        throw new Error('Watch not found');
+      }
+      emitToOwner('debug:watches', data.sessionId, debug.listWatches());
+    });
+
+    debugRequest('debug:evaluate', async (data: SessionRequest & { expression: string; frame?: number }) => {
+      if (typeof data.expression !== 'string' || !data.expression.trim()) {
+        throw new Error('expression is required');
+      }
+      const frame = Number.isInteger(data.frame) ? data.frame : undefined;
+      return { value: await debuggerFor(data).evaluate(data.expression, frame) };
+    });
+
+    debugRequest('debug:scopes', (data: SessionRequest & { frame?: number }) =>
+      debuggerFor(data).getScopes(Number.isInteger(data.frame) ? data.frame : undefined));
+
+    debugRequest('debug:frame', (data: SessionRequest & { frame: number }) => {
+      if (!Number.isInteger(data.frame) || data.frame < 0) {
+        throw new Error('frame must be a call frame index');
+      }
+      return debuggerFor(data).selectFrame(data.frame);
+    });
+
+    debugRequest('debug:variables', (data: SessionRequest & { objectId: string; start?: number; count?: number }) => {
+      if (typeof data.objectId !== 'string' || !data.objectId) {
+        throw new Error('objectId is required');
+      }
+      const count = Number.isInteger(data.count) ? Math.min(Math.max(data.count!, 1), 1000) : undefined;
+      const start = Number.isInteger(data.start) && data.start! >= 0 ? data.start : undefined;
+      return debuggerFor(data).getVariables(data.objectId, { start, count });
+    });
+
     /**
      * Workspace Management
      */
@@ -353,6 +536,16 @@ export function setupIDEWebSocket(io: Server): void {
     socket.on('disconnect', () => {
       logger.info(`IDE client disconnected: ${socket.id}`);
       clients.delete(socket.id);
+      debugSessionManager.releaseSocket(socket.id).catch((error) => {
+        logger.error('Failed to close debug sessions of disconnected socket:', error);
+      });
+      for (const [id, owner] of executionOwners) {
+        if (owner === socket.id) {
+          executionDispatcher.cancel(id).catch((error) => {
+            logger.error(`Failed to cancel execution ${id} of disconnected socket:`, error);
+          });
+        }
+      }
       
       // Notify others
       socket.broadcast.emit('user:leave', {
@@ -362,14 +555,34 @@ export function setupIDEWebSocket(io: Server): void {
     });
   });
 
-  // Listen to execution service events
-  executionService.on('execution:output', (data: { id: string; output: string }) => {
-    io.emit('execution:output', data);
+  // Relay execution events of both sandboxes to the socket that started them; REST executions
+  // go to the starting user's sockets, and runs without a known user to nobody
+  const executionTarget = (id: string) => {
+    const socketId = executionOwners.get(id);
+    if (socketId) return io.to(socketId);
+    const userId = executionDispatcher.ownerOf(id);
+    return userId ? io.to(userRoom(userId)) : undefined;
+  };
+
+  executionDispatcher.on('execution:output', (chunk: ExecutionOutputChunk) => {
+    executionTarget(chunk.id)?.emit('execution:output', chunk);
   });
 
-  executionService.on('execution:complete', (result) => {
-    io.emit('execution:result', result);
+  executionDispatcher.on('execution:complete', (result: CodeExecutionResult) => {
+    executionTarget(result.id)?.emit('execution:result', result);
+    executionOwners.delete(result.id);
   });
 
+  // Relay debug session events to the owner's sockets only
+  debugSessionManager.on('session:event', ({ sessionId, userId, event, data }: DebugSessionEvent) => {
+    io.to(userRoom(userId)).emit(`debug:${event}`, { sessionId, data });
+  });
+
+  debugSessionManager.on('session:closed', ({ sessionId, userId, reason }: { sessionId: string; userId: string; reason: string }) => {
+    io.to(userRoom(userId)).emit('debug:session:closed', { sessionId, data: { reason } });
+  });
+
+  debugSessionManager.start();
+
   logger.info('IDE WebSocket handlers initialized');
 }
@@ -6,6 +6,14 @@ import { Server as WebSocketServer, WebSocket } from 'ws';
 import { logger } from '../utils/logger';
 import { getFileWatcherService } from '../services/fileWatcherService';
 import { getDevServerService } from '../services/devServerService';
+import { metricsService } from '../services/metricsService';
+import { flowService, Flow } from '../services/flowService';
+import { policyService } from '../services/policyService';
+import { logAggregatorService, LogEntry } from '../services/logAggregatorService';
+import { workspaceService } from '../services/workspaceService';
+import { redactionService } from '../services/redactionService';
+import { ciService, CiLogChunk, CiRun } from '../services/ciService';
+import { artifactService } from '../services/artifactService';
 import path from 'path';
 
 interface WebSocketClient extends WebSocket {
@@ -19,6 +27,13 @@ interface WebSocketClient extends WebSocket {
 const MAX_SUBSCRIPTIONS_PER_CLIENT = parseInt(process.env.WS_MAX_SUBSCRIPTIONS || '10', 10);
 const EMIT_THROTTLE_MS = parseInt(process.env.WS_EMIT_THROTTLE_MS || '2000', 10);
 
+/**
+ * Serialize a pushed message with secrets masked (`secretRedaction`)
+ */
+function encode(type: string, data: unknown): string {
+  return JSON.stringify({ type, data: redactionService.redactValue(data, 'websocket', type) });
+}
+
 export function setupWebSocket(wss: WebSocketServer) {
   logger.info('Setting up WebSocket server');
 
@@ -29,6 +44,58 @@ export function setupWebSocket(wss: WebSocketServer) {
 
   logger.info('File watcher and dev server services initialized');
 
+  // Host metrics collector feeds the `metrics` topic
+  metricsService.start();
+
+  // Aggregated log entries are streamed to `logs` subscribers as they arrive
+  const onLogEntry = (entry: LogEntry) => {
+    const message = encode('log', entry);
+    wss.clients.forEach((ws: WebSocketClient) => {
+      if (ws.readyState === WebSocket.OPEN && ws.authenticated && ws.subscriptions?.has('logs')) {
+        ws.send(message);
+      }
+    });
+  };
+  logAggregatorService.on('entry', onLogEntry);
+  logAggregatorService.start(workspaceService.getWorkspaceRoot()).catch(error => {
+    logger.error('Failed to start log file tailing:', error);
+  });
+
+  // Flow tracker pushes open/close events to `flows` subscribers as they happen
+  const sendFlowEvent = (event: 'open' | 'close' | 'status') => (flow: Flow) => {
+    const message = encode('flow', { event, flow });
+    wss.clients.forEach((ws: WebSocketClient) => {
+      if (ws.readyState === WebSocket.OPEN && ws.authenticated && ws.subscriptions?.has('flows')) {
+        ws.send(message);
+      }
+    });
+  };
+  const onFlowOpen = sendFlowEvent('open');
+  const onFlowClose = sendFlowEvent('close');
+  const onFlowStatus = sendFlowEvent('status');
+  flowService.on('flow:open', onFlowOpen);
+  flowService.on('flow:close', onFlowClose);
+  flowService.on('flow:status', onFlowStatus);
+  // Rules must be loaded before the first poll so flows start with their policy status
+  policyService.load().finally(() => flowService.start());
+
+  // CI run progress and step output go to `ci` subscribers as the pipeline runs
+  const sendCi = (type: string, data: unknown) => {
+    const message = encode(type, data);
+    wss.clients.forEach((ws: WebSocketClient) => {
+      if (ws.readyState === WebSocket.OPEN && ws.authenticated && ws.subscriptions?.has('ci')) {
+        ws.send(message);
+      }
+    });
+  };
+  const onCiRun = (run: CiRun) => sendCi('ci:run', run);
+  const onCiLog = (chunk: CiLogChunk) => sendCi('ci:log', chunk);
+  ciService.on('run', onCiRun);
+  ciService.on('log', onCiLog);
+
+  // Expired pipeline artifacts are swept in the background
+  artifactService.start();
+
   // Handle new connections
   wss.on('connection', (ws: WebSocketClient, req) => {
     logger.info(`New WebSocket connection from ${req.socket.remoteAddress}`);
@@ -105,29 +172,11 @@ export function setupWebSocket(wss: WebSocketServer) {
       // Only emit to authenticated clients
       if (ws.readyState !== WebSocket.OPEN || !ws.subscriptions || !ws.authenticated) return;
 
-      if (ws.subscriptions.has('logs')) {
-        const logMsg = {
-          type: 'log',
-          data: {
-            id: Date.now(),
-            tag: ['INFO', 'WARN', 'ERROR'][Math.floor(Math.random() * 3)],
-            message: ['Dev server ready', 'HMR update', 'Test flaked', 'VPN retrying'][Math.floor(Math.random() * 4)],
-            timestamp: new Date().toISOString()
-          }
-        };
-        ws.send(JSON.stringify(logMsg));
-      }
-
       if (ws.subscriptions.has('metrics')) {
-        const metricMsg = {
-          type: 'metric',
-          data: {
-            cpu: Math.floor(20 + Math.random() * 60),
-            memory: Math.floor(40 + Math.random() * 50),
-            temp: Math.floor(45 + Math.random() * 25)
-          }
-        };
-        ws.send(JSON.stringify(metricMsg));
+        const sample = metricsService.getLatest();
+        if (sample) {
+          ws.send(encode('metric', sample));
+        }
       }
 
       if (ws.subscriptions.has('alerts') && Math.random() < 0.1) {
@@ -144,27 +193,21 @@ export function setupWebSocket(wss: WebSocketServer) {
         };
         ws.send(JSON.stringify(alertMsg));
       }
-
-      if (ws.subscriptions.has('flows') && Math.random() < 0.2) {
-        const statuses = ['allow', 'watch', 'block'] as const;
-        const flowMsg = {
-          type: 'flow',
-          data: {
-            id: `${Math.floor(Math.random() * 10000)}`,
-            app: ['node', 'docker', 'chrome', 'vscode'][Math.floor(Math.random() * 4)],
-            dest: ['api.internal', 'github.com', 'registry.hub'][Math.floor(Math.random() * 3)],
-            status: statuses[Math.floor(Math.random() * statuses.length)],
-            bytesTotal: Math.floor(Math.random() * 10_000_000),
-            startedAt: new Date(Date.now() - Math.floor(Math.random() * 600000)).toISOString()
-          }
-        } as const;
-        ws.send(JSON.stringify(flowMsg));
-      }
     });
   }, EMIT_THROTTLE_MS); // Use throttled interval from env
 
   wss.on('close', () => {
     clearInterval(emitters);
+    metricsService.stop();
+    flowService.stop();
+    flowService.off('flow:open', onFlowOpen);
+    flowService.off('flow:close', onFlowClose);
+    flowService.off('flow:status', onFlowStatus);
+    logAggregatorService.off('entry', onLogEntry);
+    logAggregatorService.stop();
+    ciService.off('run', onCiRun);
+    ciService.off('log', onCiLog);
+    artifactService.stop();
   });
 
   return wss;
@@ -270,7 +313,7 @@ function handleMessage(
 }
 
 export function broadcast(wss: WebSocketServer, type: string, data: unknown) {
-  const message = JSON.stringify({ type, data });
+  const message = encode(type, data);
   wss.clients.forEach((client) => {
     if (client.readyState === WebSocket.OPEN) {
       client.send(message);
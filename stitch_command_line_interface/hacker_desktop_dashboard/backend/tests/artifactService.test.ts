@@ -0,0 +1,145 @@
+/**
+ * Artifact Service Tests
+ * Tests content-addressed storage, encryption at rest and the retention sweep
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ArtifactKeyError, ArtifactService, ArtifactTooLargeError } from '../src/services/artifactService';
+
+const KEY = 'ab'.repeat(32);
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function listBlobs(dataDir: string): Promise<string[]> {
+  const root = path.join(dataDir, 'blobs');
+  const blobs: string[] = [];
+  for (const dir of await fs.readdir(root).catch(() => [])) {
+    blobs.push(...await fs.readdir(path.join(root, dir)));
+  }
+  return blobs;
+}
+
+describe('ArtifactService', () => {
+  let workDir: string;
+  let dataDir: string;
+
+  const writeFile = async (name: string, content: string) => {
+    const file = path.join(workDir, name);
+    await fs.writeFile(file, content);
+    return file;
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'artifact-work-'));
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'artifact-data-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should store identical content once and keep metadata per artifact', async () => {
+    const service = new ArtifactService({ dataDir, maxFileMb: 1 });
+    const first = await service.store(await writeFile('a.txt', 'bundle'), { name: 'dist/a.txt', runId: 'run-1', stepId: 'build/pack' });
+    const second = await service.store(await writeFile('b.txt', 'bundle'), { name: 'dist/b.txt', runId: 'run-2', stepId: 'build/pack' });
+
+    expect(first).toMatchObject({
+      id: 'art-1',
+      runId: 'run-1',
+      stepId: 'build/pack',
+      size: 6,
+      sha256: createHash('sha256').update('bundle').digest('hex'),
+      encrypted: false,
+    });
+    expect(second.sha256).toBe(first.sha256);
+    expect(await listBlobs(dataDir)).toEqual([first.sha256]);
+    expect(await readAll(await service.open(second))).toBe('bundle');
+    expect((await service.list({ runId: 'run-2' })).map(a => a.id)).toEqual(['art-2']);
+
+    await fs.writeFile(path.join(workDir, 'big.bin'), Buffer.alloc(1024 * 1024 + 1));
+    await expect(service.store(path.join(workDir, 'big.bin'), { name: 'big.bin', runId: 'run-1', stepId: 's' }))
+      .rejects.toThrow(ArtifactTooLargeError);
+
+    const reloaded = new ArtifactService({ dataDir });
+    expect((await reloaded.get('art-2'))?.name).toBe('dist/b.txt');
+    expect((await reloaded.store(await writeFile('c.txt', 'x'), { name: 'c.txt', runId: 'run-3', stepId: 's' })).id).toBe('art-3');
+  });
+
+  it('should encrypt blobs at rest and detect tampering', async () => {
+    const service = new ArtifactService({ dataDir, encryptionKey: KEY, settings: { encryption: true } });
+    const artifact = await service.store(await writeFile('secret.txt', 'top secret build output'), { name: 'secret.txt', runId: 'run-1', stepId: 's' });
+    const empty = await service.store(await writeFile('empty.txt', ''), { name: 'empty.txt', runId: 'run-1', stepId: 's' });
+
+    const blobs = await listBlobs(dataDir);
+    expect(blobs).toHaveLength(2);
+    expect(blobs.every(name => name.endsWith('.enc') && !name.startsWith(artifact.sha256))).toBe(true);
+    expect(artifact.encrypted).toBe(true);
+    expect(await readAll(await service.open(artifact))).toBe('top secret build output');
+    expect(await readAll(await service.open(empty))).toBe('');
+
+    // Another key cannot read it
+    const otherKey = new ArtifactService({ dataDir, encryptionKey: 'cd'.repeat(32) });
+    await expect(otherKey.open(artifact)).rejects.toThrow();
+
+    // Flip one ciphertext byte of the non-empty blob
+    for (const name of blobs) {
+      const file = path.join(dataDir, 'blobs', name.slice(0, 2), name);
+      const bytes = await fs.readFile(file);
+      if (bytes.length > 28) {
+        bytes[14] ^= 0xff;
+        await fs.writeFile(file, bytes);
+      }
+    }
+    await expect(service.open(artifact)).rejects.toThrow();
+  });
+
+  it('should refuse to encrypt without a configured key', async () => {
+    const previousKey = process.env.ARTIFACT_ENCRYPTION_KEY;
+    delete process.env.ARTIFACT_ENCRYPTION_KEY;
+    try {
+      const service = new ArtifactService({ dataDir, settings: { encryption: true } });
+      await expect(service.store(await writeFile('a.txt', 'hello'), { name: 'a.txt', runId: 'run-1', stepId: 's' }))
+        .rejects.toThrow('Artifact encryption needs ARTIFACT_ENCRYPTION_KEY');
+      expect(await fs.readdir(dataDir)).not.toContain('artifact.key');
+
+      const unencrypted = new ArtifactService({ dataDir, settings: { encryption: false, retentionDays: 7 } });
+      expect(() => unencrypted.updateSettings({ encryption: true, retentionDays: 1 })).toThrow(ArtifactKeyError);
+      expect(unencrypted.getSettings()).toEqual({ encryption: false, retentionDays: 7 });
+      const badKey = new ArtifactService({ dataDir, encryptionKey: 'not-hex' });
+      expect(() => badKey.updateSettings({ encryption: true })).toThrow('must be 64 hex characters');
+      expect(new ArtifactService({ dataDir, encryptionKey: KEY }).updateSettings({ encryption: true }).encryption).toBe(true);
+    } finally {
+      if (previousKey !== undefined) process.env.ARTIFACT_ENCRYPTION_KEY = previousKey;
+    }
+  });
+
+  it('should sweep expired artifacts and only delete unreferenced blobs', async () => {
+    const service = new ArtifactService({ dataDir, settings: { retentionDays: 7 } });
+    await service.store(await writeFile('old.txt', 'old'), { name: 'old.txt', runId: 'run-1', stepId: 's' });
+    const shared = await service.store(await writeFile('shared.txt', 'shared'), { name: 'shared.txt', runId: 'run-1', stepId: 's' });
+    await service.store(await writeFile('shared2.txt', 'shared'), { name: 'shared.txt', runId: 'run-9', stepId: 's' });
+
+    const tenDaysLater = Date.now() + 10 * 24 * 60 * 60 * 1000;
+    // Only run-9's copy of the shared content is recent enough to keep
+    const index = JSON.parse(await fs.readFile(path.join(dataDir, 'artifacts.json'), 'utf8'));
+    index.artifacts[2].createdAt = new Date(tenDaysLater).toISOString();
+    await fs.writeFile(path.join(dataDir, 'artifacts.json'), JSON.stringify(index));
+    const reloaded = new ArtifactService({ dataDir, settings: { retentionDays: 7 } });
+
+    expect(await reloaded.sweep(tenDaysLater)).toEqual({ removed: 2, freedBytes: 3 });
+    expect((await reloaded.list()).map(a => a.id)).toEqual(['art-3']);
+    expect(await listBlobs(dataDir)).toEqual([shared.sha256]);
+
+    reloaded.updateSettings({ retentionDays: 0 });
+    expect(await reloaded.sweep(tenDaysLater * 2)).toEqual({ removed: 0, freedBytes: 0 });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * CI Service Tests
+ * Tests pipeline validation and scheduling, step execution with timeouts, cancellation and history,
+ * test report ingestion with retries and flaky quarantine, coverage thresholds and artifacts
+ */
+
+import { once } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CiBusyError, CiRun, CiService } from '../src/services/ciService';
+import { nextSteps, parsePipeline, PipelineConfigError, StepStatus } from '../src/services/pipelineModel';
+import { TestResultsService } from '../src/services/testResultsService';
+import { ArtifactService } from '../src/services/artifactService';
+
+const DEFAULTS = { timeoutMs: 1000 };
+
+describe('CiService', () => {
+  describe('Pipeline model', () => {
+    it('should make each stage wait for the previous one and resolve step needs', () => {
+      const pipeline = parsePipeline({
+        name: 'main',
+        env: { CI_MODE: 'full', LEVEL: 1 },
+        stages: [
+          { name: 'build', steps: [{ name: 'install', command: 'npm ci' }, { name: 'compile', command: 'tsc', needs: ['install'], env: { LEVEL: 2 } }] },
+          { name: 'test', steps: [{ name: 'unit', command: 'jest', timeoutMs: 50 }, { name: 'lint', command: 'eslint', cwd: 'backend' }] },
+        ],
+      }, DEFAULTS);
+
+      expect(pipeline.stages).toEqual(['build', 'test']);
+      expect(pipeline.steps.map(s => [s.id, s.needs])).toEqual([
+        ['build/install', []],
+        ['build/compile', ['build/install']],
+        ['test/unit', ['build/install', 'build/compile']],
+        ['test/lint', ['build/install', 'build/compile']],
+      ]);
+      expect(pipeline.steps[1].env).toEqual({ CI_MODE: 'full', LEVEL: '2' });
+      expect(pipeline.steps[2].timeoutMs).toBe(50);
+      expect(pipeline.steps[0].timeoutMs).toBe(1000);
+    });
+
+    it('should reject unknown dependencies, cycles and paths outside the workspace', () => {
+      const step = (extra: object = {}) => ({ name: 's', command: 'true', ...extra });
+      expect(() => parsePipeline({ stages: [] }, DEFAULTS)).toThrow('at least one stage');
+      expect(() => parsePipeline({ stages: [{ name: 'a', steps: [step({ needs: ['x'] })] }] }, DEFAULTS)).toThrow('unknown step "x"');
+      expect(() => parsePipeline({ stages: [{ name: 'a', needs: ['b'], steps: [step()] }] }, DEFAULTS)).toThrow('unknown stage "b"');
+      expect(() => parsePipeline({
+        stages: [{ name: 'a', needs: ['b'], steps: [step()] }, { name: 'b', needs: ['a'], steps: [step()] }],
+      }, DEFAULTS)).toThrow('Dependency cycle');
+      expect(() => parsePipeline({ stages: [{ name: 'a', steps: [step({ cwd: '../etc' })] }] }, DEFAULTS)).toThrow(PipelineConfigError);
+      expect(() => parsePipeline({ stages: [{ name: 'a', steps: [step({ command: '' })] }] }, DEFAULTS)).toThrow('needs a command');
+    });
+
+    it('should skip everything downstream of a failure', () => {
+      const pipeline = parsePipeline({
+        stages: [
+          { name: 'build', steps: [{ name: 'a', command: 'a' }, { name: 'b', command: 'b' }] },
+          { name: 'test', steps: [{ name: 'c', command: 'c' }] },
+          { name: 'deploy', steps: [{ name: 'd', command: 'd' }] },
+        ],
+      }, DEFAULTS);
+      const statuses = new Map<string, StepStatus>(pipeline.steps.map(s => [s.id, 'pending']));
+
+      expect(nextSteps(pipeline, statuses)).toEqual({ ready: ['build/a', 'build/b'], skipped: [] });
+      statuses.set('build/a', 'fail');
+      statuses.set('build/b', 'running');
+      expect(nextSteps(pipeline, statuses)).toEqual({ ready: [], skipped: ['test/c', 'deploy/d'] });
+    });
+  });
+
+  describe('Runs', () => {
+    let workspace: string;
+    let dataDir: string;
+    let service: CiService;
+
+    const writePipeline = (stages: unknown[]) =>
+      fs.writeFile(path.join(workspace, 'pipeline.json'), JSON.stringify({ name: 'test', stages }));
+    const finished = async (): Promise<CiRun> => (await once(service, 'run:finish'))[0];
+
+    beforeEach(async () => {
+      workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'ci-workspace-'));
+      dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ci-data-'));
+      service = new CiService({
+        workspaceRoot: workspace,
+        dataDir,
+        historySize: 2,
+        testResults: new TestResultsService({ dataDir }),
+        artifacts: new ArtifactService({ dataDir: path.join(dataDir, 'artifacts') }),
+        settings: { autoRetryCount: 1, quarantineFlaky: true, coverageThreshold: 80 },
+      });
+    });
+
+    afterEach(async () => {
+      await fs.rm(workspace, { recursive: true, force: true });
+      await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('should run steps with their env, record results and logs, and persist history', async () => {
+      await fs.mkdir(path.join(workspace, 'sub'));
+      await writePipeline([
+        { name: 'build', env: { GREETING: 'hello' }, steps: [{ name: 'greet', command: 'echo "$GREETING from $(basename "$PWD")"', cwd: 'sub' }] },
+        { name: 'test', steps: [{ name: 'fail', command: 'echo oops >&2; exit 3' }, { name: 'after', command: 'true', needs: ['fail'] }] },
+      ]);
+
+      const done = finished();
+      const started = await service.startRun('alice');
+      expect(started).toMatchObject({ id: 'run-1', status: 'running', trigger: 'alice' });
+      await expect(service.startRun()).rejects.toThrow(CiBusyError);
+
+      const run = await done;
+      expect(run.status).toBe('fail');
+      expect(run.steps.map(s => [s.id, s.status, s.exitCode])).toEqual([
+        ['build/greet', 'pass', 0],
+        ['test/fail', 'fail', 3],
+        ['test/after', 'skipped', undefined],
+      ]);
+      expect(await service.readLogs(run, 'build/greet')).toBe('$ echo "$GREETING from $(basename "$PWD")"\nhello from sub\n');
+      expect(await service.readLogs(run)).toContain('==> test/fail (fail)\n$ echo oops >&2; exit 3\noops\n');
+
+      const summary = await service.summary();
+      expect(summary).toMatchObject({ logsRef: 'run-1', build: { status: 'fail' }, tests: { pass: 1, fail: 1, skip: 1 } });
+
+      const reloaded = new CiService({ workspaceRoot: workspace, dataDir });
+      expect((await reloaded.getRun('1'))?.steps[1].status).toBe('fail');
+    });
+
+    it('should not pass backend secrets to steps', async () => {
+      process.env.BACKEND_TEST_SECRET = 'do-not-leak';
+      try {
+        await writePipeline([{ name: 'env', steps: [{ name: 'show', command: 'echo "[$BACKEND_TEST_SECRET] $CI_STEP_ID"; test -n "$PATH"' }] }]);
+
+        const done = finished();
+        await service.startRun();
+        const run = await done;
+        expect(run.status).toBe('pass');
+        expect(await service.readLogs(run, 'env/show')).toContain('\n[] env/show\n');
+      } finally {
+        delete process.env.BACKEND_TEST_SECRET;
+      }
+    });
+
+    it('should time out and cancel steps, and trim history with its logs', async () => {
+      await writePipeline([{ name: 'slow', steps: [{ name: 'sleep', command: 'sleep 5', timeoutMs: 100 }] }]);
+      let done = finished();
+      await service.startRun();
+      const timedOut = await done;
+      expect(timedOut.steps[0]).toMatchObject({ status: 'fail', timedOut: true });
+      expect(await service.readLogs(timedOut, 'slow/sleep')).toContain('[step timed out after 100ms]');
+
+      await writePipeline([{ name: 'slow', steps: [{ name: 'sleep', command: 'sleep 5' }, { name: 'next', command: 'true', needs: ['sleep'] }] }]);
+      done = finished();
+      const run = await service.startRun();
+      await service.cancelRun(run.id);
+      expect((await done).steps.map(s => s.status)).toEqual(['cancelled', 'cancelled']);
+      expect(run.status).toBe('cancelled');
+
+      await writePipeline([{ name: 'quick', steps: [{ name: 'ok', command: 'true' }] }]);
+      done = finished();
+      await service.startRun();
+      expect((await done).status).toBe('pass');
+      expect((await service.listRuns()).map(r => r.id)).toEqual(['run-3', 'run-2']);
+      await expect(fs.access(path.join(dataDir, 'logs', 'run-1'))).rejects.toThrow();
+    });
+
+    it('should retry failed test steps and quarantine known flaky tests', async () => {
+      // Odd attempts fail the one test, even attempts pass it
+      const command = [
+        'n=$(($(cat count 2>/dev/null || echo 0) + 1)); echo $n > count; mkdir -p reports',
+        'if [ $((n % 2)) -eq 1 ]; then echo \'<testsuite name="s"><testcase name="t"><failure message="boom"/></testcase></testsuite>\' > reports/junit.xml; exit 1; fi',
+        'echo \'<testsuite name="s"><testcase name="t"/></testsuite>\' > reports/junit.xml',
+      ].join('\n');
+      await writePipeline([{ name: 'test', steps: [{ name: 'unit', command, reports: ['reports/*.xml'] }] }]);
+
+      let done = finished();
+      await service.startRun();
+      const retried = await done;
+      expect(retried.steps[0]).toMatchObject({ status: 'pass', attempts: 2, tests: { pass: 1, fail: 0, flaky: 1 } });
+      expect(await service.readLogs(retried, 'test/unit')).toContain('[retry 1 of 1]');
+
+      done = finished();
+      await service.startRun();
+      const quarantined = await done;
+      expect(quarantined.status).toBe('pass');
+      expect(quarantined.steps[0]).toMatchObject({ attempts: 1, exitCode: 1, quarantined: ['s::t'] });
+      expect(quarantined.tests).toEqual({ pass: 0, fail: 1, skip: 0, flaky: 1 });
+      expect(await service.summary()).toMatchObject({ tests: { pass: 0, fail: 1, flaky: 1 } });
+
+      service.updateSettings({ autoRetryCount: 0, quarantineFlaky: false });
+      await fs.writeFile(path.join(workspace, 'count'), '4');
+      done = finished();
+      await service.startRun();
+      expect((await done).steps[0]).toMatchObject({ status: 'fail', attempts: 1 });
+    });
+
+    it('should record merged coverage and fail runs below the threshold', async () => {
+      const lcov = (hits: string) => `SF:src/a.ts\n${hits.split('').map((h, i) => `DA:${i + 1},${h}`).join('\n')}\nend_of_record`;
+      await writePipeline([{ name: 'test', steps: [
+        { name: 'one', command: `mkdir -p cov && printf '${lcov('1100')}' > cov/one.info`, coverage: ['cov/*.info'] },
+        { name: 'two', command: `mkdir -p cov && printf '${lcov('0010')}' > cov/two.info`, coverage: ['cov/two.info'], needs: ['one'] },
+      ] }]);
+
+      let done = finished();
+      await service.startRun();
+      const run = await done;
+      expect(run.status).toBe('fail');
+      expect(run.steps.map(s => s.status)).toEqual(['pass', 'pass']);
+      expect(run.coverage).toMatchObject({ lines: { covered: 3, total: 4, pct: 75 }, files: 1, threshold: 80 });
+      expect(run.error).toBe('Line coverage 75% is below the 80% threshold');
+      expect(await service.readCoverage(run)).toEqual([
+        { file: 'src/a.ts', lines: { 1: 1, 2: 1, 3: 1, 4: 0 }, functions: { covered: 0, total: 0 }, branches: { covered: 0, total: 0 } },
+      ]);
+
+      service.updateSettings({ coverageThreshold: 70 });
+      done = finished();
+      await service.startRun();
+      expect((await done).status).toBe('pass');
+      expect((await service.latestCoverageRun())?.id).toBe('run-2');
+    });
+
+    it('should store the files a step produces as run artifacts', async () => {
+      await fs.mkdir(path.join(workspace, 'dist'));
+      await fs.writeFile(path.join(workspace, 'dist', 'stale.js'), 'old');
+      await writePipeline([{ name: 'build', steps: [{
+        name: 'pack',
+        command: 'mkdir -p dist/assets && echo app > dist/app.js && echo css > dist/assets/site.css && echo notes > notes.txt',
+        artifacts: ['dist', 'notes.*'],
+      }] }]);
+
+      // Older than the step: not one of its outputs
+      const past = new Date(Date.now() - 60_000);
+      await fs.utimes(path.join(workspace, 'dist', 'stale.js'), past, past);
+
+      const done = finished();
+      await service.startRun();
+      const run = await done;
+      expect(run.steps[0].artifacts).toHaveLength(3);
+      expect(await service.readLogs(run, 'build/pack')).toContain('[stored 3 artifacts]');
+    });
+
+    it('should reject a missing or invalid pipeline definition', async () => {
+      await expect(service.startRun()).rejects.toThrow('No pipeline definition');
+      await fs.writeFile(path.join(workspace, 'pipeline.json'), '{ nope');
+      await expect(service.startRun()).rejects.toThrow('not valid JSON');
+      expect(await service.summary()).toMatchObject({ build: { status: 'idle' }, run: null });
+    });
+  });
+});
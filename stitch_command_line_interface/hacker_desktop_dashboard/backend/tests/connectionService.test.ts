@@ -0,0 +1,110 @@
+/**
+ * Connection Service Tests
+ * Tests /proc/net socket table parsing, address decoding, filtering and paging
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConnectionService,
+  decodeIPv4,
+  decodeIPv6,
+  parseSocketTable,
+} from '../src/services/connectionService';
+
+const TCP_HEADER = '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+const tcpTable = [
+  TCP_HEADER,
+  '   0: 0100007F:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 111 1 0 100 0 0 10 0',
+  '   1: 0100007F:1F90 0100007F:C72A 01 00000010:00000020 00:00000000 00000000  1000        0 222 1 0 20 4 18 20 -1',
+  '   2: 0A00000A:D431 22D8B85D:01BB 06 00000000:00000000 03:00001234 00000000     0        0 0 3 0',
+].join('\n');
+
+describe('ConnectionService', () => {
+  describe('Address decoding', () => {
+    it('should decode little-endian IPv4 addresses', () => {
+      expect(decodeIPv4('0100007F')).toBe('127.0.0.1');
+      expect(decodeIPv4('00000000')).toBe('0.0.0.0');
+      expect(decodeIPv4('22D8B85D')).toBe('93.184.216.34');
+    });
+
+    it('should decode and compress IPv6 addresses', () => {
+      expect(decodeIPv6('00000000000000000000000001000000')).toBe('::1');
+      expect(decodeIPv6('00000000000000000000000000000000')).toBe('::');
+      expect(decodeIPv6('000080FE00000000FF020000FE000000')).toBe('fe80::2ff:0:fe');
+    });
+
+    it('should render IPv4-mapped IPv6 addresses in dotted form', () => {
+      expect(decodeIPv6('0000000000000000FFFF00000100007F')).toBe('::ffff:127.0.0.1');
+    });
+  });
+
+  describe('Table parsing', () => {
+    it('should parse ports, states, queues and inodes', () => {
+      const entries = parseSocketTable(tcpTable, 'TCP', 'IPv4');
+
+      expect(entries).toHaveLength(3);
+      expect(entries[0]).toMatchObject({ localIp: '127.0.0.1', localPort: 8080, state: 'LISTEN', uid: 1000, inode: 111 });
+      expect(entries[1]).toMatchObject({ remotePort: 50986, state: 'ESTABLISHED', txQueue: 16, rxQueue: 32 });
+      expect(entries[2]).toMatchObject({ remoteIp: '93.184.216.34', remotePort: 443, state: 'TIME_WAIT', inode: 0 });
+    });
+
+    it('should decode UDP states', () => {
+      const udp = `${TCP_HEADER}\n   0: 00000000:0044 00000000:0000 07 00000000:00000000 00:00000000 00000000     0        0 333 2 0 0`;
+
+      expect(parseSocketTable(udp, 'UDP', 'IPv4')[0].state).toBe('UNCONN');
+    });
+  });
+
+  describe('Snapshots', () => {
+    let procRoot: string;
+
+    beforeEach(async () => {
+      procRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'proc-net-'));
+      await fs.mkdir(path.join(procRoot, 'net'));
+      await fs.writeFile(path.join(procRoot, 'net', 'tcp'), tcpTable);
+    });
+
+    afterEach(async () => {
+      await fs.rm(procRoot, { recursive: true, force: true });
+    });
+
+    it('should tolerate missing tables and unmapped inodes', async () => {
+      const service = new ConnectionService({ procRoot, cacheTtlMs: 0 });
+      const connections = await service.snapshot();
+
+      expect(connections).toHaveLength(3);
+      expect(connections[0]).toMatchObject({ id: 'tcp-111', localAddress: '127.0.0.1:8080', pid: null, process: null });
+    });
+
+    it('should filter by state, port and process and paginate', async () => {
+      const service = new ConnectionService({ procRoot, cacheTtlMs: 0 });
+
+      const listening = await service.query({ state: ['listen'] });
+      expect(listening.total).toBe(1);
+
+      const https = await service.query({ port: 443 });
+      expect(https.connections[0].state).toBe('TIME_WAIT');
+
+      const byProcess = await service.query({ process: 'node' });
+      expect(byProcess.total).toBe(0);
+
+      const paged = await service.query({}, 2, 2);
+      expect(paged).toMatchObject({ total: 3, page: 2, pageSize: 2 });
+      expect(paged.connections).toHaveLength(1);
+    });
+
+    it('should map sockets to processes on the live host', async () => {
+      const service = new ConnectionService({ cacheTtlMs: 0 });
+      const owners = await service.mapInodesToProcesses();
+
+      // Our own process always has readable fds; every mapped entry must carry a pid and a name
+      owners.forEach(owner => {
+        expect(owner.pid).toBeGreaterThan(0);
+        expect(owner.name.length).toBeGreaterThan(0);
+      });
+    });
+  });
+});
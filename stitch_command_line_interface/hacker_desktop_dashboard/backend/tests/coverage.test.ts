@@ -0,0 +1,104 @@
+/**
+ * Coverage Tests
+ * Tests lcov and Istanbul JSON parsing, merging and totals
+ */
+
+import * as path from 'path';
+import {
+  coverageTotals,
+  CoverageReportError,
+  mergeCoverage,
+  parseCoverageReport,
+  parseIstanbulJson,
+  parseLcov,
+} from '../src/services/coverageModel';
+
+const ROOT = path.resolve('/work');
+const PATHS = { cwd: path.join(ROOT, 'backend'), baseDir: ROOT };
+
+const LCOV = `TN:
+SF:src/math.ts
+FN:1,add
+FN:5,divide
+FNDA:3,add
+FNDA:0,divide
+FNF:2
+FNH:1
+DA:1,3
+DA:2,3
+DA:5,0
+DA:6,0
+BRDA:5,0,0,0
+BRDA:5,0,1,-
+BRDA:2,1,0,3
+BRF:3
+BRH:1
+LF:4
+LH:2
+end_of_record
+SF:${path.join(ROOT, 'shared', 'util.ts')}
+DA:1,1
+end_of_record
+`;
+
+describe('Coverage', () => {
+  it('should read lcov records with paths relative to the workspace', () => {
+    const files = parseLcov(LCOV, PATHS);
+
+    expect(files).toEqual([
+      {
+        file: 'backend/src/math.ts',
+        lines: { 1: 3, 2: 3, 5: 0, 6: 0 },
+        functions: { covered: 1, total: 2 },
+        branches: { covered: 1, total: 3 },
+      },
+      { file: 'shared/util.ts', lines: { 1: 1 }, functions: { covered: 0, total: 0 }, branches: { covered: 0, total: 0 } },
+    ]);
+  });
+
+  it('should read Istanbul JSON, counting a line by its busiest statement', () => {
+    const file = path.join(ROOT, 'backend', 'src', 'app.ts');
+    const files = parseIstanbulJson({
+      [file]: {
+        path: file,
+        statementMap: {
+          0: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
+          1: { start: { line: 1, column: 12 }, end: { line: 1, column: 20 } },
+          2: { start: { line: 3, column: 2 }, end: { line: 4, column: 1 } },
+        },
+        s: { 0: 0, 1: 2, 2: 0 },
+        fnMap: {},
+        f: { 0: 2, 1: 0 },
+        branchMap: {},
+        b: { 0: [2, 0] },
+      },
+    }, PATHS);
+
+    expect(files).toEqual([
+      { file: 'backend/src/app.ts', lines: { 1: 2, 3: 0 }, functions: { covered: 1, total: 2 }, branches: { covered: 1, total: 2 } },
+    ]);
+  });
+
+  it('should merge shards and compute totals', () => {
+    const shardA = parseCoverageReport('SF:src/a.ts\nDA:1,1\nDA:2,0\nend_of_record\n', PATHS);
+    const shardB = parseCoverageReport('SF:src/a.ts\nDA:2,4\nDA:3,0\nend_of_record\nSF:src/b.ts\nDA:1,0\nend_of_record\n', PATHS);
+    const merged = mergeCoverage([...shardB, ...shardA]);
+
+    expect(merged.map(f => [f.file, f.lines])).toEqual([
+      ['backend/src/a.ts', { 1: 1, 2: 4, 3: 0 }],
+      ['backend/src/b.ts', { 1: 0 }],
+    ]);
+    expect(coverageTotals(merged)).toEqual({
+      lines: { covered: 2, total: 4, pct: 50 },
+      functions: { covered: 0, total: 0, pct: 100 },
+      branches: { covered: 0, total: 0, pct: 100 },
+    });
+    expect(coverageTotals(parseLcov('SF:x.ts\nDA:1,1\nDA:2,1\nDA:3,0\nend_of_record', PATHS)).lines.pct).toBe(66.67);
+  });
+
+  it('should reject other formats and truncated reports', () => {
+    expect(() => parseCoverageReport('<coverage/>', PATHS)).toThrow(CoverageReportError);
+    expect(() => parseCoverageReport('{ "a.ts": { "s": {} } }', PATHS)).toThrow('has no statementMap');
+    expect(() => parseCoverageReport('SF:a.ts\nDA:1,1\n', PATHS)).toThrow('no end_of_record');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * DAP Client Tests
+ * Tests Content-Length framing, request/response correlation, events and adapter lookup
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { DapClient, DapRequestError, decodeDapMessages, encodeDapMessage } from '../src/services/dapClient';
+import { adapterForFile, DEBUG_ADAPTERS, findOnPath } from '../src/services/dapAdapters';
+
+describe('DAP framing', () => {
+  it('should frame by byte length and keep partial messages for the next chunk', () => {
+    const first = encodeDapMessage({ seq: 1, type: 'event', event: 'output', body: { output: 'héllo ✓' } });
+    const second = encodeDapMessage({ seq: 2, type: 'event', event: 'terminated' });
+    const stream = Buffer.concat([first, second]);
+
+    const partial = decodeDapMessages(stream.subarray(0, first.length + 5));
+    expect(partial.messages).toEqual([{ seq: 1, type: 'event', event: 'output', body: { output: 'héllo ✓' } }]);
+
+    const rest = decodeDapMessages(Buffer.concat([partial.rest, stream.subarray(first.length + 5)]));
+    expect(rest.messages).toEqual([{ seq: 2, type: 'event', event: 'terminated' }]);
+    expect(rest.rest).toHaveLength(0);
+  });
+
+  it('should reject a header without Content-Length', () => {
+    expect(() => decodeDapMessages(Buffer.from('X-Other: 1\r\n\r\n{}'))).toThrow(/Content-Length/);
+  });
+});
+
+describe('DapClient', () => {
+  let fromAdapter: PassThrough;
+  let toAdapter: PassThrough;
+  let client: DapClient;
+  const sent: any[] = [];
+
+  beforeEach(() => {
+    fromAdapter = new PassThrough();
+    toAdapter = new PassThrough();
+    sent.length = 0;
+    toAdapter.on('data', (chunk: Buffer) => sent.push(...decodeDapMessages(chunk).messages));
+    client = new DapClient(fromAdapter, toAdapter);
+  });
+
+  const reply = (message: object) => fromAdapter.write(encodeDapMessage(message));
+
+  it('should resolve responses by request_seq in any order', async () => {
+    const threads = client.request('threads');
+    const scopes = client.request('scopes', { frameId: 4 });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(sent.map(message => [message.seq, message.command, message.arguments])).toEqual([[1, 'threads', undefined], [2, 'scopes', { frameId: 4 }]]);
+
+    reply({ seq: 1, type: 'response', request_seq: 2, command: 'scopes', success: true, body: { scopes: [] } });
+    reply({ seq: 2, type: 'response', request_seq: 1, command: 'threads', success: false, message: 'not stopped' });
+
+    await expect(scopes).resolves.toEqual({ scopes: [] });
+    await expect(threads).rejects.toEqual(new DapRequestError('threads', 'not stopped'));
+  });
+
+  it('should deliver events, refuse reverse requests and fail pending requests on close', async () => {
+    const initialized = client.waitForEvent('initialized');
+    reply({ seq: 1, type: 'event', event: 'initialized' });
+    await expect(initialized).resolves.toBeUndefined();
+
+    reply({ seq: 2, type: 'request', command: 'runInTerminal', arguments: {} });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(sent).toEqual([expect.objectContaining({ type: 'response', request_seq: 2, command: 'runInTerminal', success: false })]);
+
+    const pending = client.request('continue', { threadId: 1 });
+    fromAdapter.end();
+    await expect(pending).rejects.toBeInstanceOf(DapRequestError);
+    await expect(client.request('next')).rejects.toThrow(/closed/);
+  });
+});
+
+describe('Debug adapter lookup', () => {
+  it('should pick adapters by extension and leave JavaScript to the inspector', () => {
+    expect(adapterForFile('src/app.py')?.language).toBe('python');
+    expect(adapterForFile('cmd/main.go')?.language).toBe('go');
+    expect(adapterForFile('lib/vec.CPP')?.language).toBe('cpp');
+    expect(adapterForFile('src/index.js')).toBeUndefined();
+    expect(DEBUG_ADAPTERS.find(adapter => adapter.language === 'rust')?.build?.('main.rs', '/tmp/main'))
+      .toEqual({ command: 'rustc', args: ['-g', '-o', '/tmp/main', 'main.rs'] });
+  });
+
+  it('should find only executable files on PATH', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dap-path-'));
+    try {
+      await fs.writeFile(path.join(dir, 'lldb-dap'), '#!/bin/sh\n', { mode: 0o755 });
+      await fs.writeFile(path.join(dir, 'gdb'), '', { mode: 0o644 });
+      await fs.mkdir(path.join(dir, 'dlv'));
+      const searchPath = ['/nonexistent', dir].join(path.delimiter);
+
+      await expect(findOnPath('lldb-dap', searchPath)).resolves.toBe(path.join(dir, 'lldb-dap'));
+      await expect(findOnPath('gdb', searchPath)).resolves.toBeUndefined();
+      await expect(findOnPath('dlv', searchPath)).resolves.toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
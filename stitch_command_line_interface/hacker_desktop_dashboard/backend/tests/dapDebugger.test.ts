@@ -0,0 +1,226 @@
+/**
+ * DAP Debugger Tests
+ * Drives DebuggerService through a scripted Debug Adapter Protocol adapter: entry stop,
+ * breakpoints, stepping, frames, paged variables, watches, evaluate, exit and startup failures
+ */
+
+import { once } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DebuggerService, DebuggerState, DebugEvaluationError, WatchExpression } from '../src/services/debuggerService';
+import { DebugAdapterDefinition, DebugAdapterNotFoundError } from '../src/services/dapAdapters';
+import { DebugBuildError } from '../src/services/dapSession';
+import { workspaceService } from '../src/services/workspaceService';
+import { passthroughEnv } from '../src/utils/childEnv';
+
+/**
+ * Pretends to run the program one line at a time: stops on entry, at breakpoints and after steps,
+ * and exits after the last line
+ */
+const FAKE_ADAPTER = `
+const fs = require('fs');
+let seq = 1;
+let buffer = Buffer.alloc(0);
+let program;
+let lines = 0;
+let line = 1;
+let breakpoints = [];
+
+const send = (message) => {
+  const body = Buffer.from(JSON.stringify({ seq: seq++, ...message }));
+  process.stdout.write('Content-Length: ' + body.length + '\\r\\n\\r\\n');
+  process.stdout.write(body);
+};
+const event = (name, body) => send({ type: 'event', event: name, body });
+const stop = (reason) => event('stopped', { reason, threadId: 7 });
+const items = (start, count) => Array.from({ length: count }, (_, i) => ({
+  name: String(start + i), value: String((start + i) * 2), type: 'int', variablesReference: 0,
+}));
+
+const handlers = {
+  initialize: () => ({ supportsConfigurationDoneRequest: true }),
+  launch: (args) => {
+    program = args.program;
+    lines = fs.readFileSync(program, 'utf8').split('\\n').length;
+    event('initialized');
+  },
+  setBreakpoints: (args) => {
+    breakpoints = args.breakpoints.map(bp => bp.line);
+    return { breakpoints: breakpoints.map(l => ({ verified: true, line: l })) };
+  },
+  configurationDone: () => {
+    setTimeout(() => stop('entry'), 10);
+  },
+  threads: () => ({ threads: [{ id: 7, name: 'main' }] }),
+  stackTrace: (args) => {
+    if (args.threadId !== 7) throw new Error('unknown thread');
+    return { stackFrames: [
+      { id: 100 + line, name: 'work', line, column: 1, source: { path: program } },
+      { id: 1, name: '<module>', line: lines, column: 1, source: { path: program } },
+    ] };
+  },
+  scopes: (args) => ({ scopes: [{ name: 'Locals', presentationHint: 'locals', variablesReference: args.frameId === 1 ? 20 : 10 }] }),
+  variables: (args) => {
+    if (args.variablesReference === 10) {
+      return { variables: [
+        { name: 'line', value: String(line), type: 'int', variablesReference: 0 },
+        { name: 'items', value: '[0, 2, 4, ...]', type: 'list', variablesReference: 11, indexedVariables: 150 },
+      ] };
+    }
+    if (args.variablesReference === 20) return { variables: [{ name: 'caller', value: "'module'", type: 'str', variablesReference: 0 }] };
+    if (args.filter === 'indexed') return { variables: items(args.start, Math.min(args.count, 150 - args.start)) };
+    return { variables: items(0, 150) };
+  },
+  evaluate: (args) => {
+    if (args.expression === 'line * 2' && args.frameId !== 1) return { result: String(line * 2), type: 'int', variablesReference: 0 };
+    throw new Error("NameError: name '" + args.expression + "' is not defined");
+  },
+  continue: () => {
+    setTimeout(() => {
+      const next = breakpoints.filter(l => l > line).sort((a, b) => a - b)[0];
+      if (next) {
+        line = next;
+        return stop('breakpoint');
+      }
+      event('output', { category: 'stdout', output: 'done\\n' });
+      event('exited', { exitCode: 3 });
+      event('terminated');
+    }, 10);
+  },
+  next: () => {
+    line++;
+    setTimeout(() => stop('step'), 10);
+  },
+  disconnect: () => {
+    setTimeout(() => process.exit(0), 10);
+  },
+};
+
+process.stdin.on('data', (chunk) => {
+  buffer = Buffer.concat([buffer, chunk]);
+  for (;;) {
+    const headerEnd = buffer.indexOf('\\r\\n\\r\\n');
+    if (headerEnd < 0) return;
+    const length = parseInt(/Content-Length: (\\d+)/.exec(buffer.subarray(0, headerEnd).toString())[1], 10);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const request = JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString());
+    buffer = buffer.subarray(headerEnd + 4 + length);
+    try {
+      const body = handlers[request.command] ? handlers[request.command](request.arguments || {}) : {};
+      send({ type: 'response', request_seq: request.seq, command: request.command, success: true, body });
+    } catch (error) {
+      send({ type: 'response', request_seq: request.seq, command: request.command, success: false, message: error.message });
+    }
+  }
+});
+`;
+
+const PROGRAM = ['x = 1', 'y = 2', 'z = x + y', 'print(z)', 'done()'].join('\n');
+
+describe('DebuggerService over DAP', () => {
+  let workDir: string;
+  let service: DebuggerService;
+  let adapter: DebugAdapterDefinition;
+
+  beforeEach(async () => {
+    workDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'dap-debugger-')));
+    await fs.writeFile(path.join(workDir, 'adapter.js'), FAKE_ADAPTER);
+    await fs.writeFile(path.join(workDir, 'main.fake'), PROGRAM);
+    jest.spyOn(workspaceService, 'getWorkspaceRoot').mockReturnValue(workDir);
+    jest.spyOn(workspaceService, 'readFile').mockResolvedValue({ path: 'main.fake', content: PROGRAM } as any);
+
+    adapter = {
+      language: 'fake',
+      extensions: ['.fake'],
+      candidates: [{
+        command: process.execPath,
+        args: [path.join(workDir, 'adapter.js')],
+        transport: 'stdio',
+        launch: (program, args, cwd) => ({ program, args, cwd, stopOnEntry: true }),
+      }],
+    };
+    service = new DebuggerService({ adapters: [adapter], adapterTimeoutMs: 5000, variablePageSize: 100 });
+  });
+
+  afterEach(async () => {
+    await service.stopDebugging();
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should stop on entry, at breakpoints and after steps with workspace-relative frames', async () => {
+    service.addBreakpoint('main.fake', 3);
+    service.addWatch('line * 2');
+    const output: string[] = [];
+    service.on('output', ({ data }) => output.push(data));
+
+    const started = Promise.all([once(service, 'paused'), once(service, 'watches')]);
+    await service.startDebugging('main.fake');
+    const [[onEntry]] = (await started) as [[DebuggerState], unknown];
+    expect(onEntry).toMatchObject({ running: true, paused: true, reason: 'entry', currentFile: 'main.fake', currentLine: 1 });
+
+    const atBreakpoint = Promise.all([once(service, 'paused'), once(service, 'watches')]);
+    service.continue();
+    const [[state], [watches]] = (await atBreakpoint) as [[DebuggerState], [WatchExpression[]]];
+    expect(state.currentLine).toBe(3);
+    expect(state.callStack.map(frame => [frame.function, frame.file, frame.line])).toEqual([['work', 'main.fake', 3], ['<module>', 'main.fake', 5]]);
+    expect(state.callStack[0].scopes).toEqual([{ type: 'locals', name: 'Locals', objectId: '10' }]);
+    expect(state.variables).toEqual([
+      { name: 'line', value: '3', type: 'int' },
+      { name: 'items', value: '[0, 2, 4, ...]', type: 'list', objectId: '11', size: 150 },
+    ]);
+    expect(watches).toEqual([{ id: 'watch-1', expression: 'line * 2', value: '6', type: 'int' }]);
+
+    const afterStep = once(service, 'paused');
+    service.stepOver();
+    expect(((await afterStep) as [DebuggerState])[0]).toMatchObject({ reason: 'step', currentLine: 4 });
+
+    // Removing the only breakpoint lets the program run to the end
+    expect(service.removeBreakpoint('bp-1')).toBe(true);
+    const exited = once(service, 'exit');
+    service.continue();
+    expect(await exited).toEqual([3]);
+    expect(output.join('')).toContain('done');
+    expect(service.getState().running).toBe(false);
+  }, 20000);
+
+  it('should page indexed children, evaluate per frame and report evaluation errors', async () => {
+    const started = once(service, 'paused');
+    await service.startDebugging('main.fake');
+    const [state] = (await started) as [DebuggerState];
+
+    const page = await service.getVariables(state.variables[1].objectId!, { start: 100 });
+    expect(page.total).toBe(150);
+    expect(page.variables).toHaveLength(50);
+    expect(page.variables[0]).toEqual({ name: '100', value: '200', type: 'int' });
+
+    await expect(service.evaluate('line * 2')).resolves.toBe('2');
+    await expect(service.evaluate('missing')).rejects.toBeInstanceOf(DebugEvaluationError);
+
+    const selected = await service.selectFrame(1);
+    expect(selected.variables).toEqual([{ name: 'caller', value: "'module'", type: 'str' }]);
+    await expect(service.evaluate('line * 2')).rejects.toThrow(/not defined/);
+  }, 20000);
+
+  it('should report a missing adapter and a failed build', async () => {
+    const missing = new DebuggerService({
+      adapters: [{ ...adapter, candidates: [{ ...adapter.candidates[0], command: 'no-such-debug-adapter' }] }],
+    });
+    await expect(missing.startDebugging('main.fake')).rejects.toBeInstanceOf(DebugAdapterNotFoundError);
+
+    const broken = new DebuggerService({
+      adapters: [{
+        ...adapter,
+        build: () => ({
+          command: process.execPath,
+          args: ['-e', "console.error('main.fake:2: syntax error with', Object.keys(process.env).sort().join()); process.exit(1)"],
+        }),
+      }],
+    });
+    const failure = broken.startDebugging('main.fake');
+    await expect(failure).rejects.toBeInstanceOf(DebugBuildError);
+    await expect(failure).rejects.toThrow(new RegExp(`syntax error with ${Object.keys(passthroughEnv()).sort().join()}$`));
+    expect(broken.getState().running).toBe(false);
+  }, 20000);
+});
@@ -0,0 +1,36 @@
+/**
+ * Debug Model Tests
+ * Tests RemoteObject previews, expandability and collection sizes
+ */
+
+import { collectionSize, describeRemoteObject, toDebugVariable } from '../src/services/debugModel';
+
+describe('Debug model', () => {
+  it('should preview primitives the way a console would', () => {
+    expect(describeRemoteObject({ type: 'string', value: 'hi "there"' })).toBe('"hi \\"there\\""');
+    expect(describeRemoteObject({ type: 'number', value: 42, description: '42' })).toBe('42');
+    expect(describeRemoteObject({ type: 'number', unserializableValue: 'NaN', description: 'NaN' })).toBe('NaN');
+    expect(describeRemoteObject({ type: 'bigint', unserializableValue: '10n', description: '10n' })).toBe('10n');
+    expect(describeRemoteObject({ type: 'undefined' })).toBe('undefined');
+    expect(describeRemoteObject({ type: 'object', subtype: 'null', value: null })).toBe('null');
+    expect(describeRemoteObject({ type: 'string', value: 'x'.repeat(500) })).toHaveLength(120);
+  });
+
+  it('should show a function by its signature only', () => {
+    const remote = { type: 'function', className: 'Function', description: 'async function handler(req, res) {\n  return 1;\n}', objectId: '1' };
+
+    expect(describeRemoteObject(remote)).toBe('ƒ async handler(req, res)');
+    expect(toDebugVariable('handler', remote)).toEqual({ name: 'handler', value: 'ƒ async handler(req, res)', type: 'function', objectId: '1' });
+  });
+
+  it('should expose objectIds for objects only and sizes for paged collections', () => {
+    expect(collectionSize({ type: 'object', subtype: 'typedarray', description: 'Uint8Array(16)' })).toBe(16);
+    expect(collectionSize({ type: 'object', subtype: 'set', description: 'Set(0)' })).toBe(0);
+    expect(collectionSize({ type: 'object', className: 'Object', description: 'Object' })).toBeUndefined();
+
+    expect(toDebugVariable('m', { type: 'object', subtype: 'map', className: 'Map', description: 'Map(3)', objectId: '7' }))
+      .toEqual({ name: 'm', value: 'Map(3)', type: 'map', objectId: '7', size: 3 });
+    expect(toDebugVariable('n', { type: 'object', subtype: 'null', value: null, objectId: '8' }))
+      .toEqual({ name: 'n', value: 'null', type: 'null' });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Debug Session Manager Tests
+ * Tests per-user limits, ownership isolation, event tagging, idle sweeping and socket cleanup
+ */
+
+import {
+  DebugSessionEvent,
+  DebugSessionLimitError,
+  DebugSessionManager,
+  DebugSessionNotFoundError,
+} from '../src/services/debugSessionManager';
+
+describe('DebugSessionManager', () => {
+  let manager: DebugSessionManager;
+
+  beforeEach(() => {
+    manager = new DebugSessionManager({ maxSessionsPerUser: 2, idleTimeoutMs: 1000 });
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+  });
+
+  it('should give each session its own debugger and enforce the per-user limit', () => {
+    const first = manager.create({ userId: 'u1', username: 'alice' });
+    const second = manager.create({ userId: 'u1', username: 'alice' });
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.debugger).not.toBe(second.debugger);
+    expect(() => manager.create({ userId: 'u1' })).toThrow(DebugSessionLimitError);
+    expect(() => manager.create({ userId: 'u2' })).not.toThrow();
+    expect(manager.list('u1').map(session => session.id)).toEqual([first.id, second.id]);
+  });
+
+  it("should hide other users' sessions", async () => {
+    const session = manager.create({ userId: 'u1' });
+
+    expect(() => manager.get(session.id, 'u2')).toThrow(DebugSessionNotFoundError);
+    await expect(manager.close(session.id, 'u2')).rejects.toBeInstanceOf(DebugSessionNotFoundError);
+    expect(manager.list('u2')).toEqual([]);
+    expect(manager.get(session.id, 'u1')).toBe(session);
+  });
+
+  it('should tag debugger events with their session and owner', () => {
+    const events: DebugSessionEvent[] = [];
+    manager.on('session:event', event => events.push(event));
+    const session = manager.create({ userId: 'u1' });
+
+    session.debugger.emit('started', { file: 'app.js' });
+    session.debugger.emit('output', { type: 'stdout', data: 'hi' });
+
+    expect(events).toEqual([
+      { sessionId: session.id, userId: 'u1', event: 'started', data: { file: 'app.js' } },
+      { sessionId: session.id, userId: 'u1', event: 'output', data: { type: 'stdout', data: 'hi' } },
+    ]);
+    expect(manager.summarize(session)).toMatchObject({ id: session.id, file: 'app.js', running: false });
+  });
+
+  it('should close sessions left idle past the timeout', async () => {
+    const closed: string[] = [];
+    manager.on('session:closed', ({ sessionId, reason }) => closed.push(`${sessionId}:${reason}`));
+    const idle = manager.create({ userId: 'u1' });
+    const active = manager.create({ userId: 'u2' });
+    idle.lastActivityAt -= 5000;
+
+    await expect(manager.sweep()).resolves.toEqual([idle.id]);
+    expect(closed).toEqual([`${idle.id}:idle timeout`]);
+    expect(() => manager.get(idle.id, 'u1')).toThrow(DebugSessionNotFoundError);
+    expect(manager.get(active.id, 'u2')).toBe(active);
+  });
+
+  it('should close a session once the last socket using it disconnects', async () => {
+    const shared = manager.create({ userId: 'u1' }, 'socket-a');
+    shared.sockets.add('socket-b');
+    const other = manager.create({ userId: 'u1' }, 'socket-b');
+
+    await expect(manager.releaseSocket('socket-a')).resolves.toEqual([]);
+    await expect(manager.releaseSocket('socket-b')).resolves.toEqual([shared.id, other.id]);
+    expect(manager.list('u1')).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Debugger Service Tests
+ * Drives a real `node --inspect-brk` process: break on start, breakpoints, call stack mapping,
+ * watches, evaluate, per-frame scopes and lazy, paged variable expansion
+ */
+
+import { once } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DebuggerService, DebuggerState, DebuggerStateError, DebugEvaluationError, WatchExpression } from '../src/services/debuggerService';
+import { workspaceService } from '../src/services/workspaceService';
+import { passthroughEnv } from '../src/utils/childEnv';
+
+const SCRIPT = [
+  'let total = 0;',
+  'for (let i = 1; i <= 3; i++) {',
+  '  total += i;',
+  '}',
+  "console.log('total', total);",
+].join('\n');
+
+const FRAMES_SCRIPT = [
+  'function inner(items, lookup) {',
+  '  const local = items.length;',
+  '  return local + lookup.size;',
+  '}',
+  'const big = Array.from({ length: 250 }, (_, i) => i * 2);',
+  "const lookup = new Map([['a', { deep: { value: 1 } }], ['b', 2]]);",
+  'inner(big, lookup);',
+].join('\n');
+
+describe('DebuggerService', () => {
+  let workDir: string;
+  let service: DebuggerService;
+
+  beforeEach(async () => {
+    workDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'debugger-')));
+    await fs.writeFile(path.join(workDir, 'app.js'), SCRIPT);
+    await fs.writeFile(path.join(workDir, 'frames.js'), FRAMES_SCRIPT);
+    jest.spyOn(workspaceService, 'getWorkspaceRoot').mockReturnValue(workDir);
+    jest.spyOn(workspaceService, 'readFile').mockResolvedValue({ path: 'app.js', content: SCRIPT } as any);
+    service = new DebuggerService();
+  });
+
+  afterEach(async () => {
+    await service.stopDebugging();
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should refuse to evaluate without a paused session', async () => {
+    await expect(service.evaluate('1 + 1')).rejects.toBeInstanceOf(DebuggerStateError);
+  });
+
+  it('should pause on start and at breakpoints with workspace-relative 1-based locations', async () => {
+    const breakpoint = service.addBreakpoint('app.js', 5);
+    service.addWatch('6 * 7');
+    const output: string[] = [];
+    service.on('output', ({ data }) => output.push(data));
+
+    const started = once(service, 'paused');
+    await service.startDebugging('app.js');
+    const [onStart] = (await started) as [DebuggerState];
+    expect(onStart).toMatchObject({ running: true, paused: true, currentFile: 'app.js', currentLine: 1 });
+
+    const atBreakpoint = once(service, 'paused');
+    const watchValues = once(service, 'watches');
+    service.continue();
+    const [state] = (await atBreakpoint) as [DebuggerState];
+    expect(state.currentLine).toBe(5);
+    expect(state.callStack[0]).toMatchObject({ file: 'app.js', line: 5 });
+    expect(state.callStack[0].scopes.map(scope => scope.type)).toContain('local');
+
+    const [watches] = (await watchValues) as [WatchExpression[]];
+    expect(watches).toEqual([{ id: 'watch-1', expression: '6 * 7', value: '42', type: 'number' }]);
+    await expect(service.evaluate('2 + 3')).resolves.toBe(5);
+    await expect(service.evaluate('Object.keys(process.env).sort().join()')).resolves.toBe(Object.keys(passthroughEnv()).sort().join());
+    await expect(service.evaluate("throw new Error('boom')")).rejects.toBeInstanceOf(DebugEvaluationError);
+
+    // Removing the breakpoint must clear it in the inspector too, so the run completes
+    expect(service.removeBreakpoint(breakpoint.id)).toBe(true);
+    const exited = once(service, 'exit');
+    service.continue();
+    expect(await exited).toEqual([0]);
+    expect(output.join('')).toContain('total 6');
+  }, 20000);
+
+  it('should expand variables lazily, page large collections and evaluate in the selected frame', async () => {
+    service.addBreakpoint('frames.js', 3);
+    service.addWatch('local * 2');
+
+    const started = Promise.all([once(service, 'paused'), once(service, 'watches')]);
+    await service.startDebugging('frames.js');
+    await started;
+    const atBreakpoint = once(service, 'paused');
+    const watchValues = once(service, 'watches');
+    service.continue();
+    const [state] = (await atBreakpoint) as [DebuggerState];
+
+    expect(state.callStack.slice(0, 2).map(frame => [frame.function, frame.file, frame.line])).toEqual([['inner', 'frames.js', 3], ['<anonymous>', 'frames.js', 7]]);
+    const variables = Object.fromEntries(state.variables.map(variable => [variable.name, variable]));
+    expect(variables.local).toMatchObject({ value: '250', type: 'number' });
+    expect(variables.items).toMatchObject({ value: 'Array(250)', type: 'array', size: 250 });
+    expect(variables.lookup).toMatchObject({ type: 'map', size: 2 });
+    expect((await watchValues)[0][0]).toMatchObject({ value: '500' });
+
+    const tail = await service.getVariables(variables.items.objectId!, { start: 200, count: 100 });
+    expect(tail.total).toBe(250);
+    expect(tail.variables).toHaveLength(50);
+    expect(tail.variables[0]).toMatchObject({ name: '200', value: '400' });
+
+    const entries = await service.getVariables(variables.lookup.objectId!);
+    expect(entries.variables.map(entry => entry.name)).toEqual(['0', '1']);
+    const entry = await service.getVariables(entries.variables[0].objectId!);
+    expect(entry.variables.find(v => v.name === 'key')).toMatchObject({ value: '"a"' });
+    const mapValue = await service.getVariables(entry.variables.find(v => v.name === 'value')!.objectId!);
+    const deep = await service.getVariables(mapValue.variables[0].objectId!);
+    expect(deep.variables).toEqual([{ name: 'value', value: '1', type: 'number' }]);
+
+    // The caller's frame sees module-level bindings but not inner's locals
+    const frameWatches = once(service, 'watches');
+    const selected = await service.selectFrame(1);
+    expect(selected.selectedFrame).toBe(1);
+    expect(selected.variables.map(variable => variable.name)).toEqual(expect.arrayContaining(['big', 'lookup']));
+    expect((await frameWatches)[0][0].error).toMatch(/local is not defined/);
+    await expect(service.evaluate('big.length')).resolves.toBe(250);
+    await expect(service.evaluate('local', 0)).resolves.toBe(250);
+    expect(service.getScopes(0)[0]).toMatchObject({ type: 'local', name: 'inner' });
+  }, 20000);
+});
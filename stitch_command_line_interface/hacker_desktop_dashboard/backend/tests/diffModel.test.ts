@@ -0,0 +1,142 @@
+/**
+ * Diff Model Tests
+ * Tests unified diff parsing and partial patches applied with git
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DiffSelectionError, buildPartialPatch, parseUnifiedDiff } from '../src/services/diffModel';
+
+const SAMPLE = [
+  'diff --git a/src/a.ts b/src/a.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/a.ts',
+  '+++ b/src/a.ts',
+  '@@ -1,3 +1,3 @@ export function a() {',
+  ' one',
+  '-two',
+  '+TWO',
+  ' three',
+  '@@ -10,2 +10,3 @@',
+  ' ten',
+  ' eleven',
+  '+twelve',
+  '\\ No newline at end of file',
+  'diff --git a/img.png b/img.png',
+  'new file mode 100644',
+  'index 0000000..3333333',
+  'Binary files /dev/null and b/img.png differ',
+  'diff --git a/old.md b/docs/new.md',
+  'similarity index 100%',
+  'rename from old.md',
+  'rename to docs/new.md',
+  '',
+].join('\n');
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8' });
+}
+
+describe('Diff model', () => {
+  describe('parseUnifiedDiff', () => {
+    it('should parse files, hunks and line numbers', () => {
+      const [file, binary, renamed] = parseUnifiedDiff(SAMPLE);
+
+      expect(file).toMatchObject({ path: 'src/a.ts', status: 'modified', additions: 2, deletions: 1 });
+      expect(file.hunks).toHaveLength(2);
+      expect(file.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 3, newStart: 1, newLines: 3, section: 'export function a() {' });
+      expect(file.hunks[0].lines).toEqual([
+        { type: 'context', content: 'one', oldLine: 1, newLine: 1 },
+        { type: 'del', content: 'two', oldLine: 2 },
+        { type: 'add', content: 'TWO', newLine: 2 },
+        { type: 'context', content: 'three', oldLine: 3, newLine: 3 },
+      ]);
+      expect(file.hunks[1].lines[2]).toEqual({ type: 'add', content: 'twelve', newLine: 12, noNewline: true });
+
+      expect(binary).toMatchObject({ path: 'img.png', status: 'added', binary: true, hunks: [] });
+      expect(renamed).toMatchObject({ path: 'docs/new.md', oldPath: 'old.md', status: 'renamed' });
+    });
+  });
+
+  describe('buildPartialPatch', () => {
+    it('should keep only the selected hunks and lines', () => {
+      const [file] = parseUnifiedDiff(SAMPLE);
+
+      expect(buildPartialPatch(file, [{ index: 1 }])).toContain('@@ -10,2 +10,3 @@\n ten\n eleven\n+twelve\n\\ No newline at end of file\n');
+
+      // Staging only the deletion keeps the file's old line count for the addition
+      const forward = buildPartialPatch(file, [{ index: 0, lines: [1] }]);
+      expect(forward).toContain('@@ -1,3 +1,2 @@ export function a() {\n one\n-two\n three\n');
+
+      // Reverse patches keep the unselected addition as context instead
+      const reverse = buildPartialPatch(file, [{ index: 0, lines: [1] }], true);
+      expect(reverse).toContain('@@ -1,4 +1,3 @@ export function a() {\n one\n-two\n TWO\n three\n');
+    });
+
+    it('should reject selections that change nothing or do not exist', () => {
+      const [file, binary] = parseUnifiedDiff(SAMPLE);
+
+      expect(() => buildPartialPatch(file, [{ index: 0, lines: [0, 3] }])).toThrow('no changed lines');
+      expect(() => buildPartialPatch(file, [{ index: 5 }])).toThrow(DiffSelectionError);
+      expect(() => buildPartialPatch(file, [{ index: 0, lines: [9] }])).toThrow('Line 9');
+      expect(() => buildPartialPatch(binary, [{ index: 0 }])).toThrow('binary');
+    });
+  });
+
+  describe('Applying partial patches', () => {
+    let repo: string;
+
+    beforeEach(() => {
+      repo = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-model-'));
+      git(repo, 'init', '-q');
+      git(repo, 'config', 'user.email', 'dev@example.com');
+      git(repo, 'config', 'user.name', 'Dev');
+      fs.writeFileSync(path.join(repo, 'f.txt'), Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+      git(repo, 'add', '.');
+      git(repo, 'commit', '-qm', 'init');
+    });
+
+    afterEach(() => {
+      fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    const apply = (patch: string, ...args: string[]) => {
+      fs.writeFileSync(path.join(repo, 'sel.patch'), patch);
+      git(repo, 'apply', ...args, 'sel.patch');
+      fs.unlinkSync(path.join(repo, 'sel.patch'));
+    };
+
+    it('should stage single lines and later hunks, then unstage them again', () => {
+      const lines = fs.readFileSync(path.join(repo, 'f.txt'), 'utf8').split('\n');
+      lines.splice(1, 1, 'changed 2', 'inserted');
+      lines[17] = 'changed 17';
+      fs.writeFileSync(path.join(repo, 'f.txt'), lines.join('\n'));
+
+      const [file] = parseUnifiedDiff(git(repo, 'diff'));
+      expect(file.hunks).toHaveLength(2);
+      const inserted = file.hunks[0].lines.findIndex(l => l.content === 'inserted');
+
+      apply(buildPartialPatch(file, [{ index: 0, lines: [inserted] }, { index: 1 }]), '--cached');
+      const staged = git(repo, 'diff', '--cached');
+      expect(staged).toContain('+inserted');
+      expect(staged).toContain('+changed 17');
+      expect(staged).not.toContain('changed 2');
+
+      const [cached] = parseUnifiedDiff(staged);
+      apply(buildPartialPatch(cached, [{ index: cached.hunks.length - 1 }], true), '--cached', '--reverse');
+      expect(git(repo, 'diff', '--cached')).not.toContain('changed 17');
+      expect(git(repo, 'diff', '--cached')).toContain('+inserted');
+    });
+
+    it('should discard selected working tree lines', () => {
+      fs.appendFileSync(path.join(repo, 'f.txt'), 'keep\ndrop\n');
+      const [file] = parseUnifiedDiff(git(repo, 'diff'));
+      const drop = file.hunks[0].lines.findIndex(l => l.content === 'drop');
+
+      apply(buildPartialPatch(file, [{ index: 0, lines: [drop] }], true), '--reverse');
+      expect(fs.readFileSync(path.join(repo, 'f.txt'), 'utf8').endsWith('line 20\nkeep\n')).toBe(true);
+    });
+  });
+});
@@ -1,9 +1,12 @@
 /**
  * Execution Service Security Tests
- * Tests for concurrency limits and resource constraints
+ * Tests for concurrency limits, resource constraints and the sandbox host API
  */
 
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { executionService } from '../src/services/executionService';
+import { workspaceService } from '../src/services/workspaceService';
 
 describe('Execution Service Security Tests', () => {
   beforeAll(() => {
@@ -200,6 +203,105 @@ describe('Execution Service Security Tests', () => {
     });
   });
 
+  describe('Cancellation and Streaming', () => {
+    it('should stop a cancelled run by disposing its isolate and record its CPU time', async () => {
+      let id = '';
+      executionService.once('execution:start', data => { id = data.id; });
+      const execution = executionService.executeCode({
+        code: 'while (true) {}',
+        language: 'javascript',
+        timeout: 10000,
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 300));
+      await executionService.cancelExecution(id);
+      await execution;
+
+      const result = executionService.getResult(id);
+      expect(result?.status).toBe('cancelled');
+      expect(result?.error).toBe('Execution cancelled by user');
+      expect(result?.runtime).toBeLessThan(5000);
+
+      const metrics = executionService.getMetrics(id);
+      expect(metrics?.cpuTime).toBeGreaterThan(0);
+      expect(metrics?.wallTime).toBeGreaterThanOrEqual(metrics!.cpuTime!);
+    }, 7000);
+
+    it('should stream console output while the code runs', async () => {
+      const events: string[] = [];
+      const onOutput = (chunk: { stream: string; data: string }) => events.push(`${chunk.stream}:${chunk.data}`);
+      const onComplete = () => events.push('complete');
+      executionService.on('execution:output', onOutput);
+      executionService.on('execution:complete', onComplete);
+
+      try {
+        await executionService.executeCode({
+          code: 'console.log("first"); const end = Date.now() + 500; while (Date.now() < end) {} console.error("second");',
+          language: 'javascript',
+        });
+      } finally {
+        executionService.off('execution:output', onOutput);
+        executionService.off('execution:complete', onComplete);
+      }
+
+      expect(events).toEqual(['stdout:first\n', 'stderr:[ERROR] second\n', 'complete']);
+    }, 5000);
+  });
+
+  describe('Sandbox Host API', () => {
+    const moduleDir = path.join(process.cwd(), 'workspace', 'test-sandbox');
+
+    afterAll(async () => {
+      await fs.rm(moduleDir, { recursive: true, force: true });
+    });
+
+    it('should run timers until they have fired', async () => {
+      const id = await executionService.executeCode({
+        code: 'setTimeout((label) => console.log(label), 50, "late");\nconst early = setTimeout(() => console.log("never"), 10);\nclearTimeout(early);\nconsole.log("now");',
+        language: 'javascript',
+      });
+
+      const result = executionService.getResult(id);
+      expect(result?.status).toBe('completed');
+      expect(result?.output).toBe('now\nlate');
+    });
+
+    it('should import workspace modules relative to the working directory', async () => {
+      await workspaceService.writeFile('test-sandbox/lib/math.ts', 'export const double = (n: number) => n * 2;\n');
+      await workspaceService.writeFile('test-sandbox/data.json', '{ "value": 21 }\n');
+
+      const id = await executionService.executeCode({
+        code: 'import { double } from "./lib/math";\nimport data from "./data.json";\nconsole.log(double(data.value), await fs.readFile("test-sandbox/data.json"));',
+        language: 'javascript',
+        workingDirectory: 'test-sandbox',
+      });
+
+      const result = executionService.getResult(id);
+      expect(result?.status).toBe('completed');
+      expect(result?.output).toBe('42 { "value": 21 }\n');
+    });
+
+    it('should not raise network access above SANDBOX_NETWORK_ACCESS', () => {
+      const { maxNetworkAccess } = executionService.getSettings();
+      expect(maxNetworkAccess).toBe('off');
+      expect(executionService.updateSettings({ networkAccess: 'full' }).networkAccess).toBe('off');
+    });
+
+    it('should refuse fetch while network access is off', async () => {
+      const previous = executionService.getSettings();
+      executionService.updateSettings({ networkAccess: 'off' });
+      try {
+        const id = await executionService.executeCode({
+          code: 'await fetch("http://127.0.0.1:1/");',
+          language: 'javascript',
+        });
+        expect(executionService.getResult(id)?.error).toContain('Network access is disabled');
+      } finally {
+        executionService.updateSettings(previous);
+      }
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle syntax errors gracefully', async () => {
       const id = await executionService.executeCode({
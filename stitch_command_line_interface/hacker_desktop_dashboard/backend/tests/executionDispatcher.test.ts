@@ -0,0 +1,135 @@
+/**
+ * Execution Dispatcher Tests
+ * Tests language routing, the shared result shape, event relaying, stdin and runtime availability
+ */
+
+import { EventEmitter } from 'events';
+
+// The dispatcher is exercised against fake sandboxes; the real ones need isolated-vm and Docker
+jest.mock('../src/services/executionService', () => ({ executionService: new (jest.requireActual('events').EventEmitter)() }));
+jest.mock('../src/services/multiLangExecutionService', () => ({ multiLangExecutionService: new (jest.requireActual('events').EventEmitter)() }));
+
+import { ExecutionDispatcher, UnsupportedLanguageError } from '../src/services/executionDispatcher';
+import { ExecutionStdinError } from '../src/services/multiLangExecutionService';
+
+class FakeSandbox extends EventEmitter {
+  results = new Map<string, any>();
+  executeCode = jest.fn(async (options: { code: string; language: string }) => {
+    const id = `${this.prefix}_${this.results.size + 1}`;
+    this.emit('execution:start', { id, options });
+    const result = {
+      id,
+      language: options.language,
+      status: 'completed',
+      output: `ran ${options.code}`,
+      exitCode: 0,
+      runtime: 5,
+      memoryUsed: 1024,
+      timestamp: new Date(Date.now() + this.results.size),
+    };
+    this.results.set(id, result);
+    this.emit('execution:complete', result);
+    return id;
+  });
+  getResult = (id: string) => this.results.get(id);
+  listExecutions = () => Array.from(this.results.values());
+  cancelExecution = jest.fn(async () => undefined);
+  writeStdin = jest.fn();
+  isDockerAvailable = jest.fn(async () => true);
+  hasImage = jest.fn(async (image: string) => image.startsWith('python'));
+  getSupportedLanguages = () => [
+    { language: 'javascript', image: 'node:18-alpine' },
+    { language: 'python', image: 'python:3.11-alpine' },
+    { language: 'go', image: 'golang:1.21-alpine' },
+  ];
+
+  constructor(private prefix: string) {
+    super();
+  }
+}
+
+describe('ExecutionDispatcher', () => {
+  let isolate: FakeSandbox;
+  let containers: FakeSandbox;
+  let dispatcher: ExecutionDispatcher;
+
+  beforeEach(() => {
+    isolate = new FakeSandbox('exec');
+    containers = new FakeSandbox('mlexec');
+    dispatcher = new ExecutionDispatcher(isolate as any, containers as any);
+  });
+
+  it('should run JavaScript in the isolate and other languages in containers with one result shape', async () => {
+    const js = await dispatcher.execute({ code: '1', language: 'javascript', timeout: 1000 });
+    const py = await dispatcher.execute({ code: 'print(1)', language: 'python' });
+
+    expect(isolate.executeCode).toHaveBeenCalledWith({ code: '1', language: 'javascript', timeout: 1000 });
+    expect(containers.executeCode).toHaveBeenCalledWith({ code: 'print(1)', language: 'python' });
+    expect(js).toEqual({
+      id: 'exec_1', language: 'javascript', sandbox: 'isolate', status: 'completed',
+      output: 'ran 1', exitCode: 0, runtime: 5, memoryUsed: 1024, timestamp: expect.any(Date),
+    });
+    expect(py).toMatchObject({ id: 'mlexec_1', language: 'python', sandbox: 'container' });
+
+    expect(dispatcher.getResult('mlexec_1')?.sandbox).toBe('container');
+    expect(dispatcher.list().map(result => result.id).sort()).toEqual(['exec_1', 'mlexec_1']);
+
+    await dispatcher.cancel('mlexec_1');
+    expect(containers.cancelExecution).toHaveBeenCalledWith('mlexec_1');
+    expect(isolate.cancelExecution).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown languages and relay completions from both sandboxes', async () => {
+    await expect(dispatcher.execute({ code: 'x', language: 'cobol' as any })).rejects.toBeInstanceOf(UnsupportedLanguageError);
+
+    const completed: any[] = [];
+    dispatcher.on('execution:complete', result => completed.push(result));
+    await dispatcher.execute({ code: 'fmt.Println(1)', language: 'go' });
+    await dispatcher.execute({ code: '2', language: 'javascript' });
+
+    expect(completed.map(result => [result.language, result.sandbox])).toEqual([['go', 'container'], ['javascript', 'isolate']]);
+  });
+
+  it('should hand out the id before any event and route stdin to containers only', async () => {
+    const events: string[] = [];
+    dispatcher.on('execution:output', chunk => events.push(`output ${chunk.id} ${chunk.stream} ${chunk.data}`));
+    dispatcher.on('execution:complete', result => events.push(`complete ${result.id}`));
+
+    const id = await dispatcher.start({ code: 'input()', language: 'python', interactive: true }, started => events.push(`start ${started}`));
+    isolate.emit('execution:output', { id: 'exec_9', stream: 'stdout', data: 'logged\n' });
+
+    expect(id).toBe('mlexec_1');
+    expect(events).toEqual(['start mlexec_1', 'complete mlexec_1', 'output exec_9 stdout logged\n']);
+
+    dispatcher.writeStdin(id, 'hi\n', true);
+    expect(containers.writeStdin).toHaveBeenCalledWith('mlexec_1', 'hi\n', true);
+
+    const js = await dispatcher.start({ code: '1', language: 'javascript' });
+    expect(() => dispatcher.writeStdin(js, 'hi\n')).toThrow(ExecutionStdinError);
+  });
+
+  it('should know who started a run until it completes', async () => {
+    const owners: Array<string | undefined> = [];
+    dispatcher.on('execution:complete', result => owners.push(dispatcher.ownerOf(result.id)));
+
+    const result = await dispatcher.execute({ code: '1', language: 'javascript', userId: 'user-1' });
+    await dispatcher.start({ code: 'print(1)', language: 'python' });
+
+    expect(owners).toEqual(['user-1', undefined]);
+    expect(dispatcher.ownerOf(result.id)).toBeUndefined();
+  });
+
+  it('should report container runtimes as unavailable without Docker', async () => {
+    const runtimes = await dispatcher.getRuntimes();
+    expect(runtimes.map(runtime => [runtime.language, runtime.available])).toEqual([
+      ['javascript', true], ['typescript', true], ['python', true], ['go', true],
+    ]);
+    expect(runtimes.find(runtime => runtime.language === 'python')).toMatchObject({ image: 'python:3.11-alpine', imagePresent: true });
+
+    containers.isDockerAvailable.mockResolvedValue(false);
+    const offline = await dispatcher.getRuntimes();
+    expect(offline.find(runtime => runtime.language === 'go')).toEqual({
+      language: 'go', sandbox: 'container', available: false, image: 'golang:1.21-alpine', imagePresent: false, reason: 'Docker is not available',
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Flow Service Tests
+ * Tests flow grouping, open/close diffing and per-process byte attribution
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection, ConnectionService } from '../src/services/connectionService';
+import { FlowService, flowKey, isFlowCandidate, parseProcIo } from '../src/services/flowService';
+
+function conn(overrides: Partial<Connection>): Connection {
+  return {
+    id: 'tcp-1',
+    protocol: 'TCP',
+    family: 'IPv4',
+    localAddress: '10.0.0.10:54321',
+    localPort: 54321,
+    remoteAddress: '93.184.216.34:443',
+    remotePort: 443,
+    state: 'ESTABLISHED',
+    pid: 42,
+    process: 'node',
+    uid: 1000,
+    inode: 1,
+    ...overrides,
+  };
+}
+
+function fakeSource(snapshots: Connection[][]): ConnectionService {
+  let index = 0;
+  return {
+    getConnections: async () => snapshots[Math.min(index++, snapshots.length - 1)],
+  } as unknown as ConnectionService;
+}
+
+describe('FlowService', () => {
+  let procRoot: string;
+
+  beforeEach(async () => {
+    procRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'proc-flow-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(procRoot, { recursive: true, force: true });
+  });
+
+  async function writeIo(pid: number, rchar: number, wchar: number) {
+    await fs.mkdir(path.join(procRoot, String(pid)), { recursive: true });
+    await fs.writeFile(path.join(procRoot, String(pid), 'io'), `rchar: ${rchar}\nwchar: ${wchar}\nsyscr: 1\n`);
+  }
+
+  it('should parse /proc/<pid>/io counters', () => {
+    expect(parseProcIo('rchar: 10\nwchar: 20\nsyscr: 1\n')).toEqual({ rchar: 10, wchar: 20 });
+    expect(parseProcIo('garbage')).toBeNull();
+  });
+
+  it('should ignore listeners and TIME_WAIT remnants', () => {
+    expect(isFlowCandidate(conn({}))).toBe(true);
+    expect(isFlowCandidate(conn({ state: 'LISTEN', remotePort: 0 }))).toBe(false);
+    expect(isFlowCandidate(conn({ state: 'TIME_WAIT', pid: null, process: null }))).toBe(false);
+  });
+
+  it('should group sockets to the same endpoint into one flow', async () => {
+    const service = new FlowService({
+      procRoot,
+      source: fakeSource([[conn({ inode: 1 }), conn({ inode: 2, localPort: 54322 }), conn({ inode: 3, remotePort: 80, remoteAddress: '93.184.216.34:80' })]]),
+    });
+
+    const { opened } = await service.poll();
+
+    expect(opened).toHaveLength(2);
+    expect(opened[0]).toMatchObject({ app: 'node', dest: '93.184.216.34', port: 443, connections: 2, status: 'allow' });
+    expect(flowKey(conn({ remoteAddress: '[::1]:443' }))).toBe('node|42|::1|443|TCP');
+  });
+
+  it('should emit open and close events as snapshots change', async () => {
+    const service = new FlowService({
+      procRoot,
+      source: fakeSource([[conn({})], [conn({}), conn({ pid: 7, process: 'curl' })], [conn({ pid: 7, process: 'curl' })]]),
+    });
+    const events: string[] = [];
+    service.on('flow:open', flow => events.push(`open:${flow.app}`));
+    service.on('flow:close', flow => events.push(`close:${flow.app}`));
+
+    await service.poll();
+    await service.poll();
+    const { closed } = await service.poll();
+
+    expect(events).toEqual(['open:node', 'open:curl', 'close:node']);
+    expect(closed[0].endedAt).not.toBeNull();
+    expect(service.getActive().map(flow => flow.app)).toEqual(['curl']);
+    expect(service.getFlow(closed[0].id)).toBe(closed[0]);
+  });
+
+  it('should attribute process I/O deltas to open flows', async () => {
+    const other = conn({ inode: 2, remoteAddress: '1.1.1.1:53', remotePort: 53, protocol: 'UDP' });
+    const service = new FlowService({ procRoot, source: fakeSource([[conn({}), other]]) });
+
+    await writeIo(42, 1000, 500);
+    await service.poll();
+    expect(service.getActive()[0].bytesTotal).toBe(0);
+
+    await writeIo(42, 3000, 1500);
+    await service.poll();
+
+    const [first, second] = service.getActive();
+    expect(first).toMatchObject({ bytesIn: 1000, bytesOut: 500, bytesTotal: 1500 });
+    expect(second.bytesTotal).toBe(1500);
+    expect(service.getProcesses()).toEqual([{ pid: 42, app: 'node', flows: 2, bytesIn: 2000, bytesOut: 1000 }]);
+  });
+
+  it('should leave byte counts null when the kernel does not expose them', async () => {
+    const service = new FlowService({ procRoot, source: fakeSource([[conn({ pid: 1 })]]) });
+
+    await service.poll();
+
+    expect(service.getActive()[0].bytesTotal).toBeNull();
+  });
+});
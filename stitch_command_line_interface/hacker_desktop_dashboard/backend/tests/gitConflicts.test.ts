@@ -0,0 +1,131 @@
+/**
+ * Git Conflict Tests
+ * Tests conflict marker parsing/resolution and the merge, rebase, resolve and continue workflow
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConflictResolutionError, hasConflictMarkers, parseConflicts, resolveConflicts } from '../src/services/conflictModel';
+import type { GitService } from '../src/services/gitService';
+
+const DIFF3 = [
+  'start',
+  '<<<<<<< HEAD',
+  'ours 1',
+  'ours 2',
+  '||||||| base',
+  'base',
+  '=======',
+  'theirs',
+  '>>>>>>> feature',
+  'middle',
+  '<<<<<<< HEAD',
+  'a',
+  '=======',
+  'b',
+  '>>>>>>> feature',
+  '',
+].join('\n');
+
+describe('Conflicts', () => {
+  describe('Conflict model', () => {
+    it('should parse diff3 and merge style regions', () => {
+      const parsed = parseConflicts(DIFF3);
+
+      expect(parsed.regions).toEqual([
+        { index: 0, startLine: 2, ours: ['ours 1', 'ours 2'], base: ['base'], theirs: ['theirs'], oursLabel: 'HEAD', baseLabel: 'base', theirsLabel: 'feature' },
+        { index: 1, startLine: 11, ours: ['a'], theirs: ['b'], oursLabel: 'HEAD', theirsLabel: 'feature' },
+      ]);
+      expect(parsed.segments.map(s => s.type)).toEqual(['common', 'conflict', 'common', 'conflict']);
+    });
+
+    it('should resolve with one choice for all regions or one per region', () => {
+      const parsed = parseConflicts(DIFF3);
+
+      expect(resolveConflicts(parsed, 'theirs')).toBe('start\ntheirs\nmiddle\nb\n');
+      expect(resolveConflicts(parsed, ['both', 'ours'])).toBe('start\nours 1\nours 2\ntheirs\nmiddle\na\n');
+      expect(() => resolveConflicts(parsed, ['base', 'base'])).toThrow('no base section');
+      expect(() => resolveConflicts(parsed, ['ours'])).toThrow('Expected 2 choices');
+      expect(() => parseConflicts('<<<<<<< HEAD\nx\n')).toThrow(ConflictResolutionError);
+      expect(hasConflictMarkers(DIFF3)).toBe(true);
+      expect(hasConflictMarkers(resolveConflicts(parsed, 'ours'))).toBe(false);
+    });
+  });
+
+  describe('Workflow', () => {
+    let repo: string;
+    let service: GitService;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' });
+    const write = (content: string) => fs.writeFileSync(path.join(repo, 'f.txt'), content);
+
+    beforeEach(() => {
+      repo = fs.mkdtempSync(path.join(os.tmpdir(), 'git-conflicts-'));
+      git('init', '-q', '-b', 'main');
+      git('config', 'user.email', 'dev@example.com');
+      git('config', 'user.name', 'Dev');
+      write('one\ntwo\nthree\n');
+      git('add', '.');
+      git('commit', '-qm', 'base');
+      git('checkout', '-qb', 'feature');
+      write('one\nfeature\nthree\n');
+      git('commit', '-qam', 'feature change');
+      git('checkout', '-q', 'main');
+      write('one\nmain\nthree\n');
+      git('commit', '-qam', 'main change');
+
+      const previous = process.env.WORKSPACE_ROOT;
+      process.env.WORKSPACE_ROOT = repo;
+      jest.isolateModules(() => {
+        service = new (require('../src/services/gitService').GitService)();
+      });
+      process.env.WORKSPACE_ROOT = previous;
+    });
+
+    afterEach(() => {
+      fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('should only check out branches, never paths', async () => {
+      write('edited\n');
+      await expect(service.checkout('f.txt')).rejects.toThrow('Failed to checkout branch');
+      expect(fs.readFileSync(path.join(repo, 'f.txt'), 'utf8')).toBe('edited\n');
+
+      git('checkout', '--', 'f.txt');
+      await service.checkout('feature');
+      expect(git('branch', '--show-current').trim()).toBe('feature');
+    });
+
+    it('should report merge conflicts with three-way content and finish after resolving', async () => {
+      await expect(service.merge('feature')).resolves.toEqual({ status: 'conflicts', conflicts: ['f.txt'] });
+      expect(await service.operationState()).toMatchObject({ operation: 'merge', conflicts: ['f.txt'] });
+
+      const conflict = await service.conflictFile('f.txt');
+      expect(conflict).toMatchObject({ base: 'one\ntwo\nthree\n', ours: 'one\nmain\nthree\n', theirs: 'one\nfeature\nthree\n' });
+      expect(conflict.regions[0]).toMatchObject({ ours: ['main'], base: ['two'], theirs: ['feature'] });
+
+      await expect(service.continueOperation()).rejects.toThrow('Resolve all conflicts');
+      await service.resolveConflict('f.txt', { choices: ['both'] });
+      expect(fs.readFileSync(path.join(repo, 'f.txt'), 'utf8')).toBe('one\nmain\nfeature\nthree\n');
+
+      await expect(service.continueOperation()).resolves.toEqual({ status: 'merged', conflicts: [] });
+      expect(await service.operationState()).toEqual({ operation: null, conflicts: [] });
+      expect(git('log', '-1', '--format=%P').trim().split(' ')).toHaveLength(2);
+    });
+
+    it('should stop a rebase on conflicts and abort back to the original branch', async () => {
+      git('checkout', '-q', 'feature');
+      const before = git('rev-parse', 'HEAD');
+
+      await expect(service.rebase('main')).resolves.toMatchObject({ status: 'conflicts' });
+      expect(await service.operationState()).toMatchObject({ operation: 'rebase', head: 'feature' });
+      await expect(service.resolveConflict('f.txt', { content: '<<<<<<< x\n>>>>>>> y\n' })).rejects.toThrow('conflict markers');
+
+      await service.abortOperation();
+      expect(git('rev-parse', 'HEAD')).toBe(before);
+      await expect(service.abortOperation()).rejects.toThrow('No merge, rebase');
+      await expect(service.conflictFile('f.txt')).rejects.toThrow('not in conflict');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Git History Tests
+ * Tests blame, file history and numstat parsing against a real repository, and graph lanes
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FIELD_SEP,
+  GraphCommit,
+  RECORD_SEP,
+  assignLanes,
+  parseBlamePorcelain,
+  parseFileHistory,
+  parseNumstat,
+  parseRefDecorations,
+} from '../src/services/gitHistory';
+
+const commit = (hash: string, parents: string[]): GraphCommit => ({
+  hash,
+  parents,
+  author: 'Dev',
+  date: '2024-01-01T00:00:00Z',
+  message: hash,
+  refs: { head: false, branches: [], tags: [] },
+});
+
+describe('Git history', () => {
+  describe('Against a repository', () => {
+    let repo: string;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' });
+    const commitAs = (name: string, message: string) =>
+      git('-c', `user.name=${name}`, '-c', `user.email=${name.toLowerCase()}@example.com`, 'commit', '-qm', message);
+
+    beforeAll(() => {
+      repo = fs.mkdtempSync(path.join(os.tmpdir(), 'git-history-'));
+      git('init', '-q');
+      fs.writeFileSync(path.join(repo, 'a.txt'), 'one\ntwo\nthree\n');
+      git('add', '.');
+      commitAs('Alice', 'Add a');
+
+      fs.writeFileSync(path.join(repo, 'a.txt'), 'one\nTWO\nthree\n');
+      git('add', '.');
+      commitAs('Bob', 'Shout two');
+
+      git('mv', 'a.txt', 'b.txt');
+      fs.writeFileSync(path.join(repo, 'img.bin'), Buffer.from([0, 1, 2, 0]));
+      git('add', '.');
+      commitAs('Bob', 'Rename a to b');
+    });
+
+    afterAll(() => {
+      fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('should attribute each line through renames', () => {
+      const blame = parseBlamePorcelain(git('blame', '--porcelain', '--', 'b.txt'));
+
+      expect(blame.map(l => [l.line, l.content, l.author, l.summary])).toEqual([
+        [1, 'one', 'Alice', 'Add a'],
+        [2, 'TWO', 'Bob', 'Shout two'],
+        [3, 'three', 'Alice', 'Add a'],
+      ]);
+      expect(blame[0]).toMatchObject({ email: 'alice@example.com', originalPath: 'a.txt', uncommitted: false });
+      expect(blame[2].date).toBe(blame[0].date);
+
+      const range = parseBlamePorcelain(git('blame', '--porcelain', '-L', '2,3', '--', 'b.txt'));
+      expect(range.map(l => l.line)).toEqual([2, 3]);
+    });
+
+    it('should follow a file across renames', () => {
+      const format = `${RECORD_SEP}${['%H', '%P', '%an', '%ae', '%aI', '%s'].join(FIELD_SEP)}`;
+      const history = parseFileHistory(git('log', '--follow', '-M', '--name-status', `--format=${format}`, '--', 'b.txt'));
+
+      expect(history.map(h => [h.message, h.status, h.path, h.oldPath])).toEqual([
+        ['Rename a to b', 'R', 'b.txt', 'a.txt'],
+        ['Shout two', 'M', 'a.txt', undefined],
+        ['Add a', 'A', 'a.txt', undefined],
+      ]);
+      expect(history[2].parents).toEqual([]);
+      expect(history[0].parents).toEqual([history[1].hash]);
+    });
+
+    it('should report per-file stats including renames and binaries', () => {
+      expect(parseNumstat(git('diff', '--numstat', '-z', '-M', 'HEAD~1', 'HEAD'))).toEqual([
+        { oldPath: 'a.txt', path: 'b.txt', additions: 0, deletions: 0, binary: false },
+        { path: 'img.bin', additions: 0, deletions: 0, binary: true },
+      ]);
+      expect(parseNumstat(git('diff', '--numstat', '-z', 'HEAD~2', 'HEAD~1'))).toEqual([
+        { path: 'a.txt', additions: 1, deletions: 1, binary: false },
+      ]);
+    });
+  });
+
+  describe('Graph', () => {
+    it('should parse ref decorations', () => {
+      expect(parseRefDecorations('HEAD -> main, origin/main, tag: v1.0')).toEqual({
+        head: true,
+        branches: ['main', 'origin/main'],
+        tags: ['v1.0'],
+      });
+      expect(parseRefDecorations('')).toEqual({ head: false, branches: [], tags: [] });
+    });
+
+    it('should keep the first-parent line in one lane and branch merges off', () => {
+      // m merges feature (f) into main; f and c1 both descend from root
+      const nodes = assignLanes([
+        commit('m', ['c1', 'f']),
+        commit('f', ['root']),
+        commit('c1', ['root']),
+        commit('root', []),
+      ]);
+
+      expect(nodes.map(n => [n.hash, n.lane, n.parentLanes])).toEqual([
+        ['m', 0, [0, 1]],
+        ['f', 1, [1]],
+        ['c1', 0, [1]],
+        ['root', 1, []],
+      ]);
+    });
+
+    it('should start unrelated tips in new lanes', () => {
+      const nodes = assignLanes([commit('a', ['base']), commit('b', ['base']), commit('base', [])]);
+
+      expect(nodes.map(n => [n.lane, n.parentLanes])).toEqual([
+        [0, [0]],
+        [1, [0]],
+        [0, []],
+      ]);
+    });
+  });
+});
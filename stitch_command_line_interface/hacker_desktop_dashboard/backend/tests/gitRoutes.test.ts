@@ -0,0 +1,173 @@
+/**
+ * Git Routes Tests
+ * Tests request validation, admin gating of destructive operations and per-file diff splitting
+ */
+
+import request from 'supertest';
+import express, { NextFunction, Request, Response } from 'express';
+import gitRoutes from '../src/routes/git';
+import { gitService, splitDiffByFile } from '../src/services/gitService';
+import { DiffSelectionError } from '../src/services/diffModel';
+import { ConflictResolutionError } from '../src/services/conflictModel';
+
+function appAs(role: 'admin' | 'developer') {
+  const app = express();
+  app.use(express.json());
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    req.user = { userId: 'u1', username: role, role } as Request['user'];
+    next();
+  });
+  app.use('/api/git', gitRoutes);
+  return app;
+}
+
+describe('Git routes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Validation', () => {
+    it('should reject option-like refs and paths outside the repository', async () => {
+      const app = appAs('developer');
+
+      await request(app).post('/api/git/checkout').send({ branch: '--orphan' }).expect(400);
+      await request(app).post('/api/git/branch').send({ name: 'feature/../x' }).expect(400);
+      await request(app).post('/api/git/add').send({ files: ['src/a.ts', '../secrets'] }).expect(400);
+      await request(app).post('/api/git/add').send({ files: [] }).expect(400);
+      await request(app).get('/api/git/diff?file=/etc/passwd').expect(400);
+      await request(app).post('/api/git/commit').send({ message: '   ' }).expect(400);
+      await request(app).post('/api/git/remote').send({ name: 'origin', url: 'file:///tmp/repo' }).expect(400);
+    });
+
+    it('should pass valid requests through to the service', async () => {
+      const add = jest.spyOn(gitService, 'add').mockResolvedValue();
+      const commit = jest.spyOn(gitService, 'commit').mockResolvedValue({
+        hash: 'abc123', date: '2024-01-01', message: 'Fix', author: 'Dev', email: 'dev@example.com',
+      });
+
+      const app = appAs('developer');
+      await request(app).post('/api/git/add').send({ files: ['src/a.ts'] }).expect(200);
+      const res = await request(app)
+        .post('/api/git/commit')
+        .send({ message: 'Fix', author: { name: 'Dev', email: 'dev@example.com' } })
+        .expect(200);
+
+      expect(add).toHaveBeenCalledWith(['src/a.ts']);
+      expect(commit).toHaveBeenCalledWith('Fix', { name: 'Dev', email: 'dev@example.com' });
+      expect(res.body).toMatchObject({ success: true, data: { hash: 'abc123' } });
+    });
+  });
+
+  describe('Admin gating', () => {
+    it('should require admin for hard reset, branch deletion and forced checkout', async () => {
+      const reset = jest.spyOn(gitService, 'reset').mockResolvedValue();
+      const deleteBranch = jest.spyOn(gitService, 'deleteBranch').mockResolvedValue();
+      const checkout = jest.spyOn(gitService, 'checkout').mockResolvedValue();
+      const developer = appAs('developer');
+
+      await request(developer).post('/api/git/reset').send({ mode: 'hard' }).expect(403);
+      await request(developer).delete('/api/git/branch/old').expect(403);
+      await request(developer).post('/api/git/checkout').send({ branch: 'main', force: true }).expect(403);
+      expect(reset).not.toHaveBeenCalled();
+      expect(deleteBranch).not.toHaveBeenCalled();
+      expect(checkout).not.toHaveBeenCalled();
+
+      await request(developer).post('/api/git/reset').send({ mode: 'soft', ref: 'HEAD~1' }).expect(200);
+      await request(developer).post('/api/git/checkout').send({ branch: 'main' }).expect(200);
+      expect(checkout).toHaveBeenLastCalledWith('main', false);
+
+      const admin = appAs('admin');
+      await request(admin).post('/api/git/reset').send({ mode: 'hard' }).expect(200);
+      await request(admin).delete('/api/git/branch/old?force=true').expect(200);
+      await request(admin).post('/api/git/checkout').send({ branch: 'main', force: true }).expect(200);
+      expect(deleteBranch).toHaveBeenCalledWith('old', true);
+      expect(checkout).toHaveBeenLastCalledWith('main', true);
+    });
+  });
+
+  describe('Hunk staging', () => {
+    it('should validate selections, gate discard and report stale hunks', async () => {
+      const applyHunks = jest.spyOn(gitService, 'applyHunks').mockResolvedValue();
+      const developer = appAs('developer');
+
+      await request(developer).post('/api/git/hunks/stage').send({ file: 'src/a.ts', hunks: [] }).expect(400);
+      await request(developer).post('/api/git/hunks/stage').send({ file: 'src/a.ts', hunks: [{ index: -1 }] }).expect(400);
+      await request(developer).post('/api/git/hunks/stage').send({ file: 'src/a.ts', hunks: [{ index: 0, lines: ['x'] }] }).expect(400);
+      await request(developer).post('/api/git/hunks/discard').send({ file: 'src/a.ts', hunks: [{ index: 0 }] }).expect(403);
+
+      await request(developer).post('/api/git/hunks/unstage').send({ file: 'src/a.ts', hunks: [{ index: 1, lines: [2, 3] }] }).expect(200);
+      expect(applyHunks).toHaveBeenCalledWith('unstage', 'src/a.ts', [{ index: 1, lines: [2, 3] }]);
+
+      await request(appAs('admin')).post('/api/git/hunks/discard').send({ file: 'src/a.ts', hunks: [{ index: 0 }] }).expect(200);
+      expect(applyHunks).toHaveBeenLastCalledWith('discard', 'src/a.ts', [{ index: 0 }]);
+
+      applyHunks.mockRejectedValueOnce(new DiffSelectionError('Hunk 0 of src/a.ts has changed; refresh the diff'));
+      const res = await request(developer).post('/api/git/hunks/stage').send({ file: 'src/a.ts', hunks: [{ index: 0 }] }).expect(400);
+      expect(res.body.error).toContain('refresh the diff');
+    });
+  });
+
+  describe('History', () => {
+    it('should validate blame ranges and return 404 for unknown commits', async () => {
+      const blame = jest.spyOn(gitService, 'blame').mockResolvedValue([]);
+      jest.spyOn(gitService, 'commitDetails').mockResolvedValue(null);
+      const app = appAs('developer');
+
+      await request(app).get('/api/git/blame?file=src/a.ts&start=10&end=5').expect(400);
+      await request(app).get('/api/git/blame?file=src/a.ts&rev=--all').expect(400);
+      await request(app).get('/api/git/history').expect(400);
+      await request(app).get('/api/git/graph?maxCount=0').expect(400);
+
+      await request(app).get('/api/git/blame?file=src/a.ts&start=5&end=10&rev=HEAD~1').expect(200);
+      expect(blame).toHaveBeenCalledWith('src/a.ts', { start: 5, end: 10, rev: 'HEAD~1' });
+
+      const res = await request(app).get('/api/git/commit/deadbeef').expect(404);
+      expect(res.body).toEqual({ success: false, error: 'Commit not found' });
+    });
+  });
+
+  describe('Conflicts', () => {
+    it('should require exactly one resolution form and map workflow errors to 400', async () => {
+      const resolve = jest.spyOn(gitService, 'resolveConflict').mockResolvedValue();
+      jest.spyOn(gitService, 'continueOperation').mockRejectedValue(new ConflictResolutionError('Resolve all conflicts before continuing (1 remaining)'));
+      const app = appAs('developer');
+
+      await request(app).post('/api/git/conflicts/resolve').send({ file: 'f.txt' }).expect(400);
+      await request(app).post('/api/git/conflicts/resolve').send({ file: 'f.txt', choice: 'ours', content: 'x' }).expect(400);
+      await request(app).post('/api/git/conflicts/resolve').send({ file: 'f.txt', choices: ['mine'] }).expect(400);
+      await request(app).post('/api/git/merge').send({ branch: '--strategy=ours' }).expect(400);
+
+      await request(app).post('/api/git/conflicts/resolve').send({ file: 'f.txt', choices: ['ours', 'both'] }).expect(200);
+      expect(resolve).toHaveBeenCalledWith('f.txt', { choices: ['ours', 'both'] });
+      await request(app).post('/api/git/conflicts/resolve').send({ file: 'f.txt', content: '' }).expect(200);
+      expect(resolve).toHaveBeenLastCalledWith('f.txt', { content: '' });
+
+      const res = await request(app).post('/api/git/continue').expect(400);
+      expect(res.body.error).toContain('1 remaining');
+    });
+  });
+
+  describe('Diff splitting', () => {
+    it('should key each file chunk by its new path', () => {
+      const raw = [
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 1..2 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1 +1 @@',
+        '-old',
+        '+new',
+        'diff --git a/old.md b/docs/new.md',
+        'similarity index 100%',
+        'rename from old.md',
+        'rename to docs/new.md',
+        '',
+      ].join('\n');
+
+      const chunks = splitDiffByFile(raw);
+      expect(Array.from(chunks.keys())).toEqual(['src/a.ts', 'docs/new.md']);
+      expect(chunks.get('src/a.ts')).toContain('+new');
+      expect(chunks.get('src/a.ts')).not.toContain('rename');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * IDE Routes Tests
+ * Tests who may cancel an execution over REST
+ */
+
+import request from 'supertest';
+import express, { NextFunction, Request, Response } from 'express';
+
+// The real sandboxes need isolated-vm and Docker
+jest.mock('../src/services/executionService', () => ({ executionService: new (jest.requireActual('events').EventEmitter)() }));
+jest.mock('../src/services/multiLangExecutionService', () => ({ multiLangExecutionService: new (jest.requireActual('events').EventEmitter)() }));
+
+import ideRoutes from '../src/routes/ide';
+import { executionDispatcher } from '../src/services/executionDispatcher';
+
+function appAs(userId: string, role: 'admin' | 'developer') {
+  const app = express();
+  app.use(express.json());
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    req.user = { userId, username: userId, role } as Request['user'];
+    next();
+  });
+  app.use('/api/ide', ideRoutes);
+  return app;
+}
+
+describe('IDE routes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only let the user who started an execution, or an admin, cancel it', async () => {
+    jest.spyOn(executionDispatcher, 'ownerOf').mockImplementation(id => (id === 'exec_1' ? 'alice' : undefined));
+    const cancel = jest.spyOn(executionDispatcher, 'cancel').mockResolvedValue();
+
+    await request(appAs('bob', 'developer')).delete('/api/ide/execute/exec_1').expect(403);
+    expect(cancel).not.toHaveBeenCalled();
+
+    await request(appAs('alice', 'developer')).delete('/api/ide/execute/exec_1').expect(200);
+    await request(appAs('carol', 'admin')).delete('/api/ide/execute/exec_1').expect(200);
+    expect(cancel).toHaveBeenCalledTimes(2);
+
+    // Finished runs have no owner left to protect
+    await request(appAs('bob', 'developer')).delete('/api/ide/execute/exec_2').expect(200);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Log Aggregator Service Tests
+ * Tests line parsing, cursor paging, winston capture, process capture and file tailing
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LogAggregatorService, inferTag, parseLogLine } from '../src/services/logAggregatorService';
+import { logger } from '../src/utils/logger';
+
+async function waitFor(predicate: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+}
+
+describe('LogAggregatorService', () => {
+  describe('Line parsing', () => {
+    it('should infer tags from plain text', () => {
+      expect(inferTag('Unhandled exception in worker')).toBe('ERROR');
+      expect(inferTag('Warning: deprecated API')).toBe('WARN');
+      expect(inferTag('compiled in 20ms')).toBe('INFO');
+      expect(inferTag('compiled in 20ms', 'stderr')).toBe('WARN');
+    });
+
+    it('should keep level, message and fields from JSON lines', () => {
+      const entry = parseLogLine('{"level":"error","msg":"db down","time":"2024-05-01T10:00:00Z","code":503}', 'file:app.log');
+
+      expect(entry).toMatchObject({
+        tag: 'ERROR',
+        message: 'db down',
+        timestamp: '2024-05-01T10:00:00.000Z',
+        source: 'file:app.log',
+        fields: { code: 503 },
+      });
+    });
+
+    it('should strip ANSI colour codes', () => {
+      expect(parseLogLine('\u001b[32mready\u001b[39m', 'process:vite').message).toBe('ready');
+    });
+  });
+
+  describe('Buffer', () => {
+    it('should assign monotonic ids and page with since', () => {
+      const aggregator = new LogAggregatorService({ bufferSize: 3, captureLogger: false });
+      for (let i = 1; i <= 5; i++) {
+        aggregator.push({ tag: 'INFO', message: `line ${i}`, source: 'test' });
+      }
+
+      expect(aggregator.getEntries().logs.map(e => e.id)).toEqual([3, 4, 5]);
+
+      const page = aggregator.getEntries({ since: 3, limit: 1 });
+      expect(page).toMatchObject({ since: 3, next: 4 });
+      expect(page.logs.map(e => e.message)).toEqual(['line 4']);
+
+      expect(aggregator.getEntries({ since: 5 })).toEqual({ logs: [], since: 5, next: 5 });
+      expect(aggregator.getSources()).toEqual([{ source: 'test', count: 3 }]);
+    });
+
+    it('should capture winston output from the shared logger', () => {
+      const aggregator = new LogAggregatorService({ captureLogger: true });
+      try {
+        logger.warn('Disk nearly full', { mount: '/var' });
+
+        const [entry] = aggregator.getAll();
+        expect(entry).toMatchObject({ tag: 'WARN', message: 'Disk nearly full', source: 'backend', fields: { mount: '/var' } });
+      } finally {
+        aggregator.dispose();
+      }
+    });
+  });
+
+  describe('Sources', () => {
+    let dir: string;
+    let aggregator: LogAggregatorService;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'log-tail-'));
+      aggregator = new LogAggregatorService({ captureLogger: false, filePatterns: ['*.log'], pollIntervalMs: 100 });
+    });
+
+    afterEach(async () => {
+      await aggregator.stop();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should capture stdout and stderr of spawned processes', async () => {
+      const child = spawn(process.execPath, ['-e', 'console.log("hello"); console.error("oops error"); process.stdout.write("tail")']);
+      aggregator.attachProcess(child, 'script');
+
+      await waitFor(() => aggregator.getAll().some(e => e.message.startsWith('Process exited')));
+
+      const lines = aggregator.getAll().map(e => `${e.stream ?? '-'}:${e.tag}:${e.message}`);
+      expect(lines).toEqual(expect.arrayContaining(['stdout:INFO:hello', 'stderr:ERROR:oops error', 'stdout:INFO:tail']));
+      expect(aggregator.getAll()[0].source).toBe('process:script');
+    });
+
+    it('should tail appended lines and new files but not replay existing content', async () => {
+      const existing = path.join(dir, 'server.log');
+      await fs.writeFile(existing, 'old line\n');
+      await fs.writeFile(path.join(dir, 'notes.txt'), 'ignored\n');
+      await aggregator.start(dir);
+
+      await fs.appendFile(existing, 'new line\npartial');
+      await waitFor(() => aggregator.getAll().length === 1);
+      await fs.appendFile(existing, ' done\n');
+      await fs.writeFile(path.join(dir, 'worker.log'), '{"level":"warn","message":"slow job"}\n');
+
+      await waitFor(() => aggregator.getAll().length === 3);
+      const entries = aggregator.getAll().map(e => `${e.source}:${e.message}`);
+      expect(entries).toEqual(expect.arrayContaining([
+        'file:server.log:new line',
+        'file:server.log:partial done',
+        'file:worker.log:slow job',
+      ]));
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Log Query Tests
+ * Tests query parsing, term matching, facets and paging
+ */
+
+import type { LogEntry } from '../src/services/logAggregatorService';
+import { LogQueryError, parseLogQuery, parseQueryTime, runLogQuery } from '../src/services/logQuery';
+
+const NOW = Date.parse('2024-05-01T12:00:00Z');
+
+function entry(id: number, overrides: Partial<LogEntry>): LogEntry {
+  return {
+    id,
+    tag: 'INFO',
+    message: `line ${id}`,
+    timestamp: new Date(NOW - (10 - id) * 60_000).toISOString(),
+    source: 'backend',
+    ...overrides,
+  };
+}
+
+const entries: LogEntry[] = [
+  entry(1, { message: 'Server listening on 3001' }),
+  entry(2, { tag: 'DEBUG', message: 'cache miss for key user:42' }),
+  entry(3, { tag: 'WARN', message: 'Slow query took 1200ms', source: 'file:logs/db.log', fields: { durationMs: 1200 } }),
+  entry(4, { tag: 'ERROR', message: 'Request failed: connection refused', source: 'file:app.log', fields: { status: 502, req: { method: 'GET' } } }),
+  entry(5, { tag: 'ERROR', message: 'Build failed', source: 'process:deploy:npm run build', stream: 'stderr' }),
+  entry(6, { tag: 'INFO', message: 'GET /health 200', source: 'file:app.log', fields: { status: 200, req: { method: 'GET' } } }),
+];
+
+function ids(q: string): number[] {
+  return runLogQuery(entries, parseLogQuery(q, NOW), { order: 'asc' }).logs.map(e => e.id);
+}
+
+describe('Log query', () => {
+  describe('Parsing', () => {
+    it('should parse level lists and severity ranges', () => {
+      expect(parseLogQuery('level:warn,error')).toEqual([{ kind: 'level', levels: ['WARN', 'ERROR'], negate: false }]);
+      expect(parseLogQuery('level:>=warn')[0]).toMatchObject({ levels: ['WARN', 'ERROR'] });
+      expect(parseLogQuery('-level:<info')[0]).toMatchObject({ levels: ['DEBUG'], negate: true });
+    });
+
+    it('should keep quoted phrases and regexes with spaces together', () => {
+      const terms = parseLogQuery('"connection refused" /took \\d+ms/i user="a b"');
+      expect(terms.map(t => t.kind)).toEqual(['text', 'regex', 'field']);
+      expect(terms[2]).toMatchObject({ path: ['user'], op: '=', value: 'a b' });
+    });
+
+    it('should resolve relative, ISO and epoch times', () => {
+      expect(parseQueryTime('15m', NOW)).toBe(NOW - 15 * 60_000);
+      expect(parseQueryTime('2024-05-01T00:00:00Z')).toBe(Date.parse('2024-05-01T00:00:00Z'));
+      expect(parseQueryTime('1714564800000')).toBe(1714564800000);
+    });
+
+    it('should report invalid queries with their position', () => {
+      expect(() => parseLogQuery('level:info /[a-/')).toThrow(LogQueryError);
+      expect(() => parseLogQuery('level:loud')).toThrow('Unknown level "loud"');
+      expect(() => parseLogQuery('ok "unterminated')).toThrow(expect.objectContaining({ position: 3 }));
+      expect(() => parseLogQuery('after:yesterday')).toThrow('Invalid time');
+    });
+
+    it('should refuse regexes that could backtrack catastrophically', () => {
+      for (const pattern of ['/(a+)+$/', '/(a|aa)*b/', '/((ab)*c)+/', '/(?:\\w+\\s?){3,}x/', `/${'a'.repeat(201)}/`]) {
+        expect(() => parseLogQuery(`ok ${pattern}`)).toThrow(expect.objectContaining({ name: 'LogQueryError', position: 3 }));
+      }
+      for (const pattern of ['/fail(ed)?/i', '/(ab)+c/', '/[(a+)]+/', '/\\(a+\\)+/', '/(foo|bar)?\\d+ms/']) {
+        expect(parseLogQuery(pattern)[0].kind).toBe('regex');
+      }
+    });
+  });
+
+  describe('Matching', () => {
+    it('should filter by level, source kind and source glob', () => {
+      expect(ids('level:error')).toEqual([4, 5]);
+      expect(ids('source:file')).toEqual([3, 4, 6]);
+      expect(ids('source:process:deploy:*')).toEqual([5]);
+      expect(ids('source:backend,file:logs/*')).toEqual([1, 2, 3]);
+    });
+
+    it('should match regexes, text and negated terms', () => {
+      expect(ids('/fail(ed)?/i -source:process')).toEqual([4]);
+      expect(ids('"connection refused"')).toEqual([4]);
+      expect(ids('-level:debug -level:info')).toEqual([3, 4, 5]);
+    });
+
+    it('should match structured fields with comparisons and nested paths', () => {
+      expect(ids('status>=500')).toEqual([4]);
+      expect(ids('req.method=get')).toEqual([4, 6]);
+      expect(ids('fields.durationMs>1000')).toEqual([3]);
+      expect(ids('status!=200 source:file:app.log')).toEqual([4]);
+    });
+
+    it('should apply time ranges', () => {
+      expect(ids('after:6m')).toEqual([4, 5, 6]);
+      expect(ids('after:6m before:5m')).toEqual([4, 5]);
+    });
+  });
+
+  describe('Results', () => {
+    it('should count facets over all matches and page newest first', () => {
+      const result = runLogQuery(entries, parseLogQuery('-level:debug'), { page: 2, pageSize: 2 });
+
+      expect(result.total).toBe(5);
+      expect(result.logs.map(e => e.id)).toEqual([4, 3]);
+      expect(result.facets.level).toEqual({ INFO: 2, ERROR: 2, WARN: 1 });
+      expect(result.facets.source).toEqual({
+        'file:app.log': 2,
+        'process:deploy:npm run build': 1,
+        'file:logs/db.log': 1,
+        backend: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Metrics Service Tests
+ * Tests /proc parsing, rate calculation and graceful handling of missing sources
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  MetricsService,
+  parseProcStat,
+  parseMeminfo,
+  parseNetDev,
+  cpuUsageBetween,
+} from '../src/services/metricsService';
+
+const statFixture = (user: number, idle: number) => [
+  `cpu  ${user * 2} 0 0 ${idle * 2} 0 0 0 0 0 0`,
+  `cpu0 ${user} 0 0 ${idle} 0 0 0 0 0 0`,
+  `cpu1 ${user} 0 0 ${idle} 0 0 0 0 0 0`,
+  'intr 1 2 3',
+].join('\n');
+
+const netFixture = (rx: number, tx: number) => [
+  'Inter-|   Receive                                                |  Transmit',
+  ' face |bytes    packets errs drop fifo frame compressed multicast|bytes    packets errs drop fifo colls carrier compressed',
+  '    lo: 999999 10 0 0 0 0 0 0 999999 10 0 0 0 0 0 0',
+  `  eth0: ${rx} 10 0 0 0 0 0 0 ${tx} 10 0 0 0 0 0 0`,
+].join('\n');
+
+describe('MetricsService', () => {
+  describe('Parsers', () => {
+    it('should parse aggregate and per-core cpu counters', () => {
+      const stat = parseProcStat(statFixture(100, 300));
+
+      expect(stat).not.toBeNull();
+      expect(stat!.cores).toHaveLength(2);
+      expect(stat!.total).toEqual({ idle: 600, total: 800 });
+    });
+
+    it('should return null for unreadable /proc/stat content', () => {
+      expect(parseProcStat('garbage')).toBeNull();
+    });
+
+    it('should parse meminfo values in kB', () => {
+      const mem = parseMeminfo('MemTotal:       16384000 kB\nMemAvailable:    8192000 kB\nHugePages_Total:       0');
+
+      expect(mem.MemTotal).toBe(16384000);
+      expect(mem.MemAvailable).toBe(8192000);
+      expect(mem.HugePages_Total).toBe(0);
+    });
+
+    it('should sum network counters excluding loopback', () => {
+      expect(parseNetDev(netFixture(2048, 1024))).toEqual({ rxBytes: 2048, txBytes: 1024 });
+    });
+
+    it('should compute cpu usage between snapshots', () => {
+      expect(cpuUsageBetween({ idle: 100, total: 200 }, { idle: 150, total: 300 })).toBe(50);
+      expect(cpuUsageBetween({ idle: 100, total: 200 }, { idle: 100, total: 200 })).toBeNull();
+    });
+  });
+
+  describe('Sampling', () => {
+    let procRoot: string;
+    let sysRoot: string;
+
+    beforeEach(async () => {
+      const root = await fs.mkdtemp(path.join(os.tmpdir(), 'metrics-'));
+      procRoot = path.join(root, 'proc');
+      sysRoot = path.join(root, 'sys');
+      await fs.mkdir(path.join(procRoot, 'net'), { recursive: true });
+      await fs.writeFile(path.join(procRoot, 'stat'), statFixture(100, 300));
+      await fs.writeFile(path.join(procRoot, 'meminfo'), 'MemTotal: 2097152 kB\nMemFree: 524288 kB\nMemAvailable: 1048576 kB\nCached: 262144 kB');
+      await fs.writeFile(path.join(procRoot, 'net', 'dev'), netFixture(0, 0));
+    });
+
+    afterEach(async () => {
+      await fs.rm(path.dirname(procRoot), { recursive: true, force: true });
+    });
+
+    it('should report null rates on the first sample', async () => {
+      const service = new MetricsService({ procRoot, sysRoot, historySize: 5 });
+      const sample = await service.sample();
+
+      expect(sample.cpu.usage).toBeNull();
+      expect(sample.network.rx).toBeNull();
+      expect(sample.memory.total).toBe(2048);
+      expect(sample.memory.used).toBe(1024);
+    });
+
+    it('should turn counters into rates on later samples', async () => {
+      const service = new MetricsService({ procRoot, sysRoot, historySize: 5 });
+      await service.sample();
+
+      await fs.writeFile(path.join(procRoot, 'stat'), statFixture(200, 400));
+      await fs.writeFile(path.join(procRoot, 'net', 'dev'), netFixture(10240, 5120));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const sample = await service.sample();
+
+      expect(sample.cpu.usage).toBe(50);
+      expect(sample.cpu.perCore).toEqual([50, 50]);
+      expect(sample.network.rx).toBeGreaterThan(0);
+      expect(service.getHistory()).toHaveLength(2);
+    });
+
+    it('should return null for missing thermal and battery sources', async () => {
+      const service = new MetricsService({ procRoot, sysRoot });
+      const sample = await service.sample();
+
+      expect(sample.cpu.temperature).toBeNull();
+      expect(sample.battery).toEqual({ charging: null, percentage: null, timeRemaining: null });
+    });
+
+    it('should read battery state from power_supply', async () => {
+      const battery = path.join(sysRoot, 'class', 'power_supply', 'BAT0');
+      await fs.mkdir(battery, { recursive: true });
+      await fs.writeFile(path.join(battery, 'type'), 'Battery\n');
+      await fs.writeFile(path.join(battery, 'status'), 'Discharging\n');
+      await fs.writeFile(path.join(battery, 'capacity'), '64\n');
+      await fs.writeFile(path.join(battery, 'energy_now'), '30000000\n');
+      await fs.writeFile(path.join(battery, 'power_now'), '15000000\n');
+
+      const service = new MetricsService({ procRoot, sysRoot });
+      const sample = await service.sample();
+
+      expect(sample.battery).toEqual({ charging: false, percentage: 64, timeRemaining: 120 });
+    });
+
+    it('should bound history to the configured size', async () => {
+      const service = new MetricsService({ procRoot, sysRoot, historySize: 2 });
+      await service.sample();
+      await service.sample();
+      await service.sample();
+
+      expect(service.getHistory()).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Policy Service Tests
+ * Tests rule matching, priority ordering, persistence, host list sync and dry-run enforcement
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection, ConnectionService } from '../src/services/connectionService';
+import { Flow, FlowService } from '../src/services/flowService';
+import { PolicyRule, PolicyService, ruleMatches } from '../src/services/policyService';
+import { ipInCidr, isValidCidr } from '../src/utils/cidr';
+import { globToRegExp } from '../src/utils/glob';
+
+function conn(overrides: Partial<Connection>): Connection {
+  return {
+    id: 'tcp-1',
+    protocol: 'TCP',
+    family: 'IPv4',
+    localAddress: '10.0.0.10:54321',
+    localPort: 54321,
+    remoteAddress: '93.184.216.34:443',
+    remotePort: 443,
+    state: 'ESTABLISHED',
+    pid: 42,
+    process: 'node',
+    uid: 1000,
+    inode: 1,
+    ...overrides,
+  };
+}
+
+function rule(overrides: Partial<PolicyRule>): PolicyRule {
+  return {
+    id: 'r1',
+    action: 'block',
+    priority: 100,
+    enabled: true,
+    source: 'user',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const flow = { id: 'flow-1', app: 'curl', dest: '10.1.2.3', port: 443, protocol: 'TCP' } as Flow;
+
+describe('PolicyService', () => {
+  describe('Matching', () => {
+    it('should match process and host globs case-insensitively', () => {
+      expect(globToRegExp('api.*.com').test('API.github.com')).toBe(true);
+      expect(globToRegExp('node').test('nodejs')).toBe(false);
+      expect(ruleMatches(rule({ process: 'cu*', port: 443 }), flow)).toBe(true);
+      expect(ruleMatches(rule({ process: 'cu*', port: 80 }), flow)).toBe(false);
+      expect(ruleMatches(rule({ process: 'curl', enabled: false }), flow)).toBe(false);
+    });
+
+    it('should match IPv4 and IPv6 CIDR blocks', () => {
+      expect(isValidCidr('10.0.0.0/8')).toBe(true);
+      expect(isValidCidr('10.0.0.0/33')).toBe(false);
+      expect(ipInCidr('10.1.2.3', '10.0.0.0/8')).toBe(true);
+      expect(ipInCidr('11.1.2.3', '10.0.0.0/8')).toBe(false);
+      expect(ipInCidr('fe80::1', 'fe80::/10')).toBe(true);
+      expect(ruleMatches(rule({ destination: '10.0.0.0/8' }), flow)).toBe(true);
+    });
+
+    it('should match hostnames through their resolved addresses', () => {
+      const resolved = new Map([['internal.example', ['10.1.2.3']]]);
+      expect(ruleMatches(rule({ destination: 'internal.example' }), flow, resolved)).toBe(true);
+      expect(ruleMatches(rule({ destination: 'other.example' }), flow, resolved)).toBe(false);
+    });
+  });
+
+  describe('Rules and flows', () => {
+    let dir: string;
+    let file: string;
+    let flows: FlowService;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'policy-'));
+      file = path.join(dir, 'policy.json');
+      const source = {
+        getConnections: async () => [conn({}), conn({ inode: 2, pid: 7, process: 'curl', remoteAddress: '10.1.2.3:22', remotePort: 22 })],
+      } as unknown as ConnectionService;
+      flows = new FlowService({ procRoot: dir, source });
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should set flow status from the first matching rule by priority', async () => {
+      const policy = new PolicyService({ file, flows });
+      await policy.createRule({ process: 'curl', action: 'watch' });
+      await policy.createRule({ destination: '10.0.0.0/8', action: 'block', priority: 5 });
+
+      await flows.poll();
+
+      const statuses = Object.fromEntries(flows.getActive().map(f => [f.app, f.status]));
+      expect(statuses).toEqual({ node: 'allow', curl: 'block' });
+      expect(policy.getMatches()).toHaveLength(1);
+    });
+
+    it('should re-evaluate active flows when rules change', async () => {
+      const policy = new PolicyService({ file, flows });
+      await flows.poll();
+      const changed: string[] = [];
+      flows.on('flow:status', (f: Flow) => changed.push(`${f.app}:${f.status}`));
+
+      const created = await policy.createRule({ process: 'node', action: 'watch' });
+      await policy.deleteRule(created.id);
+
+      expect(changed).toEqual(['node:watch', 'node:allow']);
+    });
+
+    it('should persist rules and reload them', async () => {
+      const policy = new PolicyService({ file, flows });
+      await policy.createRule({ process: 'node', port: 443, action: 'block', description: 'no egress' });
+
+      const reloaded = new PolicyService({ file, flows });
+      const rules = await reloaded.listRules();
+
+      expect(rules).toHaveLength(1);
+      expect(rules[0]).toMatchObject({ process: 'node', port: 443, action: 'block', source: 'user' });
+      expect(JSON.parse(await fs.readFile(file, 'utf8')).version).toBe(1);
+    });
+
+    it('should persist every rule from concurrent updates', async () => {
+      const policy = new PolicyService({ file, flows });
+      await Promise.all(Array.from({ length: 10 }, (_, i) => policy.createRule({ port: 8000 + i, action: 'watch' })));
+
+      const { rules } = JSON.parse(await fs.readFile(file, 'utf8'));
+      expect(rules.map((rule: { port: number }) => rule.port).sort()).toEqual(Array.from({ length: 10 }, (_, i) => 8000 + i));
+    });
+
+    it('should replace settings-derived rules from host lists', async () => {
+      const policy = new PolicyService({ file, flows });
+      await policy.createRule({ process: 'node', action: 'watch' });
+
+      await policy.setHostLists({ allow: ['93.184.216.34'], deny: ['10.0.0.0/8', '10.0.0.0/8'] });
+      const synced = await policy.setHostLists({ allow: [], deny: ['10.0.0.0/8'] });
+
+      expect(synced).toHaveLength(1);
+      expect((await policy.listRules()).map(r => `${r.source}:${r.action}`)).toEqual(['settings:block', 'user:watch']);
+    });
+
+    it('should record dry-run enforcement for blocked flows', async () => {
+      const policy = new PolicyService({ file, flows });
+      await flows.poll();
+      const target = flows.getActive().find(f => f.app === 'curl')!;
+
+      const created = await policy.blockFlow(target);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(target.status).toBe('block');
+      expect(created).toMatchObject({ process: 'curl', destination: '10.1.2.3', port: 22 });
+      expect(policy.getEnforcementLog()).toEqual([
+        expect.objectContaining({ flowId: target.id, backend: 'dry-run', applied: false }),
+      ]);
+    });
+  });
+});
@@ -33,15 +33,15 @@ describe('Route Integration Tests', () => {
     it('GET /v1/ci/status should have valid build status', async () => {
       const res = await request(app).get('/v1/ci/status');
       
-      expect(['pass', 'fail', 'running']).toContain(res.body.build.status);
+      expect(['pass', 'fail', 'running', 'idle']).toContain(res.body.build.status);
     });
 
     it('GET /v1/ci/status should have numeric metrics', async () => {
       const res = await request(app).get('/v1/ci/status');
       
       expect(typeof res.body.build.durationMs).toBe('number');
-      expect(typeof res.body.build.cacheHitPct).toBe('number');
       expect(typeof res.body.tests.pass).toBe('number');
+      expect(typeof res.body.tests.fail).toBe('number');
     });
   });
 
@@ -84,7 +84,7 @@ describe('Route Integration Tests', () => {
       
       expect(res.body.cpu).toHaveProperty('usage');
       expect(res.body.cpu).toHaveProperty('temperature');
-      expect(typeof res.body.cpu.usage).toBe('number');
+      expect(res.body.cpu.usage === null || typeof res.body.cpu.usage === 'number').toBe(true);
     });
 
     it('GET /v1/system/metrics should have memory stats', async () => {
@@ -100,7 +100,8 @@ describe('Route Integration Tests', () => {
       
       expect(res.body.battery).toHaveProperty('percentage');
       expect(res.body.battery).toHaveProperty('charging');
-      expect(typeof res.body.battery.charging).toBe('boolean');
+      // Hosts without a battery report null rather than a made-up value
+      expect(res.body.battery.charging === null || typeof res.body.battery.charging === 'boolean').toBe(true);
     });
   });
 
@@ -0,0 +1,86 @@
+/**
+ * Sandbox Module Tests
+ * Tests import resolution and module loading from the workspace for sandboxed code
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceService } from '../src/services/workspaceService';
+import {
+  isModuleSource,
+  loadModuleSource,
+  resolveModuleSpecifier,
+  SandboxModuleError,
+  toWorkspacePath,
+} from '../src/services/sandboxModules';
+
+describe('Sandbox modules', () => {
+  let root: string;
+  let workspace: WorkspaceService;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-modules-'));
+    const files: Record<string, string> = {
+      'src/math.js': 'export const double = (n) => n * 2;\n',
+      'src/util/format.ts': 'export const label = (n: number): string => `#${n}`;\n',
+      'src/util/index.ts': 'export * from "./format";\n',
+      'config.json': '{ "name": "demo" }\n',
+      'node_modules/pkg/index.js': 'export default 1;\n',
+      '.env': 'SECRET=1\n',
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), content);
+    }
+
+    const previousRoot = process.env.WORKSPACE_ROOT;
+    process.env.WORKSPACE_ROOT = root;
+    workspace = new WorkspaceService();
+    process.env.WORKSPACE_ROOT = previousRoot;
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should only run code with imports or exports as a module', () => {
+    expect(isModuleSource('import { double } from "./math";\nconsole.log(double(2));')).toBe(true);
+    expect(isModuleSource('export {};')).toBe(true);
+    expect(isModuleSource('const fs = "import";\nconsole.log(fs);')).toBe(false);
+  });
+
+  it('should resolve relative and workspace-absolute specifiers inside the workspace', () => {
+    expect(resolveModuleSpecifier('./math', 'src/main.js')).toBe('src/math');
+    expect(resolveModuleSpecifier('../config.json', 'src/main.js')).toBe('config.json');
+    expect(resolveModuleSpecifier('/src/util', 'lib/deep/main.js')).toBe('src/util');
+    expect(toWorkspacePath('/src/../config.json')).toBe('config.json');
+    expect(toWorkspacePath('')).toBe('.');
+
+    expect(() => resolveModuleSpecifier('lodash', 'main.js')).toThrow(SandboxModuleError);
+    expect(() => resolveModuleSpecifier('../../etc/passwd', 'src/main.js')).toThrow(/outside the workspace/);
+  });
+
+  it('should load JavaScript, transpiled TypeScript, index files and JSON', async () => {
+    await expect(loadModuleSource('./math', 'src/main.js', workspace)).resolves.toEqual({
+      path: 'src/math.js',
+      code: 'export const double = (n) => n * 2;\n',
+    });
+
+    const format = await loadModuleSource('./format', 'src/util/index.ts', workspace);
+    expect(format.path).toBe('src/util/format.ts');
+    expect(format.code).toContain('export const label = (n) =>');
+
+    await expect(loadModuleSource('./util', 'src/main.js', workspace)).resolves.toMatchObject({ path: 'src/util/index.ts' });
+    await expect(loadModuleSource('/config.json', 'src/main.js', workspace)).resolves.toEqual({
+      path: 'config.json',
+      code: 'export default {"name":"demo"};',
+    });
+  });
+
+  it('should not load missing files or files the workspace listing hides', async () => {
+    await expect(loadModuleSource('./missing', 'src/main.js', workspace)).rejects.toThrow("Cannot find module './missing'");
+    await expect(loadModuleSource('./node_modules/pkg', 'main.js', workspace)).rejects.toThrow(SandboxModuleError);
+    await expect(loadModuleSource('./.env', 'main.js', workspace)).rejects.toThrow(SandboxModuleError);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Sandbox Network Tests
+ * Tests the networkAccess policy that gates fetch in sandboxed code
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { assertNetworkAccess, isInternalAddress, sandboxFetch, SandboxNetworkError } from '../src/services/sandboxNetwork';
+
+const HOSTS: Record<string, string[]> = {
+  'db.internal': ['10.0.0.5'],
+  'example.com': ['93.184.216.34'],
+  'split.example': ['192.168.1.2', '93.184.216.34'],
+};
+
+const lookup = async (hostname: string): Promise<string[]> => {
+  if (!HOSTS[hostname]) throw new Error(`ENOTFOUND ${hostname}`);
+  return HOSTS[hostname];
+};
+
+describe('Sandbox network', () => {
+  it('should treat private addresses as internal, but not loopback or link-local ones', () => {
+    for (const address of ['10.1.2.3', '172.16.0.1', '192.168.0.10', 'fd00::1', '::ffff:10.0.0.1']) {
+      expect(isInternalAddress(address)).toBe(true);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '2001:4860::8888', '::ffff:8.8.8.8', '127.0.0.1', '0.0.0.0', '::1', '169.254.169.254', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  });
+
+  it('should refuse every request when network access is off', async () => {
+    await expect(assertNetworkAccess(new URL('http://127.0.0.1/'), 'off', lookup)).rejects.toThrow('Network access is disabled');
+    await expect(sandboxFetch('http://127.0.0.1/', {}, { access: 'off', timeoutMs: 1000, maxBytes: 1024 }))
+      .rejects.toBeInstanceOf(SandboxNetworkError);
+  });
+
+  it('should only allow hosts that resolve to internal addresses when internal-only', async () => {
+    await expect(assertNetworkAccess(new URL('http://db.internal:8080/rows'), 'internal-only', lookup)).resolves.toBe('10.0.0.5');
+    await expect(assertNetworkAccess(new URL('http://[fd00::1]/'), 'internal-only', lookup)).resolves.toBe('fd00::1');
+
+    await expect(assertNetworkAccess(new URL('http://127.0.0.1:3001/api/'), 'internal-only', lookup)).rejects.toThrow(SandboxNetworkError);
+    await expect(assertNetworkAccess(new URL('http://169.254.169.254/latest/meta-data/'), 'internal-only', lookup)).rejects.toThrow(SandboxNetworkError);
+
+    await expect(assertNetworkAccess(new URL('https://example.com/'), 'internal-only', lookup)).rejects.toThrow('not an internal host');
+    await expect(assertNetworkAccess(new URL('https://split.example/'), 'internal-only', lookup)).rejects.toThrow(SandboxNetworkError);
+    await expect(assertNetworkAccess(new URL('https://unknown.example/'), 'internal-only', lookup)).rejects.toThrow(SandboxNetworkError);
+  });
+
+  it('should allow any http(s) host with full access and nothing else', async () => {
+    await expect(assertNetworkAccess(new URL('https://example.com/'), 'full', lookup)).resolves.toBe('93.184.216.34');
+    await expect(assertNetworkAccess(new URL('file:///etc/passwd'), 'full', lookup)).rejects.toThrow('Unsupported protocol: file:');
+    await expect(sandboxFetch('not a url', {}, { access: 'full', timeoutMs: 1000, maxBytes: 1024 })).rejects.toThrow('Invalid URL');
+  });
+
+  it('should never reach loopback or link-local addresses, even with full access', async () => {
+    const local = async (hostname: string) => (hostname === 'localhost.example' ? ['93.184.216.34', '::1'] : []);
+    for (const url of ['http://127.0.0.1:3001/api/', 'http://169.254.169.254/latest/meta-data/', 'http://[::ffff:127.0.0.1]/', 'http://[fe80::1]/', 'http://0.0.0.0/']) {
+      await expect(assertNetworkAccess(new URL(url), 'full', lookup)).rejects.toThrow('loopback or link-local');
+    }
+    await expect(assertNetworkAccess(new URL('http://localhost.example/'), 'full', local)).rejects.toThrow(SandboxNetworkError);
+    await expect(sandboxFetch('http://169.254.169.254/latest/meta-data/', {}, { access: 'full', timeoutMs: 1000, maxBytes: 1024 }))
+      .rejects.toThrow('loopback or link-local');
+  });
+
+  describe('responses', () => {
+    let server: Server;
+    let baseUrl: string;
+    // The test server listens on loopback, which sandboxed code is otherwise never allowed to reach
+    const options = { access: 'full' as const, blockedRanges: [] };
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        if (req.url === '/endless') {
+          // Chunked with no content-length, and never ends on its own
+          const timer = setInterval(() => res.write('x'.repeat(1024)), 1);
+          res.on('close', () => clearInterval(timer));
+          return;
+        }
+        res.setHeader('content-type', 'text/plain');
+        res.end('hello');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should return the status, headers and body', async () => {
+      const response = await sandboxFetch(`${baseUrl}/`, {}, { ...options, timeoutMs: 2000, maxBytes: 1024 });
+      expect(response).toMatchObject({ status: 200, body: 'hello', headers: { 'content-type': 'text/plain' } });
+    });
+
+    it('should connect to the checked address rather than resolve the host again', async () => {
+      const port = new URL(baseUrl).port;
+      const pinned = async (hostname: string) => (hostname === 'rebind.example' ? ['127.0.0.1'] : []);
+      const response = await sandboxFetch(`http://rebind.example:${port}/`, {}, { ...options, timeoutMs: 2000, maxBytes: 1024, lookup: pinned });
+      expect(response).toMatchObject({ status: 200, body: 'hello' });
+    });
+
+    it('should stop reading a body once it passes the byte limit', async () => {
+      await expect(sandboxFetch(`${baseUrl}/endless`, {}, { ...options, timeoutMs: 5000, maxBytes: 16 * 1024 }))
+        .rejects.toThrow('Response exceeds the 16384 byte limit');
+    });
+  });
+});
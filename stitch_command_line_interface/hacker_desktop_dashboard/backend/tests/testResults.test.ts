@@ -0,0 +1,121 @@
+/**
+ * Test Results Tests
+ * Tests JUnit and Jest/Vitest report parsing, per-test history and flaky detection
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseJestJson, parseJUnitXml, parseTestReport, TestReportError } from '../src/services/testReportModel';
+import { TestResultsService } from '../src/services/testResultsService';
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests">
+  <testsuite name="math" file="src/math.test.ts" tests="4">
+    <testcase classname="math" name="adds &amp; subtracts" time="0.012"/>
+    <testcase classname="math" name="divides" time="1.5">
+      <failure message="expected 2 &lt; 1">Error: expected 2 &lt; 1
+    at divides (src/math.test.ts:9:5)</failure>
+    </testcase>
+    <testcase name="rounds" time="0">
+      <skipped/>
+    </testcase>
+    <testcase classname="math" name="parses" time="0.2"><error><![CDATA[TypeError: x is <undefined>]]></error></testcase>
+  </testsuite>
+</testsuites>`;
+
+describe('TestResults', () => {
+  describe('Report parsing', () => {
+    it('should read JUnit cases with failures, errors and skips', () => {
+      expect(parseJUnitXml(JUNIT)).toEqual([
+        { id: 'math::adds & subtracts', suite: 'math', name: 'adds & subtracts', file: 'src/math.test.ts', status: 'pass', durationMs: 12 },
+        { id: 'math::divides', suite: 'math', name: 'divides', file: 'src/math.test.ts', status: 'fail', durationMs: 1500, message: 'expected 2 < 1' },
+        { id: 'math::rounds', suite: 'math', name: 'rounds', file: 'src/math.test.ts', status: 'skip', durationMs: 0 },
+        { id: 'math::parses', suite: 'math', name: 'parses', file: 'src/math.test.ts', status: 'fail', durationMs: 200, message: 'TypeError: x is <undefined>' },
+      ]);
+    });
+
+    it('should read Jest/Vitest JSON with paths relative to the workspace', () => {
+      const results = parseJestJson({
+        testResults: [{
+          name: '/work/src/app.test.ts',
+          assertionResults: [
+            { ancestorTitles: ['App'], title: 'renders', fullName: 'App renders', status: 'passed', duration: 4.4 },
+            { title: 'loads', status: 'failed', duration: 30, failureMessages: ['Error: timeout\n    at loads'] },
+            { title: 'later', status: 'todo' },
+          ],
+        }],
+      }, '/work');
+
+      expect(results.map(r => [r.id, r.status, r.durationMs, r.message])).toEqual([
+        ['src/app.test.ts::App renders', 'pass', 4, undefined],
+        ['src/app.test.ts::loads', 'fail', 30, 'Error: timeout'],
+        ['src/app.test.ts::later', 'skip', 0, undefined],
+      ]);
+    });
+
+    it('should reject files in other formats', () => {
+      expect(() => parseTestReport('plain text')).toThrow(TestReportError);
+      expect(() => parseTestReport('{ "numTests": 1 }')).toThrow('missing testResults');
+      expect(() => parseTestReport('<html></html>')).toThrow('Not a JUnit report');
+    });
+  });
+
+  describe('History', () => {
+    let dataDir: string;
+    let service: TestResultsService;
+
+    const result = (name: string, status: 'pass' | 'fail' | 'skip', durationMs = 10) =>
+      ({ id: `suite::${name}`, suite: 'suite', name, status, durationMs, ...(status === 'fail' ? { message: `${name} broke` } : {}) });
+
+    beforeEach(async () => {
+      dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ci-tests-'));
+      service = new TestResultsService({ dataDir, historySize: 5 });
+    });
+
+    afterEach(async () => {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    it('should flag tests that flip outcome on the same commit as flaky', async () => {
+      await service.ingest({ runId: 'run-1', commit: 'aaa', stepId: 'test/unit', attempt: 1 }, [result('a', 'fail'), result('b', 'fail')]);
+      expect(service.isFlaky('suite::a')).toBe(false);
+
+      // Same commit, retried: a passes now, b keeps failing
+      const counts = await service.ingest({ runId: 'run-1', commit: 'aaa', stepId: 'test/unit', attempt: 2 }, [result('a', 'pass'), result('b', 'fail')]);
+      expect(counts).toEqual({ pass: 1, fail: 1, skip: 0, flaky: 1 });
+      expect(service.isFlaky('suite::a')).toBe(true);
+
+      // A fix on a new commit is not a flip
+      await service.ingest({ runId: 'run-2', commit: 'bbb', stepId: 'test/unit', attempt: 1 }, [result('b', 'pass')]);
+      expect(service.isFlaky('suite::b')).toBe(false);
+
+      const flaky = await service.flaky();
+      expect(flaky.map(t => [t.id, t.flips, t.runs])).toEqual([['suite::a', 1, 1]]);
+      expect((await service.forRun('run-1')).map(t => [t.name, t.attempt, t.status])).toEqual([
+        ['a', 1, 'fail'], ['b', 1, 'fail'], ['a', 2, 'pass'], ['b', 2, 'fail'],
+      ]);
+    });
+
+    it('should list failing streaks and slowest tests, and persist history', async () => {
+      for (let run = 1; run <= 6; run++) {
+        await service.ingest({ runId: `run-${run}`, commit: `c${run}`, stepId: 'test/unit', attempt: 1 }, [
+          result('slow', 'pass', 100 * run),
+          result('broken', run > 3 ? 'fail' : 'pass'),
+          result('todo', 'skip'),
+        ]);
+      }
+
+      const failing = await service.failing();
+      expect(failing).toMatchObject([{ id: 'suite::broken', streak: 3, message: 'broken broke', lastStatus: 'fail' }]);
+
+      // History keeps the last five executions: runs 2-6
+      const slowest = await service.slowest(1);
+      expect(slowest).toMatchObject([{ id: 'suite::slow', avgDurationMs: 400, maxDurationMs: 600, runs: 5 }]);
+
+      const reloaded = new TestResultsService({ dataDir, historySize: 5 });
+      expect((await reloaded.getTest('suite::broken'))?.history).toHaveLength(5);
+      expect(await reloaded.slowest(10)).toHaveLength(2);
+    });
+  });
+});
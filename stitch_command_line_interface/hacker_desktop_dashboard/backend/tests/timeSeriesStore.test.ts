@@ -0,0 +1,97 @@
+/**
+ * Time Series Store Tests
+ * Tests rollups, resolution selection, downsampling and the metrics history route
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { TimeSeriesStore, downsample } from '../src/services/timeSeriesStore';
+import systemRoutes from '../src/routes/system';
+
+describe('TimeSeriesStore', () => {
+  const base = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+  it('should keep raw points and ignore null gaps', () => {
+    const store = new TimeSeriesStore();
+    store.record('cpu.usage', base, 10);
+    store.record('cpu.usage', base + 2000, null);
+    store.record('cpu.usage', base + 4000, 30);
+
+    const result = store.query({ series: ['cpu.usage'], from: base, to: base + 10_000 });
+
+    expect(result.resolution).toBe('raw');
+    expect(result.series['cpu.usage'].map(p => p.avg)).toEqual([10, 30]);
+  });
+
+  it('should roll values up into min/avg/max buckets', () => {
+    const store = new TimeSeriesStore();
+    [10, 20, 60].forEach((value, i) => store.record('cpu.usage', base + i * 2000, value));
+    store.record('cpu.usage', base + 10_000, 5);
+
+    const result = store.query({ series: ['cpu.usage'], from: base, to: base + 20_000, stepMs: 10_000 });
+
+    expect(result.resolution).toBe('10s');
+    expect(result.series['cpu.usage']).toEqual([
+      { t: base, min: 10, avg: 30, max: 60, count: 3 },
+      { t: base + 10_000, min: 5, avg: 5, max: 5, count: 1 },
+    ]);
+  });
+
+  it('should select the coarsest resolution not wider than the step', () => {
+    const store = new TimeSeriesStore();
+
+    expect(store.selectResolution(undefined)).toBe('raw');
+    expect(store.selectResolution(5000)).toBe('raw');
+    expect(store.selectResolution(30_000)).toBe('10s');
+    expect(store.selectResolution(120_000)).toBe('1m');
+    expect(store.selectResolution(3_600_000)).toBe('5m');
+  });
+
+  it('should downsample buckets into wider steps with weighted averages', () => {
+    const points = [
+      { t: 0, min: 1, avg: 2, max: 3, count: 1 },
+      { t: 10_000, min: 0, avg: 5, max: 9, count: 3 },
+      { t: 60_000, min: 4, avg: 4, max: 4, count: 1 },
+    ];
+
+    expect(downsample(points, 60_000)).toEqual([
+      { t: 0, min: 0, avg: 4.25, max: 9, count: 4 },
+      { t: 60_000, min: 4, avg: 4, max: 4, count: 1 },
+    ]);
+  });
+
+  it('should bound retention per resolution', () => {
+    const store = new TimeSeriesStore({ raw: 3 });
+    for (let i = 0; i < 10; i++) {
+      store.record('network.rx', base + i * 1000, i);
+    }
+
+    const result = store.query({ series: ['network.rx'], from: 0, to: base + 60_000 });
+    expect(result.series['network.rx']).toHaveLength(3);
+  });
+});
+
+describe('GET /metrics/history', () => {
+  const app = express();
+  app.use('/v1/system', systemRoutes);
+
+  it('should return the requested series', async () => {
+    const res = await request(app).get('/v1/system/metrics/history?series=cpu.usage,network.rx&step=1m');
+
+    expect(res.status).toBe(200);
+    expect(res.body.resolution).toBe('1m');
+    expect(Object.keys(res.body.series)).toEqual(['cpu.usage', 'network.rx']);
+  });
+
+  it('should reject unknown series', async () => {
+    const res = await request(app).get('/v1/system/metrics/history?series=disk.iops');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('UNKNOWN_SERIES');
+  });
+
+  it('should reject malformed steps and ranges', async () => {
+    expect((await request(app).get('/v1/system/metrics/history?step=fast')).status).toBe(400);
+    expect((await request(app).get('/v1/system/metrics/history?from=2000&to=1000')).status).toBe(400);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * TypeScript Transpiler Tests
+ * Tests transpilation, source-mapped positions, syntax errors and type-check diagnostics
+ */
+
+import {
+  checkTypeScript,
+  createSourceMapper,
+  formatDiagnostic,
+  transpileTypeScript,
+  TypeScriptSyntaxError,
+} from '../src/services/typescriptTranspiler';
+
+const SOURCE = [
+  'interface Point {',
+  '  x: number;',
+  '}',
+  'const origin: Point = { x: 0 };',
+  'const label: number = "origin";',
+  'await Promise.resolve();',
+  'console.log(origin.x, label);',
+  'missing.call();',
+].join('\n');
+
+describe('TypeScript transpiler', () => {
+  it('should strip types and map generated positions back to the source', () => {
+    const { code, toSource } = transpileTypeScript(SOURCE);
+    const lines = code.split('\n');
+
+    expect(code).not.toMatch(/interface|: Point|sourceMappingURL/);
+    expect(lines[0]).toBe('const origin = { x: 0 };');
+
+    const call = lines.findIndex(line => line.startsWith('missing.call'));
+    expect(toSource(call + 1, 9)).toEqual({ line: 8, column: 9 });
+    expect(toSource(1, 7)).toEqual({ line: 4, column: 7 });
+    expect(toSource(lines.length + 5, 1)).toBeUndefined();
+  });
+
+  it('should refuse syntax errors with their positions', () => {
+    let error: unknown;
+    try {
+      transpileTypeScript('const value = ;\nconsole.log(value);');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(TypeScriptSyntaxError);
+    const { diagnostics, message } = error as TypeScriptSyntaxError;
+    expect(diagnostics[0]).toMatchObject({ line: 1, column: 15, category: 'error', code: 1109 });
+    expect(message).toContain('main.ts:1:15 - error TS1109: Expression expected.');
+  });
+
+  it('should type-check against the sandbox globals and allow top-level await', () => {
+    const diagnostics = checkTypeScript(SOURCE);
+
+    expect(diagnostics.map(diagnostic => [diagnostic.line, diagnostic.column, diagnostic.code])).toEqual([[5, 7, 2322], [8, 1, 2304]]);
+    expect(formatDiagnostic(diagnostics[1])).toBe("main.ts:8:1 - error TS2304: Cannot find name 'missing'.");
+    expect(checkTypeScript('const items: number[] = [1, 2];\nconsole.log(items.includes(2));')).toEqual([]);
+    // Workspace imports load at run time; the sandbox's host API is declared
+    expect(checkTypeScript('import { rows } from "./data";\nsetTimeout(() => console.log(rows), 10);\nconst res = await fetch("http://db/");\nconsole.log(res.ok, await fs.readFile("a.txt"));')).toEqual([]);
+  });
+
+  it('should decode relative VLQ segments across lines', () => {
+    // Line 1: column 0 -> source 1:1, column 6 -> source 1:3; line 2: column 2 -> source 3:1
+    const toSource = createSourceMapper('AAAA,MAAE;EAEF');
+
+    expect(toSource(1, 1)).toEqual({ line: 1, column: 1 });
+    expect(toSource(1, 9)).toEqual({ line: 1, column: 5 });
+    expect(toSource(2, 3)).toEqual({ line: 3, column: 1 });
+  });
+});
@@ -25,7 +25,7 @@ import { dataService } from "./services/dataService";
 import { backendApiService } from "./services/backendApiService";
 import { electronService } from "./services/electronService";
 import { usePolling, useKeyboardShortcut } from "./hooks/usePolling";
-import { useLogStream } from "./hooks/useWebSocket";
+import { useLiveCiState, useLogStream } from "./hooks/useWebSocket";
 import { config } from "./config";
 
 const previewSeeds: Record<PreviewMode, PreviewState> = {
@@ -99,8 +99,7 @@ function AppShell() {
   // Handle incoming WebSocket logs
   useEffect(() => {
     if (wsLogData && wsLogConnected) {
-      const tag = wsLogData.level?.toUpperCase() as 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
-   addLog(tag || 'INFO', wsLogData.message, 'WebSocket');
+      addLog(wsLogData.tag || 'INFO', wsLogData.message, wsLogData.source ?? 'WebSocket');
     }
   }, [wsLogData, wsLogConnected, addLog]);
 
@@ -132,22 +131,28 @@ function AppShell() {
   
   const fetchSystemMetrics = useCallback(async () => {
     try {
-      const sys = await backendApiService.getSystemMetrics();
+      const sample = await backendApiService.getSystemMetrics();
+      const { cpu, memory, battery } = sample;
+      const ramPct = memory.used !== null && memory.total ? Math.round((memory.used / memory.total) * 100) : null;
+      const batteryValue = battery.percentage === null
+        ? (battery.charging === null ? "AC" : "n/a")
+        : battery.charging ? `AC / ${battery.percentage}%` : `${battery.percentage}%`;
       const metrics = [
-        { label: "CPU", value: `${sys.cpu.usage}%`, accent: "text-cyan" },
-        { label: "RAM", value: `${Math.round((sys.memory.used / sys.memory.total) * 100)}%`, accent: "text-cyan" },
-        { label: "Temp", value: `${sys.cpu.temperature}°C`, accent: sys.cpu.temperature > 75 ? "text-warn" : undefined },
-      { label: "Battery", value: sys.battery.charging ? `AC / ${sys.battery.percentage}%` : `${sys.battery.percentage}%` },
- ];
-      return metrics;
+        { label: "CPU", value: cpu.usage === null ? "n/a" : `${Math.round(cpu.usage)}%`, accent: "text-cyan" },
+        { label: "RAM", value: ramPct === null ? "n/a" : `${ramPct}%`, accent: "text-cyan" },
+        { label: "Temp", value: cpu.temperature === null ? "n/a" : `${Math.round(cpu.temperature)}°C`, accent: cpu.temperature !== null && cpu.temperature > 75 ? "text-warn" : undefined },
+        { label: "Battery", value: batteryValue },
+      ];
+      return { metrics, sample };
     } catch {
-      return dataService.getSystemMetrics();
+      return { metrics: dataService.getSystemMetrics(), sample: null };
     }
   }, []);
   
-  const ciState = usePolling(fetchCiState, config.polling.ci, isLive);
+  const ciState = useLiveCiState(usePolling(fetchCiState, config.polling.ci, isLive));
   const secState = usePolling(fetchSecState, config.polling.security, isLive);
-  const systemMetrics = usePolling(fetchSystemMetrics, config.polling.system, isLive);
+  const systemData = usePolling(fetchSystemMetrics, config.polling.system, isLive);
+  const systemMetrics = systemData?.metrics ?? null;
 
   const fetchPreview = useCallback(async () => {
     try {
@@ -160,9 +165,10 @@ function AppShell() {
   const previewState = usePolling(fetchPreview, config.polling.preview, isLive);
 
   // Update build status based on CI state
+  const ciBuildStatus = ciState?.build.status;
   useEffect(() => {
-    if (ciState?.build) {
-   switch(ciState.build.status) {
+    if (ciBuildStatus) {
+   switch(ciBuildStatus) {
         case 'running':
        setBuildStatus('building');
           addLog('INFO', 'Build started', 'CI');
@@ -179,7 +185,7 @@ function AppShell() {
           setBuildStatus('idle');
       }
     }
-  }, [ciState, addLog]);
+  }, [ciBuildStatus, addLog]);
 
   const snapshots = useMemo(
     () => [
@@ -336,7 +342,7 @@ addLog('SUCCESS', result.output, 'Command');
                 <Route path="/editor" element={<EditorPage />} />
                 <Route path="/ci" element={<CiPage ciState={ciState} />} />
                 <Route path="/security" element={<SecurityPage secState={secState} />} />
-                <Route path="/system" element={<SystemPage systemMetrics={systemMetrics} />} />
+                <Route path="/system" element={<SystemPage systemMetrics={systemMetrics} systemSample={systemData?.sample ?? null} />} />
                 <Route path="/network" element={<NetworkPage />} />
                 <Route path="/inbox" element={<InboxPage />} />
               </Routes>
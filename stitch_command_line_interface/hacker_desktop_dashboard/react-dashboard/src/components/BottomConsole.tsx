@@ -1,13 +1,46 @@
-import { useState, useRef, KeyboardEvent } from "react";
+import { useState, useRef, useEffect, KeyboardEvent } from "react";
 import { useConsole } from "../contexts/ConsoleContext";
+import { useSettings } from "../contexts/SettingsContext";
 import { useDebouncedCallback } from "../hooks/usePerformance";
+import { buildLogQuery, useLogQuery } from "../hooks/useLogQuery";
+import type { LogLine } from "../services/backendApiService";
 
-type TerminalType = "cmd" | "powershell";
+type TerminalType = "cmd" | "powershell" | "logs";
+
+const QUERY_PAGE_SIZE = 100;
 
 export function BottomConsole() {
   const { logs, addLog, clearLogs } = useConsole();
+  const { settings } = useSettings();
   const [activeTerminal, setActiveTerminal] = useState<TerminalType>("powershell");
   const [command, setCommand] = useState("");
+  const defaultQuery = buildLogQuery(settings);
+  // null follows the settings-derived query until the user runs their own
+  const [customQuery, setCustomQuery] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const query = customQuery ?? defaultQuery;
+  const isLogs = activeTerminal === "logs";
+  const { result, error } = useLogQuery(query, page, QUERY_PAGE_SIZE, 2000, isLogs);
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / QUERY_PAGE_SIZE)) : 1;
+
+  useEffect(() => {
+    if (customQuery === null) setCommand(isLogs ? defaultQuery : "");
+  }, [defaultQuery, customQuery, isLogs]);
+
+  const runQuery = (next: string) => {
+    setCustomQuery(next.trim() === defaultQuery ? null : next.trim());
+    setCommand(next.trim());
+    setPage(1);
+  };
+
+  const addTerm = (term: string) => {
+    runQuery(query.includes(term) ? query : `${query} ${term}`.trim());
+  };
+
+  const switchTerminal = (terminal: TerminalType) => {
+    setActiveTerminal(terminal);
+    setCommand(terminal === "logs" ? query : "");
+  };
   const inputRef = useRef<HTMLInputElement>(null);
   const consoleHeight = 160 - 80; // Total height minus header/input areas
 
@@ -28,6 +61,10 @@ export function BottomConsole() {
   }, 100);
 
   const handleSendCommand = () => {
+    if (isLogs) {
+      runQuery(command);
+      return;
+    }
     if (!command.trim()) return;
 
     // Add command to logs
@@ -53,7 +90,7 @@ export function BottomConsole() {
             <span>Console Tail</span>
             <div className="ml-4 flex gap-1">
               <button
-                onClick={() => setActiveTerminal("cmd")}
+                onClick={() => switchTerminal("cmd")}
                 className={`rounded border px-3 py-1 text-[10px] transition ${
                   activeTerminal === "cmd"
                     ? "border-cyan bg-cyan/10 text-cyan"
@@ -63,7 +100,7 @@ export function BottomConsole() {
                 CMD
               </button>
               <button
-                onClick={() => setActiveTerminal("powershell")}
+                onClick={() => switchTerminal("powershell")}
                 className={`rounded border px-3 py-1 text-[10px] transition ${
                   activeTerminal === "powershell"
                     ? "border-cyan bg-cyan/10 text-cyan"
@@ -72,22 +109,87 @@ export function BottomConsole() {
               >
                 PowerShell
               </button>
+              <button
+                onClick={() => switchTerminal("logs")}
+                className={`rounded border px-3 py-1 text-[10px] transition ${
+                  activeTerminal === "logs"
+                    ? "border-cyan bg-cyan/10 text-cyan"
+                    : "border-hairline text-white/50 hover:border-white/30 hover:text-white/70"
+                }`}
+              >
+                Logs
+              </button>
             </div>
           </div>
-          <div className="flex items-center gap-2">
-            <span className="text-white/40">{logs.length} entries</span>
-            <button 
-              onClick={clearLogs}
-              className="rounded border border-transparent px-2 py-1 text-xs text-white/60 transition hover:border-cyan hover:text-cyan"
-            >
-              Clear
-            </button>
-          </div>
+          {isLogs ? (
+            <div className="flex items-center gap-2">
+              {customQuery !== null && (
+                <button
+                  onClick={() => runQuery(defaultQuery)}
+                  className="rounded border border-transparent px-2 py-1 text-xs text-white/60 transition hover:border-cyan hover:text-cyan"
+                >
+                  Defaults
+                </button>
+              )}
+              <span className="text-white/40">{result?.total ?? 0} matches</span>
+              <button
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page <= 1}
+                className="rounded border border-transparent px-2 py-1 text-xs text-white/60 transition hover:border-cyan hover:text-cyan disabled:opacity-30"
+              >
+                Newer
+              </button>
+              <span className="text-white/40">{page}/{pageCount}</span>
+              <button
+                onClick={() => setPage(p => Math.min(pageCount, p + 1))}
+                disabled={page >= pageCount}
+                className="rounded border border-transparent px-2 py-1 text-xs text-white/60 transition hover:border-cyan hover:text-cyan disabled:opacity-30"
+              >
+                Older
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <span className="text-white/40">{logs.length} entries</span>
+              <button 
+                onClick={clearLogs}
+                className="rounded border border-transparent px-2 py-1 text-xs text-white/60 transition hover:border-cyan hover:text-cyan"
+              >
+                Clear
+              </button>
+            </div>
+          )}
         </div>
 
+        {/* Query facets */}
+        {isLogs && result && (
+          <div className="flex flex-wrap items-center gap-1 border-b border-hairline px-4 py-1 text-[10px] text-white/50">
+            {Object.entries(result.facets.level).map(([level, count]) => (
+              <button
+                key={level}
+                onClick={() => addTerm(`level:${level.toLowerCase()}`)}
+                className="rounded border border-hairline px-2 py-0.5 transition hover:border-cyan hover:text-cyan"
+              >
+                {level} {count}
+              </button>
+            ))}
+            {Object.entries(result.facets.source).map(([source, count]) => (
+              <button
+                key={source}
+                onClick={() => addTerm(`source:${/\s/.test(source) ? `"${source}"` : source}`)}
+                className="rounded border border-hairline px-2 py-0.5 transition hover:border-cyan hover:text-cyan"
+              >
+                {source} {count}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Console Logs */}
         <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-hairline scrollbar-track-transparent font-mono text-xs text-white/80 px-4 py-2">
-          {logs.length === 0 ? (
+          {isLogs ? (
+            <LogQueryResults logs={result?.logs ?? []} error={error} />
+          ) : logs.length === 0 ? (
             <div className="flex items-center justify-center h-full text-white/40 text-sm">
               No logs yet. Start coding!
             </div>
@@ -113,7 +215,7 @@ export function BottomConsole() {
         {/* Command Input */}
         <div className="flex items-center gap-3 border-t border-hairline px-4 py-2">
           <span className="text-xs uppercase tracking-[0.2em] text-white/40">
-            {activeTerminal === "cmd" ? "C:\\>" : "PS>"}
+            {activeTerminal === "cmd" ? "C:\\>" : activeTerminal === "logs" ? "Query" : "PS>"}
           </span>
           <input
             ref={inputRef}
@@ -124,6 +226,8 @@ export function BottomConsole() {
             placeholder={
               activeTerminal === "cmd" 
                 ? "> dir /s /b *.log" 
+                : activeTerminal === "logs"
+                ? "level:>=warn source:file /timeout/i after:15m status>=500"
                 : "> Get-ChildItem -Recurse *.log"
             }
             className="w-full rounded border border-hairline bg-transparent px-3 py-1 text-sm text-white/80 outline-none transition focus:border-cyan"
@@ -132,10 +236,42 @@ export function BottomConsole() {
             onClick={handleSendCommand}
             className="rounded border border-cyan px-3 py-1 text-xs uppercase tracking-[0.16em] text-cyan transition hover:bg-cyan/10"
           >
-            Send
+            {isLogs ? "Run" : "Send"}
           </button>
         </div>
       </div>
     </footer>
   );
 }
+
+function LogQueryResults({ logs, error }: { logs: LogLine[]; error: string | null }) {
+  if (error) {
+    return <div className="text-danger">{error}</div>;
+  }
+  if (logs.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-white/40 text-sm">
+        No matching log entries
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {logs.map((log) => (
+        <div key={log.id} className="flex items-start gap-2">
+          <span className="text-white/30 shrink-0 w-16">{new Date(log.timestamp).toLocaleTimeString()}</span>
+          <span className="text-white/40 shrink-0 max-w-[10rem] truncate">{log.source}</span>
+          <span className={`text-xs ${
+            log.tag === "ERROR" ? "text-danger" :
+            log.tag === "WARN" ? "text-warn" :
+            log.tag === "DEBUG" ? "text-white/50" :
+            ""
+          }`}>
+            {log.message}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
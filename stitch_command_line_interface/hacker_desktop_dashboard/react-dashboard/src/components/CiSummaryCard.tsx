@@ -1,18 +1,44 @@
+import { useState } from "react";
 import { CiState } from "../types";
+import { backendApiService } from "../services/backendApiService";
 import { CardShell } from "./CardShell";
 
 type CiSummaryProps = {
   state: CiState;
 };
 
+// Backend runs report ISO timestamps; offline seed data is already formatted
+const formatRunTime = (value: string | null) =>
+  value === null ? "never" : Number.isNaN(Date.parse(value)) ? value : new Date(value).toLocaleTimeString();
+
 export function CiSummaryCard({ state }: CiSummaryProps) {
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const running = state.build.status === "running";
+
+  const runPipeline = async () => {
+    setStarting(true);
+    try {
+      await backendApiService.triggerCiRun();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to start pipeline");
+    } finally {
+      setStarting(false);
+    }
+  };
+
   return (
     <CardShell
       title="Build & Test"
       actions={
         <div className="flex items-center gap-2 text-xs">
-          <button className="rounded border border-hairline px-2 py-1 text-white/70 transition hover:border-cyan hover:text-cyan">
-            Run tests
+          <button
+            onClick={() => void runPipeline()}
+            disabled={starting || running}
+            className="rounded border border-hairline px-2 py-1 text-white/70 transition hover:border-cyan hover:text-cyan disabled:opacity-40"
+          >
+            {running ? "Running…" : "Run pipeline"}
           </button>
           <button className="rounded border border-hairline px-2 py-1 text-white/70 transition hover:border-cyan hover:text-cyan">
             Propose fix
@@ -26,13 +52,17 @@ export function CiSummaryCard({ state }: CiSummaryProps) {
           <p className="mt-2 text-2xl font-semibold text-white/90">
             {state.build.durationMs} ms
           </p>
-          <p className="text-xs text-white/50">Cache hit {state.build.cacheHitPct}%</p>
+          <p className="text-xs text-white/50">
+            {state.build.cacheHitPct === null ? "No build cache" : `Cache hit ${state.build.cacheHitPct}%`}
+          </p>
           <span
             className={`mt-3 inline-flex items-center rounded px-2 py-1 text-xs uppercase tracking-[0.16em] ${
               state.build.status === "pass"
                 ? "border border-ops-green text-ops-green"
                 : state.build.status === "running"
                 ? "border border-warn text-warn"
+                : state.build.status === "idle"
+                ? "border border-hairline text-white/50"
                 : "border border-danger text-danger"
             }`}
           >
@@ -46,11 +76,23 @@ export function CiSummaryCard({ state }: CiSummaryProps) {
             <div className="text-sm text-danger">{state.tests.fail} fail</div>
             <div className="text-sm text-warn">{state.tests.flaky} flaky</div>
           </div>
-          <p className="mt-2 text-xs text-white/50">Last run {state.tests.lastRunAt}</p>
+          <p className="mt-2 text-xs text-white/50">
+            Last run {formatRunTime(state.tests.lastRunAt)}
+          </p>
         </div>
         <div className="col-span-2 rounded border border-hairline/60 bg-ink/40 p-4 text-xs">
-          <p className="text-white/50">Timeline scrub to replay previous runs.</p>
-          <p className="mt-2 font-mono text-white/60">logs://{state.logsRef}</p>
+          {error ? (
+            <p className="text-danger">{error}</p>
+          ) : state.run ? (
+            <p className="text-white/50">
+              {state.run.pipeline} · {state.run.branch ?? "no branch"}
+              {state.run.commit && ` @ ${state.run.commit.slice(0, 8)}`} ·{" "}
+              {state.run.steps.filter((step) => step.status !== "pending").length}/{state.run.steps.length} steps
+            </p>
+          ) : (
+            <p className="text-white/50">No pipeline runs yet.</p>
+          )}
+          {state.logsRef && <p className="mt-2 font-mono text-white/60">logs://{state.logsRef}</p>}
         </div>
       </div>
     </CardShell>
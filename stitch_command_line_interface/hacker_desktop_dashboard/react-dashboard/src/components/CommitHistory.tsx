@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from "react";
+import { gitApiService, type GitCommitDetails, type GitGraphNode } from "../services/gitApiService";
+
+const ROW_HEIGHT = 28;
+const LANE_WIDTH = 12;
+const LANE_COLORS = ["#00e9ff", "#7ee787", "#f2cc60", "#ff7b72", "#d2a8ff", "#79c0ff"];
+
+export type GraphEdge = { d: string; lane: number };
+
+const x = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2;
+const y = (row: number) => row * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+/**
+ * SVG paths from each commit to its parents: into the parent's lane on the next row,
+ * straight down that lane, then across to wherever the parent was drawn.
+ * Parents outside the loaded page run off the bottom.
+ */
+export function graphEdges(nodes: GitGraphNode[]): GraphEdge[] {
+  const rowOf = new Map(nodes.map((node, row) => [node.hash, row]));
+  const edges: GraphEdge[] = [];
+
+  nodes.forEach((node, row) => {
+    node.parents.forEach((parent, i) => {
+      const lane = node.parentLanes[i];
+      const parentRow = rowOf.get(parent);
+      const end = parentRow ?? nodes.length;
+      const points = [`M${x(node.lane)},${y(row)}`, `L${x(lane)},${y(row + 1) - ROW_HEIGHT / 2}`];
+      if (parentRow === undefined) {
+        points.push(`L${x(lane)},${end * ROW_HEIGHT}`);
+      } else {
+        points.push(`L${x(lane)},${y(end - 1) + ROW_HEIGHT / 2}`, `L${x(nodes[parentRow].lane)},${y(end)}`);
+      }
+      edges.push({ d: points.join(" "), lane: i === 0 ? node.lane : lane });
+    });
+  });
+
+  return edges;
+}
+
+export function CommitHistory({ maxCount = 50 }: { maxCount?: number }) {
+  const [nodes, setNodes] = useState<GitGraphNode[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<GitCommitDetails | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setNodes(await gitApiService.getGraph(maxCount, true));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load history");
+    }
+  }, [maxCount]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const select = async (hash: string) => {
+    if (selected?.hash === hash) {
+      setSelected(null);
+      return;
+    }
+    try {
+      setSelected(await gitApiService.getCommit(hash));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load commit");
+    }
+  };
+
+  const lanes = Math.max(1, ...nodes.map((n) => Math.max(n.lane, ...n.parentLanes) + 1));
+  const graphWidth = lanes * LANE_WIDTH;
+
+  return (
+    <div className="text-xs">
+      <div className="flex items-center justify-end px-3 pb-1">
+        <button onClick={() => void load()} className="text-[10px] uppercase tracking-[0.18em] text-white/40 hover:text-cyan">
+          Refresh
+        </button>
+      </div>
+      {error && <p className="px-3 py-1 text-danger">{error}</p>}
+
+      <div className="relative" style={{ height: nodes.length * ROW_HEIGHT }}>
+        <svg className="pointer-events-none absolute left-2 top-0" width={graphWidth} height={nodes.length * ROW_HEIGHT}>
+          {graphEdges(nodes).map((edge, idx) => (
+            <path key={idx} d={edge.d} fill="none" stroke={LANE_COLORS[edge.lane % LANE_COLORS.length]} strokeWidth={1.5} />
+          ))}
+          {nodes.map((node, row) => (
+            <circle
+              key={node.hash}
+              cx={x(node.lane)}
+              cy={y(row)}
+              r={node.parents.length > 1 ? 3 : 4}
+              fill={node.refs.head ? "#fff" : LANE_COLORS[node.lane % LANE_COLORS.length]}
+            />
+          ))}
+        </svg>
+
+        {nodes.map((node) => (
+          <button
+            key={node.hash}
+            onClick={() => void select(node.hash)}
+            style={{ height: ROW_HEIGHT, paddingLeft: graphWidth + 16 }}
+            className={`flex w-full items-center gap-1 pr-3 text-left transition ${
+              selected?.hash === node.hash ? "bg-cyan/10 text-cyan" : "text-white/70 hover:bg-hairline"
+            }`}
+            title={`${node.hash.slice(0, 8)} · ${node.author} · ${new Date(node.date).toLocaleString()}`}
+          >
+            {node.refs.branches.map((branch) => (
+              <span key={branch} className="shrink-0 rounded bg-cyan/20 px-1 text-[10px] text-cyan">
+                {branch}
+              </span>
+            ))}
+            {node.refs.tags.map((tag) => (
+              <span key={tag} className="shrink-0 rounded bg-warn/20 px-1 text-[10px] text-warn">
+                {tag}
+              </span>
+            ))}
+            <span className="truncate">{node.message}</span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="mx-3 mt-2 space-y-1 rounded border border-hairline bg-ink/40 p-2">
+          <p className="text-white/80">{selected.message}</p>
+          {selected.body && <p className="whitespace-pre-wrap text-white/50">{selected.body}</p>}
+          <p className="text-white/40">
+            {selected.hash.slice(0, 8)} · {selected.author} · {new Date(selected.date).toLocaleString()}
+          </p>
+          <p className="text-white/50">
+            {selected.stats.files} file{selected.stats.files === 1 ? "" : "s"}{" "}
+            <span className="text-ops-green">+{selected.stats.additions}</span>{" "}
+            <span className="text-danger">−{selected.stats.deletions}</span>
+          </p>
+          <ul className="space-y-0.5">
+            {selected.files.map((file) => (
+              <li key={file.path} className="flex gap-2">
+                <span className="flex-1 truncate text-white/60" title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}>
+                  {file.path}
+                </span>
+                {file.binary ? (
+                  <span className="text-white/40">bin</span>
+                ) : (
+                  <>
+                    <span className="text-ops-green">+{file.additions}</span>
+                    <span className="text-danger">−{file.deletions}</span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
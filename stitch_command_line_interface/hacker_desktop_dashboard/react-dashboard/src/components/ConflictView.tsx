@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import {
+  gitApiService,
+  type GitConflictChoice,
+  type GitConflictFile,
+  type GitConflictRegion,
+} from "../services/gitApiService";
+
+type ConflictViewProps = {
+  path: string;
+  onClose: () => void;
+  /** Called once the file was resolved and staged */
+  onResolved?: () => void;
+};
+
+const CHOICE_LABELS: Record<GitConflictChoice, string> = {
+  ours: "Ours",
+  theirs: "Theirs",
+  both: "Both",
+  base: "Base",
+};
+
+/**
+ * Lines a region resolves to for a choice
+ */
+export function regionResult(region: GitConflictRegion, choice: GitConflictChoice): string[] {
+  if (choice === "both") return [...region.ours, ...region.theirs];
+  return region[choice] ?? [];
+}
+
+function Pane({ title, lines, tone, active }: { title: string; lines?: string[]; tone: string; active: boolean }) {
+  return (
+    <div className={`min-w-0 flex-1 rounded border ${active ? "border-cyan" : "border-hairline/60"}`}>
+      <div className={`border-b border-hairline/60 px-2 py-1 text-[10px] uppercase tracking-[0.2em] ${tone}`}>{title}</div>
+      <pre className="overflow-x-auto px-2 py-1 font-mono text-[11px] leading-5 text-white/70">
+        {lines === undefined ? <span className="text-white/30">not available</span> : lines.length ? lines.join("\n") : <span className="text-white/30">(empty)</span>}
+      </pre>
+    </div>
+  );
+}
+
+export function ConflictView({ path, onClose, onResolved }: ConflictViewProps) {
+  const [conflict, setConflict] = useState<GitConflictFile | null>(null);
+  const [choices, setChoices] = useState<Array<GitConflictChoice | undefined>>([]);
+  const [manual, setManual] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setConflict(null);
+    setManual(null);
+    gitApiService
+      .getConflict(path)
+      .then((file) => {
+        if (cancelled) return;
+        setConflict(file);
+        setChoices(file.regions.map(() => undefined));
+        setError(null);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load conflict");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  const resolve = async (resolution: Parameters<typeof gitApiService.resolveConflict>[1]) => {
+    setBusy(true);
+    try {
+      await gitApiService.resolveConflict(path, resolution);
+      onResolved?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to resolve conflict");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const allChosen = choices.length > 0 && choices.every(Boolean);
+
+  return (
+    <div className="flex h-full flex-col bg-ink">
+      <div className="flex items-center justify-between border-b border-hairline px-4 py-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm text-white/80">{path}</p>
+          <p className="text-[10px] uppercase tracking-[0.2em] text-danger">
+            {conflict ? `${conflict.regions.length} conflict${conflict.regions.length === 1 ? "" : "s"}` : "Merge conflict"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setManual(manual === null ? conflict?.content ?? "" : null)}
+            disabled={!conflict}
+            className="rounded border border-hairline px-3 py-1 text-xs uppercase tracking-[0.18em] text-white/60 transition hover:border-cyan hover:text-cyan disabled:opacity-30"
+          >
+            {manual === null ? "Edit manually" : "Pick regions"}
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded border border-hairline px-3 py-1 text-xs uppercase tracking-[0.18em] text-white/60 transition hover:border-cyan hover:text-cyan"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="border-b border-hairline px-4 py-2 text-xs text-danger">{error}</p>}
+
+      <div className="flex-1 space-y-4 overflow-auto p-4 scrollbar-thin">
+        {!conflict ? (
+          !error && <p className="text-center text-sm text-white/40">Loading conflict…</p>
+        ) : manual !== null ? (
+          <textarea
+            value={manual}
+            onChange={(e) => setManual(e.target.value)}
+            spellCheck={false}
+            className="h-full min-h-[24rem] w-full resize-none rounded border border-hairline bg-transparent p-3 font-mono text-[12px] leading-5 text-white/80 outline-none focus:border-cyan"
+          />
+        ) : conflict.regions.length === 0 ? (
+          // Modify/delete conflicts have no markers; pick a whole side
+          <div className="space-y-3 text-sm text-white/60">
+            <p>This file has no conflict markers (one side deleted or renamed it). Keep one version:</p>
+            <div className="flex gap-3">
+              <Pane title="Ours" lines={conflict.ours?.split("\n")} tone="text-cyan" active={false} />
+              <Pane title="Theirs" lines={conflict.theirs?.split("\n")} tone="text-warn" active={false} />
+            </div>
+            <div className="flex gap-2">
+              {conflict.ours !== null && (
+                <button disabled={busy} onClick={() => void resolve({ content: conflict.ours! })} className="rounded border border-cyan px-3 py-1 text-xs text-cyan hover:bg-cyan/10 disabled:opacity-30">
+                  Keep ours
+                </button>
+              )}
+              {conflict.theirs !== null && (
+                <button disabled={busy} onClick={() => void resolve({ content: conflict.theirs! })} className="rounded border border-warn px-3 py-1 text-xs text-warn hover:bg-warn/10 disabled:opacity-30">
+                  Keep theirs
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          conflict.regions.map((region) => {
+            const choice = choices[region.index];
+            return (
+              <div key={region.index} className="space-y-2">
+                <div className="flex items-center gap-2 text-xs text-white/50">
+                  <span className="flex-1">
+                    Conflict {region.index + 1} · line {region.startLine}
+                  </span>
+                  {(Object.keys(CHOICE_LABELS) as GitConflictChoice[])
+                    .filter((c) => c !== "base" || region.base)
+                    .map((c) => (
+                      <button
+                        key={c}
+                        onClick={() => setChoices((current) => current.map((v, i) => (i === region.index ? c : v)))}
+                        className={`rounded border px-2 py-0.5 transition ${
+                          choice === c ? "border-cyan bg-cyan/10 text-cyan" : "border-hairline text-white/60 hover:border-cyan hover:text-cyan"
+                        }`}
+                      >
+                        {CHOICE_LABELS[c]}
+                      </button>
+                    ))}
+                </div>
+                <div className="flex gap-3">
+                  <Pane title={`Ours ${region.oursLabel}`} lines={region.ours} tone="text-cyan" active={choice === "ours" || choice === "both"} />
+                  {region.base && <Pane title={`Base ${region.baseLabel ?? ""}`} lines={region.base} tone="text-white/50" active={choice === "base"} />}
+                  <Pane title={`Theirs ${region.theirsLabel}`} lines={region.theirs} tone="text-warn" active={choice === "theirs" || choice === "both"} />
+                </div>
+                {choice && (
+                  <Pane title="Result" lines={regionResult(region, choice)} tone="text-ops-green" active={false} />
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {conflict && (manual !== null || conflict.regions.length > 0) && (
+        <div className="flex items-center justify-end gap-3 border-t border-hairline px-4 py-3">
+          {manual === null && !allChosen && <span className="text-xs text-white/40">Choose a side for every conflict</span>}
+          <button
+            disabled={busy || (manual === null && !allChosen)}
+            onClick={() =>
+              void resolve(manual !== null ? { content: manual } : { choices: choices as GitConflictChoice[] })
+            }
+            className="rounded border border-cyan px-4 py-2 text-xs uppercase tracking-[0.18em] text-cyan transition hover:bg-cyan/10 disabled:opacity-30"
+          >
+            Resolve &amp; stage
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+/**
+ * Debug Panel
+ * Step controls, call stack, variables tree, watches and debug console for the LiveIDE debugger
+ */
+
+import React, { useState } from 'react';
+
+export interface DebugScope {
+  type: string;
+  name?: string;
+  objectId?: string;
+}
+
+export interface DebugFrame {
+  id: string;
+  file: string;
+  line: number;
+  column: number;
+  function: string;
+  scopes: DebugScope[];
+}
+
+export interface DebugVariable {
+  name: string;
+  value: string;
+  type: string;
+  /** Present when the value can be expanded */
+  objectId?: string;
+  /** Element count of arrays, maps and sets */
+  size?: number;
+}
+
+export interface DebugVariablePage {
+  variables: DebugVariable[];
+  start: number;
+  total: number;
+}
+
+export interface DebugState {
+  running: boolean;
+  paused: boolean;
+  reason?: string;
+  currentFile?: string;
+  currentLine?: number;
+  callStack: DebugFrame[];
+  selectedFrame: number;
+  /** First page of the selected frame's innermost scope */
+  variables: DebugVariable[];
+}
+
+export interface DebugBreakpoint {
+  id: string;
+  file: string;
+  line: number;
+  enabled: boolean;
+  condition?: string;
+}
+
+export interface DebugWatch {
+  id: string;
+  expression: string;
+  value?: string;
+  type?: string;
+  objectId?: string;
+  error?: string;
+}
+
+export type DebugAction = 'continue' | 'stepOver' | 'stepInto' | 'stepOut' | 'pause';
+
+export interface DebugConsoleEntry {
+  kind: 'input' | 'result' | 'error' | 'stdout' | 'stderr' | 'info';
+  text: string;
+}
+
+export const IDLE_DEBUG_STATE: DebugState = {
+  running: false,
+  paused: false,
+  callStack: [],
+  selectedFrame: 0,
+  variables: [],
+};
+
+/**
+ * One-line preview of a value returned to the debug console
+ */
+export function formatDebugValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (typeof value === 'object') {
+    const keys = Object.keys(value as object);
+    return keys.length ? `{${keys.slice(0, 3).join(', ')}${keys.length > 3 ? ', …' : ''}}` : '{}';
+  }
+  return String(value);
+}
+
+/**
+ * Glyph-margin marks for the breakpoints in a file plus the paused line
+ */
+export function debugDecorations(breakpoints: DebugBreakpoint[], file: string | null, pausedLine?: number) {
+  const range = (line: number) => ({ startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 });
+  const marks: Array<{
+    range: ReturnType<typeof range>;
+    options: { glyphMarginClassName: string; glyphMarginHoverMessage?: { value: string }; isWholeLine?: boolean; className?: string };
+  }> = breakpoints
+    .filter(bp => bp.file === file)
+    .map(bp => ({
+      range: range(bp.line),
+      options: {
+        glyphMarginClassName: bp.enabled ? 'debug-breakpoint' : 'debug-breakpoint-disabled',
+        glyphMarginHoverMessage: { value: bp.condition ? `Breakpoint when \`${bp.condition}\`` : 'Breakpoint' },
+      },
+    }));
+  if (pausedLine) {
+    marks.push({
+      range: range(pausedLine),
+      options: { isWholeLine: true, className: 'debug-current-line', glyphMarginClassName: 'debug-current-frame' },
+    });
+  }
+  return marks;
+}
+
+type LoadVariables = (objectId: string, start: number) => Promise<DebugVariablePage>;
+
+/**
+ * One row of the variables tree; children are fetched on first expand and paged after that
+ */
+function VariableNode({
+  variable,
+  loadVariables,
+  depth = 0,
+  initialChildren,
+}: {
+  variable: DebugVariable;
+  loadVariables: LoadVariables;
+  depth?: number;
+  /** Already-loaded first page; the node starts expanded */
+  initialChildren?: DebugVariable[];
+}) {
+  const [expanded, setExpanded] = useState(!!initialChildren);
+  const [children, setChildren] = useState<DebugVariable[] | null>(initialChildren ?? null);
+  const [total, setTotal] = useState(initialChildren?.length ?? 0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const expandable = !!variable.objectId;
+
+  const loadPage = async (start: number) => {
+    if (!variable.objectId) return;
+    setLoading(true);
+    try {
+      const page = await loadVariables(variable.objectId, start);
+      setChildren(prev => [...(start > 0 && prev ? prev : []), ...page.variables]);
+      setTotal(page.total);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!expandable) return;
+    if (!expanded && children === null) loadPage(0);
+    setExpanded(e => !e);
+  };
+
+  return (
+    <div style={{ paddingLeft: `${depth * 12}px` }}>
+      <div
+        className={`flex gap-1 font-mono ${expandable ? 'cursor-pointer hover:bg-gray-700' : ''}`}
+        onClick={toggle}
+      >
+        <span className="w-3 text-gray-500">{expandable ? (expanded ? '▾' : '▸') : ''}</span>
+        <span className={variable.type === 'scope' ? 'text-gray-400' : 'text-purple-300'}>{variable.name}</span>
+        {variable.value && <span className="text-gray-500">:</span>}
+        <span className="truncate text-gray-200">{variable.value}</span>
+      </div>
+      {expanded && (
+        <>
+          {children?.map((child, index) => (
+            <VariableNode key={`${index}-${child.name}`} variable={child} loadVariables={loadVariables} depth={depth + 1} />
+          ))}
+          {loading && <div className="text-gray-500" style={{ paddingLeft: `${(depth + 1) * 12 + 16}px` }}>Loading…</div>}
+          {error && <div className="text-red-400" style={{ paddingLeft: `${(depth + 1) * 12 + 16}px` }}>{error}</div>}
+          {!loading && children && children.length < total && (
+            <button
+              onClick={() => loadPage(children.length)}
+              className="text-blue-400 hover:underline"
+              style={{ paddingLeft: `${(depth + 1) * 12 + 16}px` }}
+            >
+              Show more ({total - children.length} remaining)
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface DebugPanelProps {
+  state: DebugState;
+  breakpoints: DebugBreakpoint[];
+  watches: DebugWatch[];
+  consoleEntries: DebugConsoleEntry[];
+  /** Whether the open file can be launched under the debugger */
+  canStart: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onStep: (action: DebugAction) => void;
+  onToggleBreakpoint: (id: string) => void;
+  onRemoveBreakpoint: (id: string) => void;
+  onAddWatch: (expression: string) => void;
+  onRemoveWatch: (id: string) => void;
+  onEvaluate: (expression: string) => void;
+  onSelectFrame: (index: number) => void;
+  loadVariables: LoadVariables;
+}
+
+const CONSOLE_COLORS: Record<DebugConsoleEntry['kind'], string> = {
+  input: 'text-blue-300',
+  result: 'text-gray-100',
+  error: 'text-red-400',
+  stdout: 'text-green-400',
+  stderr: 'text-yellow-400',
+  info: 'text-gray-500',
+};
+
+export const DebugPanel: React.FC<DebugPanelProps> = ({
+  state,
+  breakpoints,
+  watches,
+  consoleEntries,
+  canStart,
+  onStart,
+  onStop,
+  onStep,
+  onToggleBreakpoint,
+  onRemoveBreakpoint,
+  onAddWatch,
+  onRemoveWatch,
+  onEvaluate,
+  onSelectFrame,
+  loadVariables,
+}) => {
+  const [watchInput, setWatchInput] = useState('');
+  const [consoleInput, setConsoleInput] = useState('');
+
+  const stepButton = (action: DebugAction, label: string, title: string, enabled: boolean) => (
+    <button
+      key={action}
+      onClick={() => onStep(action)}
+      disabled={!enabled}
+      title={title}
+      className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+    >
+      {label}
+    </button>
+  );
+
+  const frame = state.callStack[state.selectedFrame];
+  // objectIds are only valid for one pause, so the trees remount whenever the frame changes
+  const pauseKey = `${state.callStack[0]?.id}-${state.selectedFrame}`;
+
+  const status = !state.running ? 'Not running' : state.paused ? `Paused${state.reason ? ` (${state.reason})` : ''}` : 'Running';
+
+  return (
+    <div className="h-72 bg-gray-900 border-t border-gray-700 flex flex-col text-xs">
+      {/* Controls */}
+      <div className="bg-gray-800 border-b border-gray-700 px-3 py-1 flex items-center gap-2">
+        {state.running ? (
+          <button onClick={onStop} className="px-2 py-1 bg-red-700 hover:bg-red-600 rounded text-xs" title="Stop debugging">
+            ⏹ Stop
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={!canStart}
+            className="px-2 py-1 bg-green-700 hover:bg-green-600 rounded text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Launch the open file under the debugger"
+          >
+            🐞 Start
+          </button>
+        )}
+        {stepButton('continue', '▶ Continue', 'Continue', state.paused)}
+        {stepButton('pause', '⏸ Pause', 'Pause', state.running && !state.paused)}
+        {stepButton('stepOver', '↷ Over', 'Step over', state.paused)}
+        {stepButton('stepInto', '↓ Into', 'Step into', state.paused)}
+        {stepButton('stepOut', '↑ Out', 'Step out', state.paused)}
+        <span className="ml-auto text-gray-400">{status}</span>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Call stack, variables and watches */}
+        <div className="w-1/2 border-r border-gray-700 overflow-auto p-2 space-y-3">
+          <section>
+            <h3 className="text-gray-400 uppercase tracking-wider mb-1">Call Stack</h3>
+            {state.callStack.length === 0 && <div className="text-gray-600">—</div>}
+            {state.callStack.map((frame, index) => (
+              <div
+                key={`${index}-${frame.file}:${frame.line}`}
+                className={`flex justify-between px-1 cursor-pointer hover:bg-gray-700 ${
+                  index === state.selectedFrame ? 'bg-gray-700 text-yellow-300' : 'text-gray-300'
+                }`}
+                onClick={() => onSelectFrame(index)}
+              >
+                <span className="font-mono">{frame.function}</span>
+                <span className="text-gray-500 truncate ml-2">{frame.file}:{frame.line}</span>
+              </div>
+            ))}
+          </section>
+
+          <section>
+            <h3 className="text-gray-400 uppercase tracking-wider mb-1">Variables</h3>
+            {!frame && <div className="text-gray-600">—</div>}
+            <div key={pauseKey}>
+              {frame?.scopes.map((scope, index) => (
+                <VariableNode
+                  key={`${scope.type}-${index}`}
+                  variable={{ name: scope.name ? `${scope.type}: ${scope.name}` : scope.type, value: '', type: 'scope', objectId: scope.objectId }}
+                  loadVariables={loadVariables}
+                  initialChildren={index === 0 ? state.variables : undefined}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-gray-400 uppercase tracking-wider mb-1">Watch</h3>
+            {watches.map(watch => (
+              <div key={`${pauseKey}-${watch.id}-${watch.objectId}`} className="flex items-start gap-1 group">
+                <div className="flex-1 min-w-0">
+                  {watch.error || !state.paused ? (
+                    <div className="flex gap-1 font-mono pl-4">
+                      <span className="text-purple-300">{watch.expression}</span>
+                      <span className="text-gray-500">:</span>
+                      <span className={`truncate ${watch.error ? 'text-red-400' : 'text-gray-500'}`}>{watch.error ?? 'not available'}</span>
+                    </div>
+                  ) : (
+                    <VariableNode
+                      variable={{ name: watch.expression, value: watch.value ?? '', type: watch.type ?? 'undefined', objectId: watch.objectId }}
+                      loadVariables={loadVariables}
+                    />
+                  )}
+                </div>
+                <button
+                  onClick={() => onRemoveWatch(watch.id)}
+                  className="ml-auto text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  title="Remove watch"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (!watchInput.trim()) return;
+                onAddWatch(watchInput.trim());
+                setWatchInput('');
+              }}
+            >
+              <input
+                value={watchInput}
+                onChange={(e) => setWatchInput(e.target.value)}
+                placeholder="Add expression…"
+                className="w-full mt-1 px-2 py-0.5 bg-gray-800 border border-gray-700 rounded font-mono"
+              />
+            </form>
+          </section>
+
+          <section>
+            <h3 className="text-gray-400 uppercase tracking-wider mb-1">Breakpoints</h3>
+            {breakpoints.length === 0 && <div className="text-gray-600">Click the gutter to add one</div>}
+            {breakpoints.map(bp => (
+              <div key={bp.id} className="flex items-center gap-2">
+                <input type="checkbox" checked={bp.enabled} onChange={() => onToggleBreakpoint(bp.id)} />
+                <span className="font-mono truncate">{bp.file}:{bp.line}</span>
+                {bp.condition && <span className="text-gray-500 truncate">if {bp.condition}</span>}
+                <button
+                  onClick={() => onRemoveBreakpoint(bp.id)}
+                  className="ml-auto text-gray-500 hover:text-red-400"
+                  title="Remove breakpoint"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </section>
+        </div>
+
+        {/* Debug console */}
+        <div className="w-1/2 flex flex-col">
+          <div className="flex-1 overflow-auto p-2 font-mono space-y-0.5">
+            {consoleEntries.map((entry, index) => (
+              <div key={index} className={`whitespace-pre-wrap ${CONSOLE_COLORS[entry.kind]}`}>
+                {entry.kind === 'input' ? `› ${entry.text}` : entry.text}
+              </div>
+            ))}
+          </div>
+          <form
+            className="border-t border-gray-700"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!consoleInput.trim()) return;
+              onEvaluate(consoleInput.trim());
+              setConsoleInput('');
+            }}
+          >
+            <input
+              value={consoleInput}
+              onChange={(e) => setConsoleInput(e.target.value)}
+              disabled={!state.paused}
+              placeholder={state.paused ? 'Evaluate expression…' : 'Pause to evaluate expressions'}
+              className="w-full px-2 py-1 bg-gray-900 font-mono outline-none disabled:opacity-50"
+            />
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DebugPanel;
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  gitApiService,
+  type GitDiffHunk,
+  type GitDiffLine,
+  type GitHunkAction,
+  type GitParsedDiffFile,
+} from "../services/gitApiService";
+
+type Side = { index: number; line: GitDiffLine } | null;
+
+export type SideBySideRow = { left: Side; right: Side };
+
+/**
+ * Pair a hunk's lines into old/new columns; runs of deletions line up with the additions that follow them
+ */
+export function toSideBySide(hunk: GitDiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let dels: Side[] = [];
+  let adds: Side[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(dels.length, adds.length); i++) {
+      rows.push({ left: dels[i] ?? null, right: adds[i] ?? null });
+    }
+    dels = [];
+    adds = [];
+  };
+
+  hunk.lines.forEach((line, index) => {
+    if (line.type === "del") {
+      if (adds.length) flush();
+      dels.push({ index, line });
+    } else if (line.type === "add") {
+      adds.push({ index, line });
+    } else {
+      flush();
+      rows.push({ left: { index, line }, right: { index, line } });
+    }
+  });
+  flush();
+
+  return rows;
+}
+
+type DiffViewerProps = {
+  path: string;
+  staged: boolean;
+  onClose: () => void;
+  /** Called after hunks were staged, unstaged or discarded */
+  onChanged?: () => void;
+};
+
+export function DiffViewer({ path, staged, onClose, onChanged }: DiffViewerProps) {
+  const [file, setFile] = useState<GitParsedDiffFile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [selection, setSelection] = useState<Record<number, number[]>>({});
+
+  const load = useCallback(async () => {
+    try {
+      const [diff] = await gitApiService.getParsedDiff(staged, path);
+      setFile(diff ?? null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load diff");
+    } finally {
+      setLoading(false);
+    }
+  }, [path, staged]);
+
+  useEffect(() => {
+    setLoading(true);
+    setSelection({});
+    void load();
+  }, [load]);
+
+  const toggleLine = (hunkIndex: number, lineIndex: number) => {
+    setSelection((current) => {
+      const lines = current[hunkIndex] ?? [];
+      const next = lines.includes(lineIndex) ? lines.filter((l) => l !== lineIndex) : [...lines, lineIndex];
+      return { ...current, [hunkIndex]: next };
+    });
+  };
+
+  const apply = async (action: GitHunkAction, hunkIndex: number) => {
+    if (!file) return;
+    const lines = selection[hunkIndex];
+    if (action === "discard" && !window.confirm(`Discard ${lines?.length ? "selected lines" : "this hunk"} in ${path}?`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      await gitApiService.applyHunks(action, path, [
+        { index: hunkIndex, header: file.hunks[hunkIndex].header, ...(lines?.length ? { lines } : {}) },
+      ]);
+      setSelection({});
+      onChanged?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `Failed to ${action} changes`);
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  };
+
+  const renderCell = (side: Side, hunkIndex: number, column: "old" | "new") => {
+    if (!side) return <td colSpan={2} className="bg-white/[0.02]" />;
+    const { index, line } = side;
+    const changed = line.type !== "context";
+    const picked = selection[hunkIndex]?.includes(index);
+    const tone =
+      line.type === "add" ? "bg-ops-green/10 text-ops-green" : line.type === "del" ? "bg-danger/10 text-danger" : "text-white/60";
+
+    return (
+      <>
+        <td className="w-12 select-none border-r border-hairline/40 pr-2 text-right text-white/30">
+          {column === "old" ? line.oldLine : line.newLine}
+        </td>
+        <td
+          onClick={changed ? () => toggleLine(hunkIndex, index) : undefined}
+          className={`whitespace-pre-wrap break-all px-2 ${tone} ${changed ? "cursor-pointer" : ""} ${picked ? "outline outline-1 outline-cyan" : ""}`}
+          title={changed ? "Click to select this line" : undefined}
+        >
+          {line.content || " "}
+          {line.noNewline && <span className="ml-2 text-white/30">⏎̸</span>}
+        </td>
+      </>
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-ink">
+      <div className="flex items-center justify-between border-b border-hairline px-4 py-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm text-white/80">{path}</p>
+          <p className="text-[10px] uppercase tracking-[0.2em] text-white/40">
+            {staged ? "Staged (HEAD ↔ index)" : "Working tree (index ↔ disk)"}
+            {file && (
+              <span className="ml-2 normal-case tracking-normal">
+                <span className="text-ops-green">+{file.additions}</span> <span className="text-danger">−{file.deletions}</span>
+              </span>
+            )}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded border border-hairline px-3 py-1 text-xs uppercase tracking-[0.18em] text-white/60 transition hover:border-cyan hover:text-cyan"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && <p className="border-b border-hairline px-4 py-2 text-xs text-danger">{error}</p>}
+
+      <div className="flex-1 overflow-auto scrollbar-thin">
+        {loading ? (
+          <p className="p-6 text-center text-sm text-white/40">Loading diff…</p>
+        ) : !file || file.hunks.length === 0 ? (
+          <p className="p-6 text-center text-sm text-white/40">
+            {file?.binary ? "Binary file changed" : "No changes"}
+          </p>
+        ) : (
+          file.hunks.map((hunk, hunkIndex) => {
+            const picked = selection[hunkIndex]?.length ?? 0;
+            const scope = picked ? `${picked} line${picked === 1 ? "" : "s"}` : "hunk";
+            return (
+              <div key={hunk.header + hunkIndex} className="border-b border-hairline/60">
+                <div className="flex items-center gap-2 bg-cyan/5 px-4 py-1 font-mono text-[11px] text-cyan">
+                  <span className="flex-1 truncate">
+                    {hunk.header}
+                  </span>
+                  <button
+                    disabled={busy}
+                    onClick={() => void apply(staged ? "unstage" : "stage", hunkIndex)}
+                    className="rounded border border-cyan/60 px-2 text-[10px] uppercase tracking-[0.18em] transition hover:bg-cyan/10 disabled:opacity-30"
+                  >
+                    {staged ? "Unstage" : "Stage"} {scope}
+                  </button>
+                  {!staged && (
+                    <button
+                      disabled={busy}
+                      onClick={() => void apply("discard", hunkIndex)}
+                      className="rounded border border-danger/60 px-2 text-[10px] uppercase tracking-[0.18em] text-danger transition hover:bg-danger/10 disabled:opacity-30"
+                    >
+                      Discard {scope}
+                    </button>
+                  )}
+                </div>
+                <table className="w-full table-fixed font-mono text-[11px] leading-5">
+                  <colgroup>
+                    <col className="w-12" />
+                    <col />
+                    <col className="w-12" />
+                    <col />
+                  </colgroup>
+                  <tbody>
+                    {toSideBySide(hunk).map((row, idx) => (
+                      <tr key={idx}>
+                        {renderCell(row.left, hunkIndex, "old")}
+                        {renderCell(row.right, hunkIndex, "new")}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
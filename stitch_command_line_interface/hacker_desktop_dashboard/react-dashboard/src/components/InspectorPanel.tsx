@@ -1,10 +1,14 @@
+import type { GitParsedDiffFile } from "../services/gitApiService";
+
 type InspectorProps = {
   title: string;
   summary: string;
   details: string[];
+  /** Parsed diff from the git API; replaces `details` in the Diff Summary when given */
+  diff?: GitParsedDiffFile[];
 };
 
-export function InspectorPanel({ title, summary, details }: InspectorProps) {
+export function InspectorPanel({ title, summary, details, diff }: InspectorProps) {
   return (
     <aside className="flex w-96 flex-col border-l border-hairline bg-panel/70 backdrop-blur">
       <div className="border-b border-hairline px-4 py-3">
@@ -16,11 +20,31 @@ export function InspectorPanel({ title, summary, details }: InspectorProps) {
         <div>
           <h4 className="text-xs uppercase tracking-[0.2em] text-white/50">Diff Summary</h4>
           <ul className="mt-2 space-y-2 text-xs">
-            {details.map((item, idx) => (
-              <li key={idx} className="rounded border border-hairline/50 bg-ink/40 px-3 py-2">
-                {item}
-              </li>
-            ))}
+            {diff
+              ? diff.map((file) => (
+                  <li key={file.path} className="flex items-center gap-2 rounded border border-hairline/50 bg-ink/40 px-3 py-2">
+                    <span className="flex-1 truncate" title={file.oldPath !== file.path ? `${file.oldPath} → ${file.path}` : file.path}>
+                      {file.path}
+                    </span>
+                    {file.binary ? (
+                      <span className="text-white/40">binary</span>
+                    ) : (
+                      <>
+                        <span className="text-ops-green">+{file.additions}</span>
+                        <span className="text-danger">−{file.deletions}</span>
+                        <span className="text-white/40">
+                          {file.hunks.length} hunk{file.hunks.length === 1 ? "" : "s"}
+                        </span>
+                      </>
+                    )}
+                  </li>
+                ))
+              : details.map((item, idx) => (
+                  <li key={idx} className="rounded border border-hairline/50 bg-ink/40 px-3 py-2">
+                    {item}
+                  </li>
+                ))}
+            {diff?.length === 0 && <li className="text-white/40">No changes</li>}
           </ul>
         </div>
         <div>
@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { CommitHistory } from './CommitHistory';
 import { 
   FolderOpen, 
   GitBranch, 
+  GitCommit,
   History, 
   CheckSquare,
   ChevronRight,
@@ -123,6 +125,7 @@ export function LeftDock({ onOpenSettings }: { onOpenSettings?: () => void }) {
   const location = useLocation();
   const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [showCommits, setShowCommits] = useState(false);
   const [savedViews] = useState<SavedView[]>([
     { id: 'view1', name: 'Debug Layout', icon: 'star' },
     { id: 'view2', name: 'Full Editor', icon: 'folder' }
@@ -262,6 +265,23 @@ export function LeftDock({ onOpenSettings }: { onOpenSettings?: () => void }) {
     return null;
         })}
 
+        {/* Commit History */}
+        {!isCollapsed && (
+          <div className="mt-1">
+            <button
+              onClick={() => setShowCommits(prev => !prev)}
+              className="w-full flex items-center gap-3 px-3 py-2.5 text-white/70 hover:bg-hairline hover:text-white border-l-2 border-transparent transition-all duration-150"
+              aria-expanded={showCommits}
+              aria-label="Commit graph and details"
+            >
+              <GitCommit className="w-5 h-5 flex-shrink-0" />
+              <span className="text-sm font-medium flex-1 text-left">Commit History</span>
+              <ChevronDown className={`w-4 h-4 transition-transform ${showCommits ? '' : '-rotate-90'}`} />
+            </button>
+            {showCommits && <CommitHistory />}
+          </div>
+        )}
+
         {/* Divider */}
         <div className="my-2 mx-3 border-t border-hairline" />
 
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import Editor from '@monaco-editor/react';
 import { useConsole } from '../contexts/ConsoleContext';
+import { executionApiService, formatDiagnostic } from '../services/executionApiService';
 import { 
   Play, 
   Save, 
@@ -210,12 +211,30 @@ const [isFullscreen, setIsFullscreen] = useState(false);
  } catch (error) {
    addLog('ERROR', `Failed to refresh preview: ${error}`, 'Editor');
       }
-    } else if (language === 'javascript' || language === 'typescript') {
-      addLog('INFO', 'JavaScript execution requires backend', 'Editor');
     }
     setPreviewKey(prev => prev + 1);
   };
 
+  // JavaScript and TypeScript run in the backend sandbox; TypeScript is type-checked as well
+  const executeScript = async () => {
+    try {
+      const result = await executionApiService.execute({ code, language, typeCheck: language === 'typescript' });
+      for (const diagnostic of result.diagnostics || []) {
+        addLog(diagnostic.category === 'error' ? 'ERROR' : 'WARN', formatDiagnostic(diagnostic), 'TypeScript');
+      }
+      for (const line of result.output.split('\n').filter(Boolean)) {
+        addLog('INFO', line, 'Sandbox');
+      }
+      if (result.error) {
+        addLog('ERROR', result.error, 'Sandbox');
+      } else {
+        addLog('SUCCESS', `Finished in ${result.runtime}ms`, 'Sandbox');
+      }
+    } catch (error) {
+      addLog('ERROR', `Execution failed: ${error instanceof Error ? error.message : error}`, 'Editor');
+    }
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -253,7 +272,11 @@ const url = URL.createObjectURL(blob);
 
   const handleRun = () => {
     addLog('INFO', 'Running code...', 'Editor');
-    refreshPreview();
+    if (language === 'javascript' || language === 'typescript') {
+      executeScript();
+    } else {
+      refreshPreview();
+    }
   };
 
   // Listen for console messages from iframe
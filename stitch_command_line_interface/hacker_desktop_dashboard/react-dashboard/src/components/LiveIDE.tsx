@@ -3,9 +3,27 @@
  * A fully functional code editor with execution, file management, and AI assistance
  */
 
-import React, { useState, useEffect, useRef } from 'react';
-import Editor from '@monaco-editor/react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import Editor, { type OnMount } from '@monaco-editor/react';
 import { io, Socket } from 'socket.io-client';
+import { gitApiService, type GitBlameLine } from '../services/gitApiService';
+import { backendApiService } from '../services/backendApiService';
+import { formatDiagnostic, type TypeScriptDiagnostic } from '../services/executionApiService';
+import type { FileLineCoverage } from '../types';
+import {
+  DebugPanel,
+  debugDecorations,
+  formatDebugValue,
+  IDLE_DEBUG_STATE,
+  type DebugAction,
+  type DebugBreakpoint,
+  type DebugConsoleEntry,
+  type DebugState,
+  type DebugVariablePage,
+  type DebugWatch,
+} from './DebugPanel';
+
+type MonacoEditor = Parameters<OnMount>[0];
 
 interface FileNode {
   name: string;
@@ -14,18 +32,73 @@ interface FileNode {
   children?: FileNode[];
 }
 
+/**
+ * Short "author, 3 days ago • summary" label for inline blame
+ */
+export function formatBlameAnnotation(entry: GitBlameLine, now: number = Date.now()): string {
+  if (entry.uncommitted) return 'You • Uncommitted changes';
+
+  const minutes = Math.floor((now - new Date(entry.date).getTime()) / 60000);
+  const age =
+    minutes < 60 ? `${Math.max(minutes, 1)} min ago`
+    : minutes < 60 * 24 ? `${Math.floor(minutes / 60)} h ago`
+    : minutes < 60 * 24 * 30 ? `${Math.floor(minutes / (60 * 24))} d ago`
+    : minutes < 60 * 24 * 365 ? `${Math.floor(minutes / (60 * 24 * 30))} mo ago`
+    : `${Math.floor(minutes / (60 * 24 * 365))} yr ago`;
+
+  return `${entry.author}, ${age} • ${entry.summary}`;
+}
+
+/**
+ * Gutter marks for covered and uncovered lines; Monaco moves them along with edits
+ */
+export function coverageDecorations(coverage: Pick<FileLineCoverage, 'covered' | 'uncovered'>) {
+  const mark = (line: number, covered: boolean) => ({
+    range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+    options: {
+      isWholeLine: true,
+      linesDecorationsClassName: covered ? 'coverage-line-covered' : 'coverage-line-uncovered',
+    },
+  });
+  return [...coverage.covered.map(line => mark(line, true)), ...coverage.uncovered.map(line => mark(line, false))];
+}
+
 interface ExecutionResult {
   id: string;
+  language: string;
+  sandbox: 'isolate' | 'container';
   status: string;
   output: string;
   error?: string;
+  exitCode: number;
   runtime: number;
+  diagnostics?: TypeScriptDiagnostic[];
+}
+
+interface ExecutionOutputChunk {
+  id: string;
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
+/** A run of terminal text; program stderr and echoed stdin are styled apart from the rest */
+interface OutputSegment {
+  text: string;
+  stream: 'log' | 'stdout' | 'stderr' | 'stdin';
 }
 
+const OUTPUT_STYLES: Record<OutputSegment['stream'], string> = {
+  log: '',
+  stdout: 'text-gray-100',
+  stderr: 'text-red-400',
+  stdin: 'text-yellow-300',
+};
+
 export const LiveIDE: React.FC = () => {
   // State
   const [code, setCode] = useState('// Welcome to SecureCode IDE\nconsole.log("Hello, secure world!");');
-  const [output, setOutput] = useState('> Ready to execute code...\n');
+  const [output, setOutput] = useState<OutputSegment[]>([{ text: '> Ready to execute code...\n', stream: 'log' }]);
+  const [stdinLine, setStdinLine] = useState('');
   const [files, setFiles] = useState<FileNode[]>([]);
   const [currentFile, setCurrentFile] = useState<string | null>(null);
   const [language, setLanguage] = useState('javascript');
@@ -33,9 +106,29 @@ export const LiveIDE: React.FC = () => {
   const [showAIPanel, setShowAIPanel] = useState(false);
   const [aiResponse, setAiResponse] = useState('');
   const [socket, setSocket] = useState<Socket | null>(null);
+  const [showBlame, setShowBlame] = useState(false);
+  const [blameRevision, setBlameRevision] = useState(0);
+  const [showCoverage, setShowCoverage] = useState(false);
+  const [showDebug, setShowDebug] = useState(false);
+  const [debugState, setDebugState] = useState<DebugState>(IDLE_DEBUG_STATE);
+  const [breakpoints, setBreakpoints] = useState<DebugBreakpoint[]>([]);
+  const [watches, setWatches] = useState<DebugWatch[]>([]);
+  const [debugConsole, setDebugConsole] = useState<DebugConsoleEntry[]>([]);
 
   // Refs
   const outputRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<MonacoEditor | null>(null);
+  const blameRef = useRef<GitBlameLine[]>([]);
+  const blameDecorations = useRef<ReturnType<MonacoEditor['createDecorationsCollection']> | null>(null);
+  const coverageCollection = useRef<ReturnType<MonacoEditor['createDecorationsCollection']> | null>(null);
+  const debugCollection = useRef<ReturnType<MonacoEditor['createDecorationsCollection']> | null>(null);
+  // This tab's debug session, opened on first use; other sessions' events are ignored
+  const debugSession = useRef<Promise<string> | null>(null);
+  const debugSessionId = useRef<string | null>(null);
+  // The run this tab started; output and results of other runs are ignored
+  const executionId = useRef<string | null>(null);
+  // Latest gutter handler; the editor's mouse listener is registered once on mount
+  const gutterClick = useRef<(line: number) => void>(() => undefined);
 
   // Initialize WebSocket
   useEffect(() => {
@@ -45,13 +138,22 @@ export const LiveIDE: React.FC = () => {
     
     setSocket(newSocket);
 
+    // Program output streams in while it runs
+    newSocket.on('execution:output', (chunk: ExecutionOutputChunk) => {
+      if (chunk.id === executionId.current) {
+        appendStream(chunk.data, chunk.stream);
+      }
+    });
+
     // Listen for execution results
     newSocket.on('execution:result', (result: ExecutionResult) => {
+      if (result.id !== executionId.current) return;
+      executionId.current = null;
       setIsExecuting(false);
-      appendOutput(`\n[Execution completed in ${result.runtime}ms]\n`);
-      if (result.output) {
-        appendOutput(result.output);
+      for (const diagnostic of result.diagnostics || []) {
+        appendOutput(formatDiagnostic(diagnostic), diagnostic.category === 'error' ? 'error' : 'info');
       }
+      appendOutput(`\n[Execution ${result.status} in ${result.runtime}ms (${result.language}, ${result.sandbox === 'isolate' ? 'isolated-vm' : 'container'}, exit ${result.exitCode})]\n`);
       if (result.error) {
         appendOutput(`\n❌ Error: ${result.error}\n`, 'error');
       }
@@ -71,6 +173,44 @@ export const LiveIDE: React.FC = () => {
       appendOutput(`\n👋 ${data.username} left\n`, 'info');
     });
 
+    // Debugger session events
+    const logDebug = (kind: DebugConsoleEntry['kind'], text: string) => {
+      setDebugConsole(prev => [...prev.slice(-499), { kind, text }]);
+    };
+    // Session events arrive as { sessionId, data } for every session of this user
+    const onDebug = <T,>(event: string, handler: (data: T) => void) => {
+      newSocket.on(event, (payload: { sessionId: string; data: T }) => {
+        if (payload.sessionId === debugSessionId.current) handler(payload.data);
+      });
+    };
+    onDebug('debug:started', (data: { file: string }) => {
+      setDebugState({ ...IDLE_DEBUG_STATE, running: true });
+      logDebug('info', `Debugging ${data.file}`);
+    });
+    onDebug('debug:paused', (state: DebugState) => setDebugState(state));
+    onDebug('debug:frame', (state: DebugState) => setDebugState(state));
+    onDebug('debug:resumed', () => {
+      setDebugState(prev => ({ ...prev, paused: false, reason: undefined, callStack: [], selectedFrame: 0, variables: [] }));
+    });
+    onDebug('debug:output', (data: { type: 'stdout' | 'stderr'; data: string }) => {
+      logDebug(data.type, data.data.replace(/\n$/, ''));
+    });
+    onDebug('debug:exit', (code: number | null) => {
+      setDebugState(IDLE_DEBUG_STATE);
+      logDebug('info', `Process exited with code ${code}`);
+    });
+    onDebug('debug:stopped', () => setDebugState(IDLE_DEBUG_STATE));
+    onDebug('debug:breakpoints', (list: DebugBreakpoint[]) => setBreakpoints(list));
+    onDebug('debug:watches', (list: DebugWatch[]) => setWatches(list));
+    onDebug('debug:session:closed', (data: { reason: string }) => {
+      debugSession.current = null;
+      debugSessionId.current = null;
+      setDebugState(IDLE_DEBUG_STATE);
+      setBreakpoints([]);
+      setWatches([]);
+      logDebug('info', `Debug session closed (${data.reason})`);
+    });
+
     // Load initial file tree
     loadFiles();
 
@@ -79,11 +219,121 @@ export const LiveIDE: React.FC = () => {
     };
   }, []);
 
+  // Inline blame for the cursor line
+  const renderBlame = useCallback(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model) return;
+
+    const lineNumber = editor.getPosition()?.lineNumber;
+    const entry = lineNumber ? blameRef.current.find(b => b.line === lineNumber) : undefined;
+    if (!blameDecorations.current) {
+      blameDecorations.current = editor.createDecorationsCollection();
+    }
+    if (!entry || !lineNumber) {
+      blameDecorations.current.clear();
+      return;
+    }
+
+    const column = model.getLineMaxColumn(lineNumber);
+    blameDecorations.current.set([{
+      range: { startLineNumber: lineNumber, startColumn: column, endLineNumber: lineNumber, endColumn: column },
+      options: {
+        after: { content: `    ${formatBlameAnnotation(entry)}`, inlineClassName: 'git-blame-annotation' },
+        hoverMessage: {
+          value: entry.uncommitted
+            ? 'Not committed yet'
+            : `**${entry.author}** <${entry.email}>, ${new Date(entry.date).toLocaleString()}\n\n\`${entry.hash.slice(0, 8)}\` ${entry.summary}`,
+        },
+      },
+    }]);
+  }, []);
+
+  // Blame the open file (re-fetched after saves since line numbers shift)
+  useEffect(() => {
+    blameRef.current = [];
+    renderBlame();
+    if (!showBlame || !currentFile) return;
+
+    let cancelled = false;
+    gitApiService.getBlame(currentFile)
+      .then(lines => {
+        if (cancelled) return;
+        blameRef.current = lines;
+        renderBlame();
+      })
+      .catch(() => {
+        if (!cancelled) appendOutput(`Blame unavailable for ${currentFile}`, 'error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showBlame, currentFile, blameRevision, renderBlame]);
+
+  // Line coverage of the open file from the latest CI run that collected coverage
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    if (!coverageCollection.current) {
+      coverageCollection.current = editor.createDecorationsCollection();
+    }
+    coverageCollection.current.clear();
+    if (!showCoverage || !currentFile) return;
+
+    let cancelled = false;
+    backendApiService.getCiFileCoverage(currentFile)
+      .then(coverage => {
+        if (cancelled) return;
+        coverageCollection.current?.set(coverageDecorations(coverage));
+        appendOutput(`Coverage ${coverage.lines.pct}% of lines in ${coverage.file} (${coverage.runId})`, 'info');
+      })
+      .catch(() => {
+        if (!cancelled) appendOutput(`No coverage recorded for ${currentFile}`, 'error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showCoverage, currentFile]);
+
+  // Breakpoint glyphs and the selected frame's line in the open file
+  const activeFrame = debugState.paused ? debugState.callStack[debugState.selectedFrame] : undefined;
+  const pausedLine = activeFrame?.file === currentFile ? activeFrame?.line : undefined;
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    if (!debugCollection.current) {
+      debugCollection.current = editor.createDecorationsCollection();
+    }
+    debugCollection.current.set(debugDecorations(breakpoints, currentFile, pausedLine));
+    if (pausedLine) editor.revealLineInCenterIfOutsideViewport(pausedLine);
+  }, [breakpoints, currentFile, pausedLine]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    editor.onDidChangeCursorPosition(() => renderBlame());
+    editor.onMouseDown((e) => {
+      if (e.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN && e.target.position) {
+        gutterClick.current(e.target.position.lineNumber);
+      }
+    });
+  };
+
   // Helper functions
   const appendOutput = (text: string, type: 'normal' | 'error' | 'info' = 'normal') => {
     const timestamp = new Date().toLocaleTimeString();
     const prefix = type === 'error' ? '❌' : type === 'info' ? 'ℹ️' : '>';
-    setOutput(prev => prev + `[${timestamp}] ${prefix} ${text}\n`);
+    appendStream(`[${timestamp}] ${prefix} ${text}\n`, 'log');
+  };
+
+  const appendStream = (text: string, stream: OutputSegment['stream']) => {
+    setOutput(prev => {
+      const last = prev[prev.length - 1];
+      return last?.stream === stream
+        ? [...prev.slice(0, -1), { text: last.text + text, stream }]
+        : [...prev, { text, stream }];
+    });
     
     // Auto-scroll to bottom
     setTimeout(() => {
@@ -141,6 +391,7 @@ export const LiveIDE: React.FC = () => {
       socket.emit('file:write', { path: currentFile, content: code }, (response: any) => {
         if (response.success) {
           appendOutput(`Saved: ${currentFile}`, 'info');
+          setBlameRevision(r => r + 1);
         } else {
           appendOutput(`Failed to save: ${response.error}`, 'error');
         }
@@ -152,21 +403,50 @@ export const LiveIDE: React.FC = () => {
     if (!socket || isExecuting) return;
     
     setIsExecuting(true);
-    setOutput(prev => prev + '\n─────────────────────────────\n');
+    appendStream('\n─────────────────────────────\n', 'log');
     appendOutput('Executing code in secure sandbox...');
     
     socket.emit('code:execute', {
       code,
       language,
       timeout: 30000,
+      interactive: true,
+      typeCheck: language === 'typescript',
+      // Relative imports resolve next to the open file
+      workingDirectory: currentFile ? currentFile.slice(0, Math.max(0, currentFile.lastIndexOf('/'))) : undefined,
     }, (response: any) => {
-      if (!response.success) {
+      if (response.success) {
+        executionId.current = response.executionId;
+      } else {
         setIsExecuting(false);
         appendOutput(response.error, 'error');
       }
     });
   };
 
+  // Send a typed line to the running program, or close its stdin
+  const sendStdin = (eof = false) => {
+    if (!socket || !executionId.current) return;
+    const data = eof ? '' : `${stdinLine}\n`;
+    if (data) appendStream(data, 'stdin');
+    setStdinLine('');
+
+    socket.emit('execution:stdin', { id: executionId.current, data, eof }, (response: any) => {
+      if (!response.success) {
+        appendOutput(response.error, 'error');
+      }
+    });
+  };
+
+  const stopExecution = () => {
+    if (!socket || !executionId.current) return;
+    socket.emit('execution:cancel', { id: executionId.current }, (response: any) => {
+      if (!response.success) {
+        appendOutput(response.error, 'error');
+      }
+    });
+  };
+
   const explainCode = () => {
     if (!socket) return;
     
@@ -223,7 +503,87 @@ export const LiveIDE: React.FC = () => {
   };
 
   const clearOutput = () => {
-    setOutput('> Output cleared\n');
+    setOutput([{ text: '> Output cleared\n', stream: 'log' }]);
+  };
+
+  const openDebugSession = () => {
+    if (!debugSession.current) {
+      debugSession.current = new Promise<string>((resolve, reject) => {
+        if (!socket) return reject(new Error('Not connected'));
+        socket.emit('debug:session:create', {}, (response: any) => {
+          if (response?.success) {
+            debugSessionId.current = response.data.id;
+            resolve(response.data.id);
+          } else {
+            debugSession.current = null;
+            reject(new Error(response?.error || 'Failed to open a debug session'));
+          }
+        });
+      });
+    }
+    return debugSession.current;
+  };
+
+  // Debugger requests go to this tab's session; results arrive through the debug:* events
+  const debugRequest = (event: string, data: object, onSuccess?: (result: any) => void) => {
+    const fail = (message: string) => setDebugConsole(prev => [...prev, { kind: 'error', text: message }]);
+    openDebugSession().then((sessionId) => {
+      socket!.emit(event, { ...data, sessionId }, (response: any) => {
+        if (response?.success) {
+          onSuccess?.(response.data);
+        } else {
+          fail(response?.error || `${event} failed`);
+        }
+      });
+    }, (error: Error) => fail(error.message));
+  };
+
+  gutterClick.current = (line: number) => {
+    if (!currentFile) return;
+    const existing = breakpoints.find(bp => bp.file === currentFile && bp.line === line);
+    if (existing) {
+      debugRequest('debug:breakpoint:remove', { id: existing.id });
+    } else {
+      debugRequest('debug:breakpoint:add', { file: currentFile, line });
+    }
+  };
+
+  const startDebugging = () => {
+    if (!currentFile) return;
+    setShowDebug(true);
+    setDebugConsole([]);
+    debugRequest('debug:start', { file: currentFile });
+  };
+
+  const evaluateInDebugger = (expression: string) => {
+    setDebugConsole(prev => [...prev, { kind: 'input', text: expression }]);
+    debugRequest('debug:evaluate', { expression }, (result: { value: unknown }) => {
+      setDebugConsole(prev => [...prev, { kind: 'result', text: formatDebugValue(result.value) }]);
+    });
+  };
+
+  const loadVariables = (objectId: string, start: number) =>
+    new Promise<DebugVariablePage>((resolve, reject) => {
+      if (!socket || !debugSessionId.current) return reject(new Error('No debug session'));
+      socket.emit('debug:variables', { sessionId: debugSessionId.current, objectId, start }, (response: any) => {
+        if (response?.success) resolve(response.data);
+        else reject(new Error(response?.error || 'Failed to load variables'));
+      });
+    });
+
+  const selectFrame = (index: number) => {
+    const frame = debugState.callStack[index];
+    if (!frame) return;
+    if (index !== debugState.selectedFrame) {
+      debugRequest('debug:frame', { frame: index });
+    }
+    if (frame.file !== currentFile) {
+      const name = frame.file.split('/').pop() || frame.file;
+      openFile({ name, path: frame.file, type: 'file' });
+      return;
+    }
+    editorRef.current?.revealLineInCenter(frame.line);
+    editorRef.current?.setPosition({ lineNumber: frame.line, column: 1 });
   };
 
   // Render file tree
@@ -306,6 +666,35 @@ export const LiveIDE: React.FC = () => {
             >
               💾 Save
             </button>
+            <button
+              onClick={() => setShowBlame(b => !b)}
+              disabled={!currentFile}
+              className={`px-3 py-1 rounded text-sm disabled:bg-gray-600 disabled:cursor-not-allowed ${
+                showBlame ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title="Show who last changed the current line"
+            >
+              👤 Blame
+            </button>
+            <button
+              onClick={() => setShowCoverage(c => !c)}
+              disabled={!currentFile}
+              className={`px-3 py-1 rounded text-sm disabled:bg-gray-600 disabled:cursor-not-allowed ${
+                showCoverage ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title="Mark lines covered by the latest pipeline run"
+            >
+              🎯 Coverage
+            </button>
+            <button
+              onClick={() => setShowDebug(d => !d)}
+              className={`px-3 py-1 rounded text-sm ${
+                showDebug ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title="Breakpoints, stepping, variables and debug console"
+            >
+              🐞 Debug
+            </button>
             <div className="flex-1"></div>
             <button
               onClick={explainCode}
@@ -335,6 +724,7 @@ export const LiveIDE: React.FC = () => {
               theme="vs-dark"
               value={code}
               onChange={(value) => setCode(value || '')}
+              onMount={handleEditorMount}
               options={{
                 minimap: { enabled: true },
                 fontSize: 14,
@@ -343,10 +733,31 @@ export const LiveIDE: React.FC = () => {
                 scrollBeyondLastLine: false,
                 automaticLayout: true,
                 tabSize: 2,
+                glyphMargin: true,
               }}
             />
           </div>
 
+          {showDebug && (
+            <DebugPanel
+              state={debugState}
+              breakpoints={breakpoints}
+              watches={watches}
+              consoleEntries={debugConsole}
+              canStart={!!currentFile && /\.[cm]?js$/.test(currentFile)}
+              onStart={startDebugging}
+              onStop={() => debugRequest('debug:stop', {})}
+              onStep={(action: DebugAction) => debugRequest('debug:step', { action })}
+              onToggleBreakpoint={(id) => debugRequest('debug:breakpoint:toggle', { id })}
+              onRemoveBreakpoint={(id) => debugRequest('debug:breakpoint:remove', { id })}
+              onAddWatch={(expression) => debugRequest('debug:watch:add', { expression })}
+              onRemoveWatch={(id) => debugRequest('debug:watch:remove', { id })}
+              onEvaluate={evaluateInDebugger}
+              onSelectFrame={selectFrame}
+              loadVariables={loadVariables}
+            />
+          )}
+
           {/* Status Bar */}
           <div className="bg-gray-800 border-t border-gray-700 px-4 py-1 flex items-center justify-between text-xs text-gray-400">
             <div className="flex items-center gap-4">
@@ -376,8 +787,44 @@ export const LiveIDE: React.FC = () => {
             className="flex-1 p-4 overflow-auto font-mono text-xs text-green-400"
             style={{ lineHeight: '1.6' }}
           >
-            <pre>{output}</pre>
+            <pre className="whitespace-pre-wrap">
+              {output.map((segment, index) => (
+                <span key={index} className={OUTPUT_STYLES[segment.stream]}>{segment.text}</span>
+              ))}
+            </pre>
           </div>
+          {isExecuting && (
+            <div className="border-t border-gray-700 p-2 flex gap-2 font-mono text-xs">
+              <span className="text-green-400">$</span>
+              <input
+                value={stdinLine}
+                onChange={e => setStdinLine(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') sendStdin();
+                  if (e.key === 'd' && e.ctrlKey) {
+                    e.preventDefault();
+                    sendStdin(true);
+                  }
+                }}
+                placeholder="stdin (Enter to send, Ctrl+D for EOF)"
+                className="flex-1 bg-transparent text-gray-100 outline-none"
+                autoFocus
+              />
+              <button
+                onClick={() => sendStdin(true)}
+                className="px-2 bg-gray-800 hover:bg-gray-700 rounded"
+                title="Close stdin"
+              >
+                EOF
+              </button>
+              <button
+                onClick={stopExecution}
+                className="px-2 bg-red-700 hover:bg-red-600 rounded"
+              >
+                Stop
+              </button>
+            </div>
+          )}
         </section>
       </div>
 
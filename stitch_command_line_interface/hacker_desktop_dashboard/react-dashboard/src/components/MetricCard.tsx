@@ -1,5 +1,6 @@
 import { LucideIcon } from 'lucide-react';
 import { ReactNode, memo } from 'react';
+import { Sparkline } from './Sparkline';
 
 interface MetricCardProps {
   title: string;
@@ -7,10 +8,12 @@ interface MetricCardProps {
   children: ReactNode;
   accent?: 'cyan' | 'green' | 'warn' | 'danger';
   loading?: boolean;
+  /** Recent values drawn as a sparkline in the card header */
+  trend?: number[];
 }
 
 // Memoize MetricCard to prevent unnecessary re-renders
-export const MetricCard = memo(({ title, icon: Icon, children, accent = 'cyan', loading = false }: MetricCardProps) => {
+export const MetricCard = memo(({ title, icon: Icon, children, accent = 'cyan', loading = false, trend }: MetricCardProps) => {
   const accentColors = {
     cyan: 'border-cyan text-cyan',
     green: 'border-ops-green text-ops-green',
@@ -25,6 +28,9 @@ export const MetricCard = memo(({ title, icon: Icon, children, accent = 'cyan',
         <h3 className="text-sm font-semibold uppercase tracking-wider text-white/90">
           {title}
         </h3>
+        {trend && (
+          <Sparkline values={trend} className={`ml-auto ${accentColors[accent].split(' ')[1]}`} label={`${title} trend`} />
+        )}
       </div>
       
       {loading ? (
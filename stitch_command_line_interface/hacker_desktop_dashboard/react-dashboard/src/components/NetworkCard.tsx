@@ -1,12 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
 import { CardShell } from "./CardShell";
+import { backendApiService, type NetworkFlow, type NetworkFlowEvent } from "../services/backendApiService";
+import { usePolling } from "../hooks/usePolling";
+import { useTopicSubscription, useWebSocket } from "../hooks/useWebSocket";
+import { config } from "../config";
 
-const flows = [
-  { id: "1", app: "node", dest: "api.internal", status: "allow" },
-  { id: "2", app: "docker", dest: "registry", status: "watch" },
-  { id: "3", app: "browser", dest: "unknown-hub", status: "block" }
-];
+const MAX_FLOWS = 8;
+
+function formatBytes(bytes: number | null | undefined) {
+  if (bytes === null || bytes === undefined) return null;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
 
 export function NetworkCard() {
+  const [flows, setFlows] = useState<NetworkFlow[]>([]);
+
+  const fetchFlows = useCallback(async () => {
+    try {
+      return (await backendApiService.getNetworkFlows()).flows;
+    } catch {
+      return null;
+    }
+  }, []);
+  const polled = usePolling(fetchFlows, config.polling.system);
+
+  useEffect(() => {
+    if (polled) setFlows(polled);
+  }, [polled]);
+
+  // Apply pushed open/close events between polls
+  const onFlowEvent = useCallback(({ event, flow }: NetworkFlowEvent) => {
+    setFlows((current) => {
+      if (event === "close") return current.filter((f) => f.id !== flow.id);
+      if (event === "status") return current.map((f) => (f.id === flow.id ? flow : f));
+      return [flow, ...current.filter((f) => f.id !== flow.id)];
+    });
+  }, []);
+  const blockFlow = useCallback(async (flowId: string) => {
+    try {
+      await backendApiService.blockNetworkFlow(flowId);
+      setFlows((current) => current.map((f) => (f.id === flowId ? { ...f, status: "block" } : f)));
+    } catch (e) {
+      console.error("Failed to block flow:", e);
+    }
+  }, []);
+
+  const { isConnected } = useWebSocket<NetworkFlowEvent>({ type: "flow", onMessage: onFlowEvent });
+  useTopicSubscription("flows", isConnected);
+
   return (
     <CardShell
       title="Network / IDPS"
@@ -28,23 +71,38 @@ export function NetworkCard() {
         <div>
           <h4 className="text-xs uppercase tracking-[0.18em] text-white/50">Flows</h4>
           <ul className="mt-2 space-y-2 text-xs">
-            {flows.map((flow) => (
+            {flows.length === 0 && <li className="text-white/40">No active flows</li>}
+            {flows.slice(0, MAX_FLOWS).map((flow) => (
               <li
                 key={flow.id}
                 className="flex items-center justify-between rounded border border-hairline/40 bg-ink/40 px-3 py-2"
               >
-                <span className="text-white/70">{flow.app} → {flow.dest}</span>
-                <span
-                  className={`rounded border px-2 py-0.5 uppercase tracking-[0.14em] ${
-                    flow.status === "allow"
-                      ? "border-ops-green text-ops-green"
-                      : flow.status === "watch"
-                      ? "border-warn text-warn"
-                      : "border-danger text-danger"
-                  }`}
-                >
-                  {flow.status}
+                <span className="truncate text-white/70" title={flow.pid ? `pid ${flow.pid}` : undefined}>
+                  {flow.app} → {flow.dest}{flow.port ? `:${flow.port}` : ""}
+                  {formatBytes(flow.bytesTotal) && <span className="ml-2 text-white/40">{formatBytes(flow.bytesTotal)}</span>}
                 </span>
+                <div className="flex items-center gap-2">
+                  {flow.status !== "block" && (
+                    <button
+                      onClick={() => blockFlow(flow.id)}
+                      className="text-white/40 transition hover:text-danger"
+                      aria-label={`Block ${flow.app} to ${flow.dest}`}
+                    >
+                      block
+                    </button>
+                  )}
+                  <span
+                    className={`rounded border px-2 py-0.5 uppercase tracking-[0.14em] ${
+                      flow.status === "allow"
+                        ? "border-ops-green text-ops-green"
+                        : flow.status === "watch"
+                        ? "border-warn text-warn"
+                        : "border-danger text-danger"
+                    }`}
+                  >
+                    {flow.status}
+                  </span>
+                </div>
               </li>
             ))}
           </ul>
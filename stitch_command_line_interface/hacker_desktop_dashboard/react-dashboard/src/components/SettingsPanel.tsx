@@ -459,7 +459,55 @@ function TestsSettings({ settings, updateSetting }: any) {
 }
 
 function LogsSettings({ settings, updateSetting }: any) {
-  return <CategoryPlaceholder title="Logs & Console" description="Log streaming, filtering, and persistence" />;
+  const toggleLevel = (level: string, enabled: boolean) => {
+    const levels = settings.logLevels.filter((l: string) => l !== level);
+    updateSetting('logLevels', enabled ? [...levels, level] : levels);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-4">Logs & Console</h3>
+        <p className="text-sm text-white/60 mb-6">Default filters for the console log query</p>
+      </div>
+
+      <SettingGroup label="Levels">
+        {['info', 'warn', 'error'].map((level) => (
+          <SettingToggle
+            key={level}
+            label={level.toUpperCase()}
+            checked={settings.logLevels.includes(level)}
+            onChange={(v: boolean) => toggleLevel(level, v)}
+          />
+        ))}
+      </SettingGroup>
+
+      <SettingGroup label="Privacy">
+        <SettingToggle
+          label="Redact Secrets in Logs"
+          checked={settings.logRedactSecrets}
+          onChange={(v: boolean) => updateSetting('logRedactSecrets', v)}
+          description="Mask keys, tokens and .env values before log entries are stored"
+        />
+      </SettingGroup>
+
+      <SettingGroup label="Filters">
+        <SettingInput
+          label="Sources"
+          value={settings.logSources.join(', ')}
+          onChange={(v: string) => updateSetting('logSources', v.split(',').map((s) => s.trimStart()))}
+          description="Comma-separated: backend, file, process, or globs like process:deploy:*"
+        />
+        <SettingInput
+          label="Message Filter (regex)"
+          value={settings.logFilterRegex}
+          onChange={(v: string) => updateSetting('logFilterRegex', v)}
+          placeholder="timeout|refused"
+          description="Case-insensitive; leave empty to show every message"
+        />
+      </SettingGroup>
+    </div>
+  );
 }
 
 function SecuritySettings({ settings, updateSetting }: any) {
@@ -485,10 +533,17 @@ function SecuritySettings({ settings, updateSetting }: any) {
 
       <SettingGroup label="Data Protection">
         <SettingToggle
-          label="Redact Secrets in Logs"
+          label="Redact Secrets in Output"
           checked={settings.secretRedaction}
           onChange={(v) => updateSetting('secretRedaction', v)}
-          description="Automatically redact common token patterns"
+          description="Mask keys, tokens and .env values in execution output and live updates"
+        />
+        <SettingInput
+          label="Custom Secret Patterns"
+          value={settings.secretPatterns.join(' ')}
+          onChange={(v: string) => updateSetting('secretPatterns', v.split(' '))}
+          placeholder="ACME-\d{6} internal_[a-z0-9]{32}"
+          description="Space-separated regular expressions masked everywhere redaction is on"
         />
         <SettingToggle
           label="Show Command Risk Banners"
@@ -0,0 +1,313 @@
+import { useCallback, useEffect, useState, KeyboardEvent } from "react";
+import {
+  gitApiService,
+  type GitBranch,
+  type GitFileStatus,
+  type GitOperationState,
+  type GitStatus,
+} from "../services/gitApiService";
+
+const STATUS_POLL_MS = 5000;
+
+const STATUS_LETTERS: Record<GitFileStatus["status"], string> = {
+  modified: "M",
+  added: "A",
+  deleted: "D",
+  renamed: "R",
+  copied: "C",
+  untracked: "U",
+  conflicted: "!",
+};
+
+export type SourceControlSelection = { path: string; staged: boolean; conflict?: boolean };
+
+type SourceControlPanelProps = {
+  selected?: SourceControlSelection | null;
+  /** Opens the file's diff; untracked files have none */
+  onSelect?: (selection: SourceControlSelection | null) => void;
+  /** Bump to refresh status after changes made elsewhere (e.g. hunk staging) */
+  revision?: number;
+};
+
+export function SourceControlPanel({ selected = null, onSelect, revision = 0 }: SourceControlPanelProps) {
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [operation, setOperation] = useState<GitOperationState | null>(null);
+  const [branches, setBranches] = useState<GitBranch[]>([]);
+  const [target, setTarget] = useState("");
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextStatus, nextOperation] = await Promise.all([gitApiService.getStatus(), gitApiService.getOperation()]);
+      setStatus(nextStatus);
+      setOperation(nextOperation);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load repository status");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+    const id = setInterval(refresh, STATUS_POLL_MS);
+    return () => clearInterval(id);
+  }, [refresh, revision]);
+
+  useEffect(() => {
+    gitApiService.getBranches().then(setBranches).catch(() => setBranches([]));
+  }, [status?.current]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Git operation failed");
+    } finally {
+      setBusy(false);
+      await refresh();
+    }
+  };
+
+  const staged = status?.files.filter((f) => f.staged) ?? [];
+  const conflicted = status?.files.filter((f) => f.status === "conflicted") ?? [];
+  const unstaged = status?.files.filter((f) => !f.staged && f.status !== "conflicted") ?? [];
+
+  const startOperation = (kind: "merge" | "rebase") =>
+    run(async () => {
+      const result = kind === "merge" ? await gitApiService.merge(target) : await gitApiService.rebase(target);
+      setTarget("");
+      if (result.status === "conflicts") {
+        onSelect?.({ path: result.conflicts[0], staged: false, conflict: true });
+      }
+    });
+
+  const continueOperation = () =>
+    run(async () => {
+      const result = await gitApiService.continueOperation();
+      if (result.status === "conflicts") {
+        onSelect?.({ path: result.conflicts[0], staged: false, conflict: true });
+      }
+    });
+
+  const abortOperation = () => {
+    if (window.confirm(`Abort the ${operation?.operation} in progress? Conflict resolutions so far are lost.`)) {
+      void run(async () => {
+        await gitApiService.abortOperation();
+        onSelect?.(null);
+      });
+    }
+  };
+
+  const commit = () =>
+    run(async () => {
+      await gitApiService.commit(message.trim());
+      setMessage("");
+      onSelect?.(null);
+    });
+
+  const canCommit = !busy && staged.length > 0 && message.trim().length > 0;
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey) && canCommit) {
+      e.preventDefault();
+      void commit();
+    }
+  };
+
+  const renderConflicts = () => (
+    <div>
+      <div className="px-4 py-2 text-[10px] uppercase tracking-[0.2em] text-danger">
+        Merge Conflicts <span className="text-danger/60">{conflicted.length}</span>
+      </div>
+      <ul className="text-xs">
+        {conflicted.map((file) => (
+          <li
+            key={`conflict:${file.path}`}
+            onClick={() => onSelect?.({ path: file.path, staged: false, conflict: true })}
+            className={`flex cursor-pointer items-center gap-2 px-4 py-1 ${
+              selected?.conflict && selected.path === file.path ? "bg-cyan/10 text-cyan" : "text-white/70 hover:bg-white/5"
+            }`}
+          >
+            <span className="w-3 shrink-0 font-mono text-danger">{STATUS_LETTERS.conflicted}</span>
+            <span className="flex-1 truncate" title={file.path}>
+              {file.path}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const renderGroup = (label: string, files: GitFileStatus[], isStaged: boolean) => (
+    <div>
+      <div className="flex items-center justify-between px-4 py-2 text-[10px] uppercase tracking-[0.2em] text-white/50">
+        <span>
+          {label} <span className="text-white/30">{files.length}</span>
+        </span>
+        {files.length > 0 && (
+          <button
+            disabled={busy}
+            onClick={() => run(() => (isStaged ? gitApiService.unstage : gitApiService.stage)(files.map((f) => f.path)))}
+            className="rounded border border-transparent px-2 text-white/50 transition hover:border-cyan hover:text-cyan disabled:opacity-30"
+          >
+            {isStaged ? "Unstage all" : "Stage all"}
+          </button>
+        )}
+      </div>
+      <ul className="text-xs">
+        {files.map((file) => {
+          const active = !selected?.conflict && selected?.path === file.path && selected.staged === isStaged;
+          return (
+            <li
+              key={`${isStaged}:${file.path}`}
+              onClick={() => file.status !== "untracked" && onSelect?.({ path: file.path, staged: isStaged })}
+              title={file.status === "untracked" ? "Untracked file — stage it to include it in the next commit" : undefined}
+              className={`group flex cursor-pointer items-center gap-2 px-4 py-1 ${
+                active ? "bg-cyan/10 text-cyan" : "text-white/70 hover:bg-white/5"
+              }`}
+            >
+              <span
+                className={`w-3 shrink-0 font-mono ${
+                  file.status === "deleted" || file.status === "conflicted"
+                    ? "text-danger"
+                    : file.status === "untracked" || file.status === "added"
+                    ? "text-ops-green"
+                    : "text-warn"
+                }`}
+              >
+                {STATUS_LETTERS[file.status]}
+              </span>
+              <span className="flex-1 truncate" title={file.path}>
+                {file.path}
+              </span>
+              <button
+                disabled={busy}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  void run(() => (isStaged ? gitApiService.unstage([file.path]) : gitApiService.stage([file.path])));
+                }}
+                className="rounded border border-hairline px-1.5 text-white/50 opacity-0 transition hover:border-cyan hover:text-cyan group-hover:opacity-100 disabled:opacity-30"
+                title={isStaged ? "Unstage" : "Stage"}
+              >
+                {isStaged ? "−" : "+"}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+
+  return (
+    <aside className="flex w-96 flex-col border-l border-hairline bg-panel/70 backdrop-blur">
+      <div className="border-b border-hairline px-4 py-3">
+        <h3 className="text-xs uppercase tracking-[0.18em] text-white/60">Source Control</h3>
+        {status && (
+          <p className="mt-2 text-sm font-medium text-white/80">
+            {status.current}
+            {status.tracking && (
+              <span className="ml-2 text-xs text-white/40">
+                ↑{status.ahead} ↓{status.behind} {status.tracking}
+              </span>
+            )}
+          </p>
+        )}
+        {operation?.operation ? (
+          <div className="mt-3 space-y-2 rounded border border-warn/60 bg-warn/10 p-2 text-xs text-warn">
+            <p>
+              {operation.operation === "rebase"
+                ? `Rebasing ${operation.head ?? "HEAD"} onto ${operation.onto?.slice(0, 8) ?? "?"}`
+                : `${operation.operation === "merge" ? "Merging" : operation.operation === "revert" ? "Reverting" : "Cherry-picking"} ${operation.head?.slice(0, 8) ?? ""}`}
+              {operation.conflicts.length > 0 && ` · ${operation.conflicts.length} unresolved`}
+            </p>
+            <div className="flex gap-2">
+              <button
+                disabled={busy || operation.conflicts.length > 0}
+                onClick={() => void continueOperation()}
+                className="flex-1 rounded border border-cyan px-2 py-1 uppercase tracking-[0.18em] text-cyan transition hover:bg-cyan/10 disabled:opacity-30"
+              >
+                Continue
+              </button>
+              <button
+                disabled={busy}
+                onClick={abortOperation}
+                className="flex-1 rounded border border-danger px-2 py-1 uppercase tracking-[0.18em] text-danger transition hover:bg-danger/10 disabled:opacity-30"
+              >
+                Abort
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="mt-3 flex gap-2 text-xs">
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="min-w-0 flex-1 rounded border border-hairline bg-ink px-2 py-1 text-white/70 outline-none focus:border-cyan"
+              aria-label="Branch to merge or rebase onto"
+            >
+              <option value="">Branch…</option>
+              {branches
+                .filter((b) => !b.current)
+                .map((b) => (
+                  <option key={b.name} value={b.name}>
+                    {b.name}
+                  </option>
+                ))}
+            </select>
+            <button
+              disabled={busy || !target}
+              onClick={() => void startOperation("merge")}
+              className="rounded border border-hairline px-2 py-1 text-white/60 transition hover:border-cyan hover:text-cyan disabled:opacity-30"
+              title="Merge the branch into the current one"
+            >
+              Merge
+            </button>
+            <button
+              disabled={busy || !target}
+              onClick={() => void startOperation("rebase")}
+              className="rounded border border-hairline px-2 py-1 text-white/60 transition hover:border-cyan hover:text-cyan disabled:opacity-30"
+              title="Rebase the current branch onto it"
+            >
+              Rebase
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2 border-b border-hairline px-4 py-3">
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={3}
+          placeholder="Commit message (Ctrl+Enter to commit)"
+          className="w-full resize-none rounded border border-hairline bg-transparent px-3 py-2 text-sm text-white/80 outline-none transition focus:border-cyan"
+        />
+        <button
+          onClick={() => void commit()}
+          disabled={!canCommit}
+          className="w-full rounded border border-cyan px-3 py-2 text-xs uppercase tracking-[0.18em] text-cyan transition hover:bg-cyan/10 disabled:opacity-30"
+        >
+          Commit {staged.length > 0 ? `(${staged.length})` : ""}
+        </button>
+        {error && <p className="text-xs text-danger">{error}</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin">
+        {status && status.files.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-white/40">Working tree clean</p>
+        ) : (
+          <>
+            {conflicted.length > 0 && renderConflicts()}
+            {renderGroup("Staged Changes", staged, true)}
+            {renderGroup("Changes", unstaged, false)}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
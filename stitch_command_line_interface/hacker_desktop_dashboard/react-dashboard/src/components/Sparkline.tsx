@@ -0,0 +1,49 @@
+import { memo } from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  /** Optional min/max band drawn behind the line */
+  band?: { min: number[]; max: number[] };
+  className?: string;
+  label?: string;
+}
+
+function toPath(values: number[], width: number, height: number, lo: number, hi: number) {
+  const span = hi - lo || 1;
+  const stepX = values.length > 1 ? width / (values.length - 1) : 0;
+  return values.map((v, i) => {
+    const x = i * stepX;
+    const y = height - ((v - lo) / span) * height;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+}
+
+// Lightweight SVG sparkline; scales to the data range so small fluctuations stay visible
+export const Sparkline = memo(({ values, width = 120, height = 28, band, className = 'text-cyan', label }: SparklineProps) => {
+  if (values.length < 2) {
+    return (
+      <svg width={width} height={height} className={className} role="img" aria-label={label ?? 'Not enough data'}>
+        <line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="currentColor" strokeOpacity={0.2} strokeDasharray="2 3" />
+      </svg>
+    );
+  }
+
+  const all = band ? [...values, ...band.min, ...band.max] : values;
+  const lo = Math.min(...all);
+  const hi = Math.max(...all);
+  const line = toPath(values, width, height, lo, hi);
+  const area = band
+    ? [...toPath(band.max, width, height, lo, hi), ...toPath(band.min, width, height, lo, hi).reverse()]
+    : null;
+
+  return (
+    <svg width={width} height={height} className={className} role="img" aria-label={label ?? 'Trend'}>
+      {area && <polygon points={area.join(' ')} fill="currentColor" fillOpacity={0.15} />}
+      <polyline points={line.join(' ')} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+});
+
+Sparkline.displayName = 'Sparkline';
@@ -1,6 +1,17 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import type { WorkspaceSettings, SettingsProfile, SettingScope } from '../types/settings';
 import { DEFAULT_SETTINGS, BUILT_IN_PROFILES } from '../types/settings';
+import { backendApiService } from '../services/backendApiService';
+import { executionApiService } from '../services/executionApiService';
+
+// Settings edits are debounced before being pushed to the backend
+const SETTINGS_SYNC_DELAY_MS = 500;
+
+// Settings the backend applies server-wide, so only edits are pushed: a fresh browser's defaults must not overwrite them
+const HOST_LIST_KEYS: Array<keyof WorkspaceSettings> = ['hostAllowlist', 'hostDenylist'];
+const REDACTION_KEYS: Array<keyof WorkspaceSettings> = ['logRedactSecrets', 'secretRedaction', 'llmExcludeSecrets', 'secretPatterns'];
+const CI_KEYS: Array<keyof WorkspaceSettings> = ['ciAutoRetryCount', 'ciQuarantineFlaky', 'coverageThreshold'];
+const ARTIFACT_KEYS: Array<keyof WorkspaceSettings> = ['artifactRetentionDays', 'artifactEncryption'];
 
 interface SettingsContextType {
   settings: WorkspaceSettings;
@@ -78,6 +89,16 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     localStorage.setItem('workspace-settings', JSON.stringify(settings));
   }, [settings]);
 
+  // Pending pushes read the settings of the latest render
+  const latestSettings = useRef(settings);
+  latestSettings.current = settings;
+  const syncTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const syncLater = (name: string, sync: (current: WorkspaceSettings) => void) => {
+    clearTimeout(syncTimers.current[name]);
+    syncTimers.current[name] = setTimeout(() => sync(latestSettings.current), SETTINGS_SYNC_DELAY_MS);
+  };
+
   const updateSetting = (key: keyof WorkspaceSettings, value: any, scope: SettingScope = 'workspace') => {
     const oldValue = settings[key];
     
@@ -99,6 +120,66 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     ]);
 
     console.log(`[Settings] Updated ${key}: ${oldValue} → ${value} (scope: ${scope})`);
+
+    // Feed hostAllowlist/hostDenylist into the network policy engine
+    if (HOST_LIST_KEYS.includes(key)) {
+      syncLater('hostLists', (current) => {
+        backendApiService
+          .syncPolicyHostLists(current.hostAllowlist, current.hostDenylist)
+          .catch((e) => console.warn('[Settings] Failed to sync host lists with network policy:', e));
+      });
+    }
+
+    // The backend masks secrets in logs, execution output, live updates and LLM prompts
+    if (REDACTION_KEYS.includes(key)) {
+      syncLater('redaction', (current) => {
+        backendApiService
+          .syncRedactionSettings({
+            logRedactSecrets: current.logRedactSecrets,
+            secretRedaction: current.secretRedaction,
+            llmExcludeSecrets: current.llmExcludeSecrets,
+            customPatterns: current.secretPatterns.filter((p) => p.trim()),
+          })
+          .catch((e) => console.warn('[Settings] Failed to sync secret redaction settings:', e));
+      });
+    }
+
+    // Retries, flaky-test quarantine and the coverage threshold are applied by the backend pipeline runner
+    if (CI_KEYS.includes(key)) {
+      syncLater('ci', (current) => {
+        backendApiService
+          .syncCiSettings({
+            ciAutoRetryCount: current.ciAutoRetryCount,
+            ciQuarantineFlaky: current.ciQuarantineFlaky,
+            coverageThreshold: current.coverageThreshold,
+          })
+          .catch((e) => console.warn('[Settings] Failed to sync CI settings:', e));
+      });
+    }
+
+    // Retention is enforced by the backend artifact sweeper; encryption applies to newly stored artifacts
+    if (ARTIFACT_KEYS.includes(key)) {
+      syncLater('artifacts', (current) => {
+        backendApiService
+          .syncArtifactSettings({
+            artifactRetentionDays: current.artifactRetentionDays,
+            artifactEncryption: current.artifactEncryption,
+          })
+          .catch((e) => console.warn('[Settings] Failed to sync artifact settings:', e));
+      });
+    }
+
+    // Server-wide and capped by the backend's SANDBOX_NETWORK_ACCESS, so only pushed when edited
+    if (key === 'networkAccess') {
+      executionApiService
+        .syncSettings({ networkAccess: value })
+        .then(({ networkAccess, maxNetworkAccess }) => {
+          if (networkAccess !== value) {
+            console.warn(`[Settings] Sandbox network access is limited to ${maxNetworkAccess} on this server`);
+          }
+        })
+        .catch((e) => console.warn('[Settings] Failed to sync execution settings:', e));
+    }
   };
 
   const resetSettings = (scope?: SettingScope) => {
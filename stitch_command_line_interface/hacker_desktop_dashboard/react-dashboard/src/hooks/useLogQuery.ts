@@ -0,0 +1,76 @@
+/**
+ * Log Query Hooks
+ * Runs console queries against /logs/query and derives the default query from settings
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { backendApiService, type LogQueryResult } from '../services/backendApiService';
+import type { WorkspaceSettings } from '../types/settings';
+
+const ALL_LEVELS: WorkspaceSettings['logLevels'] = ['info', 'warn', 'error'];
+
+/**
+ * Default console query from the Logs & Console settings
+ * (`logLevels`, `logSources`, `logFilterRegex`); empty parts are left out
+ */
+export function buildLogQuery(settings: Pick<WorkspaceSettings, 'logLevels' | 'logSources' | 'logFilterRegex'>): string {
+  const terms: string[] = [];
+
+  // Debug entries are never in the settings list, so they stay hidden unless queried explicitly
+  const levels = settings.logLevels.filter(level => ALL_LEVELS.includes(level));
+  if (levels.length) terms.push(`level:${levels.join(',')}`);
+
+  const sources = settings.logSources.map(source => source.trim()).filter(Boolean);
+  if (sources.length) terms.push(`source:${sources.join(',')}`);
+
+  const regex = settings.logFilterRegex.trim();
+  if (regex) terms.push(`/${regex.replace(/\\?\//g, match => (match.length === 2 ? match : '\\/'))}/i`);
+
+  return terms.join(' ');
+}
+
+export interface LogQueryState {
+  result: LogQueryResult | null;
+  error: string | null;
+  loading: boolean;
+  refresh: () => void;
+}
+
+/**
+ * Run a query and keep re-running it while `enabled` so new entries show up
+ */
+export function useLogQuery(query: string, page = 1, pageSize = 100, intervalMs = 2000, enabled = true): LogQueryState {
+  const [result, setResult] = useState<LogQueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const requestId = useRef(0);
+
+  const run = useCallback(async () => {
+    const id = ++requestId.current;
+    setLoading(true);
+    try {
+      const next = await backendApiService.queryLogs(query, page, pageSize);
+      if (id !== requestId.current) return;
+      setResult(next);
+      setError(null);
+    } catch (e) {
+      if (id !== requestId.current) return;
+      setError(e instanceof Error ? e.message : 'Query failed');
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, [query, page, pageSize]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    void run();
+    const timer = setInterval(() => void run(), intervalMs);
+    return () => {
+      clearInterval(timer);
+      // Drop responses for the previous query
+      requestId.current++;
+    };
+  }, [run, intervalMs, enabled]);
+
+  return { result, error, loading, refresh: run };
+}
@@ -3,9 +3,10 @@
  * Provides React integration for WebSocket real-time updates
  */
 
-import { useEffect, useCallback, useState } from 'react';
+import { useEffect, useCallback, useMemo, useState } from 'react';
 import { wsClient, MessageHandler } from '../services/wsClient';
-import type { PreviewUpdateEvent, PreviewBuildEvent, FileChangeEvent } from '../types';
+import type { PreviewUpdateEvent, PreviewBuildEvent, FileChangeEvent, SystemMetricsSample, CiLogChunk, CiRun, CiState } from '../types';
+import type { LogLine } from '../services/backendApiService';
 
 export interface UseWebSocketOptions<T> {
   /** Message type to subscribe to */
@@ -87,32 +88,81 @@ export function useWebSocket<T = unknown>(options: UseWebSocketOptions<T>) {
 }
 
 /**
- * Hook for subscribing to log streams
+ * Ask the server to push a topic once the socket is up (re-sent after reconnects)
+ */
+export function useTopicSubscription(topic: string, isConnected: boolean) {
+  useEffect(() => {
+    if (isConnected) wsClient.send('subscribe', { topic });
+  }, [topic, isConnected]);
+}
+
+/**
+ * Hook for subscribing to log streams (aggregated entries pushed on the `logs` topic)
  */
 export function useLogStream() {
-  return useWebSocket<{ level: string; message: string; timestamp: string }>({
+  const stream = useWebSocket<LogLine>({
     type: 'log',
     autoConnect: true,
   });
+  useTopicSubscription('logs', stream.isConnected);
+  return stream;
 }
 
 /**
- * Hook for subscribing to metrics updates
+ * Hook for subscribing to metrics updates (host samples pushed on the `metrics` topic)
  */
-export interface MetricsUpdate {
-  cpu: number;
-  memory: number;
-  temperature: number;
-  timestamp: string;
-}
+export type MetricsUpdate = SystemMetricsSample;
 
 export function useMetricsStream() {
   return useWebSocket<MetricsUpdate>({
-    type: 'metrics',
+    type: 'metric',
     autoConnect: true,
   });
 }
 
+/**
+ * Dashboard CI state for a run, matching what /v1/ci/status reports for it
+ */
+export function ciStateFromRun(run: CiRun, now = Date.now()): CiState {
+  const count = (...statuses: CiRun['steps'][number]['status'][]) =>
+    run.steps.filter((step) => statuses.includes(step.status)).length;
+  return {
+    build: {
+      durationMs: run.durationMs ?? now - Date.parse(run.startedAt),
+      cacheHitPct: null,
+      status: run.status === 'cancelled' ? 'fail' : run.status,
+    },
+    tests: {
+      ...(run.tests ?? { pass: count('pass'), fail: count('fail'), skip: count('skipped', 'cancelled'), flaky: 0 }),
+      lastRunAt: run.startedAt,
+    },
+    logsRef: run.id,
+    run,
+  };
+}
+
+/**
+ * Hook for CI progress pushed on the `ci` topic (`ci:run` updates and `ci:log` output)
+ */
+export function useCiStream(onLog?: (chunk: CiLogChunk) => void, onRun?: (run: CiRun) => void) {
+  const stream = useWebSocket<CiRun>({ type: 'ci:run', autoConnect: true, onMessage: onRun });
+  useWebSocket<CiLogChunk>({ type: 'ci:log', autoConnect: true, onMessage: onLog });
+  useTopicSubscription('ci', stream.isConnected);
+  return stream;
+}
+
+/**
+ * Polled CI state, replaced by pushed run updates that are at least as recent
+ */
+export function useLiveCiState(polled: CiState | null): CiState | null {
+  const { data: pushed } = useCiStream();
+  return useMemo(() => {
+    if (!pushed) return polled;
+    const polledRun = polled?.run;
+    return !polledRun || pushed.number >= polledRun.number ? ciStateFromRun(pushed) : polled;
+  }, [polled, pushed]);
+}
+
 /**
  * Hook for subscribing to command execution output
  */
@@ -1,11 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from "react";
 import { CiSummaryCard } from "../components/CiSummaryCard";
-import { CiState } from "../types";
+import { useCiStream } from "../hooks/useWebSocket";
+import { backendApiService } from "../services/backendApiService";
+import { CiArtifact, CiLogChunk, CiRun, CiState, CiStepResult, CiStepStatus, CiTestView, CiTestViewEntry } from "../types";
 
 interface CiPageProps {
   ciState: CiState | null;
 }
 
+const STATUS_CLASSES: Record<CiRun["status"] | CiStepStatus, string> = {
+  pending: "text-white/40",
+  running: "text-cyan",
+  pass: "text-green-400",
+  fail: "text-red-400",
+  skipped: "text-white/40",
+  cancelled: "text-warn",
+};
+
+const STATUS_LABELS: Record<CiRun["status"] | CiStepStatus, string> = {
+  pending: "Pending",
+  running: "Running",
+  pass: "Passed",
+  fail: "Failed",
+  skipped: "Skipped",
+  cancelled: "Cancelled",
+};
+
+const formatDuration = (ms?: number) => (ms === undefined ? "" : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const TEST_VIEWS: Array<{ view: CiTestView; label: string }> = [
+  { view: "failing", label: "Failing" },
+  { view: "flaky", label: "Flaky" },
+  { view: "slowest", label: "Slowest" },
+];
+
+const stepNote = (s: CiStepResult) =>
+  [
+    s.timedOut ? "timed out" : s.exitCode !== undefined && s.exitCode !== null && s.exitCode !== 0 ? `exit ${s.exitCode}` : "",
+    s.tests ? `${s.tests.pass}/${s.tests.pass + s.tests.fail} tests` : "",
+    s.quarantined?.length ? `${s.quarantined.length} quarantined` : "",
+    s.attempts && s.attempts > 1 ? `${s.attempts} attempts` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
 export function CiPage({ ciState }: CiPageProps) {
+  const [runs, setRuns] = useState<CiRun[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [step, setStep] = useState<string | null>(null);
+  const [logs, setLogs] = useState("");
+  const [artifacts, setArtifacts] = useState<CiArtifact[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const logRef = useRef<HTMLPreElement>(null);
+
+  const selected = runs.find((run) => run.id === selectedId) ?? runs[0] ?? null;
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setRuns(await backendApiService.getCiRuns());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load pipeline history");
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRuns();
+  }, [loadRuns]);
+
+  // Pushed run updates replace the listed copy, or start a new row
+  const onRun = useCallback((run: CiRun) => {
+    setRuns((current) =>
+      current.some((r) => r.id === run.id) ? current.map((r) => (r.id === run.id ? run : r)) : [run, ...current]
+    );
+  }, []);
+
+  const selectedRunId = selected?.id;
+  const onLog = useCallback(
+    (chunk: CiLogChunk) => {
+      if (chunk.runId === selectedRunId && (step === null || chunk.stepId === step)) {
+        setLogs((current) => current + chunk.chunk);
+      }
+    },
+    [selectedRunId, step]
+  );
+
+  useCiStream(onLog, onRun);
+
+  useEffect(() => {
+    if (!selectedRunId) return;
+    let cancelled = false;
+    backendApiService
+      .getCiLogs(selectedRunId, step ?? undefined)
+      .then((result) => {
+        if (!cancelled) setLogs(result.logs);
+      })
+      .catch(() => {
+        if (!cancelled) setLogs("");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRunId, step]);
+
+  // Steps store artifacts as they finish, so refetch when the selected run changes status
+  const selectedStatus = selected?.status;
+  useEffect(() => {
+    if (!selectedRunId) return;
+    let cancelled = false;
+    backendApiService
+      .getCiRunArtifacts(selectedRunId)
+      .then((result) => {
+        if (!cancelled) setArtifacts(result);
+      })
+      .catch(() => {
+        if (!cancelled) setArtifacts([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRunId, selectedStatus]);
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [logs]);
+
+  const cancel = async (run: CiRun) => {
+    try {
+      await backendApiService.cancelCiRun(run.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to cancel run");
+    }
+  };
+
+  const download = async (artifact: CiArtifact) => {
+    try {
+      const url = URL.createObjectURL(await backendApiService.downloadArtifact(artifact.id));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = artifact.name.split("/").pop() ?? artifact.id;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to download artifact");
+    }
+  };
+
   return (
     <div className="h-full overflow-y-auto px-6 py-4 scrollbar-thin scrollbar-thumb-hairline scrollbar-track-transparent">
       <div className="max-w-7xl mx-auto">
@@ -13,23 +156,120 @@ export function CiPage({ ciState }: CiPageProps) {
         {ciState ? (
           <div className="grid gap-4">
             <CiSummaryCard state={ciState} />
-            <div className="card-surface p-4">
-              <h3 className="text-lg font-semibold text-white mb-3">Pipeline History</h3>
-              <div className="space-y-2">
-                <div className="flex items-center justify-between p-3 bg-ink/40 rounded border border-hairline/50">
-                  <span className="text-white/70">Build #1426</span>
-                  <span className="text-cyan">Running</span>
-                </div>
-                <div className="flex items-center justify-between p-3 bg-ink/40 rounded border border-hairline/50">
-                  <span className="text-white/70">Build #1425</span>
-                  <span className="text-green-400">Passed</span>
-                </div>
-                <div className="flex items-center justify-between p-3 bg-ink/40 rounded border border-hairline/50">
-                  <span className="text-white/70">Build #1424</span>
-                  <span className="text-red-400">Failed</span>
+            {error && <p className="text-sm text-danger">{error}</p>}
+            <div className="grid gap-4 lg:grid-cols-[20rem_1fr]">
+              <div className="card-surface p-4">
+                <h3 className="text-lg font-semibold text-white mb-3">Pipeline History</h3>
+                <div className="space-y-2">
+                  {runs.length === 0 && <p className="text-sm text-white/40">No runs yet.</p>}
+                  {runs.map((run) => (
+                    <button
+                      key={run.id}
+                      onClick={() => {
+                        setSelectedId(run.id);
+                        setStep(null);
+                      }}
+                      className={`flex w-full items-center justify-between p-3 bg-ink/40 rounded border text-left ${
+                        run.id === selected?.id ? "border-cyan" : "border-hairline/50 hover:border-cyan/50"
+                      }`}
+                    >
+                      <span className="text-white/70">
+                        Build #{run.number}
+                        <span className="ml-2 text-xs text-white/40">{run.branch}</span>
+                      </span>
+                      <span className={STATUS_CLASSES[run.status]}>{STATUS_LABELS[run.status]}</span>
+                    </button>
+                  ))}
                 </div>
               </div>
+
+              {selected && (
+                <div className="card-surface p-4 min-w-0">
+                  <div className="flex items-center justify-between mb-3">
+                    <div>
+                      <h3 className="text-lg font-semibold text-white">
+                        Build #{selected.number} <span className="text-sm text-white/40">{selected.pipeline}</span>
+                      </h3>
+                      <p className="text-xs text-white/40">
+                        {new Date(selected.startedAt).toLocaleString()}
+                        {selected.trigger && ` · ${selected.trigger}`}
+                        {selected.commit && ` · ${selected.commit.slice(0, 8)}`}
+                        {selected.durationMs !== undefined && ` · ${formatDuration(selected.durationMs)}`}
+                      </p>
+                      {selected.coverage && (
+                        <p className="text-xs text-white/40">
+                          Coverage {selected.coverage.lines.pct}% lines · {selected.coverage.branches.pct}% branches ·{" "}
+                          {selected.coverage.functions.pct}% functions across {selected.coverage.files} files
+                          {selected.coverage.threshold > 0 && ` (threshold ${selected.coverage.threshold}%)`}
+                        </p>
+                      )}
+                      {selected.error && <p className="text-xs text-warn">{selected.error}</p>}
+                    </div>
+                    {selected.status === "running" && (
+                      <button
+                        onClick={() => void cancel(selected)}
+                        className="rounded border border-danger px-3 py-1 text-xs text-danger transition hover:bg-danger/10"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+
+                  <ul className="mb-3 space-y-1 text-sm">
+                    {selected.steps.map((s) => (
+                      <li key={s.id}>
+                        <button
+                          onClick={() => setStep(step === s.id ? null : s.id)}
+                          className={`flex w-full items-center gap-3 rounded px-2 py-1 text-left ${
+                            step === s.id ? "bg-cyan/10" : "hover:bg-white/5"
+                          }`}
+                        >
+                          <span className={`w-20 shrink-0 text-xs ${STATUS_CLASSES[s.status]}`}>{STATUS_LABELS[s.status]}</span>
+                          <span className="flex-1 truncate text-white/70" title={s.command}>
+                            {s.id}
+                          </span>
+                          <span className="text-xs text-white/40">{stepNote(s)}</span>
+                          <span className="w-14 text-right text-xs text-white/40">{formatDuration(s.durationMs)}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <pre
+                    ref={logRef}
+                    className="h-80 overflow-auto rounded border border-hairline/50 bg-ink/60 p-3 font-mono text-xs text-white/70 whitespace-pre-wrap scrollbar-thin"
+                  >
+                    {logs || "No output yet."}
+                  </pre>
+
+                  {artifacts.length > 0 && (
+                    <div className="mt-3">
+                      <h4 className="mb-1 text-xs uppercase tracking-[0.18em] text-white/50">Artifacts</h4>
+                      <ul className="space-y-1 text-sm">
+                        {artifacts
+                          .filter((artifact) => step === null || artifact.stepId === step)
+                          .map((artifact) => (
+                            <li key={artifact.id} className="flex items-center gap-3 rounded px-2 py-1 hover:bg-white/5">
+                              <span className="flex-1 truncate text-white/70" title={`sha256 ${artifact.sha256}`}>
+                                {artifact.name}
+                              </span>
+                              {artifact.encrypted && <span className="text-xs text-cyan">encrypted</span>}
+                              <span className="text-xs text-white/40">{formatSize(artifact.size)}</span>
+                              <button
+                                onClick={() => void download(artifact)}
+                                className="rounded border border-hairline px-2 py-0.5 text-xs text-white/70 transition hover:border-cyan hover:text-cyan"
+                              >
+                                Download
+                              </button>
+                            </li>
+                          ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
+            <TestsPanel refreshKey={runs.find((run) => run.status !== "running")?.id} />
           </div>
         ) : (
           <LoadingSkeleton />
@@ -39,6 +279,80 @@ export function CiPage({ ciState }: CiPageProps) {
   );
 }
 
+/**
+ * Test history across runs; reloads when another run finishes
+ */
+function TestsPanel({ refreshKey }: { refreshKey?: string }) {
+  const [view, setView] = useState<CiTestView>("failing");
+  const [tests, setTests] = useState<CiTestViewEntry[]>([]);
+  const [quarantined, setQuarantined] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    backendApiService
+      .getCiTests(view)
+      .then((result) => {
+        if (cancelled) return;
+        setTests(result.tests);
+        setQuarantined(result.quarantined ?? false);
+        setError(null);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load tests");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, refreshKey]);
+
+  const detail = (test: CiTestViewEntry) =>
+    "avgDurationMs" in test
+      ? `${formatDuration(test.avgDurationMs)} avg · ${formatDuration(test.maxDurationMs)} max`
+      : "streak" in test
+      ? `${test.streak} failing in a row`
+      : `${test.flips} flip${test.flips === 1 ? "" : "s"}${quarantined ? " · quarantined" : ""}`;
+
+  return (
+    <div className="card-surface p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">Tests</h3>
+        <div className="flex gap-1 text-xs">
+          {TEST_VIEWS.map((option) => (
+            <button
+              key={option.view}
+              onClick={() => setView(option.view)}
+              className={`rounded border px-2 py-1 transition ${
+                view === option.view ? "border-cyan text-cyan" : "border-hairline text-white/60 hover:border-cyan/50"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <p className="text-sm text-danger">{error}</p>}
+      {!error && tests.length === 0 && (
+        <p className="text-sm text-white/40">No tests to show. Add `reports` to a pipeline step to collect results.</p>
+      )}
+      <ul className="space-y-1 text-sm">
+        {tests.map((test) => (
+          <li key={test.id} className="flex items-center gap-3 rounded px-2 py-1 hover:bg-white/5">
+            <span className={`w-14 shrink-0 text-xs ${STATUS_CLASSES[test.lastStatus === "skip" ? "skipped" : test.lastStatus]}`}>
+              {test.lastStatus}
+            </span>
+            <span className="flex-1 truncate text-white/70" title={"message" in test ? test.message : test.file}>
+              <span className="text-white/40">{test.suite} › </span>
+              {test.name}
+            </span>
+            <span className="text-xs text-white/40">{detail(test)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 function LoadingSkeleton() {
   return (
     <div className="card-surface h-64 animate-pulse">
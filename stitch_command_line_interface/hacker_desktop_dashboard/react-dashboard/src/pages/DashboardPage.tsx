@@ -47,7 +47,7 @@ previewState,
           <MetricCard 
             title="Build Status" 
             icon={GitBranch}
-         accent={ciState.build.status === 'pass' ? 'green' : ciState.build.status === 'fail' ? 'danger' : 'warn'}
+         accent={ciState.build.status === 'pass' ? 'green' : ciState.build.status === 'fail' ? 'danger' : ciState.build.status === 'running' ? 'warn' : 'cyan'}
             loading={!ciState}
           >
          <div className="space-y-2">
@@ -65,8 +65,8 @@ previewState,
               />
     <MetricRow 
          label="Cache Hit" 
-         value={`${ciState.build.cacheHitPct}%`}
-     accent={ciState.build.cacheHitPct > 70 ? 'green' : 'warn'}
+         value={ciState.build.cacheHitPct === null ? 'n/a' : `${ciState.build.cacheHitPct}%`}
+     accent={ciState.build.cacheHitPct === null ? 'default' : ciState.build.cacheHitPct > 70 ? 'green' : 'warn'}
    />
        
               <div className="pt-2 border-t border-hairline mt-2">
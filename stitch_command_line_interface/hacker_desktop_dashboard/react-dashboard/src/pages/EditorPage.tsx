@@ -1,9 +1,37 @@
+import { useState } from "react";
 import { LiveCodeEditor } from "../components/LiveCodeEditor";
+import { DiffViewer } from "../components/DiffViewer";
+import { ConflictView } from "../components/ConflictView";
+import { SourceControlPanel, type SourceControlSelection } from "../components/SourceControlPanel";
 
 export function EditorPage() {
+  const [diffTarget, setDiffTarget] = useState<SourceControlSelection | null>(null);
+  const [revision, setRevision] = useState(0);
+
   return (
-    <div className="h-full overflow-hidden">
-      <LiveCodeEditor />
+    <div className="flex h-full overflow-hidden">
+      <div className="min-w-0 flex-1">
+        {diffTarget?.conflict ? (
+          <ConflictView
+            path={diffTarget.path}
+            onClose={() => setDiffTarget(null)}
+            onResolved={() => {
+              setDiffTarget(null);
+              setRevision((r) => r + 1);
+            }}
+          />
+        ) : diffTarget ? (
+          <DiffViewer
+            path={diffTarget.path}
+            staged={diffTarget.staged}
+            onClose={() => setDiffTarget(null)}
+            onChanged={() => setRevision((r) => r + 1)}
+          />
+        ) : (
+          <LiveCodeEditor />
+        )}
+      </div>
+      <SourceControlPanel selected={diffTarget} onSelect={setDiffTarget} revision={revision} />
     </div>
   );
 }
@@ -1,6 +1,62 @@
+import { useCallback, useState } from "react";
 import { NetworkCard } from "../components/NetworkCard";
+import { backendApiService } from "../services/backendApiService";
+import { usePolling } from "../hooks/usePolling";
+import { config } from "../config";
+
+const PAGE_SIZE = 25;
+const STATE_OPTIONS = ["", "ESTABLISHED", "LISTEN", "TIME_WAIT", "CLOSE_WAIT", "SYN_SENT", "UNCONN"];
+
+function stateClass(state: string) {
+  if (state === "ESTABLISHED") return "text-green-400";
+  if (state === "LISTEN" || state === "UNCONN") return "text-cyan";
+  if (state === "TIME_WAIT" || state === "CLOSE_WAIT") return "text-yellow-400";
+  return "text-white/70";
+}
+
+function formatRate(kbPerSec: number | null | undefined) {
+  if (kbPerSec === null || kbPerSec === undefined) return "n/a";
+  return kbPerSec >= 1024 ? `${(kbPerSec / 1024).toFixed(1)} MB/s` : `${kbPerSec.toFixed(1)} KB/s`;
+}
 
 export function NetworkPage() {
+  const [state, setState] = useState("");
+  const [port, setPort] = useState("");
+  const [processFilter, setProcessFilter] = useState("");
+  const [page, setPage] = useState(1);
+
+  const fetchConnections = useCallback(async () => {
+    try {
+      const parsedPort = parseInt(port, 10);
+      return await backendApiService.getNetworkConnections({
+        state: state ? [state] : undefined,
+        port: Number.isNaN(parsedPort) ? undefined : parsedPort,
+        process: processFilter || undefined,
+        page,
+        pageSize: PAGE_SIZE,
+      });
+    } catch {
+      return null;
+    }
+  }, [state, port, processFilter, page]);
+
+  const fetchThroughput = useCallback(async () => {
+    try {
+      return (await backendApiService.getSystemMetrics()).network;
+    } catch {
+      return null;
+    }
+  }, []);
+
+  const result = usePolling(fetchConnections, config.polling.system);
+  const throughput = usePolling(fetchThroughput, config.polling.system);
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / PAGE_SIZE)) : 1;
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
   return (
     <div className="h-full overflow-y-auto px-6 py-4 scrollbar-thin scrollbar-thumb-hairline scrollbar-track-transparent">
       <div className="max-w-7xl mx-auto">
@@ -8,7 +64,35 @@ export function NetworkPage() {
         <div className="grid gap-4">
           <NetworkCard />
           <div className="card-surface p-4">
-            <h3 className="text-lg font-semibold text-white mb-3">Active Connections</h3>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <h3 className="text-lg font-semibold text-white">Active Connections</h3>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <select
+                  value={state}
+                  onChange={(e) => updateFilter(setState)(e.target.value)}
+                  className="rounded border border-hairline bg-ink px-2 py-1 text-white/80"
+                  aria-label="Filter by state"
+                >
+                  {STATE_OPTIONS.map((option) => (
+                    <option key={option} value={option}>{option || "All states"}</option>
+                  ))}
+                </select>
+                <input
+                  value={port}
+                  onChange={(e) => updateFilter(setPort)(e.target.value.replace(/\D/g, ""))}
+                  placeholder="Port"
+                  className="w-20 rounded border border-hairline bg-ink px-2 py-1 text-white/80"
+                  aria-label="Filter by port"
+                />
+                <input
+                  value={processFilter}
+                  onChange={(e) => updateFilter(setProcessFilter)(e.target.value)}
+                  placeholder="Process"
+                  className="w-32 rounded border border-hairline bg-ink px-2 py-1 text-white/80"
+                  aria-label="Filter by process"
+                />
+              </div>
+            </div>
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead className="border-b border-hairline/50">
@@ -16,50 +100,68 @@ export function NetworkPage() {
                     <th className="text-left py-2 text-white/50">Local Address</th>
                     <th className="text-left py-2 text-white/50">Remote Address</th>
                     <th className="text-left py-2 text-white/50">State</th>
+                    <th className="text-left py-2 text-white/50">Process</th>
+                    <th className="text-right py-2 text-white/50">PID</th>
                     <th className="text-right py-2 text-white/50">Protocol</th>
                   </tr>
                 </thead>
                 <tbody className="text-white/70">
-                  <tr className="border-b border-hairline/30">
-                    <td className="py-2">127.0.0.1:5173</td>
-                    <td className="py-2">127.0.0.1:54321</td>
-                    <td className="py-2"><span className="text-green-400">ESTABLISHED</span></td>
-                    <td className="text-right">TCP</td>
-                  </tr>
-                  <tr className="border-b border-hairline/30">
-                    <td className="py-2">192.168.1.100:443</td>
-                    <td className="py-2">93.184.216.34:443</td>
-                    <td className="py-2"><span className="text-green-400">ESTABLISHED</span></td>
-                    <td className="text-right">TCP</td>
-                  </tr>
-                  <tr className="border-b border-hairline/30">
-                    <td className="py-2">192.168.1.100:80</td>
-                    <td className="py-2">10.0.0.1:80</td>
-                    <td className="py-2"><span className="text-yellow-400">TIME_WAIT</span></td>
-                    <td className="text-right">TCP</td>
-                  </tr>
-                  <tr className="border-b border-hairline/30">
-                    <td className="py-2">0.0.0.0:8080</td>
-                    <td className="py-2">*:*</td>
-                    <td className="py-2"><span className="text-cyan">LISTENING</span></td>
-                    <td className="text-right">TCP</td>
-                  </tr>
+                  {result?.connections.map((conn) => (
+                    <tr key={conn.id} className="border-b border-hairline/30">
+                      <td className="py-2 font-mono text-xs">{conn.localAddress}</td>
+                      <td className="py-2 font-mono text-xs">{conn.remoteAddress}</td>
+                      <td className="py-2"><span className={stateClass(conn.state)}>{conn.state}</span></td>
+                      <td className="py-2">{conn.process ?? <span className="text-white/30">unknown</span>}</td>
+                      <td className="text-right">{conn.pid ?? "–"}</td>
+                      <td className="text-right">{conn.family === "IPv6" ? `${conn.protocol}6` : conn.protocol}</td>
+                    </tr>
+                  ))}
+                  {result && result.connections.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="py-4 text-center text-white/40">No matching connections</td>
+                    </tr>
+                  )}
+                  {!result && (
+                    <tr>
+                      <td colSpan={6} className="py-4 text-center text-white/40">Connection table unavailable</td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
+            <div className="mt-3 flex items-center justify-between text-xs text-white/50">
+              <span>{result ? `${result.total} sockets` : ""}</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page <= 1}
+                  className="rounded border border-hairline px-2 py-1 transition hover:border-cyan hover:text-cyan disabled:opacity-40"
+                >
+                  Prev
+                </button>
+                <span>Page {page} / {pageCount}</span>
+                <button
+                  onClick={() => setPage((p) => Math.min(pageCount, p + 1))}
+                  disabled={page >= pageCount}
+                  className="rounded border border-hairline px-2 py-1 transition hover:border-cyan hover:text-cyan disabled:opacity-40"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="card-surface p-4">
               <h4 className="text-white/50 text-xs uppercase mb-2">Download</h4>
-              <p className="text-2xl font-semibold text-cyan">1.2 MB/s</p>
+              <p className="text-2xl font-semibold text-cyan">{formatRate(throughput?.rx)}</p>
             </div>
             <div className="card-surface p-4">
               <h4 className="text-white/50 text-xs uppercase mb-2">Upload</h4>
-              <p className="text-2xl font-semibold text-cyan">384 KB/s</p>
+              <p className="text-2xl font-semibold text-cyan">{formatRate(throughput?.tx)}</p>
             </div>
             <div className="card-surface p-4">
-              <h4 className="text-white/50 text-xs uppercase mb-2">Latency</h4>
-              <p className="text-2xl font-semibold text-green-400">12 ms</p>
+              <h4 className="text-white/50 text-xs uppercase mb-2">Matching Sockets</h4>
+              <p className="text-2xl font-semibold text-green-400">{result?.total ?? "n/a"}</p>
             </div>
           </div>
         </div>
@@ -1,4 +1,10 @@
+import { useCallback } from "react";
+import { Cpu, MemoryStick, Network } from "lucide-react";
 import { SystemCard } from "../components/SystemCard";
+import { MetricCard, MetricRow } from "../components/MetricCard";
+import { backendApiService } from "../services/backendApiService";
+import { usePolling } from "../hooks/usePolling";
+import type { MetricsSeriesPoint, SystemMetricsSample } from "../types";
 
 type Metric = {
   label: string;
@@ -8,9 +14,56 @@ type Metric = {
 
 interface SystemPageProps {
   systemMetrics: Metric[] | null;
+  systemSample: SystemMetricsSample | null;
 }
 
-export function SystemPage({ systemMetrics }: SystemPageProps) {
+function formatMb(mb: number | null) {
+  if (mb === null) return "n/a";
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${mb} MB`;
+}
+
+function formatRate(kbPerSec: number | null) {
+  if (kbPerSec === null) return "n/a";
+  return kbPerSec >= 1024 ? `${(kbPerSec / 1024).toFixed(1)} MB/s` : `${kbPerSec.toFixed(1)} KB/s`;
+}
+
+const TREND_SERIES = ["cpu.usage", "memory.usedPct", "network.rx", "network.tx"];
+const TREND_REFRESH_MS = 10000;
+
+function summarize(points: MetricsSeriesPoint[] | undefined) {
+  if (!points || points.length === 0) return null;
+  return {
+    avg: points.reduce((sum, p) => sum + p.avg * p.count, 0) / points.reduce((sum, p) => sum + p.count, 0),
+    max: Math.max(...points.map((p) => p.max)),
+  };
+}
+
+export function SystemPage({ systemMetrics, systemSample }: SystemPageProps) {
+  const perCore = systemSample?.cpu.perCore ?? [];
+  const memory = systemSample?.memory;
+
+  // Last 30 minutes at 10s resolution for trend sparklines
+  const fetchHistory = useCallback(async () => {
+    try {
+      return await backendApiService.getSystemMetricsHistory({
+        series: TREND_SERIES,
+        from: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
+        step: "10s",
+      });
+    } catch {
+      return null;
+    }
+  }, []);
+  const history = usePolling(fetchHistory, TREND_REFRESH_MS);
+
+  const cpuPoints = history?.series["cpu.usage"];
+  const memPoints = history?.series["memory.usedPct"];
+  const rxPoints = history?.series["network.rx"];
+  const txPoints = history?.series["network.tx"];
+  const cpuSummary = summarize(cpuPoints);
+  const memSummary = summarize(memPoints);
+  const rxSummary = summarize(rxPoints);
+
   return (
     <div className="h-full overflow-y-auto px-6 py-4 scrollbar-thin scrollbar-thumb-hairline scrollbar-track-transparent">
       <div className="max-w-7xl mx-auto">
@@ -18,26 +71,34 @@ export function SystemPage({ systemMetrics }: SystemPageProps) {
         {systemMetrics ? (
           <div className="grid gap-4">
             <SystemCard metrics={systemMetrics} />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <MetricCard title="CPU Trend" icon={Cpu} trend={cpuPoints?.map((p) => p.avg)} loading={!history}>
+                <MetricRow label="Avg (30m)" value={cpuSummary ? `${cpuSummary.avg.toFixed(1)}%` : "n/a"} accent="cyan" />
+                <MetricRow label="Peak (30m)" value={cpuSummary ? `${cpuSummary.max.toFixed(1)}%` : "n/a"} accent={cpuSummary && cpuSummary.max > 90 ? "warn" : "default"} />
+              </MetricCard>
+              <MetricCard title="Memory Trend" icon={MemoryStick} trend={memPoints?.map((p) => p.avg)} loading={!history}>
+                <MetricRow label="Avg (30m)" value={memSummary ? `${memSummary.avg.toFixed(1)}%` : "n/a"} accent="cyan" />
+                <MetricRow label="Peak (30m)" value={memSummary ? `${memSummary.max.toFixed(1)}%` : "n/a"} />
+              </MetricCard>
+              <MetricCard title="Network Trend" icon={Network} trend={rxPoints?.map((p) => p.avg)} loading={!history}>
+                <MetricRow label="RX avg" value={rxSummary ? formatRate(rxSummary.avg) : "n/a"} accent="cyan" />
+                <MetricRow
+                  label="TX peak"
+                  value={txPoints && txPoints.length > 0 ? formatRate(Math.max(...txPoints.map((p) => p.max))) : "n/a"}
+                />
+              </MetricCard>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="card-surface p-4">
                 <h3 className="text-lg font-semibold text-white mb-3">CPU Usage</h3>
                 <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-white/70">Core 1</span>
-                    <span className="text-cyan">45%</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-white/70">Core 2</span>
-                    <span className="text-cyan">38%</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-white/70">Core 3</span>
-                    <span className="text-cyan">52%</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-white/70">Core 4</span>
-                    <span className="text-cyan">41%</span>
-                  </div>
+                  {perCore.length === 0 && <p className="text-sm text-white/50">No per-core data available</p>}
+                  {perCore.map((usage, index) => (
+                    <div key={index} className="flex justify-between text-sm">
+                      <span className="text-white/70">Core {index + 1}</span>
+                      <span className="text-cyan">{usage === null ? "n/a" : `${Math.round(usage)}%`}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
               <div className="card-surface p-4">
@@ -45,23 +106,36 @@ export function SystemPage({ systemMetrics }: SystemPageProps) {
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-white/70">Used</span>
-                    <span className="text-cyan">8.2 GB</span>
+                    <span className="text-cyan">{formatMb(memory?.used ?? null)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-white/70">Cached</span>
-                    <span className="text-cyan">4.1 GB</span>
+                    <span className="text-cyan">{formatMb(memory?.cached ?? null)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-white/70">Available</span>
-                    <span className="text-green-400">7.8 GB</span>
+                    <span className="text-green-400">{formatMb(memory?.available ?? null)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-white/70">Total</span>
-                    <span className="text-white/90">16 GB</span>
+                    <span className="text-white/90">{formatMb(memory?.total ?? null)}</span>
                   </div>
                 </div>
               </div>
             </div>
+            <div className="card-surface p-4">
+              <h3 className="text-lg font-semibold text-white mb-3">Network Throughput</h3>
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-white/70">Receive</span>
+                  <span className="text-cyan">{formatRate(systemSample?.network.rx ?? null)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-white/70">Transmit</span>
+                  <span className="text-cyan">{formatRate(systemSample?.network.tx ?? null)}</span>
+                </div>
+              </div>
+            </div>
             <div className="card-surface p-4">
               <h3 className="text-lg font-semibold text-white mb-3">Top Processes</h3>
               <div className="overflow-x-auto">
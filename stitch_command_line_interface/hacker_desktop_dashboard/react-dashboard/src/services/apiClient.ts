@@ -88,7 +88,8 @@ export class ApiClient {
       const data = await response.json();
       return {
         code: data.error?.code || 'UNKNOWN_ERROR',
-        message: data.error?.message || response.statusText,
+        // /api routes report `{ success: false, error: 'message' }`
+        message: (typeof data.error === 'string' ? data.error : data.error?.message) || response.statusText,
         details: data.error?.details,
         status: response.status,
       };
@@ -316,7 +317,33 @@ export class ApiClient {
     }
     return response.data!;
   }
+
+  /**
+   * GET a binary body (file downloads); not retried since bodies can be large
+   */
+  async download(endpoint: string, options?: { signal?: AbortSignal }): Promise<Blob> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseURL}${endpoint}`, {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        signal: options?.signal,
+      });
+    } catch (err) {
+      throw new ApiClientError('NETWORK_ERROR', (err as Error).message, 0);
+    }
+    if (!response.ok) {
+      const error = await this.parseError(response);
+      throw new ApiClientError(error.code, error.message, error.status, error.details);
+    }
+    return await response.blob();
+  }
 }
 
 // Singleton instance
 export const apiClient = new ApiClient();
+
+// Developer-protected /api routes (IDE, git) are served beside /v1 on the same host
+export const ideApiClient = new ApiClient({
+  baseURL: `${(import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/v1').replace(/\/v1\/?$/, '')}/api`,
+});
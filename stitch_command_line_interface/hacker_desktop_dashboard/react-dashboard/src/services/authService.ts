@@ -3,7 +3,7 @@
  * Handles user authentication, token management, and session storage
  */
 
-import { apiClient, ApiClientError } from './apiClient';
+import { apiClient, ideApiClient, ApiClientError } from './apiClient';
 
 export interface LoginCredentials {
   username: string;
@@ -36,6 +36,7 @@ class AuthService {
     const token = this.getStoredToken();
     if (token && !this.isTokenExpired()) {
       apiClient.setToken(token);
+      ideApiClient.setToken(token);
       this.startTokenExpiryCheck();
     } else {
       this.clearAuth();
@@ -52,6 +53,7 @@ class AuthService {
       // Store token and expiry
       this.storeToken(response.token, response.expiresAt);
       apiClient.setToken(response.token);
+      ideApiClient.setToken(response.token);
       
       // Fetch user profile
       const user = await this.fetchUserProfile();
@@ -93,6 +95,7 @@ class AuthService {
       const response = await apiClient.post<AuthToken>('/auth/refresh');
       this.storeToken(response.token, response.expiresAt);
       apiClient.setToken(response.token);
+      ideApiClient.setToken(response.token);
     } catch (error) {
       console.error('Token refresh failed:', error);
       this.clearAuth();
@@ -179,6 +182,7 @@ class AuthService {
     localStorage.removeItem(TOKEN_EXPIRY_KEY);
     localStorage.removeItem(USER_STORAGE_KEY);
     apiClient.setToken(null);
+    ideApiClient.setToken(null);
     this.stopTokenExpiryCheck();
   }
 
@@ -4,7 +4,7 @@
  */
 
 import { apiClient } from './apiClient';
-import type { PreviewMode, PreviewState, CiState, SecState } from '../types';
+import type { PreviewMode, PreviewState, CiState, CiRun, CiArtifact, CiTestExecution, CiTestView, CiTestViewEntry, CiRunCoverage, CoverageTotals, FileLineCoverage, TestCounts, SecState, SystemMetricsSample, MetricsHistory } from '../types';
 
 export interface Metric {
   label: string;
@@ -18,15 +18,108 @@ export interface LogLine {
   tag: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
   message: string;
   timestamp: string;
+  source?: string;
+  stream?: 'stdout' | 'stderr';
+  fields?: Record<string, unknown>;
+}
+
+export interface RedactionSettings {
+  logRedactSecrets: boolean;
+  secretRedaction: boolean;
+  llmExcludeSecrets: boolean;
+  customPatterns: string[];
+}
+
+export interface CiSyncedSettings {
+  ciAutoRetryCount: number;
+  ciQuarantineFlaky: boolean;
+  coverageThreshold: number;
+}
+
+export interface RedactionAudit {
+  total: number;
+  byScope: Record<string, number>;
+  byDetector: Record<string, number>;
+  recent: Array<{
+    id: number;
+    scope: 'logs' | 'execution' | 'websocket' | 'llm';
+    context?: string;
+    count: number;
+    detectors: Record<string, number>;
+    timestamp: string;
+  }>;
+}
+
+export interface LogQueryResult {
+  query: string;
+  logs: LogLine[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: {
+    level: Record<string, number>;
+    source: Record<string, number>;
+  };
 }
 
 export interface NetworkFlow {
   id: string;
   app: string;
+  pid?: number | null;
   dest: string;
+  port?: number;
+  protocol?: 'TCP' | 'UDP';
   status: 'allow' | 'watch' | 'block';
-  bytesTotal: number;
+  connections?: number;
+  bytesIn?: number | null;
+  bytesOut?: number | null;
+  bytesTotal: number | null;
   startedAt: string;
+  lastSeen?: string;
+  endedAt?: string | null;
+}
+
+export interface NetworkFlowEvent {
+  event: 'open' | 'close' | 'status';
+  flow: NetworkFlow;
+}
+
+export interface NetworkPolicyRule {
+  id: string;
+  process?: string;
+  destination?: string;
+  port?: number;
+  action: 'allow' | 'watch' | 'block';
+  priority: number;
+  enabled: boolean;
+  source: 'user' | 'settings';
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NetworkConnection {
+  id: string;
+  protocol: 'TCP' | 'UDP';
+  family: 'IPv4' | 'IPv6';
+  localAddress: string;
+  localPort: number;
+  remoteAddress: string;
+  remotePort: number;
+  state: string;
+  pid: number | null;
+  process: string | null;
+  uid: number;
+  inode: number;
+}
+
+export interface NetworkConnectionQuery {
+  state?: string[];
+  port?: number;
+  process?: string;
+  protocol?: 'tcp' | 'udp';
+  page?: number;
+  pageSize?: number;
 }
 
 export interface Notification {
@@ -82,19 +175,91 @@ class BackendApiService {
   }
 
   /**
-   * Get CI logs for a specific ref
+   * Get CI logs for a run, or one of its steps
    */
-  async getCiLogs(ref: string): Promise<{ ref: string; logs: string; artifacts: string[] }> {
-    return await apiClient.get(`/ci/logs/${ref}`);
+  async getCiLogs(ref: string, step?: string): Promise<{ ref: string; status: CiRun['status']; logs: string; artifacts: CiArtifact[] }> {
+    const query = step ? `?step=${encodeURIComponent(step)}` : '';
+    return await apiClient.get(`/ci/logs/${encodeURIComponent(ref)}${query}`);
   }
 
   /**
    * Trigger CI pipeline run
    */
-  async triggerCiRun(): Promise<{ success: boolean; runId: string }> {
+  async triggerCiRun(): Promise<{ success: boolean; runId: string; run: CiRun }> {
     return await apiClient.post('/ci/run');
   }
 
+  /**
+   * Recent pipeline runs, newest first
+   */
+  async getCiRuns(limit = 20): Promise<CiRun[]> {
+    return (await apiClient.get<{ runs: CiRun[] }>(`/ci/runs?limit=${limit}`)).runs;
+  }
+
+  /**
+   * Cancel the run in progress
+   */
+  async cancelCiRun(ref: string): Promise<{ success: boolean; runId: string; status: CiRun['status'] }> {
+    return await apiClient.post(`/ci/runs/${encodeURIComponent(ref)}/cancel`);
+  }
+
+  /**
+   * Test results a run recorded, per step attempt
+   */
+  async getCiRunTests(ref: string): Promise<{ runId: string; counts: TestCounts | null; tests: CiTestExecution[] }> {
+    return await apiClient.get(`/ci/runs/${encodeURIComponent(ref)}/tests`);
+  }
+
+  /**
+   * Artifacts a run stored
+   */
+  async getCiRunArtifacts(ref: string): Promise<CiArtifact[]> {
+    return (await apiClient.get<{ artifacts: CiArtifact[] }>(`/ci/runs/${encodeURIComponent(ref)}/artifacts`)).artifacts;
+  }
+
+  /**
+   * Artifact content, decrypted by the backend when stored encrypted
+   */
+  async downloadArtifact(id: string): Promise<Blob> {
+    return await apiClient.download(`/artifacts/${encodeURIComponent(id)}/download`);
+  }
+
+  /**
+   * Push the artifact retention and encryption settings to the artifact store
+   */
+  async syncArtifactSettings(settings: { artifactRetentionDays: number; artifactEncryption: boolean }): Promise<{ settings: { retentionDays: number; encryption: boolean } }> {
+    return await apiClient.put('/artifacts/settings', settings);
+  }
+
+  /**
+   * Slowest, currently failing or flaky tests across recent runs
+   */
+  async getCiTests<V extends CiTestView>(view: V, limit = 20): Promise<{ tests: CiTestViewEntry<V>[]; quarantined?: boolean }> {
+    return await apiClient.get(`/ci/tests/${view}?limit=${limit}`);
+  }
+
+  /**
+   * Push the retry, quarantine and coverage threshold settings to the pipeline runner
+   */
+  async syncCiSettings(settings: CiSyncedSettings): Promise<{ settings: { autoRetryCount: number; quarantineFlaky: boolean; coverageThreshold: number } }> {
+    return await apiClient.put('/ci/settings', settings);
+  }
+
+  /**
+   * Per-file coverage of a run, the latest one with coverage by default
+   */
+  async getCiCoverage(ref?: string): Promise<{ runId: string; totals: CiRunCoverage; files: Array<CoverageTotals & { file: string }> }> {
+    return await apiClient.get(`/ci/coverage${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`);
+  }
+
+  /**
+   * Covered and uncovered lines of one workspace file
+   */
+  async getCiFileCoverage(path: string, ref?: string): Promise<FileLineCoverage> {
+    const query = `path=${encodeURIComponent(path)}${ref ? `&ref=${encodeURIComponent(ref)}` : ''}`;
+    return await apiClient.get(`/ci/coverage?${query}`);
+  }
+
   /**
    * Get security state
    */
@@ -112,41 +277,108 @@ class BackendApiService {
   /**
    * Get system metrics
    */
-  async getSystemMetrics(): Promise<{
-    cpu: { usage: number; cores: number; temperature: number };
-    memory: { used: number; total: number; unit: string };
-    battery: { charging: boolean; percentage: number; timeRemaining: number | null };
-    network: { rx: number; tx: number; unit: string };
-  }> {
+  async getSystemMetrics(): Promise<SystemMetricsSample> {
     return await apiClient.get('/system/metrics');
   }
 
+  /**
+   * Get downsampled metrics history (step such as "10s", "1m", "5m")
+   */
+  async getSystemMetricsHistory(options: { series?: string[]; from?: string; to?: string; step?: string } = {}): Promise<MetricsHistory> {
+    const params = new URLSearchParams();
+    if (options.series?.length) params.append('series', options.series.join(','));
+    if (options.from) params.append('from', options.from);
+    if (options.to) params.append('to', options.to);
+    if (options.step) params.append('step', options.step);
+    const query = params.toString();
+    return await apiClient.get(`/system/metrics/history${query ? `?${query}` : ''}`);
+  }
+
   /**
    * Get network flows
    */
-  async getNetworkFlows(): Promise<{ flows: NetworkFlow[] }> {
-    return await apiClient.get('/network/flows');
+  async getNetworkFlows(state: 'active' | 'closed' | 'all' = 'active'): Promise<{ flows: NetworkFlow[] }> {
+    return await apiClient.get(`/network/flows?state=${state}`);
+  }
+
+  /**
+   * Get the host socket table (filtered and paginated)
+   */
+  async getNetworkConnections(query: NetworkConnectionQuery = {}): Promise<{
+    connections: NetworkConnection[];
+    total: number;
+    page: number;
+    pageSize: number;
+  }> {
+    const params = new URLSearchParams();
+    if (query.state?.length) params.append('state', query.state.join(','));
+    if (query.port !== undefined) params.append('port', query.port.toString());
+    if (query.process) params.append('process', query.process);
+    if (query.protocol) params.append('protocol', query.protocol);
+    if (query.page) params.append('page', query.page.toString());
+    if (query.pageSize) params.append('pageSize', query.pageSize.toString());
+    const qs = params.toString();
+    return await apiClient.get(`/network/connections${qs ? `?${qs}` : ''}`);
   }
 
   /**
    * Block a specific network flow
    */
-  async blockNetworkFlow(flowId: string): Promise<{ success: boolean; flowId: string; blockedAt: string }> {
+  async blockNetworkFlow(flowId: string): Promise<{ success: boolean; flowId: string; blockedAt: string; rule: NetworkPolicyRule }> {
     return await apiClient.post(`/network/flows/${flowId}/block`);
   }
 
   /**
-   * Get console logs
+   * Get network policy rules and the active enforcement backend
+   */
+  async getNetworkPolicy(): Promise<{ defaultAction: NetworkPolicyRule['action']; backend: string; rules: NetworkPolicyRule[] }> {
+    return await apiClient.get('/network/policy');
+  }
+
+  /**
+   * Replace the policy rules derived from the hostAllowlist/hostDenylist settings
    */
-  async getConsoleLogs(limit = 100, since?: string): Promise<{ logs: LogLine[] }> {
+  async syncPolicyHostLists(allow: string[], deny: string[]): Promise<{ rules: NetworkPolicyRule[] }> {
+    return await apiClient.put('/network/policy/host-lists', { allow, deny });
+  }
+
+  /**
+   * Push the secret redaction settings to the backend
+   */
+  async syncRedactionSettings(settings: RedactionSettings): Promise<{ settings: RedactionSettings }> {
+    return await apiClient.put('/security/redaction', settings);
+  }
+
+  /**
+   * Redaction counts per scope and detector
+   */
+  async getRedactionAudit(limit = 100): Promise<RedactionAudit> {
+    return await apiClient.get<RedactionAudit>(`/security/redaction/audit?limit=${limit}`);
+  }
+
+  /**
+   * Get console logs; `since` is the id of the last entry already seen, `next` the cursor to pass back
+   */
+  async getConsoleLogs(limit = 100, since?: number): Promise<{ logs: LogLine[]; since: number | null; next: number | null }> {
     const params = new URLSearchParams();
     params.append('limit', limit.toString());
-    if (since) {
-      params.append('since', since);
+    if (since !== undefined) {
+      params.append('since', since.toString());
     }
     return await apiClient.get(`/logs/stream?${params.toString()}`);
   }
 
+  /**
+   * Search buffered logs with the console query language (newest first)
+   */
+  async queryLogs(q: string, page = 1, pageSize = 100): Promise<LogQueryResult> {
+    const params = new URLSearchParams();
+    params.append('q', q);
+    params.append('page', page.toString());
+    params.append('pageSize', pageSize.toString());
+    return await apiClient.get<LogQueryResult>(`/logs/query?${params.toString()}`);
+  }
+
   /**
    * Get editor status
    */
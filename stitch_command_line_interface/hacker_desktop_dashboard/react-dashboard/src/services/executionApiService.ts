@@ -0,0 +1,69 @@
+/**
+ * Execution API Service
+ * Runs code to completion through the developer-protected /api/execute routes and syncs the
+ * sandbox's network access setting
+ */
+
+import { ideApiClient } from './apiClient';
+
+export interface TypeScriptDiagnostic {
+  line: number;
+  column: number;
+  code: number;
+  category: 'error' | 'warning' | 'suggestion' | 'message';
+  message: string;
+}
+
+export interface CodeExecutionRequest {
+  code: string;
+  language: string;
+  timeout?: number;
+  input?: string;
+  /** Report TypeScript type errors next to the output */
+  typeCheck?: boolean;
+  /** Workspace directory relative imports resolve from */
+  workingDirectory?: string;
+}
+
+export type NetworkAccess = 'off' | 'internal-only' | 'full';
+
+export interface ExecutionSettings {
+  networkAccess: NetworkAccess;
+  /** The backend's SANDBOX_NETWORK_ACCESS, which networkAccess cannot exceed */
+  maxNetworkAccess: NetworkAccess;
+}
+
+export interface CodeExecutionResult {
+  id: string;
+  language: string;
+  sandbox: 'isolate' | 'container';
+  status: 'running' | 'completed' | 'error' | 'timeout' | 'cancelled';
+  output: string;
+  error?: string;
+  exitCode: number;
+  runtime: number;
+  memoryUsed: number;
+  diagnostics?: TypeScriptDiagnostic[];
+}
+
+/**
+ * `main.ts:3:7 error TS2322: ...`
+ */
+export function formatDiagnostic(diagnostic: TypeScriptDiagnostic): string {
+  return `main.ts:${diagnostic.line}:${diagnostic.column} ${diagnostic.category} TS${diagnostic.code}: ${diagnostic.message}`;
+}
+
+class ExecutionApiService {
+  async execute(request: CodeExecutionRequest): Promise<CodeExecutionResult> {
+    return (await ideApiClient.post<{ success: boolean; executionId: string; result: CodeExecutionResult }>('/execute', request)).result;
+  }
+
+  /**
+   * Push the networkAccess setting that gates fetch in JavaScript and TypeScript runs
+   */
+  async syncSettings(settings: Pick<ExecutionSettings, 'networkAccess'>): Promise<ExecutionSettings> {
+    return (await ideApiClient.put<{ success: boolean; data: ExecutionSettings }>('/execute/settings', settings)).data;
+  }
+}
+
+export const executionApiService = new ExecutionApiService();
@@ -0,0 +1,307 @@
+/**
+ * Git API Service
+ * Source control operations against the developer-protected /api/git routes
+ */
+
+import { ideApiClient } from './apiClient';
+
+export interface GitFileStatus {
+  path: string;
+  status: 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'untracked' | 'conflicted';
+  staged: boolean;
+}
+
+export interface GitStatus {
+  current: string;
+  tracking?: string;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+export interface GitFileDiff {
+  file: string;
+  changes: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface GitDiffLine {
+  type: 'context' | 'add' | 'del';
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+  noNewline?: boolean;
+}
+
+export interface GitDiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section?: string;
+  lines: GitDiffLine[];
+}
+
+export interface GitParsedDiffFile {
+  path: string;
+  oldPath: string;
+  newPath: string;
+  status: 'modified' | 'added' | 'deleted' | 'renamed' | 'copied';
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  headers: string[];
+  hunks: GitDiffHunk[];
+}
+
+/**
+ * A hunk by index, optionally narrowed to line indices; `header` rejects stale selections
+ */
+export interface GitHunkSelection {
+  index: number;
+  lines?: number[];
+  header?: string;
+}
+
+export type GitHunkAction = 'stage' | 'unstage' | 'discard';
+
+export interface GitCommit {
+  hash: string;
+  date: string;
+  message: string;
+  author: string;
+  email: string;
+}
+
+export interface GitBlameLine {
+  line: number;
+  content: string;
+  hash: string;
+  originalLine: number;
+  originalPath?: string;
+  author: string;
+  email: string;
+  date: string;
+  summary: string;
+  uncommitted: boolean;
+}
+
+export interface GitFileHistoryEntry {
+  hash: string;
+  parents: string[];
+  author: string;
+  email: string;
+  date: string;
+  message: string;
+  path: string;
+  oldPath?: string;
+  status: string;
+}
+
+export interface GitCommitDetails extends GitCommit {
+  parents: string[];
+  body: string;
+  files: Array<{ path: string; oldPath?: string; additions: number; deletions: number; binary: boolean }>;
+  stats: { files: number; additions: number; deletions: number };
+}
+
+export interface GitGraphNode {
+  hash: string;
+  parents: string[];
+  author: string;
+  date: string;
+  message: string;
+  refs: { head: boolean; branches: string[]; tags: string[] };
+  lane: number;
+  parentLanes: number[];
+}
+
+export type GitConflictChoice = 'ours' | 'theirs' | 'base' | 'both';
+
+export interface GitOperationState {
+  operation: 'merge' | 'rebase' | 'cherry-pick' | 'revert' | null;
+  head?: string;
+  onto?: string;
+  conflicts: string[];
+}
+
+export interface GitMergeResult {
+  status: 'merged' | 'fast-forward' | 'up-to-date' | 'conflicts';
+  conflicts: string[];
+}
+
+export interface GitConflictRegion {
+  index: number;
+  startLine: number;
+  ours: string[];
+  theirs: string[];
+  base?: string[];
+  oursLabel: string;
+  theirsLabel: string;
+  baseLabel?: string;
+}
+
+export interface GitConflictFile {
+  path: string;
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  content: string;
+  regions: GitConflictRegion[];
+}
+
+export type GitConflictResolution =
+  | { content: string }
+  | { choice: GitConflictChoice }
+  | { choices: GitConflictChoice[] };
+
+export interface GitBranch {
+  name: string;
+  current: boolean;
+  commit: string;
+}
+
+interface GitResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+class GitApiService {
+  async getStatus(): Promise<GitStatus> {
+    return (await ideApiClient.get<GitResponse<GitStatus>>('/git/status')).data;
+  }
+
+  /**
+   * Per-file diffs of the working tree, or of the index when `staged`
+   */
+  async getDiff(staged = false, file?: string): Promise<GitFileDiff[]> {
+    const params = new URLSearchParams();
+    params.append('staged', String(staged));
+    if (file) {
+      params.append('file', file);
+    }
+    return (await ideApiClient.get<GitResponse<GitFileDiff[]>>(`/git/diff?${params.toString()}`)).data;
+  }
+
+  /**
+   * Diff parsed into files, hunks and numbered lines
+   */
+  async getParsedDiff(staged = false, file?: string, context?: number): Promise<GitParsedDiffFile[]> {
+    const params = new URLSearchParams();
+    params.append('staged', String(staged));
+    if (file) {
+      params.append('file', file);
+    }
+    if (context !== undefined) {
+      params.append('context', context.toString());
+    }
+    return (await ideApiClient.get<GitResponse<GitParsedDiffFile[]>>(`/git/diff/parsed?${params.toString()}`)).data;
+  }
+
+  /**
+   * Stage, unstage or discard (admin only) selected hunks or lines of one file
+   */
+  async applyHunks(action: GitHunkAction, file: string, hunks: GitHunkSelection[]): Promise<void> {
+    await ideApiClient.post(`/git/hunks/${action}`, { file, hunks });
+  }
+
+  async stage(files: string[]): Promise<void> {
+    await ideApiClient.post('/git/add', { files });
+  }
+
+  async unstage(files: string[]): Promise<void> {
+    await ideApiClient.post('/git/unstage', { files });
+  }
+
+  async commit(message: string): Promise<GitCommit> {
+    return (await ideApiClient.post<GitResponse<GitCommit>>('/git/commit', { message })).data;
+  }
+
+  async getBranches(): Promise<GitBranch[]> {
+    return (await ideApiClient.get<GitResponse<GitBranch[]>>('/git/branches')).data;
+  }
+
+  async getLog(maxCount = 20, file?: string): Promise<GitCommit[]> {
+    const params = new URLSearchParams();
+    params.append('maxCount', maxCount.toString());
+    if (file) {
+      params.append('file', file);
+    }
+    return (await ideApiClient.get<GitResponse<GitCommit[]>>(`/git/log?${params.toString()}`)).data;
+  }
+
+  async getBlame(file: string, range?: { start?: number; end?: number }, rev?: string): Promise<GitBlameLine[]> {
+    const params = new URLSearchParams();
+    params.append('file', file);
+    if (range?.start) {
+      params.append('start', range.start.toString());
+    }
+    if (range?.end) {
+      params.append('end', range.end.toString());
+    }
+    if (rev) {
+      params.append('rev', rev);
+    }
+    return (await ideApiClient.get<GitResponse<GitBlameLine[]>>(`/git/blame?${params.toString()}`)).data;
+  }
+
+  /**
+   * Commits touching a file, following renames
+   */
+  async getFileHistory(file: string, maxCount = 50): Promise<GitFileHistoryEntry[]> {
+    const params = new URLSearchParams();
+    params.append('file', file);
+    params.append('maxCount', maxCount.toString());
+    return (await ideApiClient.get<GitResponse<GitFileHistoryEntry[]>>(`/git/history?${params.toString()}`)).data;
+  }
+
+  async getCommit(ref: string): Promise<GitCommitDetails> {
+    return (await ideApiClient.get<GitResponse<GitCommitDetails>>(`/git/commit/${encodeURIComponent(ref)}`)).data;
+  }
+
+  async getGraph(maxCount = 100, all = false): Promise<GitGraphNode[]> {
+    const params = new URLSearchParams();
+    params.append('maxCount', maxCount.toString());
+    params.append('all', String(all));
+    return (await ideApiClient.get<GitResponse<GitGraphNode[]>>(`/git/graph?${params.toString()}`)).data;
+  }
+
+  async merge(branch: string, noFf = false): Promise<GitMergeResult> {
+    return (await ideApiClient.post<GitResponse<GitMergeResult>>('/git/merge', { branch, noFf })).data;
+  }
+
+  async rebase(onto: string): Promise<GitMergeResult> {
+    return (await ideApiClient.post<GitResponse<GitMergeResult>>('/git/rebase', { onto })).data;
+  }
+
+  /**
+   * Merge/rebase/cherry-pick/revert in progress and its conflicted files
+   */
+  async getOperation(): Promise<GitOperationState> {
+    return (await ideApiClient.get<GitResponse<GitOperationState>>('/git/operation')).data;
+  }
+
+  async abortOperation(): Promise<void> {
+    await ideApiClient.post('/git/abort');
+  }
+
+  async continueOperation(): Promise<GitMergeResult> {
+    return (await ideApiClient.post<GitResponse<GitMergeResult>>('/git/continue')).data;
+  }
+
+  async getConflict(file: string): Promise<GitConflictFile> {
+    return (await ideApiClient.get<GitResponse<GitConflictFile>>(`/git/conflicts?file=${encodeURIComponent(file)}`)).data;
+  }
+
+  /**
+   * Write the resolution and stage the file
+   */
+  async resolveConflict(file: string, resolution: GitConflictResolution): Promise<void> {
+    await ideApiClient.post('/git/conflicts/resolve', { file, ...resolution });
+  }
+}
+
+export const gitApiService = new GitApiService();
@@ -0,0 +1,40 @@
+/**
+ * CommitHistory Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { graphEdges } from '../components/CommitHistory';
+import type { GitGraphNode } from '../services/gitApiService';
+
+const node = (hash: string, parents: string[], lane: number, parentLanes: number[]): GitGraphNode => ({
+  hash,
+  parents,
+  lane,
+  parentLanes,
+  author: 'Dev',
+  date: '2024-01-01T00:00:00Z',
+  message: hash,
+  refs: { head: false, branches: [], tags: [] },
+});
+
+describe('graphEdges', () => {
+  it('should route merge parents through their lanes to the parent row', () => {
+    const edges = graphEdges([
+      node('m', ['c1', 'f'], 0, [0, 1]),
+      node('f', ['root'], 1, [1]),
+      node('c1', ['root'], 0, [1]),
+      node('root', [], 1, []),
+    ]);
+
+    expect(edges).toEqual([
+      { d: 'M6,14 L6,28 L6,56 L6,70', lane: 0 },
+      { d: 'M6,14 L18,28 L18,28 L18,42', lane: 1 },
+      { d: 'M18,42 L18,56 L18,84 L18,98', lane: 1 },
+      { d: 'M6,70 L18,84 L18,84 L18,98', lane: 0 },
+    ]);
+  });
+
+  it('should run edges to parents outside the page off the bottom', () => {
+    expect(graphEdges([node('tip', ['older'], 0, [0])])).toEqual([{ d: 'M6,14 L6,28 L6,28', lane: 0 }]);
+  });
+});
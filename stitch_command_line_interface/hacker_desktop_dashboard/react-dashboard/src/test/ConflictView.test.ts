@@ -0,0 +1,34 @@
+/**
+ * ConflictView Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { regionResult } from '../components/ConflictView';
+import type { GitConflictRegion } from '../services/gitApiService';
+
+const region: GitConflictRegion = {
+  index: 0,
+  startLine: 3,
+  ours: ['main'],
+  base: ['two'],
+  theirs: ['feature'],
+  oursLabel: 'HEAD',
+  baseLabel: 'base',
+  theirsLabel: 'feature',
+};
+
+describe('regionResult', () => {
+  it('should return the chosen side', () => {
+    expect(regionResult(region, 'ours')).toEqual(['main']);
+    expect(regionResult(region, 'theirs')).toEqual(['feature']);
+    expect(regionResult(region, 'base')).toEqual(['two']);
+  });
+
+  it('should keep ours before theirs for both', () => {
+    expect(regionResult(region, 'both')).toEqual(['main', 'feature']);
+  });
+
+  it('should be empty for base without a diff3 section', () => {
+    expect(regionResult({ ...region, base: undefined }, 'base')).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * DebugPanel Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { debugDecorations, formatDebugValue, type DebugBreakpoint } from '../components/DebugPanel';
+
+const breakpoints: DebugBreakpoint[] = [
+  { id: 'bp-1', file: 'src/app.js', line: 3, enabled: true },
+  { id: 'bp-2', file: 'src/app.js', line: 8, enabled: false, condition: 'i > 2' },
+  { id: 'bp-3', file: 'src/other.js', line: 1, enabled: true },
+];
+
+describe('formatDebugValue', () => {
+  it('should preview primitives, arrays and objects on one line', () => {
+    expect(formatDebugValue(undefined)).toBe('undefined');
+    expect(formatDebugValue(null)).toBe('null');
+    expect(formatDebugValue('hi')).toBe('"hi"');
+    expect(formatDebugValue(42)).toBe('42');
+    expect(formatDebugValue([1, 2, 3])).toBe('Array(3)');
+    expect(formatDebugValue({ a: 1, b: 2, c: 3, d: 4 })).toBe('{a, b, c, …}');
+    expect(formatDebugValue({})).toBe('{}');
+  });
+});
+
+describe('debugDecorations', () => {
+  it('should mark only the open file and distinguish disabled breakpoints', () => {
+    const marks = debugDecorations(breakpoints, 'src/app.js');
+
+    expect(marks.map(m => [m.range.startLineNumber, m.options.glyphMarginClassName])).toEqual([
+      [3, 'debug-breakpoint'],
+      [8, 'debug-breakpoint-disabled'],
+    ]);
+    expect(marks[1].options.glyphMarginHoverMessage?.value).toContain('i > 2');
+  });
+
+  it('should highlight the paused line', () => {
+    const marks = debugDecorations([], 'src/app.js', 5);
+
+    expect(marks).toEqual([{
+      range: { startLineNumber: 5, startColumn: 1, endLineNumber: 5, endColumn: 1 },
+      options: { isWholeLine: true, className: 'debug-current-line', glyphMarginClassName: 'debug-current-frame' },
+    }]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * DiffViewer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toSideBySide } from '../components/DiffViewer';
+import type { GitDiffHunk } from '../services/gitApiService';
+
+const hunk: GitDiffHunk = {
+  header: '@@ -1,4 +1,4 @@',
+  oldStart: 1,
+  oldLines: 4,
+  newStart: 1,
+  newLines: 4,
+  lines: [
+    { type: 'context', content: 'a', oldLine: 1, newLine: 1 },
+    { type: 'del', content: 'b', oldLine: 2 },
+    { type: 'del', content: 'c', oldLine: 3 },
+    { type: 'add', content: 'B', newLine: 2 },
+    { type: 'context', content: 'd', oldLine: 4, newLine: 3 },
+    { type: 'add', content: 'e', newLine: 4 },
+  ],
+};
+
+describe('toSideBySide', () => {
+  it('should pair deletions with the additions that follow them', () => {
+    const rows = toSideBySide(hunk).map((row) => [row.left?.line.content ?? null, row.right?.line.content ?? null]);
+
+    expect(rows).toEqual([
+      ['a', 'a'],
+      ['b', 'B'],
+      ['c', null],
+      ['d', 'd'],
+      [null, 'e'],
+    ]);
+  });
+
+  it('should keep indices into the hunk for line selection', () => {
+    const rows = toSideBySide(hunk);
+
+    expect(rows[1].left?.index).toBe(1);
+    expect(rows[1].right?.index).toBe(3);
+    expect(rows[4].right?.index).toBe(5);
+  });
+});
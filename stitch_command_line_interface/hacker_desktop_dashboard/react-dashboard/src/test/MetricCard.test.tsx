@@ -70,6 +70,17 @@ describe('MetricCard', () => {
     
     expect(container.querySelector('.text-cyan')).toBeInTheDocument();
   });
+
+  it('should render a trend sparkline when values are provided', () => {
+    const { container } = render(
+      <MetricCard title="CPU" trend={[10, 40, 25, 60]}>
+        <div>Content</div>
+      </MetricCard>
+    );
+
+    expect(screen.getByRole('img', { name: 'CPU trend' })).toBeInTheDocument();
+    expect(container.querySelector('polyline')).toBeInTheDocument();
+  });
 });
 
 describe('MetricRow', () => {
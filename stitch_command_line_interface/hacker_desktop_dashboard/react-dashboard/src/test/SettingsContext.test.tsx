@@ -0,0 +1,121 @@
+/**
+ * Settings Context Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { SettingsProvider, useSettings } from '../contexts/SettingsContext';
+import { backendApiService } from '../services/backendApiService';
+
+vi.mock('../services/backendApiService', () => ({
+  backendApiService: {
+    syncPolicyHostLists: vi.fn().mockResolvedValue({ rules: [] }),
+    syncRedactionSettings: vi.fn().mockResolvedValue({ settings: {} }),
+    syncCiSettings: vi.fn().mockResolvedValue({ settings: {} }),
+    syncArtifactSettings: vi.fn().mockResolvedValue({ settings: {} }),
+  },
+}));
+
+vi.mock('../services/executionApiService', () => ({
+  executionApiService: {
+    syncSettings: vi.fn().mockResolvedValue({ networkAccess: 'off', maxNetworkAccess: 'full' }),
+  },
+}));
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <SettingsProvider>{children}</SettingsProvider>
+);
+
+describe('SettingsContext', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not push server-wide settings when it loads', () => {
+    localStorage.setItem('workspace-settings', JSON.stringify({ hostAllowlist: ['example.com'], secretRedaction: false }));
+    renderHook(() => useSettings(), { wrapper });
+
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(backendApiService.syncPolicyHostLists).not.toHaveBeenCalled();
+    expect(backendApiService.syncRedactionSettings).not.toHaveBeenCalled();
+    expect(backendApiService.syncCiSettings).not.toHaveBeenCalled();
+    expect(backendApiService.syncArtifactSettings).not.toHaveBeenCalled();
+  });
+
+  it('should push both host lists once edits settle', () => {
+    const { result } = renderHook(() => useSettings(), { wrapper });
+
+    act(() => {
+      result.current.updateSetting('hostAllowlist', ['a.example']);
+    });
+    act(() => {
+      result.current.updateSetting('hostDenylist', ['b.example']);
+    });
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(backendApiService.syncPolicyHostLists).toHaveBeenCalledTimes(1);
+    expect(backendApiService.syncPolicyHostLists).toHaveBeenCalledWith(['a.example'], ['b.example']);
+  });
+
+  it('should push the whole redaction configuration when one of its settings is edited', () => {
+    const { result } = renderHook(() => useSettings(), { wrapper });
+
+    act(() => {
+      result.current.updateSetting('secretPatterns', ['token_[a-z]+', ' ']);
+    });
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(backendApiService.syncRedactionSettings).toHaveBeenCalledWith(expect.objectContaining({
+      secretRedaction: result.current.settings.secretRedaction,
+      customPatterns: ['token_[a-z]+'],
+    }));
+    expect(backendApiService.syncPolicyHostLists).not.toHaveBeenCalled();
+  });
+
+  it('should push the CI settings when one of them is edited', () => {
+    const { result } = renderHook(() => useSettings(), { wrapper });
+
+    act(() => {
+      result.current.updateSetting('ciAutoRetryCount', 2);
+    });
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(backendApiService.syncCiSettings).toHaveBeenCalledWith({
+      ciAutoRetryCount: 2,
+      ciQuarantineFlaky: result.current.settings.ciQuarantineFlaky,
+      coverageThreshold: result.current.settings.coverageThreshold,
+    });
+  });
+
+  it('should push the artifact settings when one of them is edited', () => {
+    const { result } = renderHook(() => useSettings(), { wrapper });
+
+    act(() => {
+      result.current.updateSetting('artifactEncryption', true);
+    });
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(backendApiService.syncArtifactSettings).toHaveBeenCalledWith({
+      artifactRetentionDays: result.current.settings.artifactRetentionDays,
+      artifactEncryption: true,
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * CI State Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ciStateFromRun } from '../hooks/useWebSocket';
+import type { CiRun } from '../types';
+
+const run = (overrides: Partial<CiRun>): CiRun => ({
+  id: 'run-7',
+  number: 7,
+  pipeline: 'main',
+  status: 'running',
+  startedAt: '2024-01-01T00:00:00.000Z',
+  steps: [
+    { id: 'build/install', stage: 'build', name: 'install', command: 'npm ci', status: 'pass' },
+    { id: 'test/unit', stage: 'test', name: 'unit', command: 'npm test', status: 'fail' },
+    { id: 'deploy/ship', stage: 'deploy', name: 'ship', command: 'ship', status: 'skipped' },
+  ],
+  ...overrides,
+});
+
+describe('ciStateFromRun', () => {
+  it('should count step outcomes and use the elapsed time while running', () => {
+    const state = ciStateFromRun(run({}), Date.parse('2024-01-01T00:00:02.500Z'));
+
+    expect(state.build).toEqual({ durationMs: 2500, cacheHitPct: null, status: 'running' });
+    expect(state.tests).toMatchObject({ pass: 1, fail: 1, skip: 1, lastRunAt: '2024-01-01T00:00:00.000Z' });
+    expect(state.logsRef).toBe('run-7');
+  });
+
+  it('should report a cancelled run as failed with its recorded duration', () => {
+    const state = ciStateFromRun(run({ status: 'cancelled', durationMs: 900 }));
+
+    expect(state.build).toMatchObject({ durationMs: 900, status: 'fail' });
+  });
+
+  it('should prefer test report totals over step outcomes', () => {
+    const state = ciStateFromRun(run({ status: 'pass', tests: { pass: 40, fail: 2, skip: 3, flaky: 2 } }));
+
+    expect(state.tests).toEqual({ pass: 40, fail: 2, skip: 3, flaky: 2, lastRunAt: '2024-01-01T00:00:00.000Z' });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Log Query Hook Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildLogQuery } from '../hooks/useLogQuery';
+import { DEFAULT_SETTINGS } from '../types/settings';
+
+describe('buildLogQuery', () => {
+  it('should build the default query from settings', () => {
+    expect(buildLogQuery(DEFAULT_SETTINGS)).toBe('level:info,warn,error source:backend,file,process');
+  });
+
+  it('should leave out empty parts', () => {
+    expect(buildLogQuery({ logLevels: [], logSources: [' ', ''], logFilterRegex: '' })).toBe('');
+  });
+
+  it('should wrap the filter regex and escape bare slashes', () => {
+    expect(buildLogQuery({ logLevels: ['error'], logSources: [], logFilterRegex: 'GET /api\\/v1' }))
+      .toBe('level:error /GET \\/api\\/v1/i');
+  });
+});
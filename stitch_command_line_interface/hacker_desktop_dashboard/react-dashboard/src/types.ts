@@ -32,10 +32,155 @@ export type FileChangeEvent = {
   count: number;
 };
 
+export type TestCounts = { pass: number; fail: number; skip: number; flaky: number };
+
+export type CoverageMetric = { covered: number; total: number; pct: number };
+
+export type CoverageTotals = { lines: CoverageMetric; functions: CoverageMetric; branches: CoverageMetric };
+
+/** threshold is the line coverage the run was held to (0 when not enforced) */
+export type CiRunCoverage = CoverageTotals & { files: number; threshold: number };
+
+/**
+ * Line coverage of one file from /v1/ci/coverage?path=
+ */
+export type FileLineCoverage = {
+  runId: string;
+  file: string;
+  lines: CoverageMetric;
+  covered: number[];
+  uncovered: number[];
+};
+
+/**
+ * Stored pipeline output from /v1/artifacts; `url` is relative to the backend host
+ */
+export type CiArtifact = {
+  id: string;
+  name: string;
+  runId: string;
+  stepId: string;
+  size: number;
+  sha256: string;
+  encrypted: boolean;
+  createdAt: string;
+  url: string;
+};
+
+export type CiStepStatus = "pending" | "running" | "pass" | "fail" | "skipped" | "cancelled";
+
+export type CiStepResult = {
+  id: string;
+  stage: string;
+  name: string;
+  command: string;
+  status: CiStepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  exitCode?: number | null;
+  timedOut?: boolean;
+  attempts?: number;
+  tests?: TestCounts;
+  /** Failing flaky tests that did not fail the step */
+  quarantined?: string[];
+  /** Artifact ids */
+  artifacts?: string[];
+};
+
+/**
+ * One pipeline run from /v1/ci/runs, also pushed as `ci:run` on the `ci` topic
+ */
+export type CiRun = {
+  id: string;
+  number: number;
+  pipeline: string;
+  branch?: string;
+  commit?: string;
+  trigger?: string;
+  status: "running" | "pass" | "fail" | "cancelled";
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+  steps: CiStepResult[];
+  tests?: TestCounts;
+  coverage?: CiRunCoverage;
+};
+
+export type CiLogChunk = { runId: string; stepId: string; chunk: string };
+
+type CiTestSummary = {
+  id: string;
+  suite: string;
+  name: string;
+  file?: string;
+  runs: number;
+  lastStatus: "pass" | "fail" | "skip";
+  lastRunAt: string;
+};
+
+export type CiTestView = "slowest" | "failing" | "flaky";
+
+/**
+ * Entries of /v1/ci/tests/:view
+ */
+export type CiTestViewEntry<V extends CiTestView = CiTestView> = CiTestSummary &
+  {
+    slowest: { avgDurationMs: number; maxDurationMs: number };
+    failing: { streak: number; failingSince: string; message?: string };
+    flaky: { flips: number; lastFlipAt: string };
+  }[V];
+
+/**
+ * One test execution from /v1/ci/runs/:ref/tests
+ */
+export type CiTestExecution = Omit<CiTestSummary, "runs" | "lastStatus" | "lastRunAt"> & {
+  runId: string;
+  commit?: string;
+  stepId: string;
+  attempt: number;
+  status: "pass" | "fail" | "skip";
+  durationMs: number;
+  message?: string;
+  at: string;
+};
+
 export type CiState = {
-  build: { durationMs: number; cacheHitPct: number; status: "pass" | "fail" | "running" };
-  tests: { pass: number; fail: number; skip: number; flaky: number; lastRunAt: string };
+  /** cacheHitPct is null when the runner has no build cache to report */
+  build: { durationMs: number; cacheHitPct: number | null; status: "pass" | "fail" | "running" | "idle" };
+  tests: { pass: number; fail: number; skip: number; flaky: number; lastRunAt: string | null };
   logsRef: string;
+  run?: CiRun | null;
+};
+
+/**
+ * One host metrics sample from /v1/system/metrics.
+ * Fields the backend cannot read on the current host are null.
+ */
+export type SystemMetricsSample = {
+  timestamp: string;
+  cpu: { usage: number | null; cores: number; perCore: (number | null)[]; temperature: number | null };
+  memory: {
+    used: number | null;
+    free: number | null;
+    available: number | null;
+    cached: number | null;
+    total: number | null;
+    unit: "MB";
+  };
+  battery: { charging: boolean | null; percentage: number | null; timeRemaining: number | null };
+  network: { rx: number | null; tx: number | null; unit: "KB/s" };
+};
+
+export type MetricsSeriesPoint = { t: number; min: number; avg: number; max: number; count: number };
+
+export type MetricsHistory = {
+  from: string;
+  to: string;
+  step: number;
+  resolution: "raw" | "10s" | "1m" | "5m";
+  series: Record<string, MetricsSeriesPoint[]>;
 };
 
 export type SecState = {
@@ -98,6 +98,7 @@ export interface WorkspaceSettings {
   snapshotUpdatePolicy: 'prompt' | 'never' | 'ci-only';
 
   // 8) Logs & Console
+  /** Source names, kinds (`backend`, `file`, `process`) or globs such as `process:deploy:*` */
   logSources: string[];
   logLevels: ('info' | 'warn' | 'error')[];
   logFilterRegex: string;
@@ -111,6 +112,8 @@ export interface WorkspaceSettings {
   firewallEnabled: boolean;
   encryptionEnabled: boolean;
   secretRedaction: boolean;
+  /** Extra regexes masked alongside the built-in secret detectors */
+  secretPatterns: string[];
   commandRiskBanner: boolean;
   panicModeActions: string[];
   airGapMode: boolean;
@@ -269,7 +272,7 @@ export const DEFAULT_SETTINGS: WorkspaceSettings = {
   snapshotUpdatePolicy: 'prompt',
 
   // 8) Logs & Console
-  logSources: ['dev-server', 'runner', 'system', 'network'],
+  logSources: ['backend', 'file', 'process'],
   logLevels: ['info', 'warn', 'error'],
   logFilterRegex: '',
   logRetainSessions: 10,
@@ -282,6 +285,7 @@ export const DEFAULT_SETTINGS: WorkspaceSettings = {
   firewallEnabled: true,
   encryptionEnabled: true,
   secretRedaction: true,
+  secretPatterns: [],
   commandRiskBanner: true,
   panicModeActions: [],
   airGapMode: false,